@@ -0,0 +1,148 @@
+// components/AdjudicationControls.tsx
+import { useState, useId } from 'react';
+import { CheckCircle, XCircle, Edit3, UserCheck, Bot } from 'lucide-react';
+import type { Adjudication, AdjudicationDecision } from '../types';
+
+interface AdjudicationControlsProps {
+    adjudication?: Adjudication | null;
+    // Values offered when correcting; when omitted the reviewer types the corrected value
+    correctionOptions?: Array<{ value: string; label: string }>;
+    correctionSuggestions?: string[];
+    onSubmit: (decision: AdjudicationDecision, correctedValue: string | null, note: string) => Promise<void>;
+}
+
+const DECISION_STYLES: Record<AdjudicationDecision, string> = {
+    confirmed: 'bg-green-100 text-green-800',
+    rejected: 'bg-red-100 text-red-800',
+    corrected: 'bg-blue-100 text-blue-800'
+};
+
+export const AdjudicationControls = ({
+    adjudication,
+    correctionOptions,
+    correctionSuggestions = [],
+    onSubmit
+}: AdjudicationControlsProps) => {
+    const [pendingDecision, setPendingDecision] = useState<AdjudicationDecision | null>(null);
+    const [correctedValue, setCorrectedValue] = useState('');
+    const [note, setNote] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const startDecision = (decision: AdjudicationDecision) => {
+        setPendingDecision(decision);
+        setCorrectedValue(adjudication?.corrected_value || '');
+        setNote('');
+        setError(null);
+    };
+
+    const needsNote = pendingDecision !== null && pendingDecision !== 'confirmed';
+    const canSubmit = pendingDecision !== null
+        && (!needsNote || note.trim().length > 0)
+        && (pendingDecision !== 'corrected' || correctedValue.trim().length > 0);
+
+    const handleSubmit = async () => {
+        if (!pendingDecision || !canSubmit) return;
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await onSubmit(pendingDecision, pendingDecision === 'corrected' ? correctedValue.trim() : null, note.trim());
+            setPendingDecision(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save decision');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const datalistId = useId();
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                {adjudication ? (
+                    <span
+                        className={`inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium ${DECISION_STYLES[adjudication.decision]}`}
+                        title={adjudication.note || undefined}
+                    >
+                        <UserCheck size={12} />
+                        Clinician {adjudication.decision}
+                        {adjudication.corrected_value && <>: {adjudication.corrected_value}</>}
+                        {adjudication.reviewer && <> by {adjudication.reviewer}</>}
+                    </span>
+                ) : (
+                    <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        <Bot size={12} />
+                        AI-only
+                    </span>
+                )}
+                <button onClick={() => startDecision('confirmed')} className="inline-flex items-center gap-1 px-2 py-1 text-xs text-green-700 hover:bg-green-50 rounded">
+                    <CheckCircle size={14} /> Confirm
+                </button>
+                <button onClick={() => startDecision('rejected')} className="inline-flex items-center gap-1 px-2 py-1 text-xs text-red-700 hover:bg-red-50 rounded">
+                    <XCircle size={14} /> Reject
+                </button>
+                <button onClick={() => startDecision('corrected')} className="inline-flex items-center gap-1 px-2 py-1 text-xs text-blue-700 hover:bg-blue-50 rounded">
+                    <Edit3 size={14} /> Correct
+                </button>
+            </div>
+
+            {adjudication?.note && !pendingDecision && (
+                <p className="text-xs text-gray-500 italic">&ldquo;{adjudication.note}&rdquo;</p>
+            )}
+
+            {pendingDecision && (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+                    {pendingDecision === 'corrected' && (
+                        correctionOptions ? (
+                            <select
+                                value={correctedValue}
+                                onChange={(e) => setCorrectedValue(e.target.value)}
+                                className="w-full p-2 text-sm border border-gray-300 rounded"
+                            >
+                                <option value="">Select the correct value...</option>
+                                {correctionOptions.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        ) : (
+                            <>
+                                <input
+                                    type="text"
+                                    list={datalistId}
+                                    value={correctedValue}
+                                    onChange={(e) => setCorrectedValue(e.target.value)}
+                                    placeholder="Correct comorbidity"
+                                    className="w-full p-2 text-sm border border-gray-300 rounded"
+                                />
+                                <datalist id={datalistId}>
+                                    {correctionSuggestions.map(suggestion => <option key={suggestion} value={suggestion} />)}
+                                </datalist>
+                            </>
+                        )
+                    )}
+                    <textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder={needsNote ? 'Reviewer note (required)' : 'Reviewer note (optional)'}
+                        rows={2}
+                        className="w-full p-2 text-sm border border-gray-300 rounded"
+                    />
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handleSubmit}
+                            disabled={!canSubmit || isSubmitting}
+                            className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            {isSubmitting ? 'Saving...' : `Save ${pendingDecision}`}
+                        </button>
+                        <button onClick={() => setPendingDecision(null)} className="px-3 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded">
+                            Cancel
+                        </button>
+                        {error && <span className="text-xs text-red-600">{error}</span>}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
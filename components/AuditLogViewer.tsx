@@ -0,0 +1,230 @@
+// components/AuditLogViewer.tsx
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import { Download, RefreshCw, ShieldCheck, ShieldAlert, ChevronDown, ChevronRight } from 'lucide-react';
+import type { AuditLogEntry, AuditLogVerification } from '../types';
+
+// Action prefixes; the log filters on the start of the action name
+const ACTION_GROUPS = [
+    { value: '', label: 'All actions' },
+    { value: 'job.results', label: 'Viewed or downloaded results' },
+    { value: 'job.', label: 'Any job action' },
+    { value: 'job.delete', label: 'Deleted jobs' },
+    { value: 'comorbidity.', label: 'Comorbidity definitions' },
+    { value: 'adjudication.', label: 'Adjudications' },
+    { value: 'configuration.', label: 'Saved configurations' },
+    { value: 'reference_file.', label: 'Reference file uploads' },
+    { value: 'auth.', label: 'Sign-in and sign-out' },
+    { value: 'audit_log.', label: 'Audit log access' }
+];
+
+const formatValue = (value: unknown) => value === null || value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+export const AuditLogViewer = () => {
+    const [userFilter, setUserFilter] = useState('');
+    const [action, setAction] = useState('');
+    const [resourceId, setResourceId] = useState('');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [verification, setVerification] = useState<AuditLogVerification | null>(null);
+    const [expandedSeq, setExpandedSeq] = useState<number | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const params = new URLSearchParams();
+    if (userFilter.trim()) params.set('user', userFilter.trim());
+    if (action) params.set('action', action);
+    if (resourceId.trim()) params.set('resource_id', resourceId.trim());
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    const query = params.toString();
+
+    const fetchLog = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/audit-log${query ? `?${query}` : ''}`);
+            if (!response.ok) {
+                const errorResult = await response.json();
+                throw new Error(errorResult.error || `HTTP error! status: ${response.status}`);
+            }
+            const result = await response.json();
+            setEntries(result.entries);
+            setVerification(result.verification);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        } finally {
+            setLoading(false);
+        }
+    }, [query]);
+
+    useEffect(() => {
+        fetchLog();
+    }, [fetchLog]);
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h3 className="text-lg font-medium text-gray-900">Audit Trail</h3>
+                        <p className="text-sm text-gray-600">
+                            Every API action, who made it and what it changed. Entries are hash-chained, so any edit to or
+                            removal from the stored log shows up as a broken chain below.
+                        </p>
+                    </div>
+                    {verification && (
+                        verification.valid ? (
+                            <span className="flex items-center gap-1 px-3 py-1 text-sm font-medium text-green-800 bg-green-100 rounded-full whitespace-nowrap">
+                                <ShieldCheck size={16} /> Chain intact ({verification.entries_checked} entries)
+                            </span>
+                        ) : (
+                            <span className="flex items-center gap-1 px-3 py-1 text-sm font-medium text-red-800 bg-red-100 rounded-full whitespace-nowrap">
+                                <ShieldAlert size={16} /> Chain broken at entry {verification.first_invalid_seq}
+                            </span>
+                        )
+                    )}
+                </div>
+                <div className="flex flex-wrap items-end gap-6">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">User</label>
+                        <input
+                            type="text"
+                            value={userFilter}
+                            onChange={(e) => setUserFilter(e.target.value)}
+                            placeholder="Name or ID"
+                            className="p-2 text-sm border border-gray-300 rounded"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+                        <select value={action} onChange={(e) => setAction(e.target.value)} className="p-2 text-sm border border-gray-300 rounded">
+                            {ACTION_GROUPS.map(group => <option key={group.value} value={group.value}>{group.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Job or resource ID</label>
+                        <input
+                            type="text"
+                            value={resourceId}
+                            onChange={(e) => setResourceId(e.target.value)}
+                            className="p-2 text-sm border border-gray-300 rounded"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="p-2 text-sm border border-gray-300 rounded" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="p-2 text-sm border border-gray-300 rounded" />
+                    </div>
+                    <button
+                        onClick={fetchLog}
+                        disabled={loading}
+                        className="flex items-center gap-2 px-3 py-2 text-sm text-blue-700 hover:bg-blue-50 rounded disabled:opacity-50"
+                    >
+                        <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+                        Refresh
+                    </button>
+                    <a
+                        href={`/api/audit-log/export${query ? `?${query}` : ''}`}
+                        className="flex items-center gap-2 px-3 py-2 text-sm text-blue-700 hover:bg-blue-50 rounded"
+                    >
+                        <Download size={14} />
+                        Export CSV
+                    </a>
+                </div>
+                {verification && verification.recovered_seqs.length > 0 && (
+                    <p className="text-sm text-amber-700">
+                        Appends were interrupted before entr{verification.recovered_seqs.length === 1 ? 'y' : 'ies'}{' '}
+                        {verification.recovered_seqs.join(', ')}. The unreadable lines are kept in those recovery entries.
+                    </p>
+                )}
+                {verification?.last_hash && (
+                    <p className="text-xs text-gray-500">
+                        Latest hash <span className="font-mono">{verification.last_hash}</span>. The chain cannot show entries removed
+                        from its end; record this hash outside the app from time to time so a shortened log can be detected.
+                    </p>
+                )}
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            {['', '#', 'Time', 'User', 'Action', 'Resource', 'Status'].map(heading => (
+                                <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{heading}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {entries.length === 0 && (
+                            <tr>
+                                <td colSpan={7} className="px-4 py-6 text-center text-gray-500">
+                                    {loading ? 'Loading audit trail...' : 'No entries match the selected filters.'}
+                                </td>
+                            </tr>
+                        )}
+                        {entries.map(entry => {
+                            const isExpanded = expandedSeq === entry.seq;
+                            return (
+                                <Fragment key={entry.seq}>
+                                    <tr
+                                        onClick={() => setExpandedSeq(isExpanded ? null : entry.seq)}
+                                        className={`cursor-pointer hover:bg-gray-50 ${entry.status >= 400 ? 'text-red-700' : 'text-gray-900'}`}
+                                    >
+                                        <td className="px-4 py-2 text-gray-400">
+                                            {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                        </td>
+                                        <td className="px-4 py-2 text-gray-500">{entry.seq}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                                        <td className="px-4 py-2">{entry.user ? `${entry.user.name} (${entry.user.role})` : entry.method === 'SYSTEM' ? 'System' : 'Not signed in'}</td>
+                                        <td className="px-4 py-2 font-mono">{entry.action}</td>
+                                        <td className="px-4 py-2">{entry.resource_id ? `${entry.resource_type} ${entry.resource_id}` : '—'}</td>
+                                        <td className="px-4 py-2">{entry.status}</td>
+                                    </tr>
+                                    {isExpanded && (
+                                        <tr className="bg-gray-50">
+                                            <td colSpan={7} className="px-4 py-3 space-y-2">
+                                                <p className="text-gray-600">
+                                                    <span className="font-mono">{entry.method} /api/{entry.path}</span>
+                                                </p>
+                                                {entry.changes ? (
+                                                    <table className="min-w-full text-xs">
+                                                        <thead>
+                                                            <tr className="text-left text-gray-500">
+                                                                <th className="pr-4 py-1">Record</th>
+                                                                <th className="pr-4 py-1">Field</th>
+                                                                <th className="pr-4 py-1">Before</th>
+                                                                <th className="py-1">After</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {entry.changes.map((change, index) => (
+                                                                <tr key={index} className="align-top">
+                                                                    <td className="pr-4 py-1">{change.id || '—'}</td>
+                                                                    <td className="pr-4 py-1 font-mono">{change.field}</td>
+                                                                    <td className="pr-4 py-1 text-red-700 break-all">{formatValue(change.before)}</td>
+                                                                    <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                ) : (
+                                                    <p className="text-gray-500">No recorded changes.</p>
+                                                )}
+                                                <p className="text-xs text-gray-400 font-mono break-all">hash {entry.hash}</p>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </Fragment>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,18 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import Modal from 'react-modal';
-import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, ErrorBar } from 'recharts';
+import type {
+    FileBreakdown, ComorbidityMatch, Adjudication, AdjudicationDecision, AdjudicationTarget, VerificationSplit,
+    ControlChartSettings, ControlChartSeries, ControlOutcome, ControlBenchmarks, RateInterval, ComorbidityAssociation, AssociationTest, JobDefinitionPin
+} from '../types';
+import { PatientEvidencePanel } from './PatientEvidencePanel';
+import { AdjudicationControls } from './AdjudicationControls';
+import { ValidationReport } from './ValidationReport';
+import { OutcomeControlCharts } from './OutcomeControlCharts';
+import { DataExportPanel } from './DataExportPanel';
+import { matchTargetId, patientTargetId, matchesForPatient } from '../utils/adjudication';
+import { IndexName, categoryLabel } from '../utils/comorbidityIndices';
+import { buildControlChart, CONTROL_OUTCOMES, DEFAULT_CONTROL_SETTINGS } from '../utils/controlCharts';
 
 // Enhanced Type Definitions
 interface JobStats {
@@ -16,6 +28,7 @@ interface JobStats {
 
 interface PatientSummary {
     patient_id: number;
+    file_name?: string | null;
     total_comorbidities: number;
     highest_confidence: number;
     comorbidity_summary?: string;
@@ -28,6 +41,43 @@ interface PatientSummary {
     mortality_confidence?: number;
     mortality_causes?: string[];
     time_of_death?: string;
+    procedure_date?: string | null;
+    patient_key?: string | null;
+    source_files?: string[];
+    source_rows?: Array<{ file_name?: string | null; row_number: number }>;
+    ai_surgery_outcome?: string;
+    ai_mortality_status?: string;
+    verification?: {
+        surgery_outcome: boolean;
+        mortality_status: boolean;
+        comorbidities: string[];
+    };
+    charlson_index?: ComorbidityIndexScore;
+    elixhauser_index?: ComorbidityIndexScore;
+}
+
+interface ComorbidityIndexScore {
+    score: number;
+    categories: string[];
+    stratum: string;
+}
+
+interface ComorbidityIndexAnalytics {
+    scored_patients: number;
+    mean: number;
+    median: number;
+    max: number;
+    distribution: Record<string, number>;
+    strata: Array<{
+        stratum: string;
+        patients: number;
+        deceased: number;
+        failed_surgeries: number;
+        mortality_rate: number;
+        failure_rate: number;
+        mortality_rate_interval?: RateInterval;
+        failure_rate_interval?: RateInterval;
+    }>;
 }
 
 interface SurgeryAnalytics {
@@ -35,6 +85,7 @@ interface SurgeryAnalytics {
     failed: number;
     unknown: number;
     success_rate: number;
+    success_rate_interval?: RateInterval;
 }
 
 interface MortalityAnalytics {
@@ -54,6 +105,9 @@ interface MortalityAnalytics {
     death_rate_in_successful: number;
     high_risk_comorbidities: Record<string, number>;
     risk_distribution: Record<string, number>;
+    mortality_rate_interval?: RateInterval;
+    death_rate_in_failed_interval?: RateInterval;
+    death_rate_in_successful_interval?: RateInterval;
 }
 
 interface PatientAnalytics {
@@ -64,6 +118,16 @@ interface PatientAnalytics {
     surgery_outcomes?: SurgeryAnalytics;
     mortality_analytics?: MortalityAnalytics;
     failure_causes?: Record<string, number>;
+    verification?: {
+        surgery_outcomes: Record<string, VerificationSplit>;
+        mortality_status: Record<string, VerificationSplit>;
+        comorbidities: Record<string, VerificationSplit>;
+        failure_causes: Record<string, VerificationSplit>;
+        mortality_causes: Record<string, VerificationSplit>;
+        reviewed_patients: number;
+    };
+    comorbidity_indices?: Partial<Record<IndexName, ComorbidityIndexAnalytics>>;
+    comorbidity_associations?: ComorbidityAssociation[];
 }
 
 interface JobData {
@@ -71,41 +135,124 @@ interface JobData {
     summary: {
         matches_by_comorbidity: Record<string, number>;
     };
+    matches?: ComorbidityMatch[];
     patient_summaries?: PatientSummary[];
     patient_analytics?: PatientAnalytics;
+    files?: FileBreakdown[];
+    adjudications?: Adjudication[];
+    definition_pin?: JobDefinitionPin | null; // Absent for jobs submitted before definitions were versioned
 }
 
+const REVIEWER_STORAGE_KEY = 'mediaudit-reviewer';
+const CONTROL_LIMITS_STORAGE_KEY = 'mediaudit-control-limits';
+
+
 const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
     const [jobData, setJobData] = useState<JobData | null>(null);
     const [selectedPatient, setSelectedPatient] = useState<PatientSummary | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [viewMode, setViewMode] = useState<'overview' | 'patients' | 'surgery' | 'mortality'>('overview');
+    const [viewMode, setViewMode] = useState<'overview' | 'patients' | 'surgery' | 'mortality' | 'validation'>('overview');
+    const [reviewer, setReviewer] = useState('');
+    const [includeReportAppendix, setIncludeReportAppendix] = useState(false);
+    const [showExport, setShowExport] = useState(false);
+    const [controlSettings, setControlSettings] = useState<Record<ControlOutcome, ControlChartSettings>>({
+        surgery: DEFAULT_CONTROL_SETTINGS,
+        mortality: DEFAULT_CONTROL_SETTINGS
+    });
+    const [controlBenchmarks, setControlBenchmarks] = useState<ControlBenchmarks | null>(null);
+
+    const loadJobData = useCallback((showSpinner: boolean) => {
+        if (!jobId) return Promise.resolve();
+        if (showSpinner) setLoading(true);
+        setError(null);
+        return fetch(`/api/job-results/${jobId}?format=enhanced`)
+            .then(res => {
+                if (!res.ok) {
+                    throw new Error('Failed to fetch job results.');
+                }
+                return res.json();
+            })
+            .then(data => {
+                setJobData(data);
+            })
+            .catch(err => {
+                console.error("Error fetching job data:", err);
+                setError(err.message);
+            })
+            .finally(() => {
+                setLoading(false);
+            });
+    }, [jobId]);
 
     useEffect(() => {
-        if (jobId) {
-            setLoading(true);
-            setError(null);
-            fetch(`/api/job-results/${jobId}?format=enhanced`)
-                .then(res => {
-                    if (!res.ok) {
-                        throw new Error('Failed to fetch job results.');
-                    }
-                    return res.json();
-                })
-                .then(data => {
-                    setJobData(data);
-                })
-                .catch(err => {
-                    console.error("Error fetching job data:", err);
-                    setError(err.message);
-                })
-                .finally(() => {
-                    setLoading(false);
-                });
-        }
+        loadJobData(true);
+    }, [loadJobData]);
+
+    // Without a benchmark the control charts fall back to the job's own rate, so a failure here only loses the default target
+    useEffect(() => {
+        setControlBenchmarks(null);
+        if (!jobId) return;
+        fetch(`/api/control-benchmarks/${jobId}`)
+            .then(res => res.ok ? res.json() : null)
+            .then(data => setControlBenchmarks(data))
+            .catch(err => console.error('Error fetching control chart benchmarks:', err));
     }, [jobId]);
 
+    useEffect(() => {
+        setReviewer(localStorage.getItem(REVIEWER_STORAGE_KEY) || '');
+        try {
+            const saved = JSON.parse(localStorage.getItem(CONTROL_LIMITS_STORAGE_KEY) || '{}');
+            setControlSettings({
+                surgery: { ...DEFAULT_CONTROL_SETTINGS, ...saved.surgery },
+                mortality: { ...DEFAULT_CONTROL_SETTINGS, ...saved.mortality }
+            });
+        } catch {
+            localStorage.removeItem(CONTROL_LIMITS_STORAGE_KEY);
+        }
+    }, []);
+
+    const updateControlSettings = (outcome: ControlOutcome, settings: ControlChartSettings) => {
+        setControlSettings(prev => {
+            const next = { ...prev, [outcome]: settings };
+            localStorage.setItem(CONTROL_LIMITS_STORAGE_KEY, JSON.stringify(next));
+            return next;
+        });
+    };
+
+    // Keep the open patient in sync after decisions are applied and results reload
+    useEffect(() => {
+        setSelectedPatient(prev => prev && (
+            jobData?.patient_summaries?.find(p => patientTargetId(p) === patientTargetId(prev)) || prev
+        ));
+    }, [jobData]);
+
+    const submitAdjudication = async (
+        targetType: AdjudicationTarget,
+        targetId: string,
+        decision: AdjudicationDecision,
+        correctedValue: string | null,
+        note: string
+    ) => {
+        const response = await fetch(`/api/adjudications/${jobId}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                target_type: targetType,
+                target_id: targetId,
+                decision,
+                corrected_value: correctedValue,
+                note,
+                reviewer: reviewer.trim() || null
+            })
+        });
+        if (!response.ok) {
+            const errorResult = await response.json();
+            throw new Error(errorResult.error || 'Failed to save decision');
+        }
+        await loadJobData(false);
+    };
+
     if (!jobId) {
         return (
             <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -144,28 +291,61 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
         return null;
     }
 
-    const { stats, summary, patient_summaries, patient_analytics } = jobData;
+    const { stats, summary, patient_summaries, patient_analytics, files, definition_pin } = jobData;
+    const isMultiFile = (files?.length || 0) > 1;
+    // Patient IDs restart in every file, so rows need the file name to stay unique
+    const patientKey = (patient: PatientSummary) => patient.patient_key || `${patient.file_name || ''}-${patient.patient_id}`;
+
+    const findAdjudication = (targetType: AdjudicationTarget, targetId: string) =>
+        (jobData.adjudications || []).find(a => a.target_type === targetType && a.target_id === targetId) || null;
+
+    // AI-only vs clinician-verified split for a chart. Counts without a recorded split are AI-only.
+    const verification = patient_analytics?.verification;
+    const splitOf = (bucket: Record<string, VerificationSplit> | undefined, key: string, total: number): VerificationSplit =>
+        bucket?.[key] || { verified: 0, ai_only: total };
+    const sumSplits = (splits: VerificationSplit[]): VerificationSplit => splits.reduce(
+        (sum, split) => ({ verified: sum.verified + split.verified, ai_only: sum.ai_only + split.ai_only }),
+        { verified: 0, ai_only: 0 }
+    );
+    const splitPatients = (patients: PatientSummary[], isVerified: (patient: PatientSummary) => boolean): VerificationSplit => {
+        const verified = patients.filter(isVerified).length;
+        return { verified, ai_only: patients.length - verified };
+    };
+    const isOutcomeVerified = (patient: PatientSummary) => Boolean(patient.verification?.surgery_outcome);
+    const isMortalityVerified = (patient: PatientSummary) => Boolean(patient.verification?.mortality_status);
+    const areComorbiditiesVerified = (patient: PatientSummary) =>
+        patient.primary_concerns.length > 0 &&
+        patient.primary_concerns.every(concern => patient.verification?.comorbidities.includes(concern));
 
     // Enhanced data processing with proper surgery breakdown
     const surgeryData = patient_analytics?.surgery_outcomes ? [
-        { name: 'Successful', value: patient_analytics.surgery_outcomes.successful, color: '#10B981' },
-        { name: 'Failed', value: patient_analytics.surgery_outcomes.failed, color: '#EF4444' },
-        { name: 'Unknown', value: patient_analytics.surgery_outcomes.unknown || 0, color: '#6B7280' }
+        { name: 'Successful', value: patient_analytics.surgery_outcomes.successful, color: '#10B981', ...splitOf(verification?.surgery_outcomes, 'success', patient_analytics.surgery_outcomes.successful) },
+        { name: 'Failed', value: patient_analytics.surgery_outcomes.failed, color: '#EF4444', ...splitOf(verification?.surgery_outcomes, 'failure', patient_analytics.surgery_outcomes.failed) },
+        { name: 'Unknown', value: patient_analytics.surgery_outcomes.unknown || 0, color: '#6B7280', ...splitOf(verification?.surgery_outcomes, 'unknown', patient_analytics.surgery_outcomes.unknown || 0) }
     ].filter(item => item.value > 0) : [];
 
     // Mortality data from analytics
     const mortalityData = patient_analytics?.mortality_analytics ? [
-        { name: 'Alive', value: patient_analytics.mortality_analytics.alive_patients, color: '#10B981' },
-        { name: 'Deceased', value: patient_analytics.mortality_analytics.deceased_patients, color: '#EF4444' }
+        { name: 'Alive', value: patient_analytics.mortality_analytics.alive_patients, color: '#10B981', ...splitOf(verification?.mortality_status, 'alive', patient_analytics.mortality_analytics.alive_patients) },
+        { name: 'Deceased', value: patient_analytics.mortality_analytics.deceased_patients, color: '#EF4444', ...splitOf(verification?.mortality_status, 'deceased', patient_analytics.mortality_analytics.deceased_patients) }
     ].filter(item => item.value > 0) : [];
 
+    const comorbidityData = patient_analytics ?
+        Object.entries(patient_analytics.most_common_comorbidities || {}).map(([name, value]) => ({
+            name: name.length > 20 ? name.substring(0, 20) + '...' : name,
+            value,
+            fullName: name,
+            ...splitOf(verification?.comorbidities, name, value)
+        })) : [];
+
     const failureCausesData = patient_analytics?.failure_causes ?
         Object.entries(patient_analytics.failure_causes)
             .filter(([name, value]) => name && name.trim() && value > 0)
             .map(([name, value]) => ({
                 name: name.length > 30 ? name.substring(0, 30) + '...' : name,
                 value,
-                fullName: name
+                fullName: name,
+                ...splitOf(verification?.failure_causes, name, value)
             }))
             .slice(0, 8) : [];
 
@@ -175,28 +355,64 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
             .map(([name, value]) => ({
                 name: name.length > 25 ? name.substring(0, 25) + '...' : name,
                 value,
-                fullName: name
+                fullName: name,
+                ...splitOf(verification?.mortality_causes, name, value)
             }))
             .slice(0, 8) : [];
 
+    const associationFor = (name: string) => patient_analytics?.comorbidity_associations?.find(a => a.comorbidity === name);
+
     // High-risk comorbidities data
     const highRiskComorbiditiesData = patient_analytics?.mortality_analytics?.high_risk_comorbidities ?
         Object.entries(patient_analytics.mortality_analytics.high_risk_comorbidities)
             .filter(([name, rate]) => name && name.trim() && rate > 0)
-            .map(([name, rate]) => ({
-                name: name.length > 20 ? name.substring(0, 20) + '...' : name,
-                mortality_rate: rate,
-                fullName: name
-            }))
+            .map(([name, rate]) => {
+                const interval = associationFor(name)?.mortality;
+                return {
+                    name: name.length > 20 ? name.substring(0, 20) + '...' : name,
+                    mortality_rate: rate,
+                    fullName: name,
+                    interval,
+                    association: associationFor(name)?.mortality_association,
+                    error: interval ? [rate - interval.lower, interval.upper - rate] : [0, 0],
+                    ...splitOf(verification?.comorbidities, name, patient_analytics?.most_common_comorbidities?.[name] || 0)
+                };
+            })
             .sort((a, b) => b.mortality_rate - a.mortality_rate)
             .slice(0, 10) : [];
 
     const patientDistributionData = patient_summaries ? [
-        { name: 'No Findings', value: patient_summaries.filter(p => p.total_comorbidities === 0).length },
-        { name: '1 Comorbidity', value: patient_summaries.filter(p => p.total_comorbidities === 1).length },
-        { name: '2-3 Comorbidities', value: patient_summaries.filter(p => p.total_comorbidities >= 2 && p.total_comorbidities <= 3).length },
-        { name: '4+ Comorbidities', value: patient_summaries.filter(p => p.total_comorbidities >= 4).length },
-    ].filter(item => item.value > 0) : [];
+        { name: 'No Findings', patients: patient_summaries.filter(p => p.total_comorbidities === 0) },
+        { name: '1 Comorbidity', patients: patient_summaries.filter(p => p.total_comorbidities === 1) },
+        { name: '2-3 Comorbidities', patients: patient_summaries.filter(p => p.total_comorbidities >= 2 && p.total_comorbidities <= 3) },
+        { name: '4+ Comorbidities', patients: patient_summaries.filter(p => p.total_comorbidities >= 4) },
+    ].map(({ name, patients }) => ({ name, value: patients.length, ...splitPatients(patients, areComorbiditiesVerified) }))
+        .filter(item => item.value > 0) : [];
+
+    const deceasedPatients = (patient_summaries || []).filter(p => p.mortality_status === 'deceased');
+
+    const controlChart = (outcome: ControlOutcome) => buildControlChart(
+        patient_summaries || [],
+        CONTROL_OUTCOMES[outcome],
+        controlSettings[outcome],
+        controlBenchmarks?.[outcome]?.rate ?? null
+    );
+    const controlCharts: Record<ControlOutcome, ControlChartSeries> = {
+        surgery: controlChart('surgery'),
+        mortality: controlChart('mortality')
+    };
+    const controlAlarms = (['surgery', 'mortality'] as ControlOutcome[])
+        .map(outcome => ({
+            outcome,
+            cusum: controlCharts[outcome].cusum_alarms.length,
+            vlad: controlCharts[outcome].vlad_alarms.length
+        }))
+        .filter(alarm => alarm.cusum + alarm.vlad > 0);
+
+    const INDEX_TITLES: Record<IndexName, string> = { charlson: 'Charlson Comorbidity Index', elixhauser: 'Elixhauser (van Walraven)' };
+    const comorbidityIndices = (Object.entries(patient_analytics?.comorbidity_indices || {}) as Array<[IndexName, ComorbidityIndexAnalytics]>)
+        .filter(([, analytics]) => analytics && analytics.scored_patients > 0);
+    const hasIndexScores = comorbidityIndices.length > 0;
 
     const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#AF19FF', '#FF6B6B', '#4ECDC4', '#45B7D1'];
 
@@ -204,16 +420,108 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
         if (active && payload && payload.length) {
             return (
                 <div className="bg-white p-3 border border-gray-200 rounded shadow">
-                    <p className="font-medium">{payload[0].payload.fullName || label}</p>
+                    <p className="font-medium">{payload[0].payload.fullName || payload[0].name || label}</p>
                     <p className="text-sm text-gray-600">
                         Count: <span className="font-medium">{payload[0].value}</span>
                     </p>
+                    {payload[0].payload.verified !== undefined && (
+                        <p className="text-xs text-gray-500">
+                            {payload[0].payload.verified} clinician-verified • {payload[0].payload.ai_only} AI-only
+                        </p>
+                    )}
                 </div>
             );
         }
         return null;
     };
 
+    const renderVerificationNote = (split: VerificationSplit) => (
+        <p className="flex items-center gap-4 text-xs text-gray-500 -mt-2 mb-4">
+            <span className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full bg-blue-600"></span>
+                {split.verified} clinician-verified
+            </span>
+            <span className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full bg-gray-400"></span>
+                {split.ai_only} AI-only
+            </span>
+        </p>
+    );
+
+    const formatPValue = (p: number | null) => p === null ? '—' : p < 0.001 ? '<0.001' : p.toFixed(3);
+
+    const renderInterval = (interval?: RateInterval, className = 'text-xs text-gray-500') => interval && (
+        <span className={className}>
+            95% CI {interval.lower.toFixed(1)}–{interval.upper.toFixed(1)}%
+            {interval.small_sample && (
+                <span className="ml-1 text-amber-600" title={`Based on ${interval.events} of ${interval.total}; too few for a reliable rate`}>
+                    ⚠ small sample
+                </span>
+            )}
+        </span>
+    );
+
+    const renderAssociationTable = (kind: 'mortality' | 'failure') => {
+        const associations = patient_analytics?.comorbidity_associations || [];
+        if (associations.length === 0) return null;
+        const outcome = kind === 'mortality' ? 'Mortality' : 'Failure';
+
+        return (
+            <div className="bg-white p-6 rounded-lg shadow">
+                <h3 className="text-lg font-medium text-gray-900 mb-1">Comorbidity vs {outcome}</h3>
+                <p className="text-xs text-gray-500 mb-4">
+                    Patients with each comorbidity compared with those without. Fisher&apos;s exact test is used when any expected count is below 5.
+                </p>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                {['Comorbidity', 'Patients', `${outcome} Rate (95% CI)`, 'Odds Ratio (95% CI)', 'p-value', 'Evidence'].map(heading => (
+                                    <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{heading}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {associations.map(association => {
+                                const rate: RateInterval = association[kind];
+                                const test: AssociationTest = association[kind === 'mortality' ? 'mortality_association' : 'failure_association'];
+                                return (
+                                    <tr key={association.comorbidity} className="hover:bg-gray-50">
+                                        <td className="px-4 py-3 text-sm text-gray-900">{association.comorbidity}</td>
+                                        <td className="px-4 py-3 text-sm text-gray-700">{rate.total}</td>
+                                        <td className="px-4 py-3 text-sm text-gray-700">
+                                            {rate.rate.toFixed(1)}% <span className="text-xs text-gray-500">({rate.lower.toFixed(1)}–{rate.upper.toFixed(1)})</span>
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-gray-700">
+                                            {test.odds_ratio === null ? '—' : (
+                                                <>
+                                                    {test.odds_ratio.toFixed(2)} <span className="text-xs text-gray-500">({test.or_lower?.toFixed(2)}–{test.or_upper?.toFixed(2)})</span>
+                                                </>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-gray-700">
+                                            {formatPValue(test.p_value)} <span className="text-xs text-gray-400">{test.test === 'fisher' ? 'Fisher' : 'χ²'}</span>
+                                        </td>
+                                        <td className="px-4 py-3 text-sm">
+                                            {test.significant ? (
+                                                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                                    {test.odds_ratio !== null && test.odds_ratio < 1 ? 'Lower risk' : 'Higher risk'}
+                                                </span>
+                                            ) : (
+                                                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">Not significant</span>
+                                            )}
+                                            {test.small_sample && <span className="ml-2 text-xs text-amber-600">⚠ small sample</span>}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        );
+    };
+
     const getConfidenceTag = (score: number) => {
         if (score >= 0.8) return <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">✅ High</span>;
         if (score >= 0.5) return <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">🟠 Medium</span>;
@@ -244,7 +552,8 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                     { id: 'overview', label: 'Overview', icon: '📊' },
                     { id: 'patients', label: 'Patient Analysis', icon: '👥' },
                     { id: 'surgery', label: 'Surgery Outcomes', icon: '🏥' },
-                    { id: 'mortality', label: 'Mortality Analysis', icon: '⚠️' }
+                    { id: 'mortality', label: 'Mortality Analysis', icon: '⚠️' },
+                    { id: 'validation', label: 'Validation', icon: '🎯' }
                 ].map(tab => (
                     <button
                         key={tab.id}
@@ -344,6 +653,7 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                                         <dt className="text-sm font-medium text-gray-500 truncate">Surgery Success</dt>
                                         <dd className="text-lg font-medium text-green-600">{patient_analytics.surgery_outcomes.successful}</dd>
                                         <dd className="text-sm text-gray-500">{patient_analytics.surgery_outcomes.success_rate.toFixed(1)}% success rate</dd>
+                                        <dd>{renderInterval(patient_analytics.surgery_outcomes.success_rate_interval)}</dd>
                                     </dl>
                                 </div>
                             </div>
@@ -403,6 +713,7 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                                 <dl>
                                     <dt className="text-sm font-medium text-gray-500 truncate">Mortality Rate</dt>
                                     <dd className="text-lg font-medium text-red-600">{patient_analytics.mortality_analytics.mortality_rate.toFixed(1)}%</dd>
+                                    <dd>{renderInterval(patient_analytics.mortality_analytics.mortality_rate_interval)}</dd>
                                     <dd className="text-sm text-gray-500">{patient_analytics.mortality_analytics.deceased_patients} deceased</dd>
                                 </dl>
                             </div>
@@ -418,14 +729,11 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
             {patient_analytics && Object.keys(patient_analytics.most_common_comorbidities || {}).length > 0 && (
                 <div className="bg-white p-6 rounded-lg shadow">
                     <h3 className="text-lg font-medium text-gray-900 mb-4">Most Common Comorbidities</h3>
+                    {renderVerificationNote(sumSplits(comorbidityData))}
                     <ResponsiveContainer width="100%" height={300}>
                         <PieChart>
                             <Pie
-                                data={Object.entries(patient_analytics.most_common_comorbidities).map(([name, value]) => ({
-                                    name: name.length > 20 ? name.substring(0, 20) + '...' : name,
-                                    value,
-                                    fullName: name
-                                }))}
+                                data={comorbidityData}
                                 dataKey="value"
                                 nameKey="name"
                                 cx="50%"
@@ -447,12 +755,13 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
             {surgeryData.length > 0 && (
                 <div className="bg-white p-6 rounded-lg shadow">
                     <h3 className="text-lg font-medium text-gray-900 mb-4">Surgery Outcomes</h3>
+                    {renderVerificationNote(sumSplits(surgeryData))}
                     <ResponsiveContainer width="100%" height={300}>
                         <PieChart>
                             <Pie data={surgeryData} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={100} label>
                                 {surgeryData.map((entry, index) => <Cell key={`cell-${index}`} fill={entry.color} />)}
                             </Pie>
-                            <Tooltip />
+                            <Tooltip content={<CustomTooltip />} />
                             <Legend />
                         </PieChart>
                     </ResponsiveContainer>
@@ -462,12 +771,13 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
             {mortalityData.length > 0 && (
                 <div className="bg-white p-6 rounded-lg shadow">
                     <h3 className="text-lg font-medium text-gray-900 mb-4">Mortality Status</h3>
+                    {renderVerificationNote(sumSplits(mortalityData))}
                     <ResponsiveContainer width="100%" height={300}>
                         <PieChart>
                             <Pie data={mortalityData} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={100} label>
                                 {mortalityData.map((entry, index) => <Cell key={`cell-${index}`} fill={entry.color} />)}
                             </Pie>
-                            <Tooltip />
+                            <Tooltip content={<CustomTooltip />} />
                             <Legend />
                         </PieChart>
                     </ResponsiveContainer>
@@ -477,11 +787,12 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
             {patientDistributionData.length > 0 && (
                 <div className="bg-white p-6 rounded-lg shadow">
                     <h3 className="text-lg font-medium text-gray-900 mb-4">Patient Risk Distribution</h3>
+                    {renderVerificationNote(sumSplits(patientDistributionData))}
                     <ResponsiveContainer width="100%" height={300}>
                         <BarChart data={patientDistributionData}>
                             <XAxis dataKey="name" />
                             <YAxis />
-                            <Tooltip />
+                            <Tooltip content={<CustomTooltip />} />
                             <Bar dataKey="value" fill="#8884d8" />
                         </BarChart>
                     </ResponsiveContainer>
@@ -491,6 +802,7 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
             {failureCausesData.length > 0 && (
                 <div className="bg-white p-6 rounded-lg shadow">
                     <h3 className="text-lg font-medium text-gray-900 mb-4">Top Failure Causes</h3>
+                    {renderVerificationNote(sumSplits(failureCausesData))}
                     <ResponsiveContainer width="100%" height={300}>
                         <BarChart data={failureCausesData}>
                             <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} />
@@ -505,6 +817,7 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
             {mortalityCausesData.length > 0 && (
                 <div className="bg-white p-6 rounded-lg shadow">
                     <h3 className="text-lg font-medium text-gray-900 mb-4">Primary Mortality Causes</h3>
+                    {renderVerificationNote(sumSplits(mortalityCausesData))}
                     <ResponsiveContainer width="100%" height={300}>
                         <BarChart data={mortalityCausesData}>
                             <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} />
@@ -518,6 +831,100 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
         </div>
     );
 
+    const renderFileBreakdown = () => (
+        isMultiFile && files && (
+            <div className="bg-white shadow rounded-lg mb-8">
+                <div className="px-4 py-5 sm:p-6">
+                    <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Results by File</h3>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rows</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Matches</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patients</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Surgery Success</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mortality</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {files.map(file => (
+                                    <tr key={file.file_name} className="hover:bg-gray-50">
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{file.file_name}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{file.rows_processed}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{file.matches_found}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{file.total_patients}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                                            {file.success_rate.toFixed(1)}% <span className="text-xs text-gray-500">({file.successful_surgeries}S/{file.failed_surgeries}F)</span>
+                                            <div>{renderInterval(file.success_rate_interval)}</div>
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                                            {file.mortality_rate.toFixed(1)}% <span className="text-xs text-gray-500">({file.deceased_patients} deceased)</span>
+                                            <div>{renderInterval(file.mortality_rate_interval)}</div>
+                                        </td>
+                                    </tr>
+                                ))}
+                                <tr className="bg-gray-50 font-medium">
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">Combined</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{stats.rows_processed}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{stats.matches_found}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{patient_analytics?.total_patients || 0}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{patient_analytics?.surgery_outcomes?.success_rate.toFixed(1) || 0}%</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{patient_analytics?.mortality_analytics?.mortality_rate.toFixed(1) || 0}%</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+        )
+    );
+
+    const renderDefinitionVersions = () => (
+        <div className="bg-white shadow rounded-lg mb-8">
+            <div className="px-4 py-5 sm:p-6">
+                <h3 className="text-lg leading-6 font-medium text-gray-900 mb-1">Comorbidity Definitions</h3>
+                {definition_pin ? (
+                    <>
+                        <p className="text-sm text-gray-500 mb-4">
+                            The definition versions for {definition_pin.code} this job was submitted with on {new Date(definition_pin.pinned_at).toLocaleString()}.
+                            Index scores use these versions even if the definitions have changed since.
+                        </p>
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Comorbidity</th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recorded</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {definition_pin.definitions.map(version => (
+                                        <tr key={version.comorbidity_id} className="hover:bg-gray-50">
+                                            <td className="px-6 py-4 text-sm font-medium text-gray-900">{version.definition?.name}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">v{version.version}</td>
+                                            <td className="px-6 py-4 text-sm text-gray-700">{version.definition?.description || version.definition?.notes || '—'}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                                {new Date(version.recorded_at).toLocaleDateString()}{version.recorded_by ? ` by ${version.recorded_by}` : ''}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                ) : (
+                    <p className="text-sm text-gray-500">
+                        This job was submitted before definitions were versioned, so it is shown with the current definitions.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+
     const renderPatientAnalysis = () => (
         patient_summaries && (
             <div className="bg-white shadow rounded-lg">
@@ -528,8 +935,10 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                             <thead className="bg-gray-50">
                                 <tr>
                                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient ID</th>
+                                    {isMultiFile && <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source File</th>}
                                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Comorbidities</th>
                                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Primary Concerns</th>
+                                    {hasIndexScores && <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">CCI / Elixhauser</th>}
                                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Confidence</th>
                                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Surgery Outcome</th>
                                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mortality Status</th>
@@ -538,8 +947,9 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                             </thead>
                             <tbody className="bg-white divide-y divide-gray-200">
                                 {patient_summaries.map(patient => (
-                                    <tr key={patient.patient_id} onClick={() => setSelectedPatient(patient)} className="cursor-pointer hover:bg-gray-50 transition-colors duration-150">
+                                    <tr key={patientKey(patient)} onClick={() => setSelectedPatient(patient)} className="cursor-pointer hover:bg-gray-50 transition-colors duration-150">
                                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{patient.patient_id}</td>
+                                        {isMultiFile && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{(patient.source_files && patient.source_files.length > 0 ? patient.source_files.join(', ') : patient.file_name) || '-'}</td>}
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                                             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${patient.total_comorbidities >= 3 ? 'bg-red-100 text-red-800' :
                                                 patient.total_comorbidities >= 1 ? 'bg-yellow-100 text-yellow-800' :
@@ -549,6 +959,11 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                                             </span>
                                         </td>
                                         <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">{patient.primary_concerns.slice(0, 3).join(', ')}</td>
+                                        {hasIndexScores && (
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                                {patient.charlson_index?.score ?? '-'} / {patient.elixhauser_index?.score ?? '-'}
+                                            </td>
+                                        )}
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{getConfidenceTag(patient.highest_confidence)}</td>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{getSurgeryOutcomeTag(patient.surgery_outcome || 'unknown')}</td>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{getMortalityStatusTag(patient.mortality_status || 'alive')}</td>
@@ -569,12 +984,14 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                     <div className="bg-white p-6 rounded-lg shadow">
                         <h3 className="text-lg font-medium text-gray-900 mb-4">Surgery Success Rate</h3>
+                        {renderVerificationNote(sumSplits(surgeryData))}
                         <div className="flex items-center justify-center">
                             <div className="text-center">
                                 <div className="text-4xl font-bold text-blue-600 mb-2">
                                     {patient_analytics.surgery_outcomes.success_rate.toFixed(1)}%
                                 </div>
                                 <div className="text-sm text-gray-500">Overall Success Rate</div>
+                                {renderInterval(patient_analytics.surgery_outcomes.success_rate_interval)}
                                 <div className="mt-4 space-y-2 text-sm">
                                     <div className="flex justify-between">
                                         <span>Successful:</span>
@@ -598,6 +1015,7 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                     {failureCausesData.length > 0 && (
                         <div className="bg-white p-6 rounded-lg shadow">
                             <h3 className="text-lg font-medium text-gray-900 mb-4">Top Failure Causes</h3>
+                            {renderVerificationNote(sumSplits(failureCausesData.slice(0, 5)))}
                             <div className="space-y-3">
                                 {failureCausesData.slice(0, 5).map((cause, index) => (
                                     <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
@@ -636,7 +1054,7 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                                     </thead>
                                     <tbody className="bg-white divide-y divide-gray-200">
                                         {patient_summaries.map(patient => (
-                                            <tr key={patient.patient_id} className="hover:bg-gray-50">
+                                            <tr key={patientKey(patient)} className="hover:bg-gray-50">
                                                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                                                     {patient.patient_id}
                                                 </td>
@@ -683,6 +1101,17 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                         </div>
                     </div>
                 )}
+
+                {renderAssociationTable('failure')}
+
+                <OutcomeControlCharts
+                    title="Surgical Failure Control Charts"
+                    eventLabel="Failure"
+                    series={controlCharts.surgery}
+                    benchmark={controlBenchmarks?.surgery ?? null}
+                    settings={controlSettings.surgery}
+                    onSettingsChange={(settings) => updateControlSettings('surgery', settings)}
+                />
             </div>
         )
     );
@@ -693,12 +1122,14 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                 <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
                     <div className="bg-white p-6 rounded-lg shadow">
                         <h3 className="text-lg font-medium text-gray-900 mb-4">Mortality Rate</h3>
+                        {renderVerificationNote(sumSplits(mortalityData))}
                         <div className="flex items-center justify-center">
                             <div className="text-center">
                                 <div className="text-4xl font-bold text-red-600 mb-2">
                                     {patient_analytics.mortality_analytics.mortality_rate.toFixed(1)}%
                                 </div>
                                 <div className="text-sm text-gray-500">Overall Mortality</div>
+                                {renderInterval(patient_analytics.mortality_analytics.mortality_rate_interval)}
                                 <div className="mt-4 space-y-2 text-sm">
                                     <div className="flex justify-between">
                                         <span>Deceased:</span>
@@ -719,6 +1150,7 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
 
                     <div className="bg-white p-6 rounded-lg shadow">
                         <h3 className="text-lg font-medium text-gray-900 mb-4">Surgery vs Mortality</h3>
+                        {renderVerificationNote(splitPatients(deceasedPatients, p => isOutcomeVerified(p) && isMortalityVerified(p)))}
                         <div className="space-y-3 text-sm">
                             <div className="flex justify-between">
                                 <span>Failed Surgery + Death:</span>
@@ -738,34 +1170,48 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                                     {patient_analytics.mortality_analytics.death_rate_in_failed?.toFixed(1) || 0}%
                                 </span>
                             </div>
+                            {renderInterval(patient_analytics.mortality_analytics.death_rate_in_failed_interval, 'block text-right text-xs text-gray-500 -mt-2')}
                             <div className="flex justify-between">
                                 <span>Death Rate in Success:</span>
                                 <span className="font-medium">
                                     {patient_analytics.mortality_analytics.death_rate_in_successful?.toFixed(1) || 0}%
                                 </span>
                             </div>
+                            {renderInterval(patient_analytics.mortality_analytics.death_rate_in_successful_interval, 'block text-right text-xs text-gray-500 -mt-2')}
                         </div>
                     </div>
 
                     <div className="bg-white p-6 rounded-lg shadow">
                         <h3 className="text-lg font-medium text-gray-900 mb-4">High-Risk Comorbidities</h3>
+                        {renderVerificationNote(sumSplits(highRiskComorbiditiesData.slice(0, 3)))}
                         <div className="space-y-2">
-                            {Object.entries(patient_analytics.mortality_analytics.high_risk_comorbidities || {}).slice(0, 3).map(([comorbidity, rate], index) => (
-                                <div key={comorbidity} className="text-sm">
-                                    <div className="flex justify-between">
-                                        <span className="truncate" title={comorbidity}>{comorbidity.length > 20 ? comorbidity.substring(0, 20) + '...' : comorbidity}</span>
-                                        <span className="font-medium text-red-600">{Number(rate).toFixed(1)}%</span>
-                                    </div>
-                                    <div className="w-full bg-gray-200 rounded-full h-1 mt-1">
-                                        <div className="bg-red-500 h-1 rounded-full" style={{ width: `${Math.min(Number(rate), 100)}%` }}></div>
+                            {Object.entries(patient_analytics.mortality_analytics.high_risk_comorbidities || {}).slice(0, 3).map(([comorbidity, rate], index) => {
+                                const association = associationFor(comorbidity);
+                                return (
+                                    <div key={comorbidity} className="text-sm">
+                                        <div className="flex justify-between">
+                                            <span className="truncate" title={comorbidity}>{comorbidity.length > 20 ? comorbidity.substring(0, 20) + '...' : comorbidity}</span>
+                                            <span className="font-medium text-red-600">{Number(rate).toFixed(1)}%</span>
+                                        </div>
+                                        <div className="w-full bg-gray-200 rounded-full h-1 mt-1">
+                                            <div className="bg-red-500 h-1 rounded-full" style={{ width: `${Math.min(Number(rate), 100)}%` }}></div>
+                                        </div>
+                                        {association && (
+                                            <div className="text-xs text-gray-500 mt-1">
+                                                {association.mortality.events}/{association.mortality.total} deceased • p = {formatPValue(association.mortality_association.p_value)}
+                                                {!association.mortality_association.significant && <span className="ml-1 text-amber-600">not significant</span>}
+                                                {association.mortality.small_sample && <span className="ml-1 text-amber-600">⚠ small sample</span>}
+                                            </div>
+                                        )}
                                     </div>
-                                </div>
-                            ))}
+                                );
+                            })}
                         </div>
                     </div>
 
                     <div className="bg-white p-6 rounded-lg shadow">
                         <h3 className="text-lg font-medium text-gray-900 mb-4">Risk Distribution</h3>
+                        {renderVerificationNote(splitPatients(patient_summaries || [], p => isOutcomeVerified(p) && isMortalityVerified(p)))}
                         <div className="space-y-3">
                             {Object.entries(patient_analytics.mortality_analytics.risk_distribution || {}).map(([level, count], index) => (
                                 <div key={level} className="flex items-center justify-between p-2 bg-gray-50 rounded">
@@ -787,6 +1233,7 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                     {mortalityCausesData.length > 0 && (
                         <div className="bg-white p-6 rounded-lg shadow">
                             <h3 className="text-lg font-medium text-gray-900 mb-4">Primary Mortality Causes</h3>
+                            {renderVerificationNote(sumSplits(mortalityCausesData))}
                             <ResponsiveContainer width="100%" height={300}>
                                 <BarChart data={mortalityCausesData}>
                                     <CartesianGrid strokeDasharray="3 3" />
@@ -802,22 +1249,82 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                     {highRiskComorbiditiesData.length > 0 && (
                         <div className="bg-white p-6 rounded-lg shadow">
                             <h3 className="text-lg font-medium text-gray-900 mb-4">Comorbidity-Mortality Risk</h3>
+                            {renderVerificationNote(sumSplits(highRiskComorbiditiesData))}
                             <ResponsiveContainer width="100%" height={300}>
                                 <BarChart data={highRiskComorbiditiesData}>
                                     <CartesianGrid strokeDasharray="3 3" />
                                     <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} />
                                     <YAxis domain={[0, 100]} />
                                     <Tooltip
-                                        formatter={(value) => [`${Number(value).toFixed(1)}%`, 'Mortality Rate']}
+                                        formatter={(value, name, item: any) => [
+                                            `${Number(value).toFixed(1)}%${item.payload.interval ? ` (95% CI ${item.payload.interval.lower.toFixed(1)}–${item.payload.interval.upper.toFixed(1)}%, n=${item.payload.interval.total})` : ''}`,
+                                            'Mortality Rate'
+                                        ]}
                                         labelFormatter={(label) => `Comorbidity: ${label}`}
                                     />
-                                    <Bar dataKey="mortality_rate" fill="#EF4444" />
+                                    <Bar dataKey="mortality_rate" fill="#EF4444">
+                                        <ErrorBar dataKey="error" width={4} strokeWidth={1.5} stroke="#7F1D1D" />
+                                    </Bar>
                                 </BarChart>
                             </ResponsiveContainer>
                         </div>
                     )}
                 </div>
 
+                {comorbidityIndices.map(([index, analytics]) => (
+                    <div key={index} className="bg-white p-6 rounded-lg shadow">
+                        <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+                            <h3 className="text-lg font-medium text-gray-900">{INDEX_TITLES[index]}</h3>
+                            <span className="text-sm text-gray-500">
+                                {analytics.scored_patients} patients • mean {analytics.mean.toFixed(1)} • median {analytics.median} • max {analytics.max}
+                            </span>
+                        </div>
+                        {renderVerificationNote(splitPatients((patient_summaries || []).filter(p => p[`${index}_index`]), areComorbiditiesVerified))}
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div>
+                                <h4 className="text-sm font-medium text-gray-700 mb-2">Score Distribution</h4>
+                                <ResponsiveContainer width="100%" height={250}>
+                                    <BarChart data={Object.entries(analytics.distribution)
+                                        .map(([score, count]) => ({ name: score, value: count }))
+                                        .sort((a, b) => Number(a.name) - Number(b.name))}>
+                                        <CartesianGrid strokeDasharray="3 3" />
+                                        <XAxis dataKey="name" />
+                                        <YAxis allowDecimals={false} />
+                                        <Tooltip content={<CustomTooltip />} />
+                                        <Bar dataKey="value" fill="#6366F1" />
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                            <div>
+                                <h4 className="text-sm font-medium text-gray-700 mb-2">Outcomes by Stratum</h4>
+                                <ResponsiveContainer width="100%" height={250}>
+                                    <BarChart data={analytics.strata}>
+                                        <CartesianGrid strokeDasharray="3 3" />
+                                        <XAxis dataKey="stratum" />
+                                        <YAxis domain={[0, 100]} />
+                                        <Tooltip
+                                            formatter={(value, name, item: any) => {
+                                                const interval: RateInterval | undefined = item.payload[`${item.dataKey}_interval`];
+                                                return [
+                                                    `${Number(value).toFixed(1)}%${interval ? ` (95% CI ${interval.lower.toFixed(1)}–${interval.upper.toFixed(1)}%)${interval.small_sample ? ' ⚠ small sample' : ''}` : ''}`,
+                                                    name
+                                                ];
+                                            }}
+                                            labelFormatter={(label) => {
+                                                const stratum = analytics.strata.find(s => s.stratum === label);
+                                                return `Score ${label} (${stratum?.patients || 0} patients)`;
+                                            }}
+                                        />
+                                        <Legend />
+                                        <Bar dataKey="mortality_rate" name="Mortality Rate" fill="#EF4444" />
+                                        <Bar dataKey="failure_rate" name="Surgery Failure Rate" fill="#F59E0B" />
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+
                 {patient_summaries && patient_summaries.filter(p => p.mortality_status === 'deceased').length > 0 && (
                     <div className="bg-white shadow rounded-lg">
                         <div className="px-4 py-5 sm:p-6">
@@ -836,7 +1343,7 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                                     </thead>
                                     <tbody className="bg-white divide-y divide-gray-200">
                                         {patient_summaries.filter(p => p.mortality_status === 'deceased').map(patient => (
-                                            <tr key={patient.patient_id} className="hover:bg-gray-50">
+                                            <tr key={patientKey(patient)} className="hover:bg-gray-50">
                                                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                                                     {patient.patient_id}
                                                 </td>
@@ -879,6 +1386,17 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                         </div>
                     </div>
                 )}
+
+                {renderAssociationTable('mortality')}
+
+                <OutcomeControlCharts
+                    title="Mortality Control Charts"
+                    eventLabel="Death"
+                    series={controlCharts.mortality}
+                    benchmark={controlBenchmarks?.mortality ?? null}
+                    settings={controlSettings.mortality}
+                    onSettingsChange={(settings) => updateControlSettings('mortality', settings)}
+                />
             </div>
         )
     );
@@ -898,6 +1416,26 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                                 </p>
                             </div>
                             <div className="flex items-center space-x-4">
+                                <label className="flex items-center gap-2 text-sm text-gray-600">
+                                    <input
+                                        type="checkbox"
+                                        checked={includeReportAppendix}
+                                        onChange={(e) => setIncludeReportAppendix(e.target.checked)}
+                                    />
+                                    De-identified patient appendix
+                                </label>
+                                <button
+                                    onClick={() => setShowExport(!showExport)}
+                                    className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200"
+                                >
+                                    {showExport ? 'Hide Export' : 'Export Data'}
+                                </button>
+                                <a
+                                    href={`/api/job-report/${jobId}?appendix=${includeReportAppendix}`}
+                                    className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200"
+                                >
+                                    PDF Report
+                                </a>
                                 {jobData.stats.output_file_path && (
                                     <a
                                         href={`/api/download-results/${jobId}`}
@@ -918,18 +1456,43 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
             </div>
 
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                {showExport && (
+                    <div className="mb-6">
+                        <DataExportPanel jobId={jobId} />
+                    </div>
+                )}
                 {renderNavigationTabs()}
 
                 {viewMode === 'overview' && (
                     <div>
+                        {controlAlarms.length > 0 && (
+                            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 space-y-1">
+                                <p className="font-medium">Control chart alarms</p>
+                                {controlAlarms.map(alarm => (
+                                    <button
+                                        key={alarm.outcome}
+                                        onClick={() => setViewMode(alarm.outcome)}
+                                        className="block text-left underline hover:text-red-900"
+                                    >
+                                        {alarm.outcome === 'surgery' ? 'Surgical failures' : 'Mortality'}:
+                                        {alarm.cusum > 0 && ` ${alarm.cusum} CUSUM signal${alarm.cusum !== 1 ? 's' : ''}`}
+                                        {alarm.cusum > 0 && alarm.vlad > 0 && ','}
+                                        {alarm.vlad > 0 && ` ${alarm.vlad} VLAD limit crossing${alarm.vlad !== 1 ? 's' : ''}`}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
                         {renderOverviewCards()}
+                        {renderFileBreakdown()}
                         {renderOverviewCharts()}
+                        {renderDefinitionVersions()}
                     </div>
                 )}
 
                 {viewMode === 'patients' && renderPatientAnalysis()}
                 {viewMode === 'surgery' && renderSurgeryOutcomes()}
                 {viewMode === 'mortality' && renderMortalityAnalysis()}
+                {viewMode === 'validation' && <ValidationReport jobId={jobId} linked={(patient_summaries || []).some(p => p.patient_key)} />}
             </div>
 
             <Modal
@@ -940,9 +1503,14 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
             >
                 <div className="p-6">
                     <div className="flex items-center justify-between mb-6">
-                        <h2 className="text-2xl font-semibold text-gray-900">
-                            Patient {selectedPatient?.patient_id} Details
-                        </h2>
+                        <div>
+                            <h2 className="text-2xl font-semibold text-gray-900">
+                                Patient {selectedPatient?.patient_key || selectedPatient?.patient_id} Details
+                            </h2>
+                            {selectedPatient?.source_files && selectedPatient.source_files.length > 1 && (
+                                <p className="text-sm text-gray-500 mt-1">Linked across {selectedPatient.source_files.join(', ')}</p>
+                            )}
+                        </div>
                         <button
                             onClick={() => setSelectedPatient(null)}
                             className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
@@ -981,6 +1549,84 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                                 </div>
                             </div>
 
+                            {(selectedPatient.charlson_index || selectedPatient.elixhauser_index) && (
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    {(['charlson', 'elixhauser'] as IndexName[]).map(index => {
+                                        const indexScore = selectedPatient[`${index}_index`];
+                                        if (!indexScore) return null;
+                                        return (
+                                            <div key={index} className="bg-indigo-50 p-4 rounded-lg">
+                                                <div className="flex items-baseline justify-between">
+                                                    <div className="text-sm font-medium text-indigo-600">{INDEX_TITLES[index]}</div>
+                                                    <div className="text-xs text-indigo-500">Stratum {indexScore.stratum}</div>
+                                                </div>
+                                                <div className="text-2xl font-bold text-indigo-900">{indexScore.score}</div>
+                                                <div className="mt-2 flex flex-wrap gap-1">
+                                                    {indexScore.categories.length > 0 ? indexScore.categories.map(category => (
+                                                        <span key={category} className="px-2 py-0.5 text-xs bg-white text-indigo-700 rounded-full">
+                                                            {categoryLabel(index, category)}
+                                                        </span>
+                                                    )) : <span className="text-xs text-indigo-500">No scored categories</span>}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+
+                            <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <h4 className="text-lg font-medium text-gray-900">Clinician Review</h4>
+                                    <input
+                                        type="text"
+                                        value={reviewer}
+                                        onChange={(e) => {
+                                            setReviewer(e.target.value);
+                                            localStorage.setItem(REVIEWER_STORAGE_KEY, e.target.value);
+                                        }}
+                                        placeholder="Reviewer name"
+                                        className="p-2 text-sm border border-gray-300 rounded"
+                                    />
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <div>
+                                        <div className="text-sm font-medium text-gray-700 mb-1">
+                                            Surgery outcome
+                                            {selectedPatient.ai_surgery_outcome && selectedPatient.ai_surgery_outcome !== selectedPatient.surgery_outcome && (
+                                                <span className="ml-2 text-xs text-gray-500">(AI said {selectedPatient.ai_surgery_outcome})</span>
+                                            )}
+                                        </div>
+                                        <AdjudicationControls
+                                            adjudication={findAdjudication('surgery_outcome', patientTargetId(selectedPatient))}
+                                            correctionOptions={[
+                                                { value: 'success', label: 'Success' },
+                                                { value: 'failure', label: 'Failure' },
+                                                { value: 'unknown', label: 'Unknown' }
+                                            ]}
+                                            onSubmit={(decision, correctedValue, note) =>
+                                                submitAdjudication('surgery_outcome', patientTargetId(selectedPatient), decision, correctedValue, note)}
+                                        />
+                                    </div>
+                                    <div>
+                                        <div className="text-sm font-medium text-gray-700 mb-1">
+                                            Mortality status
+                                            {selectedPatient.ai_mortality_status && selectedPatient.ai_mortality_status !== selectedPatient.mortality_status && (
+                                                <span className="ml-2 text-xs text-gray-500">(AI said {selectedPatient.ai_mortality_status})</span>
+                                            )}
+                                        </div>
+                                        <AdjudicationControls
+                                            adjudication={findAdjudication('mortality_status', patientTargetId(selectedPatient))}
+                                            correctionOptions={[
+                                                { value: 'alive', label: 'Alive' },
+                                                { value: 'deceased', label: 'Deceased' }
+                                            ]}
+                                            onSubmit={(decision, correctedValue, note) =>
+                                                submitAdjudication('mortality_status', patientTargetId(selectedPatient), decision, correctedValue, note)}
+                                        />
+                                    </div>
+                                </div>
+                            </div>
+
                             {selectedPatient.primary_concerns.length > 0 && (
                                 <div>
                                     <h4 className="text-lg font-medium text-gray-900 mb-3">Primary Concerns</h4>
@@ -1049,6 +1695,21 @@ const ClinicalAuditDashboard: React.FC<{ jobId?: string }> = ({ jobId }) => {
                                     </div>
                                 </div>
                             )}
+
+                            <div>
+                                <h4 className="text-lg font-medium text-gray-900 mb-3">Source Evidence</h4>
+                                <PatientEvidencePanel
+                                    matches={matchesForPatient(selectedPatient, jobData.matches || [])}
+                                    renderReview={(match) => (
+                                        <AdjudicationControls
+                                            adjudication={match.adjudication}
+                                            correctionSuggestions={Object.keys(patient_analytics?.most_common_comorbidities || {})}
+                                            onSubmit={(decision, correctedValue, note) =>
+                                                submitAdjudication('match', matchTargetId(match), decision, correctedValue, note)}
+                                        />
+                                    )}
+                                />
+                            </div>
                         </div>
                     )}
                 </div>
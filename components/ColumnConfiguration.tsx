@@ -1,119 +1,272 @@
 // Add useCallback to the import from 'react'
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
     Search, Eye, Settings, ChevronUp, ChevronDown, Target, Brain,
-    AlertCircle, Check, FileSpreadsheet
+    AlertCircle, Check, FileSpreadsheet, Bookmark, Layers, ShieldAlert
 } from 'lucide-react';
-import { Comorbidity, FileMetadata, ColumnMapping } from '../types';
+import { Comorbidity, FileMetadata, ColumnMapping, ColumnAnalysis, FileAnalysisResponse, SheetAnalysis, SheetMetadata, TableRangeOverride, IdentifierKind } from '../types';
+import { previewFile } from '../utils/previewFile';
+import type { FilePreview } from '../utils/filePreview';
+import { mirrorFirstSheet, updateTable, updateTableMappings, includedSheets, allColumnMappings, activeColumnMappings, sheetConfigurationErrors } from '../utils/sheets';
+import { suggestKeyColumn } from './PatientLinkage';
+import { TableLayoutEditor } from './TableLayoutEditor';
+import { IDENTIFIER_LABELS, IDENTIFIER_TREATMENTS, detectIdentifierKind, deidentifyFile, loadDeidentificationKey, saveDeidentificationKey } from '../utils/deidentify';
 
 interface ColumnConfigurationProps {
     files: File[];
     comorbidities: Comorbidity[];
     onConfigurationChange: (config: FileMetadata[]) => void;
+    presetMappings?: ColumnMapping[] | null;
+    // File name -> column -> source path, for files converted from HL7 before upload
+    columnSources?: Record<string, Record<string, string>>;
+    // Saved table layouts, keyed by sheet name ('' for single-table files)
+    presetRangeOverrides?: Record<string, TableRangeOverride> | null;
 }
 
+// Server analysis now only refines the preview, so large uploads over slow links get longer
+const SERVER_ANALYSIS_TIMEOUT_MS = 120000;
+
+const normalizeColumnName = (columnName: string) => columnName.trim().toLowerCase();
+
+// Replays saved column settings onto freshly analysed files (every sheet), matching on column name
+const applyPresetMappings = (metadata: FileMetadata[], presetMappings: ColumnMapping[]) => {
+    const presetByColumn = new Map(presetMappings.map(mapping => [normalizeColumnName(mapping.columnName), mapping]));
+    let matched = 0;
+
+    const replay = (mappings: ColumnMapping[]) => mappings.map(mapping => {
+        const preset = presetByColumn.get(normalizeColumnName(mapping.columnName));
+        if (!preset) return mapping;
+        matched++;
+        return {
+            ...mapping,
+            isEnabled: preset.isEnabled,
+            selectedComorbidities: [...preset.selectedComorbidities],
+            customPrompt: preset.customPrompt || mapping.customPrompt,
+            // Presets saved before identifier flags existed leave the detected flag alone
+            identifier: preset.identifier !== undefined ? preset.identifier : mapping.identifier
+        };
+    });
+
+    const updated = metadata.map(fileMetadata =>
+        (fileMetadata.sheets || [fileMetadata]).reduce<FileMetadata>((meta, _, sheetIndex) => updateTableMappings(meta, sheetIndex, replay), fileMetadata)
+    );
+
+    return { updated, matched };
+};
+
 export const ColumnConfiguration = ({
     files,
     comorbidities,
-    onConfigurationChange
+    onConfigurationChange,
+    presetMappings,
+    columnSources,
+    presetRangeOverrides
 }: ColumnConfigurationProps) => {
     const [filesMetadata, setFilesMetadata] = useState<FileMetadata[]>([]);
     const [expandedFiles, setExpandedFiles] = useState<{ [key: string]: boolean }>({});
     const [expandedColumns, setExpandedColumns] = useState<{ [key: string]: boolean }>({});
     const [loading, setLoading] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
+    const [presetMatchCount, setPresetMatchCount] = useState<number | null>(null);
+    const [serverAnalysis, setServerAnalysis] = useState<Record<string, 'pending' | 'done' | 'failed'>>({});
+    const [activeSheets, setActiveSheets] = useState<Record<string, number>>({});
+    // File name -> sheet name -> leading raw rows, for the layout editor
+    const [rawGrids, setRawGrids] = useState<Record<string, Record<string, string[][]>>>({});
+    const [openLayoutEditors, setOpenLayoutEditors] = useState<{ [key: string]: boolean }>({});
+    const [applyingLayout, setApplyingLayout] = useState<string | null>(null);
+    const presetRef = useRef(presetMappings);
+    presetRef.current = presetMappings;
+    // Server analyses still in flight for a previous set of files are ignored
+    const analysisRunRef = useRef(0);
 
     // --- FIX STARTS HERE ---
 
-    // Wrap the analyzeFiles function in useCallback
-    const analyzeFiles = useCallback(async () => {
-        console.log('🔍 Starting file analysis for', files.length, 'files');
-        setLoading(true);
+    // Builds mappings for newly seen columns; medical long-text columns are enabled by default, identifier columns never
+    const newColumnMappings = (
+        fileName: string,
+        columns: string[],
+        sampleDataByColumn: Record<string, string[]> | undefined,
+        columnAnalysis: ColumnAnalysis | undefined
+    ): ColumnMapping[] => columns.map(column => {
+        const identifier = detectIdentifierKind(column, sampleDataByColumn?.[column] || []);
+        return {
+            columnName: column,
+            isEnabled: !identifier && (shouldAutoEnableColumn(column) ||
+                (columnAnalysis?.[column]?.data_type === 'long_text' && columnAnalysis[column].contains_medical_text)),
+            selectedComorbidities: [],
+            customPrompt: generateDefaultPrompt(column),
+            sampleData: sampleDataByColumn?.[column] || [],
+            source: columnSources?.[fileName]?.[column],
+            identifier
+        };
+    });
+
+    const sheetFromAnalysis = (fileName: string, analysis: SheetAnalysis, isEnabled: boolean): SheetMetadata => ({
+        sheetName: analysis.sheetName,
+        isEnabled,
+        columns: analysis.columns,
+        sampleData: analysis.sampleData,
+        detectedHeaderRow: analysis.detectedHeaderRow,
+        totalRows: analysis.totalRows,
+        columnMappings: newColumnMappings(fileName, analysis.columns, analysis.sampleDataByColumn, analysis.columnAnalysis),
+        columnAnalysis: analysis.columnAnalysis,
+        joinKey: suggestKeyColumn(analysis.columns) || undefined,
+        rangeOverride: analysis.rangeOverride
+    });
+
+    const previewMetadata = (file: File, preview: FilePreview | null): FileMetadata => {
+        // Only the first sheet is included by default, as before sheets could be configured
+        const sheets = (preview?.sheets || []).map((sheet, index) => sheetFromAnalysis(file.name, sheet, index === 0));
+        const empty: FileMetadata = {
+            fileName: file.name, columns: [], sampleData: [], detectedHeaderRow: 0, totalRows: 0,
+            columnMappings: [], analysisSource: 'preview'
+        };
+        if (sheets.length === 0) return empty;
+        const metadata = mirrorFirstSheet({ ...empty, sheets });
+        // A lone sheet is the file itself; only workbooks with several sheets carry the sheet list
+        return sheets.length > 1 ? metadata : { ...metadata, sheets: undefined };
+    };
 
-        try {
-            const analysisPromises = files.map(async (file) => {
-                console.log('Analyzing file:', file.name);
-                const formData = new FormData();
-                formData.append('file', file);
-
-                try {
-                    const response = await Promise.race([
-                        fetch('/api/analyze-file-structure', {
-                            method: 'POST',
-                            body: formData
-                        }),
-                        new Promise<never>((_, reject) =>
-                            setTimeout(() => reject(new Error('Request timeout')), 30000)
-                        )
-                    ]);
-
-                    if (!response.ok) {
-                        const errorText = await response.text();
-                        throw new Error(`Failed to analyze ${file.name}: ${response.status} - ${errorText}`);
-                    }
-
-                    const data = await response.json();
-
-                    if (!data.columns || !Array.isArray(data.columns)) {
-                        throw new Error(`Invalid response structure for ${file.name}`);
-                    }
-
-                    const columnMappings: ColumnMapping[] = data.columns.map((column: string) => ({
-                        columnName: column,
-                        isEnabled: shouldAutoEnableColumn(column),
-                        selectedComorbidities: [],
-                        customPrompt: generateDefaultPrompt(column),
-                        sampleData: data.sampleDataByColumn?.[column] || []
-                    }));
+    // Server results replace the preview's structure; settings already made on a column are kept
+    const mergeColumnMappings = (
+        fileName: string,
+        current: ColumnMapping[],
+        columns: string[],
+        sampleDataByColumn: Record<string, string[]> | undefined,
+        columnAnalysis: ColumnAnalysis | undefined
+    ): ColumnMapping[] => {
+        const existing = new Map(current.map(mapping => [normalizeColumnName(mapping.columnName), mapping]));
+        const added = columns.filter(column => !existing.has(normalizeColumnName(column)));
+        let addedMappings = newColumnMappings(fileName, added, sampleDataByColumn, columnAnalysis);
+        if (presetRef.current?.length && addedMappings.length > 0) {
+            const table: FileMetadata = { fileName, columns: added, sampleData: [], detectedHeaderRow: 0, totalRows: 0, columnMappings: addedMappings };
+            addedMappings = applyPresetMappings([table], presetRef.current).updated[0].columnMappings;
+        }
+        const addedByName = new Map(addedMappings.map(mapping => [mapping.columnName, mapping]));
 
+        return columns.map(column => {
+            const kept = existing.get(normalizeColumnName(column));
+            return kept
+                ? { ...kept, columnName: column, sampleData: sampleDataByColumn?.[column] || kept.sampleData }
+                : addedByName.get(column)!;
+        });
+    };
+
+    const refineMetadata = (current: FileMetadata, data: FileAnalysisResponse): FileMetadata => {
+        const base: FileMetadata = { ...current, fileInfo: data.fileInfo || current.fileInfo, analysisSource: 'server' };
+
+        if (data.sheets && data.sheets.length > 1) {
+            const previous = new Map((current.sheets || []).map(sheet => [sheet.sheetName, sheet]));
+            return mirrorFirstSheet({
+                ...base,
+                sheets: data.sheets.map((analysis, index) => {
+                    const prior = previous.get(analysis.sheetName);
+                    if (!prior) return sheetFromAnalysis(current.fileName, analysis, index === 0);
+                    // A manually set layout wins over the server's detection
+                    if (prior.rangeOverride) return prior;
                     return {
-                        fileName: file.name,
-                        columns: data.columns,
-                        sampleData: data.sampleData || [],
-                        detectedHeaderRow: data.detectedHeaderRow || 0,
-                        totalRows: data.totalRows || 0,
-                        columnMappings
-                    };
-                } catch (fileError) {
-                    console.error('Error analyzing file', file.name, ':', fileError);
-                    return {
-                        fileName: file.name,
-                        columns: [`Column 1 (${file.name})`],
-                        sampleData: [], detectedHeaderRow: 0, totalRows: 0,
-                        columnMappings: [{
-                            columnName: `Column 1 (${file.name})`,
-                            isEnabled: false, selectedComorbidities: [],
-                            customPrompt: 'Unable to analyze file structure. Please configure manually.',
-                            sampleData: []
-                        }]
+                        ...prior,
+                        columns: analysis.columns,
+                        sampleData: analysis.sampleData,
+                        detectedHeaderRow: analysis.detectedHeaderRow,
+                        totalRows: analysis.totalRows,
+                        columnMappings: mergeColumnMappings(current.fileName, prior.columnMappings, analysis.columns, analysis.sampleDataByColumn, analysis.columnAnalysis),
+                        columnAnalysis: analysis.columnAnalysis,
+                        joinKey: prior.joinKey && analysis.columns.includes(prior.joinKey) ? prior.joinKey : suggestKeyColumn(analysis.columns) || undefined
                     };
-                }
+                })
             });
+        }
 
-            const metadata = await Promise.all(analysisPromises);
-            setFilesMetadata(metadata);
-            onConfigurationChange(metadata);
+        if (current.rangeOverride) return base;
+        const firstTable = {
+            columns: data.columns,
+            sampleData: data.sampleData || current.sampleData,
+            detectedHeaderRow: data.detectedHeaderRow ?? current.detectedHeaderRow,
+            totalRows: data.totalRows ?? current.totalRows,
+            columnAnalysis: data.columnAnalysis || current.columnAnalysis,
+            columnMappings: mergeColumnMappings(current.fileName, current.columnMappings, data.columns, data.sampleDataByColumn, data.columnAnalysis)
+        };
+        // Without per-sheet results the server's analysis describes the first sheet
+        return current.sheets
+            ? mirrorFirstSheet({ ...base, sheets: current.sheets.map((sheet, index) => index === 0 ? { ...sheet, ...firstTable } : sheet) })
+            : { ...base, ...firstTable };
+    };
 
-        } catch (error) {
-            console.error('Error in analyzeFiles:', error);
-            const fallbackMetadata = files.map(file => ({
-                fileName: file.name,
-                columns: [`Column 1 (${file.name})`], sampleData: [],
-                detectedHeaderRow: 0, totalRows: 0,
-                columnMappings: [{
-                    columnName: `Column 1 (${file.name})`, isEnabled: false,
-                    selectedComorbidities: [], customPrompt: 'Error analyzing file. Please configure manually.',
-                    sampleData: []
-                }]
-            }));
-            setFilesMetadata(fallbackMetadata);
-            onConfigurationChange(fallbackMetadata);
-        } finally {
-            setLoading(false);
+    const requestServerAnalysis = async (file: File): Promise<FileAnalysisResponse> => {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await Promise.race([
+            fetch('/api/analyze-file-structure', {
+                method: 'POST',
+                body: formData
+            }),
+            new Promise<never>((_, reject) =>
+                setTimeout(() => reject(new Error('Request timeout')), SERVER_ANALYSIS_TIMEOUT_MS)
+            )
+        ]);
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Failed to analyze ${file.name}: ${response.status} - ${errorText}`);
+        }
+
+        const data = await response.json();
+        if (!data.columns || !Array.isArray(data.columns)) {
+            throw new Error(`Invalid response structure for ${file.name}`);
         }
+        return data;
+    };
+
+    // The grid is built from an in-browser preview first; server analysis then refines each file as it completes
+    const analyzeFiles = useCallback(async () => {
+        console.log('🔍 Starting file analysis for', files.length, 'files');
+        const run = ++analysisRunRef.current;
+        setLoading(true);
+
+        const previews = await Promise.all(files.map(file =>
+            previewFile(file, { overrides: presetRangeOverrides || undefined }).catch(error => {
+                console.error('Error previewing file', file.name, ':', error);
+                return null;
+            })
+        ));
+        if (run !== analysisRunRef.current) return;
+        setRawGrids(Object.fromEntries(files.map((file, index) => [file.name, previews[index]?.rawRows || {}])));
+
+        let metadata = files.map((file, index) => previewMetadata(file, previews[index]));
+        if (presetRef.current?.length) {
+            const { updated, matched } = applyPresetMappings(metadata, presetRef.current);
+            metadata = updated;
+            setPresetMatchCount(matched);
+        }
+        setFilesMetadata(metadata);
+        onConfigurationChange(metadata);
+        setServerAnalysis(Object.fromEntries(files.map(file => [file.name, 'pending' as const])));
+        setLoading(false);
+
+        // The server only ever sees the file with the identifiers detected so far redacted
+        files.forEach(async (file, index) => {
+            try {
+                const key = await loadDeidentificationKey();
+                const redacted = await deidentifyFile(file, metadata[index], key);
+                saveDeidentificationKey(key);
+                const data = await requestServerAnalysis(redacted);
+                if (run !== analysisRunRef.current) return;
+                setFilesMetadata(prev => {
+                    const updated = prev.map(meta => meta.fileName === file.name ? refineMetadata(meta, data) : meta);
+                    onConfigurationChange(updated);
+                    return updated;
+                });
+                setServerAnalysis(prev => ({ ...prev, [file.name]: 'done' }));
+            } catch (error) {
+                console.error('Error analyzing file', file.name, ':', error);
+                if (run !== analysisRunRef.current) return;
+                setServerAnalysis(prev => ({ ...prev, [file.name]: 'failed' }));
+            }
+        });
         // Add dependencies for useCallback
-    }, [files, onConfigurationChange]);
+    }, [files, onConfigurationChange, columnSources, presetRangeOverrides]);
 
     useEffect(() => {
         if (files.length > 0) {
@@ -124,6 +277,21 @@ export const ColumnConfiguration = ({
 
     // --- FIX ENDS HERE ---
 
+    // A preset loaded after the files were analysed is applied to the current mappings
+    useEffect(() => {
+        if (!presetMappings?.length) {
+            setPresetMatchCount(null);
+            return;
+        }
+        setFilesMetadata(prev => {
+            if (prev.length === 0) return prev;
+            const { updated, matched } = applyPresetMappings(prev, presetMappings);
+            setPresetMatchCount(matched);
+            onConfigurationChange(updated);
+            return updated;
+        });
+    }, [presetMappings, onConfigurationChange]);
+
     const shouldAutoEnableColumn = (columnName: string): boolean => {
         const medicalKeywords = [
             'finding', 'diagnosis', 'symptom', 'condition', 'complication',
@@ -150,31 +318,83 @@ export const ColumnConfiguration = ({
 
     const updateColumnMapping = (
         fileIndex: number,
+        sheetIndex: number,
         columnIndex: number,
         updates: Partial<ColumnMapping>
     ) => {
         setFilesMetadata(prev => {
-            const updated = [...prev];
-            updated[fileIndex].columnMappings[columnIndex] = {
-                ...updated[fileIndex].columnMappings[columnIndex],
-                ...updates
-            };
+            const updated = prev.map((meta, index) => index !== fileIndex ? meta : updateTableMappings(meta, sheetIndex, mappings =>
+                mappings.map((mapping, position) => position === columnIndex ? { ...mapping, ...updates } : mapping)
+            ));
             onConfigurationChange(updated);
             return updated;
         });
     };
 
+    const updateSheet = (fileIndex: number, sheetIndex: number, updates: Partial<SheetMetadata>) => {
+        setFilesMetadata(prev => {
+            const updated = prev.map((meta, index) => index !== fileIndex || !meta.sheets ? meta : mirrorFirstSheet({
+                ...meta,
+                sheets: meta.sheets.map((sheet, position) => position === sheetIndex ? { ...sheet, ...updates } : sheet)
+            }));
+            onConfigurationChange(updated);
+            return updated;
+        });
+    };
+
+    // Re-reads the table with the given layout, or with detection again when the override is cleared
+    const applyLayout = async (fileIndex: number, sheetIndex: number, override: TableRangeOverride | undefined) => {
+        const fileMetadata = filesMetadata[fileIndex];
+        const file = files.find(candidate => candidate.name === fileMetadata.fileName);
+        if (!file) return;
+        const sheetName = fileMetadata.sheets?.[sheetIndex]?.sheetName ?? '';
+        setApplyingLayout(`${fileMetadata.fileName}_${sheetName}`);
+
+        try {
+            const preview = await previewFile(file, { overrides: override ? { [sheetName]: override } : {} });
+            const analysis = fileMetadata.sheets
+                ? preview.sheets.find(sheet => sheet.sheetName === sheetName)
+                : preview.sheets[0];
+            if (!analysis) throw new Error(`Sheet ${sheetName} not found in ${file.name}`);
+
+            setFilesMetadata(prev => {
+                const updated = prev.map((meta, index) => {
+                    if (index !== fileIndex) return meta;
+                    const table = meta.sheets?.[sheetIndex] || meta;
+                    return updateTable(meta, sheetIndex, {
+                        columns: analysis.columns,
+                        sampleData: analysis.sampleData,
+                        detectedHeaderRow: analysis.detectedHeaderRow,
+                        totalRows: analysis.totalRows,
+                        columnAnalysis: analysis.columnAnalysis,
+                        columnMappings: mergeColumnMappings(meta.fileName, table.columnMappings, analysis.columns, analysis.sampleDataByColumn, analysis.columnAnalysis),
+                        rangeOverride: override
+                    });
+                });
+                onConfigurationChange(updated);
+                return updated;
+            });
+        } catch (error) {
+            console.error('Error applying table layout for', file.name, ':', error);
+            alert(`Could not apply the layout: ${error instanceof Error ? error.message : 'An unknown error occurred.'}`);
+        } finally {
+            setApplyingLayout(null);
+        }
+    };
+
     const toggleComorbidityForColumn = (
         fileIndex: number,
+        sheetIndex: number,
         columnIndex: number,
         comorbidityId: string
     ) => {
-        const currentMappings = filesMetadata[fileIndex].columnMappings[columnIndex];
+        const fileMetadata = filesMetadata[fileIndex];
+        const currentMappings = (fileMetadata.sheets?.[sheetIndex] || fileMetadata).columnMappings[columnIndex];
         const selectedComorbidities = currentMappings.selectedComorbidities.includes(comorbidityId)
             ? currentMappings.selectedComorbidities.filter(id => id !== comorbidityId)
             : [...currentMappings.selectedComorbidities, comorbidityId];
 
-        updateColumnMapping(fileIndex, columnIndex, { selectedComorbidities });
+        updateColumnMapping(fileIndex, sheetIndex, columnIndex, { selectedComorbidities });
     };
 
     const filteredComorbidities = comorbidities.filter(c =>
@@ -189,12 +409,12 @@ export const ColumnConfiguration = ({
             <div className="flex items-center justify-center p-12">
                 <div className="text-center">
                     <div className="animate-spin w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full mx-auto mb-4"></div>
-                    <p className="text-gray-600 font-medium">Analyzing file structure...</p>
+                    <p className="text-gray-600 font-medium">Reading file structure...</p>
                     <p className="text-gray-500 text-sm mt-2">
                         Processing {files.length} file{files.length !== 1 ? 's' : ''}
                     </p>
                     <p className="text-gray-400 text-xs mt-1">
-                        This may take a few moments for large files
+                        Parsed in your browser for an instant preview
                     </p>
                 </div>
             </div>
@@ -216,274 +436,427 @@ export const ColumnConfiguration = ({
                 />
             </div>
 
-            {filesMetadata.map((fileMetadata, fileIndex) => (
-                <motion.div
-                    key={fileMetadata.fileName}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    className="bg-white rounded-2xl border border-gray-200 shadow-lg overflow-hidden"
-                >
-                    {/* File Header */}
-                    <div
-                        className="p-6 bg-gradient-to-r from-blue-50 to-purple-50 border-b border-gray-200 cursor-pointer"
-                        onClick={() => setExpandedFiles(prev => ({
-                            ...prev,
-                            [fileMetadata.fileName]: !prev[fileMetadata.fileName]
-                        }))}
+            {presetMatchCount !== null && (
+                <div className="flex items-center gap-3 p-4 bg-indigo-50 border border-indigo-200 rounded-xl text-indigo-900">
+                    <Bookmark className="text-indigo-600" size={20} />
+                    <span className="font-medium">
+                        Saved configuration applied to {presetMatchCount} of {filesMetadata.reduce((sum, meta) => sum + allColumnMappings(meta).length, 0)} columns
+                    </span>
+                </div>
+            )}
+
+            {filesMetadata.map((fileMetadata, fileIndex) => {
+                // Multi-sheet workbooks show one sheet at a time; everything below edits that sheet
+                const sheetIndex = Math.min(activeSheets[fileMetadata.fileName] || 0, (fileMetadata.sheets?.length || 1) - 1);
+                const sheet = fileMetadata.sheets?.[sheetIndex];
+                const table = sheet || fileMetadata;
+                const tableKey = sheet ? `${fileMetadata.fileName}_${sheet.sheetName}` : fileMetadata.fileName;
+                const fileGrids = rawGrids[fileMetadata.fileName] || {};
+                const rawRows = sheet ? fileGrids[sheet.sheetName] : Object.values(fileGrids)[0];
+                const layoutKey = `${fileMetadata.fileName}_${sheet?.sheetName ?? ''}`;
+                const activeMappings = activeColumnMappings(fileMetadata);
+                const sheetErrors = sheetConfigurationErrors(fileMetadata);
+
+                return (
+                    <motion.div
+                        key={fileMetadata.fileName}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="bg-white rounded-2xl border border-gray-200 shadow-lg overflow-hidden"
                     >
-                        <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-4">
-                                <FileSpreadsheet className="text-blue-500" size={32} />
-                                <div>
-                                    <h3 className="text-xl font-bold text-gray-900">{fileMetadata.fileName}</h3>
-                                    <p className="text-gray-600">
-                                        {fileMetadata.totalRows} rows • {fileMetadata.columns.length} columns •
-                                        Header detected at row {fileMetadata.detectedHeaderRow + 1}
-                                    </p>
+                        {/* File Header */}
+                        <div
+                            className="p-6 bg-gradient-to-r from-blue-50 to-purple-50 border-b border-gray-200 cursor-pointer"
+                            onClick={() => setExpandedFiles(prev => ({
+                                ...prev,
+                                [fileMetadata.fileName]: !prev[fileMetadata.fileName]
+                            }))}
+                        >
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-4">
+                                    <FileSpreadsheet className="text-blue-500" size={32} />
+                                    <div>
+                                        <h3 className="text-xl font-bold text-gray-900">{fileMetadata.fileName}</h3>
+                                        <p className="text-gray-600">
+                                            {fileMetadata.sheets
+                                                ? `${fileMetadata.sheets.length} sheets • ${includedSheets(fileMetadata).length} included`
+                                                : `${fileMetadata.totalRows} rows • ${fileMetadata.columns.length} columns • ${fileMetadata.rangeOverride ? 'Header set' : 'Header detected'} at row ${fileMetadata.detectedHeaderRow + 1}`}
+                                            {!fileMetadata.sheets && fileMetadata.fileInfo?.emptyRowsRemoved ? ` • ${fileMetadata.fileInfo.emptyRowsRemoved} empty rows removed` : ''}
+                                        </p>
+                                        {fileMetadata.analysisSource === 'preview' && serverAnalysis[fileMetadata.fileName] === 'pending' && (
+                                            <p className="text-xs text-blue-600 mt-1">In-browser preview • refining with server analysis…</p>
+                                        )}
+                                        {fileMetadata.analysisSource === 'preview' && serverAnalysis[fileMetadata.fileName] === 'failed' && (
+                                            <p className="text-xs text-amber-600 mt-1">Server analysis unavailable • using in-browser preview</p>
+                                        )}
+                                    </div>
                                 </div>
-                            </div>
-                            <div className="flex items-center gap-4">
-                                <div className="text-sm font-medium text-gray-500 bg-white/50 px-3 py-1 rounded-full">
-                                    {fileMetadata.columnMappings.filter(c => c.isEnabled).length} active columns
+                                <div className="flex items-center gap-4">
+                                    <div className="text-sm font-medium text-gray-500 bg-white/50 px-3 py-1 rounded-full">
+                                        {activeMappings.filter(c => c.isEnabled).length} active columns
+                                    </div>
+                                    {expandedFiles[fileMetadata.fileName] ?
+                                        <ChevronUp className="text-gray-400" size={24} /> :
+                                        <ChevronDown className="text-gray-400" size={24} />
+                                    }
                                 </div>
-                                {expandedFiles[fileMetadata.fileName] ?
-                                    <ChevronUp className="text-gray-400" size={24} /> :
-                                    <ChevronDown className="text-gray-400" size={24} />
-                                }
                             </div>
                         </div>
-                    </div>
-
-                    <AnimatePresence>
-                        {expandedFiles[fileMetadata.fileName] && (
-                            <motion.div
-                                initial={{ height: 0, opacity: 0 }}
-                                animate={{ height: 'auto', opacity: 1 }}
-                                exit={{ height: 0, opacity: 0 }}
-                                className="overflow-hidden"
-                            >
-                                <div className="p-6 space-y-6">
-                                    {/* Sample Data Preview */}
-                                    <div className="bg-gray-50 rounded-xl p-4">
-                                        <h4 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
-                                            <Eye className="text-blue-500" size={20} />
-                                            Sample Data Preview (First 3 rows)
-                                        </h4>
-                                        <div className="overflow-x-auto">
-                                            <table className="min-w-full text-sm">
-                                                <thead>
-                                                    <tr className="border-b border-gray-200">
-                                                        {fileMetadata.columns.map((column, idx) => (
-                                                            <th key={idx} className="text-left p-2 font-medium text-gray-700">
-                                                                {column}
-                                                            </th>
-                                                        ))}
-                                                    </tr>
-                                                </thead>
-                                                <tbody>
-                                                    {fileMetadata.sampleData.slice(0, 3).map((row, rowIdx) => (
-                                                        <tr key={rowIdx} className="border-b border-gray-100">
-                                                            {fileMetadata.columns.map((column, colIdx) => (
-                                                                <td key={colIdx} className="p-2 text-gray-600 max-w-32 truncate">
-                                                                    {row[column] || '-'}
-                                                                </td>
-                                                            ))}
-                                                        </tr>
-                                                    ))}
-                                                </tbody>
-                                            </table>
-                                        </div>
-                                    </div>
 
-                                    {/* Column Configurations */}
-                                    <div className="space-y-4">
-                                        <h4 className="font-semibold text-gray-900 text-lg flex items-center gap-2">
-                                            <Settings className="text-purple-500" size={20} />
-                                            Column Mappings & Prompts
-                                        </h4>
-
-                                        {fileMetadata.columnMappings.map((mapping, columnIndex) => (
-                                            <motion.div
-                                                key={mapping.columnName}
-                                                className={`border-2 rounded-xl transition-all duration-300 ${mapping.isEnabled
-                                                    ? 'border-blue-200 bg-blue-50/30'
-                                                    : 'border-gray-200 bg-gray-50/30'
-                                                    }`}
-                                            >
-                                                {/* Column Header */}
-                                                <div className="p-4 flex items-center justify-between">
-                                                    <div className="flex items-center gap-4">
+                        <AnimatePresence>
+                            {expandedFiles[fileMetadata.fileName] && (
+                                <motion.div
+                                    initial={{ height: 0, opacity: 0 }}
+                                    animate={{ height: 'auto', opacity: 1 }}
+                                    exit={{ height: 0, opacity: 0 }}
+                                    className="overflow-hidden"
+                                >
+                                    <div className="p-6 space-y-6">
+                                        {fileMetadata.sheets && sheet && (
+                                            <div className="space-y-3">
+                                                <div className="flex flex-wrap gap-2">
+                                                    {fileMetadata.sheets.map((candidate, index) => (
+                                                        <button
+                                                            key={candidate.sheetName}
+                                                            onClick={() => setActiveSheets(prev => ({ ...prev, [fileMetadata.fileName]: index }))}
+                                                            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border transition-colors ${index === sheetIndex
+                                                                ? 'border-blue-500 bg-blue-50 text-blue-800'
+                                                                : 'border-gray-200 text-gray-600 hover:border-blue-300'
+                                                                }`}
+                                                        >
+                                                            <Layers size={14} />
+                                                            {candidate.sheetName}
+                                                            {candidate.isEnabled && <Check size={14} className="text-emerald-600" />}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                                <div className="flex flex-wrap items-center gap-6 p-4 bg-gray-50 rounded-xl text-sm">
+                                                    <label className="flex items-center gap-2 font-medium text-gray-700">
                                                         <input
                                                             type="checkbox"
-                                                            checked={mapping.isEnabled}
-                                                            onChange={(e) => updateColumnMapping(
-                                                                fileIndex,
-                                                                columnIndex,
-                                                                { isEnabled: e.target.checked }
-                                                            )}
+                                                            checked={sheet.isEnabled}
+                                                            onChange={(e) => updateSheet(fileIndex, sheetIndex, { isEnabled: e.target.checked })}
                                                             className="w-5 h-5 text-blue-600 rounded focus:ring-blue-500"
                                                         />
-                                                        <div>
-                                                            <h5 className="font-semibold text-gray-900">{mapping.columnName}</h5>
-                                                            <p className="text-sm text-gray-600">
-                                                                {mapping.selectedComorbidities.length} comorbidities mapped
-                                                            </p>
-                                                        </div>
-                                                    </div>
-                                                    <button
-                                                        onClick={() => setExpandedColumns(prev => ({
-                                                            ...prev,
-                                                            [`${fileMetadata.fileName}_${mapping.columnName}`]:
-                                                                !prev[`${fileMetadata.fileName}_${mapping.columnName}`]
-                                                        }))}
-                                                        className="p-2 hover:bg-white/50 rounded-lg transition-colors"
-                                                    >
-                                                        {expandedColumns[`${fileMetadata.fileName}_${mapping.columnName}`] ?
-                                                            <ChevronUp size={20} /> : <ChevronDown size={20} />
-                                                        }
-                                                    </button>
+                                                        Include this sheet
+                                                    </label>
+                                                    <span className="text-gray-600">
+                                                        {sheet.totalRows} rows • {sheet.columns.length} columns • {sheet.rangeOverride ? 'Header set' : 'Header detected'} at row {sheet.detectedHeaderRow + 1}
+                                                    </span>
+                                                    <label className="flex items-center gap-2 text-gray-700">
+                                                        Join key
+                                                        <select
+                                                            value={sheet.joinKey || ''}
+                                                            onChange={(e) => updateSheet(fileIndex, sheetIndex, { joinKey: e.target.value || undefined })}
+                                                            className="p-1.5 border border-gray-300 rounded"
+                                                        >
+                                                            <option value="">Select column…</option>
+                                                            {sheet.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                                                        </select>
+                                                    </label>
                                                 </div>
+                                                <p className="text-xs text-gray-500">
+                                                    Included sheets are joined into one table on matching join key values, so each patient&apos;s rows from every sheet are analysed together.
+                                                </p>
+                                                {sheetErrors.length > 0 && (
+                                                    <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                                                        <AlertCircle className="text-yellow-600 mt-0.5" size={16} />
+                                                        <span>{sheetErrors.join('; ')}</span>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        )}
 
-                                                <AnimatePresence>
-                                                    {expandedColumns[`${fileMetadata.fileName}_${mapping.columnName}`] && mapping.isEnabled && (
-                                                        <motion.div
-                                                            initial={{ height: 0, opacity: 0 }}
-                                                            animate={{ height: 'auto', opacity: 1 }}
-                                                            exit={{ height: 0, opacity: 0 }}
-                                                            className="overflow-hidden border-t border-gray-200"
-                                                        >
-                                                            <div className="p-4 space-y-4">
-                                                                {/* Sample Data for this Column */}
-                                                                <div className="bg-white rounded-lg p-3">
-                                                                    <h6 className="text-sm font-medium text-gray-700 mb-2">Sample Values:</h6>
-                                                                    <div className="flex flex-wrap gap-2">
-                                                                        {mapping.sampleData.slice(0, 5).map((value, idx) => (
-                                                                            <span
-                                                                                key={idx}
-                                                                                className="text-xs bg-gray-100 px-2 py-1 rounded-lg max-w-32 truncate"
-                                                                            >
-                                                                                {value || 'Empty'}
-                                                                            </span>
+                                        {rawRows && rawRows.length > 0 && (
+                                            <div>
+                                                <button
+                                                    onClick={() => setOpenLayoutEditors(prev => ({ ...prev, [layoutKey]: !prev[layoutKey] }))}
+                                                    className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+                                                >
+                                                    {openLayoutEditors[layoutKey] ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                                                    Adjust header row and data range
+                                                </button>
+                                                {openLayoutEditors[layoutKey] && (
+                                                    <div className="mt-3">
+                                                        <TableLayoutEditor
+                                                            rawRows={rawRows}
+                                                            detectedHeaderRow={table.detectedHeaderRow}
+                                                            override={table.rangeOverride}
+                                                            isApplying={applyingLayout === layoutKey}
+                                                            onApply={(override) => applyLayout(fileIndex, sheetIndex, override)}
+                                                            onReset={() => applyLayout(fileIndex, sheetIndex, undefined)}
+                                                        />
+                                                    </div>
+                                                )}
+                                            </div>
+                                        )}
+
+                                        {table.columns.length === 0 && (
+                                            <div className="flex items-center gap-3 p-4 bg-red-50 border border-red-200 rounded-xl text-red-800">
+                                                <AlertCircle size={20} />
+                                                <span>
+                                                    {serverAnalysis[fileMetadata.fileName] === 'pending'
+                                                        ? 'This file could not be read in the browser; waiting for server analysis.'
+                                                        : 'No columns could be read from this file. Check that it is a valid CSV or Excel file.'}
+                                                </span>
+                                            </div>
+                                        )}
+
+                                        {/* Sample Data Preview */}
+                                        <div className="bg-gray-50 rounded-xl p-4">
+                                            <h4 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                                                <Eye className="text-blue-500" size={20} />
+                                                Sample Data Preview (First 3 rows)
+                                            </h4>
+                                            <div className="overflow-x-auto">
+                                                <table className="min-w-full text-sm">
+                                                    <thead>
+                                                        <tr className="border-b border-gray-200">
+                                                            {table.columns.map((column, idx) => (
+                                                                <th key={idx} className="text-left p-2 font-medium text-gray-700">
+                                                                    {column}
+                                                                </th>
+                                                            ))}
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {table.sampleData.slice(0, 3).map((row, rowIdx) => (
+                                                            <tr key={rowIdx} className="border-b border-gray-100">
+                                                                {table.columns.map((column, colIdx) => (
+                                                                    <td key={colIdx} className="p-2 text-gray-600 max-w-32 truncate">
+                                                                        {row[column] || '-'}
+                                                                    </td>
+                                                                ))}
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </div>
+                                        </div>
+
+                                        {/* Column Configurations */}
+                                        <div className="space-y-4">
+                                            <h4 className="font-semibold text-gray-900 text-lg flex items-center gap-2">
+                                                <Settings className="text-purple-500" size={20} />
+                                                Column Mappings & Prompts
+                                            </h4>
+
+                                            {table.columnMappings.map((mapping, columnIndex) => (
+                                                <motion.div
+                                                    key={mapping.columnName}
+                                                    className={`border-2 rounded-xl transition-all duration-300 ${mapping.isEnabled
+                                                        ? 'border-blue-200 bg-blue-50/30'
+                                                        : 'border-gray-200 bg-gray-50/30'
+                                                        }`}
+                                                >
+                                                    {/* Column Header */}
+                                                    <div className="p-4 flex items-center justify-between">
+                                                        <div className="flex items-center gap-4">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={mapping.isEnabled}
+                                                                onChange={(e) => updateColumnMapping(
+                                                                    fileIndex,
+                                                                    sheetIndex,
+                                                                    columnIndex,
+                                                                    { isEnabled: e.target.checked }
+                                                                )}
+                                                                className="w-5 h-5 text-blue-600 rounded focus:ring-blue-500"
+                                                            />
+                                                            <div>
+                                                                <h5 className="font-semibold text-gray-900">
+                                                                    {mapping.columnName}
+                                                                    {table.columnAnalysis?.[mapping.columnName] && (
+                                                                        <span className="ml-2 text-xs font-normal text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">
+                                                                            {table.columnAnalysis[mapping.columnName].data_type.replace('_', ' ')}
+                                                                        </span>
+                                                                    )}
+                                                                </h5>
+                                                                {mapping.source && (
+                                                                    <p className="text-xs font-mono text-gray-500">Source: {mapping.source}</p>
+                                                                )}
+                                                                <div className="flex items-center gap-2 mt-1 text-xs">
+                                                                    <ShieldAlert size={14} className={mapping.identifier ? 'text-red-500' : 'text-gray-400'} />
+                                                                    <select
+                                                                        value={mapping.identifier || ''}
+                                                                        onChange={(e) => {
+                                                                            const identifier = (e.target.value || null) as IdentifierKind | null;
+                                                                            // Identifier values reach the AI only as pseudonyms, so there is nothing to analyse
+                                                                            updateColumnMapping(fileIndex, sheetIndex, columnIndex, identifier ? { identifier, isEnabled: false } : { identifier });
+                                                                        }}
+                                                                        className="border border-gray-300 rounded px-1 py-0.5 text-gray-700"
+                                                                    >
+                                                                        <option value="">Not an identifier</option>
+                                                                        {(Object.keys(IDENTIFIER_LABELS) as IdentifierKind[]).map(kind => (
+                                                                            <option key={kind} value={kind}>{IDENTIFIER_LABELS[kind]}</option>
                                                                         ))}
-                                                                    </div>
+                                                                    </select>
+                                                                    {mapping.identifier && (
+                                                                        <span className="text-red-700">Values {IDENTIFIER_TREATMENTS[mapping.identifier]} before upload</span>
+                                                                    )}
                                                                 </div>
+                                                                <p className="text-sm text-gray-600">
+                                                                    {mapping.selectedComorbidities.length} comorbidities mapped
+                                                                </p>
+                                                            </div>
+                                                        </div>
+                                                        <button
+                                                            onClick={() => setExpandedColumns(prev => ({
+                                                                ...prev,
+                                                                [`${tableKey}_${mapping.columnName}`]:
+                                                                    !prev[`${tableKey}_${mapping.columnName}`]
+                                                            }))}
+                                                            className="p-2 hover:bg-white/50 rounded-lg transition-colors"
+                                                        >
+                                                            {expandedColumns[`${tableKey}_${mapping.columnName}`] ?
+                                                                <ChevronUp size={20} /> : <ChevronDown size={20} />
+                                                            }
+                                                        </button>
+                                                    </div>
 
-                                                                {/* Comorbidity Selection */}
-                                                                <div>
-                                                                    <h6 className="text-sm font-medium text-gray-700 mb-3 flex items-center gap-2">
-                                                                        <Target className="text-blue-500" size={16} />
-                                                                        Map Comorbidities to Check
-                                                                    </h6>
-                                                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-40 overflow-y-auto">
-                                                                        {filteredComorbidities.map((comorbidity) => (
-                                                                            <label
-                                                                                key={comorbidity.id}
-                                                                                className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${mapping.selectedComorbidities.includes(comorbidity.id)
-                                                                                    ? 'border-blue-500 bg-blue-50'
-                                                                                    : 'border-gray-200 hover:border-blue-300'
-                                                                                    }`}
-                                                                            >
-                                                                                <input
-                                                                                    type="checkbox"
-                                                                                    checked={mapping.selectedComorbidities.includes(comorbidity.id)}
-                                                                                    onChange={() => toggleComorbidityForColumn(
-                                                                                        fileIndex,
-                                                                                        columnIndex,
-                                                                                        comorbidity.id
-                                                                                    )}
-                                                                                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
-                                                                                />
-                                                                                <div className="flex-1 min-w-0">
-                                                                                    <div className="font-medium text-gray-900 truncate">
-                                                                                        {comorbidity.name}
-                                                                                    </div>
-                                                                                    <div className="text-xs text-gray-600 truncate">
-                                                                                        {comorbidity.description}
-                                                                                    </div>
-                                                                                </div>
-                                                                            </label>
-                                                                        ))}
+                                                    <AnimatePresence>
+                                                        {expandedColumns[`${tableKey}_${mapping.columnName}`] && mapping.isEnabled && (
+                                                            <motion.div
+                                                                initial={{ height: 0, opacity: 0 }}
+                                                                animate={{ height: 'auto', opacity: 1 }}
+                                                                exit={{ height: 0, opacity: 0 }}
+                                                                className="overflow-hidden border-t border-gray-200"
+                                                            >
+                                                                <div className="p-4 space-y-4">
+                                                                    {/* Sample Data for this Column */}
+                                                                    <div className="bg-white rounded-lg p-3">
+                                                                        <h6 className="text-sm font-medium text-gray-700 mb-2">Sample Values:</h6>
+                                                                        <div className="flex flex-wrap gap-2">
+                                                                            {mapping.sampleData.slice(0, 5).map((value, idx) => (
+                                                                                <span
+                                                                                    key={idx}
+                                                                                    className="text-xs bg-gray-100 px-2 py-1 rounded-lg max-w-32 truncate"
+                                                                                >
+                                                                                    {value || 'Empty'}
+                                                                                </span>
+                                                                            ))}
+                                                                        </div>
                                                                     </div>
-                                                                </div>
 
-                                                                {/* Custom Prompt */}
-                                                                <div>
-                                                                    <h6 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
-                                                                        <Brain className="text-purple-500" size={16} />
-                                                                        AI Analysis Prompt
-                                                                    </h6>
-                                                                    <textarea
-                                                                        value={mapping.customPrompt}
-                                                                        onChange={(e) => updateColumnMapping(
-                                                                            fileIndex,
-                                                                            columnIndex,
-                                                                            { customPrompt: e.target.value }
-                                                                        )}
-                                                                        placeholder="Enter instructions for the AI to analyze this column..."
-                                                                        className="w-full p-3 border border-gray-300 rounded-lg focus:border-blue-500 focus:ring-4 focus:ring-blue-200 transition-all duration-200 resize-none"
-                                                                        rows={3}
-                                                                    />
-                                                                    <p className="text-xs text-gray-500 mt-1">
-                                                                        The AI will use this prompt to analyze each cell in this column for the selected comorbidities.
-                                                                    </p>
-                                                                </div>
+                                                                    {/* Comorbidity Selection */}
+                                                                    <div>
+                                                                        <h6 className="text-sm font-medium text-gray-700 mb-3 flex items-center gap-2">
+                                                                            <Target className="text-blue-500" size={16} />
+                                                                            Map Comorbidities to Check
+                                                                        </h6>
+                                                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                                                                            {filteredComorbidities.map((comorbidity) => (
+                                                                                <label
+                                                                                    key={comorbidity.id}
+                                                                                    className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${mapping.selectedComorbidities.includes(comorbidity.id)
+                                                                                        ? 'border-blue-500 bg-blue-50'
+                                                                                        : 'border-gray-200 hover:border-blue-300'
+                                                                                        }`}
+                                                                                >
+                                                                                    <input
+                                                                                        type="checkbox"
+                                                                                        checked={mapping.selectedComorbidities.includes(comorbidity.id)}
+                                                                                        onChange={() => toggleComorbidityForColumn(
+                                                                                            fileIndex,
+                                                                                            sheetIndex,
+                                                                                            columnIndex,
+                                                                                            comorbidity.id
+                                                                                        )}
+                                                                                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                                                                                    />
+                                                                                    <div className="flex-1 min-w-0">
+                                                                                        <div className="font-medium text-gray-900 truncate">
+                                                                                            {comorbidity.name}
+                                                                                        </div>
+                                                                                        <div className="text-xs text-gray-600 truncate">
+                                                                                            {comorbidity.description}
+                                                                                        </div>
+                                                                                    </div>
+                                                                                </label>
+                                                                            ))}
+                                                                        </div>
+                                                                    </div>
 
-                                                                {/* Validation */}
-                                                                {mapping.selectedComorbidities.length === 0 && (
-                                                                    <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
-                                                                        <AlertCircle className="text-yellow-600" size={16} />
-                                                                        <span className="text-sm text-yellow-800">
-                                                                            Select at least one comorbidity to check in this column
-                                                                        </span>
+                                                                    {/* Custom Prompt */}
+                                                                    <div>
+                                                                        <h6 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+                                                                            <Brain className="text-purple-500" size={16} />
+                                                                            AI Analysis Prompt
+                                                                        </h6>
+                                                                        <textarea
+                                                                            value={mapping.customPrompt}
+                                                                            onChange={(e) => updateColumnMapping(
+                                                                                fileIndex,
+                                                                                sheetIndex,
+                                                                                columnIndex,
+                                                                                { customPrompt: e.target.value }
+                                                                            )}
+                                                                            placeholder="Enter instructions for the AI to analyze this column..."
+                                                                            className="w-full p-3 border border-gray-300 rounded-lg focus:border-blue-500 focus:ring-4 focus:ring-blue-200 transition-all duration-200 resize-none"
+                                                                            rows={3}
+                                                                        />
+                                                                        <p className="text-xs text-gray-500 mt-1">
+                                                                            The AI will use this prompt to analyze each cell in this column for the selected comorbidities.
+                                                                        </p>
                                                                     </div>
-                                                                )}
-                                                            </div>
-                                                        </motion.div>
-                                                    )}
-                                                </AnimatePresence>
-                                            </motion.div>
-                                        ))}
-                                    </div>
 
-                                    {/* Configuration Summary */}
-                                    <div className="bg-gradient-to-r from-emerald-50 to-teal-50 rounded-xl p-4 border border-emerald-200">
-                                        <h5 className="font-semibold text-emerald-800 mb-2 flex items-center gap-2">
-                                            <Check className="text-emerald-600" size={20} />
-                                            Configuration Summary
-                                        </h5>
-                                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                                            <div>
-                                                <span className="text-emerald-600">Active Columns:</span>
-                                                <span className="ml-2 font-medium">
-                                                    {fileMetadata.columnMappings.filter(c => c.isEnabled).length}
-                                                </span>
-                                            </div>
-                                            <div>
-                                                <span className="text-emerald-600">Total Mappings:</span>
-                                                <span className="ml-2 font-medium">
-                                                    {fileMetadata.columnMappings.reduce((sum, c) => sum + c.selectedComorbidities.length, 0)}
-                                                </span>
-                                            </div>
-                                            <div>
-                                                <span className="text-emerald-600">Unique Comorbidities:</span>
-                                                <span className="ml-2 font-medium">
-                                                    {new Set(fileMetadata.columnMappings.flatMap(c => c.selectedComorbidities)).size}
-                                                </span>
-                                            </div>
-                                            <div>
-                                                <span className="text-emerald-600">Ready to Process:</span>
-                                                <span className="ml-2 font-medium">
-                                                    {fileMetadata.columnMappings.some(c => c.isEnabled && c.selectedComorbidities.length > 0) ? 'Yes' : 'No'}
-                                                </span>
+                                                                    {/* Validation */}
+                                                                    {mapping.selectedComorbidities.length === 0 && (
+                                                                        <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                                                                            <AlertCircle className="text-yellow-600" size={16} />
+                                                                            <span className="text-sm text-yellow-800">
+                                                                                Select at least one comorbidity to check in this column
+                                                                            </span>
+                                                                        </div>
+                                                                    )}
+                                                                </div>
+                                                            </motion.div>
+                                                        )}
+                                                    </AnimatePresence>
+                                                </motion.div>
+                                            ))}
+                                        </div>
+
+                                        {/* Configuration Summary */}
+                                        <div className="bg-gradient-to-r from-emerald-50 to-teal-50 rounded-xl p-4 border border-emerald-200">
+                                            <h5 className="font-semibold text-emerald-800 mb-2 flex items-center gap-2">
+                                                <Check className="text-emerald-600" size={20} />
+                                                Configuration Summary
+                                            </h5>
+                                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                                                <div>
+                                                    <span className="text-emerald-600">Active Columns:</span>
+                                                    <span className="ml-2 font-medium">
+                                                        {activeMappings.filter(c => c.isEnabled).length}
+                                                    </span>
+                                                </div>
+                                                <div>
+                                                    <span className="text-emerald-600">Total Mappings:</span>
+                                                    <span className="ml-2 font-medium">
+                                                        {activeMappings.reduce((sum, c) => sum + c.selectedComorbidities.length, 0)}
+                                                    </span>
+                                                </div>
+                                                <div>
+                                                    <span className="text-emerald-600">Unique Comorbidities:</span>
+                                                    <span className="ml-2 font-medium">
+                                                        {new Set(activeMappings.flatMap(c => c.selectedComorbidities)).size}
+                                                    </span>
+                                                </div>
+                                                <div>
+                                                    <span className="text-emerald-600">Ready to Process:</span>
+                                                    <span className="ml-2 font-medium">
+                                                        {activeMappings.some(c => c.isEnabled && c.selectedComorbidities.length > 0) ? 'Yes' : 'No'}
+                                                    </span>
+                                                </div>
                                             </div>
                                         </div>
                                     </div>
-                                </div>
-                            </motion.div>
-                        )}
-                    </AnimatePresence>
-                </motion.div>
-            ))}
+                                </motion.div>
+                            )}
+                        </AnimatePresence>
+                    </motion.div>
+                );
+            })}
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,330 @@
+// components/ComorbidityLibraryTransfer.tsx
+import { useState, useEffect } from 'react';
+import Modal from 'react-modal';
+import { ArrowLeftRight, Download, Upload, Loader2, X, AlertCircle } from 'lucide-react';
+import type {
+    Comorbidity, ComorbidityDefinitionFields, ComorbidityLibrary, LibraryImportAction, LibraryImportItem,
+    LibraryImportResult, LibraryImportStatus
+} from '../types';
+import { categoryLabel } from '../utils/comorbidityIndices';
+import { IMPORT_ACTIONS, parseLibrary, planLibraryImport, resolvedDefinition } from '../utils/comorbidityLibrary';
+
+interface ComorbidityLibraryTransferProps {
+    selectedCode: string;
+    isOpen: boolean;
+    canImport: boolean;
+    onImported: (comorbidities: Comorbidity[]) => void;
+    onClose: () => void;
+}
+
+const FIELD_LABELS: Record<keyof ComorbidityDefinitionFields, string> = {
+    name: 'Name',
+    description: 'Description',
+    notes: 'Notes',
+    keywords: 'Keywords',
+    charlson_category: 'Charlson category',
+    elixhauser_category: 'Elixhauser category'
+};
+
+const STATUS_STYLES: Record<LibraryImportStatus, string> = {
+    add: 'bg-emerald-100 text-emerald-700',
+    update: 'bg-blue-100 text-blue-700',
+    conflict: 'bg-amber-100 text-amber-800',
+    unchanged: 'bg-gray-100 text-gray-600'
+};
+
+const ACTION_LABELS: Record<LibraryImportAction, string> = {
+    add: 'Add',
+    merge: 'Merge (keep existing values)',
+    replace: 'Replace with imported',
+    skip: 'Skip'
+};
+
+const fieldText = (field: keyof ComorbidityDefinitionFields, definition: ComorbidityDefinitionFields | null) => {
+    const value = definition?.[field];
+    if (!value) return '';
+    if (field === 'charlson_category') return categoryLabel('charlson', value);
+    if (field === 'elixhauser_category') return categoryLabel('elixhauser', value);
+    return value;
+};
+
+export const ComorbidityLibraryTransfer = ({ selectedCode, isOpen, canImport, onImported, onClose }: ComorbidityLibraryTransferProps) => {
+    const [library, setLibrary] = useState<ComorbidityLibrary | null>(null);
+    const [items, setItems] = useState<LibraryImportItem[]>([]);
+    const [warnings, setWarnings] = useState<string[]>([]);
+    const [result, setResult] = useState<LibraryImportResult | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [applying, setApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setLibrary(null);
+        setItems([]);
+        setWarnings([]);
+        setResult(null);
+        setError(null);
+    }, [isOpen, selectedCode]);
+
+    const fetchDefinitions = async () => {
+        const response = await fetch(`/api/comorbidities/${encodeURIComponent(selectedCode)}`);
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+        const data = await response.json();
+        return Array.isArray(data) ? data : [];
+    };
+
+    const handleFile = async (file: File | null) => {
+        setLibrary(null);
+        setItems([]);
+        setWarnings([]);
+        setResult(null);
+        setError(null);
+        if (!file) return;
+
+        setLoading(true);
+        try {
+            const parsed = parseLibrary(await file.text(), file.name);
+            setLibrary(parsed.library);
+            setWarnings(parsed.warnings);
+            setItems(planLibraryImport(await fetchDefinitions(), parsed.library.comorbidities));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const setAction = (index: number, action: LibraryImportAction) => {
+        setItems(items.map((item, i) => i === index ? { ...item, action } : item));
+    };
+
+    const setActionForStatus = (status: LibraryImportStatus, action: LibraryImportAction) => {
+        setItems(items.map(item => item.status === status && IMPORT_ACTIONS[status].includes(action) ? { ...item, action } : item));
+    };
+
+    const handleApply = async () => {
+        setApplying(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/comorbidity-library/${encodeURIComponent(selectedCode)}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    items: items.map(item => ({ action: item.action, incoming: item.incoming, existing_id: item.existing?.id ?? null }))
+                })
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to import library');
+            }
+            setResult(data);
+            setItems([]);
+            onImported(await fetchDefinitions());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    const counts = items.reduce((acc, item) => ({ ...acc, [item.status]: (acc[item.status] || 0) + 1 }), {} as Partial<Record<LibraryImportStatus, number>>);
+    const pending = items.filter(item => item.action !== 'skip').length;
+    const exportUrl = (format: 'json' | 'csv') => `/api/comorbidity-library/${encodeURIComponent(selectedCode)}?format=${format}`;
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onRequestClose={onClose}
+            ariaHideApp={false}
+            className="max-w-6xl w-full mx-auto mt-10 bg-white rounded-lg shadow-xl outline-none max-h-[90vh] overflow-y-auto"
+            overlayClassName="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-start justify-center p-4 z-50"
+        >
+            <div className="p-6 space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+                            <ArrowLeftRight size={22} /> Comorbidity Library
+                        </h2>
+                        <p className="text-sm text-gray-500 mt-1">
+                            Export the definitions for {selectedCode}, or import a library exported from another code or deployment.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
+                        <X size={24} />
+                    </button>
+                </div>
+
+                <div>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-2">Export</h3>
+                    <div className="flex gap-3">
+                        {(['json', 'csv'] as const).map(format => (
+                            <a
+                                key={format}
+                                href={exportUrl(format)}
+                                className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                            >
+                                <Download size={14} /> {format.toUpperCase()}
+                            </a>
+                        ))}
+                    </div>
+                </div>
+
+                {canImport && (
+                    <div className="space-y-4">
+                        <div>
+                            <h3 className="text-sm font-semibold text-gray-900 mb-2">Import into {selectedCode}</h3>
+                            <input
+                                type="file"
+                                accept=".json,.csv"
+                                onChange={(e) => handleFile(e.target.files?.[0] || null)}
+                                className="text-sm file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">
+                                Comorbidities are matched by name. Nothing changes until you apply the import.
+                            </p>
+                        </div>
+
+                        {error && <p className="text-sm text-red-600">{error}</p>}
+
+                        {loading && (
+                            <div className="flex items-center gap-2 text-gray-500 text-sm">
+                                <Loader2 size={16} className="animate-spin" /> Reading library...
+                            </div>
+                        )}
+
+                        {result && (
+                            <div className="p-3 rounded-lg bg-emerald-50 text-sm text-emerald-800">
+                                Imported: {result.added} added, {result.updated} updated, {result.skipped} skipped.
+                                {result.failed.length > 0 && (
+                                    <ul className="mt-2 text-red-700 list-disc list-inside">
+                                        {result.failed.map(failure => <li key={failure.name}>{failure.name}: {failure.error}</li>)}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+
+                        {library && library.procedure_code && library.procedure_code !== selectedCode && items.length > 0 && (
+                            <p className="text-sm text-gray-600">
+                                This library was exported from {library.procedure_code}
+                                {library.exported_at ? ` on ${new Date(library.exported_at).toLocaleString()}` : ''}.
+                            </p>
+                        )}
+
+                        {warnings.length > 0 && items.length > 0 && (
+                            <div className="p-3 rounded-lg bg-amber-50 text-sm text-amber-800">
+                                <p className="flex items-center gap-2 font-medium"><AlertCircle size={14} /> Some entries were adjusted</p>
+                                <ul className="mt-1 list-disc list-inside">
+                                    {warnings.map(warning => <li key={warning}>{warning}</li>)}
+                                </ul>
+                            </div>
+                        )}
+
+                        {items.length > 0 && (
+                            <>
+                                <div className="flex flex-wrap items-center gap-3 text-sm">
+                                    {(Object.keys(STATUS_STYLES) as LibraryImportStatus[]).filter(status => counts[status]).map(status => (
+                                        <span key={status} className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[status]}`}>
+                                            {counts[status]} {status}
+                                        </span>
+                                    ))}
+                                    {!!(counts.update || counts.conflict) && (
+                                        <span className="ml-auto flex items-center gap-2 text-gray-600">
+                                            Set matches to
+                                            {(['merge', 'replace'] as LibraryImportAction[]).map(action => (
+                                                <button
+                                                    key={action}
+                                                    onClick={() => {
+                                                        setActionForStatus('update', action);
+                                                        setActionForStatus('conflict', action);
+                                                    }}
+                                                    className="px-2 py-1 text-xs text-blue-700 hover:bg-blue-100 rounded"
+                                                >
+                                                    {action}
+                                                </button>
+                                            ))}
+                                        </span>
+                                    )}
+                                </div>
+
+                                <div className="overflow-x-auto">
+                                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                                        <thead className="bg-gray-50">
+                                            <tr>
+                                                {['Comorbidity', 'Status', 'Differences', 'Action'].map(heading => (
+                                                    <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{heading}</th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-200">
+                                            {items.map((item, index) => {
+                                                const resolved = resolvedDefinition(item);
+                                                return (
+                                                    <tr key={item.incoming.name} className="align-top">
+                                                        <td className="px-3 py-2 font-medium text-gray-900">{item.incoming.name}</td>
+                                                        <td className="px-3 py-2">
+                                                            <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                                                        </td>
+                                                        <td className="px-3 py-2">
+                                                            {item.existing ? (
+                                                                item.changed_fields.filter(field => field !== 'name').length === 0 ? (
+                                                                    <span className="text-gray-500">Identical</span>
+                                                                ) : (
+                                                                    <dl className="space-y-1">
+                                                                        {item.changed_fields.filter(field => field !== 'name').map(field => {
+                                                                            const kept = fieldText(field, resolved) === fieldText(field, item.existing);
+                                                                            return (
+                                                                                <div key={field}>
+                                                                                    <dt className="text-xs text-gray-500">{FIELD_LABELS[field]}</dt>
+                                                                                    <dd className="whitespace-pre-wrap break-words">
+                                                                                        <span className={!resolved || kept ? 'text-gray-700' : 'text-red-700 line-through'}>{fieldText(field, item.existing) || '—'}</span>
+                                                                                        <span className="text-gray-400"> → </span>
+                                                                                        <span className={resolved && !kept ? 'text-green-700' : 'text-gray-500'}>{fieldText(field, item.incoming) || '—'}</span>
+                                                                                    </dd>
+                                                                                </div>
+                                                                            );
+                                                                        })}
+                                                                    </dl>
+                                                                )
+                                                            ) : (
+                                                                <span className="text-gray-500">New to {selectedCode}</span>
+                                                            )}
+                                                        </td>
+                                                        <td className="px-3 py-2">
+                                                            <select
+                                                                value={item.action}
+                                                                onChange={(e) => setAction(index, e.target.value as LibraryImportAction)}
+                                                                disabled={IMPORT_ACTIONS[item.status].length === 1}
+                                                                className="p-1 text-sm border border-gray-300 rounded"
+                                                            >
+                                                                {IMPORT_ACTIONS[item.status].map(action => (
+                                                                    <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                                                                ))}
+                                                            </select>
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                <div className="flex justify-end">
+                                    <button
+                                        onClick={handleApply}
+                                        disabled={applying || pending === 0}
+                                        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+                                    >
+                                        {applying ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+                                        Apply {pending} change{pending === 1 ? '' : 's'}
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -3,8 +3,12 @@ import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
     Check, X, Plus, Edit, Trash2, Save, AlertCircle,
-    Sparkles, ChevronDown, ChevronUp, FileText, Loader2
+    Sparkles, ChevronDown, ChevronUp, FileText, Loader2, History, ArrowLeftRight
 } from 'lucide-react';
+import { CHARLSON_CATEGORIES, ELIXHAUSER_CATEGORIES, categoryLabel } from '../utils/comorbidityIndices';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { DefinitionHistory } from './DefinitionHistory';
+import { ComorbidityLibraryTransfer } from './ComorbidityLibraryTransfer';
 
 interface Comorbidity {
     id: string;
@@ -12,6 +16,8 @@ interface Comorbidity {
     description: string;
     notes?: string;
     enabled: boolean;
+    charlson_category?: string | null;
+    elixhauser_category?: string | null;
 }
 
 interface ComorbidityManagementProps {
@@ -28,8 +34,54 @@ interface NewComorbidity {
     name: string;
     description: string;
     notes: string;
+    charlson_category: string;
+    elixhauser_category: string;
 }
 
+const EMPTY_COMORBIDITY: NewComorbidity = { name: '', description: '', notes: '', charlson_category: '', elixhauser_category: '' };
+
+const IndexCategorySelects = ({
+    charlson,
+    elixhauser,
+    onChange,
+    disabled,
+    compact = false
+}: {
+    charlson: string;
+    elixhauser: string;
+    onChange: (updates: { charlson_category?: string; elixhauser_category?: string }) => void;
+    disabled?: boolean;
+    compact?: boolean;
+}) => {
+    const labelClass = compact ? 'block text-xs font-medium text-gray-600 mb-1' : 'block text-sm font-medium text-gray-700 mb-2';
+    const selectClass = compact
+        ? 'w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500'
+        : 'w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+    return (
+        <div className={`grid grid-cols-1 md:grid-cols-2 ${compact ? 'gap-3' : 'gap-4'}`}>
+            <div>
+                <label className={labelClass}>Charlson Category</label>
+                <select value={charlson} onChange={(e) => onChange({ charlson_category: e.target.value })} className={selectClass} disabled={disabled}>
+                    <option value="">Not scored</option>
+                    {CHARLSON_CATEGORIES.map(category => (
+                        <option key={category.id} value={category.id}>{category.label} ({category.weight})</option>
+                    ))}
+                </select>
+            </div>
+            <div>
+                <label className={labelClass}>Elixhauser Category</label>
+                <select value={elixhauser} onChange={(e) => onChange({ elixhauser_category: e.target.value })} className={selectClass} disabled={disabled}>
+                    <option value="">Not scored</option>
+                    {ELIXHAUSER_CATEGORIES.map(category => (
+                        <option key={category.id} value={category.id}>{category.label} ({category.weight})</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+};
+
 const Card = ({ children, className = "" }: { children: React.ReactNode; className?: string; }) => (
     <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -104,16 +156,17 @@ export default function ComorbidityManagement({
 }: ComorbidityManagementProps) {
     const [showAddForm, setShowAddForm] = useState(false);
     const [editingId, setEditingId] = useState<string | null>(null);
-    const [newComorbidity, setNewComorbidity] = useState<NewComorbidity>({
-        name: '',
-        description: '',
-        notes: ''
-    });
+    const [newComorbidity, setNewComorbidity] = useState<NewComorbidity>(EMPTY_COMORBIDITY);
     const [editingComorbidity, setEditingComorbidity] = useState<Partial<Comorbidity>>({});
     const [isExpanded, setIsExpanded] = useState(true);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState<string | null>(null);
+    const [showHistory, setShowHistory] = useState(false);
+    const [historyFocusId, setHistoryFocusId] = useState<string | null>(null);
+    const [showLibrary, setShowLibrary] = useState(false);
+    // Definitions are shared reference data, edited by admins only
+    const canEdit = useCurrentUser().can('admin');
 
     if (!selectedCode) return null;
 
@@ -138,7 +191,9 @@ export default function ComorbidityManagement({
         const dataToSend = {
             name: newComorbidity.name.trim(),
             description: newComorbidity.description.trim(),
-            notes: newComorbidity.notes.trim()
+            notes: newComorbidity.notes.trim(),
+            charlson_category: newComorbidity.charlson_category || null,
+            elixhauser_category: newComorbidity.elixhauser_category || null
         };
 
         setIsLoading(true);
@@ -172,7 +227,7 @@ export default function ComorbidityManagement({
             const updatedComorbidities = [...comorbidities, newComorbidityWithEnabled];
             onComorbidityUpdate(updatedComorbidities);
 
-            setNewComorbidity({ name: '', description: '', notes: '' });
+            setNewComorbidity(EMPTY_COMORBIDITY);
             setShowAddForm(false);
             setSuccess('Comorbidity added successfully!');
             clearMessages();
@@ -195,10 +250,13 @@ export default function ComorbidityManagement({
             return;
         }
 
+        // Index categories may be cleared, which is sent as null rather than dropped
         const cleanedData = Object.fromEntries(
-            Object.entries(editingComorbidity).filter(([key, value]) => {
-                return value !== undefined && value !== null && value !== '';
-            })
+            Object.entries(editingComorbidity)
+                .filter(([key, value]) => {
+                    return key.endsWith('_category') || (value !== undefined && value !== null && value !== '');
+                })
+                .map(([key, value]) => [key, key.endsWith('_category') ? value || null : value])
         );
 
         if (Object.keys(cleanedData).length === 0) {
@@ -276,7 +334,9 @@ export default function ComorbidityManagement({
         setEditingComorbidity({
             name: comorbidity.name || '',
             description: comorbidity.description || '',
-            notes: comorbidity.notes || ''
+            notes: comorbidity.notes || '',
+            charlson_category: comorbidity.charlson_category || '',
+            elixhauser_category: comorbidity.elixhauser_category || ''
         });
         setError(null);
         setSuccess(null);
@@ -291,11 +351,34 @@ export default function ComorbidityManagement({
 
     const cancelAddForm = () => {
         setShowAddForm(false);
-        setNewComorbidity({ name: '', description: '', notes: '' });
+        setNewComorbidity(EMPTY_COMORBIDITY);
         setError(null);
         setSuccess(null);
     };
 
+    const openHistory = (comorbidityId: string | null) => {
+        setHistoryFocusId(comorbidityId);
+        setShowHistory(true);
+    };
+
+    // A restored definition replaces the current one, or comes back as a new one if it had been deleted
+    const handleRestored = (restored: Comorbidity) => {
+        const exists = comorbidities.some(c => c.id === restored.id);
+        onComorbidityUpdate(exists
+            ? comorbidities.map(c => c.id === restored.id ? { ...c, ...restored, enabled: c.enabled } : c)
+            : [...comorbidities, restored]);
+        setSuccess(`Restored ${restored.name}`);
+        clearMessages();
+    };
+
+    // Imported definitions start selected; existing ones keep their current selection
+    const handleImported = (imported: Comorbidity[]) => {
+        const enabledById = new Map(comorbidities.map(c => [c.id, c.enabled]));
+        onComorbidityUpdate(imported.map(c => ({ ...c, enabled: enabledById.get(c.id) ?? true })));
+        setSuccess('Comorbidity library imported');
+        clearMessages();
+    };
+
     const handleSelectAll = () => {
         const updated = comorbidities.map(c => ({ ...c, enabled: true }));
         onComorbidityUpdate(updated);
@@ -334,17 +417,43 @@ export default function ComorbidityManagement({
                 </div>
                 <div className="flex items-center gap-4">
                     <Button
-                        variant="primary"
+                        variant="ghost"
                         size="sm"
                         onClick={(e) => {
                             e?.stopPropagation();
-                            setShowAddForm(true);
+                            openHistory(null);
                         }}
                         disabled={isLoading}
                     >
-                        <Plus size={16} />
-                        Add New
+                        <History size={16} />
+                        History
                     </Button>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                            e?.stopPropagation();
+                            setShowLibrary(true);
+                        }}
+                        disabled={isLoading}
+                    >
+                        <ArrowLeftRight size={16} />
+                        Library
+                    </Button>
+                    {canEdit && (
+                        <Button
+                            variant="primary"
+                            size="sm"
+                            onClick={(e) => {
+                                e?.stopPropagation();
+                                setShowAddForm(true);
+                            }}
+                            disabled={isLoading}
+                        >
+                            <Plus size={16} />
+                            Add New
+                        </Button>
+                    )}
                     {isExpanded ? <ChevronUp size={24} /> : <ChevronDown size={24} />}
                 </div>
             </div>
@@ -455,6 +564,14 @@ export default function ComorbidityManagement({
                                             disabled={isLoading}
                                         />
                                     </div>
+                                    <div className="mb-4">
+                                        <IndexCategorySelects
+                                            charlson={newComorbidity.charlson_category}
+                                            elixhauser={newComorbidity.elixhauser_category}
+                                            onChange={(updates) => setNewComorbidity(prev => ({ ...prev, ...updates }))}
+                                            disabled={isLoading}
+                                        />
+                                    </div>
                                     <div className="flex gap-3">
                                         <Button
                                             variant="success"
@@ -544,6 +661,13 @@ export default function ComorbidityManagement({
                                                     disabled={isLoading}
                                                 />
                                             </div>
+                                            <IndexCategorySelects
+                                                charlson={editingComorbidity.charlson_category || ''}
+                                                elixhauser={editingComorbidity.elixhauser_category || ''}
+                                                onChange={(updates) => setEditingComorbidity(prev => ({ ...prev, ...updates }))}
+                                                disabled={isLoading}
+                                                compact
+                                            />
                                             <div className="flex gap-2">
                                                 <Button
                                                     variant="success"
@@ -600,30 +724,57 @@ export default function ComorbidityManagement({
                                                             {comorbidity.description}
                                                         </p>
                                                     )}
+                                                    {(comorbidity.charlson_category || comorbidity.elixhauser_category) && (
+                                                        <div className="flex flex-wrap gap-2">
+                                                            {comorbidity.charlson_category && (
+                                                                <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-1 rounded-full">
+                                                                    Charlson: {categoryLabel('charlson', comorbidity.charlson_category)}
+                                                                </span>
+                                                            )}
+                                                            {comorbidity.elixhauser_category && (
+                                                                <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded-full">
+                                                                    Elixhauser: {categoryLabel('elixhauser', comorbidity.elixhauser_category)}
+                                                                </span>
+                                                            )}
+                                                        </div>
+                                                    )}
                                                 </div>
                                                 <div className="flex gap-1">
                                                     <Button
                                                         variant="ghost"
                                                         size="sm"
-                                                        onClick={() => startEditing(comorbidity)}
+                                                        onClick={() => openHistory(comorbidity.id)}
                                                         className="p-2"
                                                         disabled={isLoading}
                                                     >
-                                                        <Edit size={14} />
-                                                    </Button>
-                                                    <Button
-                                                        variant="danger"
-                                                        size="sm"
-                                                        onClick={() => handleDeleteComorbidity(comorbidity.id)}
-                                                        className="p-2"
-                                                        disabled={isLoading}
-                                                    >
-                                                        {isLoading ? (
-                                                            <Loader2 size={14} className="animate-spin" />
-                                                        ) : (
-                                                            <Trash2 size={14} />
-                                                        )}
+                                                        <History size={14} />
                                                     </Button>
+                                                    {canEdit && (
+                                                        <>
+                                                            <Button
+                                                                variant="ghost"
+                                                                size="sm"
+                                                                onClick={() => startEditing(comorbidity)}
+                                                                className="p-2"
+                                                                disabled={isLoading}
+                                                            >
+                                                                <Edit size={14} />
+                                                            </Button>
+                                                            <Button
+                                                                variant="danger"
+                                                                size="sm"
+                                                                onClick={() => handleDeleteComorbidity(comorbidity.id)}
+                                                                className="p-2"
+                                                                disabled={isLoading}
+                                                            >
+                                                                {isLoading ? (
+                                                                    <Loader2 size={14} className="animate-spin" />
+                                                                ) : (
+                                                                    <Trash2 size={14} />
+                                                                )}
+                                                            </Button>
+                                                        </>
+                                                    )}
                                                 </div>
                                             </div>
                                         </div>
@@ -640,14 +791,16 @@ export default function ComorbidityManagement({
                                 <p className="text-gray-400 mb-6">
                                     No comorbidities are configured for {selectedCode}. Add some to get started.
                                 </p>
-                                <Button
-                                    variant="primary"
-                                    onClick={() => setShowAddForm(true)}
-                                    disabled={isLoading}
-                                >
-                                    <Plus size={16} />
-                                    Add First Comorbidity
-                                </Button>
+                                {canEdit && (
+                                    <Button
+                                        variant="primary"
+                                        onClick={() => setShowAddForm(true)}
+                                        disabled={isLoading}
+                                    >
+                                        <Plus size={16} />
+                                        Add First Comorbidity
+                                    </Button>
+                                )}
                             </div>
                         )}
 
@@ -668,6 +821,23 @@ export default function ComorbidityManagement({
                     </motion.div>
                 )}
             </AnimatePresence>
+
+            <DefinitionHistory
+                selectedCode={selectedCode}
+                isOpen={showHistory}
+                focusId={historyFocusId}
+                canRestore={canEdit}
+                onRestored={handleRestored}
+                onClose={() => setShowHistory(false)}
+            />
+
+            <ComorbidityLibraryTransfer
+                selectedCode={selectedCode}
+                isOpen={showLibrary}
+                canImport={canEdit}
+                onImported={handleImported}
+                onClose={() => setShowLibrary(false)}
+            />
         </Card>
     );
 }
\ No newline at end of file
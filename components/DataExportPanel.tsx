@@ -0,0 +1,195 @@
+// components/DataExportPanel.tsx
+import { useState, useEffect } from 'react';
+import { Download } from 'lucide-react';
+
+interface DataExportPanelProps {
+    jobId: string;
+}
+
+type Dataset = 'matches' | 'patients' | 'analytics';
+type Format = 'csv' | 'ndjson' | 'parquet';
+
+const DATASET_LABELS: Record<Dataset, string> = {
+    matches: 'Comorbidity matches',
+    patients: 'Patient summaries',
+    analytics: 'Patient analytics (long format)'
+};
+
+const FORMAT_LABELS: Record<Format, string> = {
+    csv: 'CSV',
+    ndjson: 'Newline-delimited JSON',
+    parquet: 'Parquet'
+};
+
+// Filters offered per dataset; values are passed straight through as query parameters
+const FILTERS: Record<Dataset, Array<{ key: string; label: string; options?: string[] }>> = {
+    matches: [
+        { key: 'comorbidity', label: 'Comorbidity' },
+        { key: 'file_name', label: 'File' },
+        { key: 'column_name', label: 'Column' },
+        { key: 'min_confidence', label: 'Min confidence (0-1)' }
+    ],
+    patients: [
+        { key: 'comorbidity', label: 'Has comorbidity' },
+        { key: 'file_name', label: 'File' },
+        { key: 'surgery_outcome', label: 'Surgery outcome', options: ['success', 'failure', 'unknown'] },
+        { key: 'mortality_status', label: 'Mortality status', options: ['alive', 'deceased'] }
+    ],
+    analytics: [
+        { key: 'section', label: 'Section' }
+    ]
+};
+
+export const DataExportPanel = ({ jobId }: DataExportPanelProps) => {
+    const [availableColumns, setAvailableColumns] = useState<Record<Dataset, string[]> | null>(null);
+    const [dataset, setDataset] = useState<Dataset>('patients');
+    const [format, setFormat] = useState<Format>('csv');
+    const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
+    const [filters, setFilters] = useState<Record<string, string>>({});
+    const [excludeRejected, setExcludeRejected] = useState(true);
+    const [fhirFormat, setFhirFormat] = useState<'bundle' | 'ndjson'>('bundle');
+    const [fhirIncludeUnreviewed, setFhirIncludeUnreviewed] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetch(`/api/job-export/${jobId}/columns`)
+            .then(res => {
+                if (!res.ok) throw new Error('Failed to load export columns');
+                return res.json();
+            })
+            .then(setAvailableColumns)
+            .catch(err => setError(err.message));
+    }, [jobId]);
+
+    useEffect(() => {
+        setSelectedColumns(availableColumns?.[dataset] || []);
+        setFilters({});
+    }, [dataset, availableColumns]);
+
+    const columns = availableColumns?.[dataset] || [];
+    const toggleColumn = (column: string) => {
+        // Keep the original column order regardless of click order
+        setSelectedColumns(prev => prev.includes(column)
+            ? prev.filter(value => value !== column)
+            : columns.filter(value => value === column || prev.includes(value)));
+    };
+
+    const params = new URLSearchParams({ dataset, format });
+    if (selectedColumns.length > 0 && selectedColumns.length < columns.length) {
+        params.set('columns', selectedColumns.join(','));
+    }
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value.trim()) params.set(key, value.trim());
+    });
+    if (dataset === 'matches' && excludeRejected) params.set('exclude_rejected', 'true');
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow space-y-4">
+            <div>
+                <h3 className="text-lg font-medium text-gray-900">Export Data</h3>
+                <p className="text-sm text-gray-500">
+                    Flat files for analysis in R or Python. Nested fields become dot-separated columns; lists are joined with &quot;; &quot; in CSV and Parquet.
+                </p>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-6">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Dataset</label>
+                    <select value={dataset} onChange={(e) => setDataset(e.target.value as Dataset)} className="p-2 text-sm border border-gray-300 rounded">
+                        {(Object.keys(DATASET_LABELS) as Dataset[]).map(key => <option key={key} value={key}>{DATASET_LABELS[key]}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+                    <select value={format} onChange={(e) => setFormat(e.target.value as Format)} className="p-2 text-sm border border-gray-300 rounded">
+                        {(Object.keys(FORMAT_LABELS) as Format[]).map(key => <option key={key} value={key}>{FORMAT_LABELS[key]}</option>)}
+                    </select>
+                </div>
+                {FILTERS[dataset].map(filter => (
+                    <div key={filter.key}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{filter.label}</label>
+                        {filter.options ? (
+                            <select
+                                value={filters[filter.key] || ''}
+                                onChange={(e) => setFilters(prev => ({ ...prev, [filter.key]: e.target.value }))}
+                                className="p-2 text-sm border border-gray-300 rounded"
+                            >
+                                <option value="">Any</option>
+                                {filter.options.map(option => <option key={option} value={option}>{option}</option>)}
+                            </select>
+                        ) : (
+                            <input
+                                type="text"
+                                value={filters[filter.key] || ''}
+                                onChange={(e) => setFilters(prev => ({ ...prev, [filter.key]: e.target.value }))}
+                                className="w-40 p-2 text-sm border border-gray-300 rounded"
+                            />
+                        )}
+                    </div>
+                ))}
+                {dataset === 'matches' && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="checkbox" checked={excludeRejected} onChange={(e) => setExcludeRejected(e.target.checked)} />
+                        Exclude rejected matches
+                    </label>
+                )}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {columns.length > 0 && (
+                <div>
+                    <div className="flex items-center gap-3 mb-2">
+                        <span className="text-sm font-medium text-gray-700">Columns ({selectedColumns.length}/{columns.length})</span>
+                        <button onClick={() => setSelectedColumns(columns)} className="text-xs text-blue-600 hover:text-blue-800">All</button>
+                        <button onClick={() => setSelectedColumns([])} className="text-xs text-blue-600 hover:text-blue-800">None</button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-1 max-h-48 overflow-y-auto p-2 border border-gray-200 rounded">
+                        {columns.map(column => (
+                            <label key={column} className="flex items-center gap-2 text-xs text-gray-700 truncate" title={column}>
+                                <input type="checkbox" checked={selectedColumns.includes(column)} onChange={() => toggleColumn(column)} />
+                                {column}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <a
+                href={selectedColumns.length > 0 ? `/api/job-export/${jobId}?${params.toString()}` : undefined}
+                aria-disabled={selectedColumns.length === 0}
+                className={`inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md text-white ${selectedColumns.length > 0 ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-300 cursor-not-allowed'}`}
+            >
+                <Download size={16} />
+                Download {FORMAT_LABELS[format]}
+            </a>
+
+            <div className="pt-4 border-t border-gray-200 space-y-3">
+                <div>
+                    <h4 className="text-sm font-medium text-gray-900">FHIR R4</h4>
+                    <p className="text-xs text-gray-500">
+                        Confirmed matches as Condition resources, with a Procedure (ICMP code and outcome) and a mortality Observation per patient.
+                        Patients are identified by their pseudonyms, labelled as such, not by hospital numbers.
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-4">
+                    <select value={fhirFormat} onChange={(e) => setFhirFormat(e.target.value as 'bundle' | 'ndjson')} className="p-2 text-sm border border-gray-300 rounded">
+                        <option value="bundle">Transaction Bundle (JSON)</option>
+                        <option value="ndjson">Bulk data (NDJSON)</option>
+                    </select>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="checkbox" checked={fhirIncludeUnreviewed} onChange={(e) => setFhirIncludeUnreviewed(e.target.checked)} />
+                        Include unreviewed matches as provisional
+                    </label>
+                    <a
+                        href={`/api/fhir-export/${jobId}?format=${fhirFormat}&include_unreviewed=${fhirIncludeUnreviewed}`}
+                        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md text-blue-700 border border-blue-200 hover:bg-blue-50"
+                    >
+                        <Download size={16} />
+                        Download FHIR
+                    </a>
+                </div>
+            </div>
+        </div>
+    );
+};
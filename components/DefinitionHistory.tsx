@@ -0,0 +1,308 @@
+// components/DefinitionHistory.tsx
+import { useState, useEffect, useCallback } from 'react';
+import Modal from 'react-modal';
+import { History, RotateCcw, RefreshCw, Loader2, X } from 'lucide-react';
+import type { Comorbidity, ComorbidityDefinitionFields, ComorbidityVersion } from '../types';
+import { categoryLabel } from '../utils/comorbidityIndices';
+
+interface DefinitionHistoryProps {
+    selectedCode: string;
+    isOpen: boolean;
+    focusId: string | null; // Definition to show first; null opens on the first one
+    canRestore: boolean;
+    onRestored: (comorbidity: Comorbidity) => void;
+    onClose: () => void;
+}
+
+const FIELD_LABELS: Record<keyof ComorbidityDefinitionFields, string> = {
+    name: 'Name',
+    description: 'Description',
+    notes: 'Notes',
+    keywords: 'Keywords',
+    charlson_category: 'Charlson category',
+    elixhauser_category: 'Elixhauser category'
+};
+
+const CHANGE_STYLES: Record<ComorbidityVersion['change'], string> = {
+    created: 'bg-emerald-100 text-emerald-700',
+    updated: 'bg-blue-100 text-blue-700',
+    deleted: 'bg-red-100 text-red-700',
+    restored: 'bg-purple-100 text-purple-700'
+};
+
+const SOURCE_LABELS: Record<ComorbidityVersion['source'], string> = {
+    editor: 'editor',
+    upload: 'reference file upload',
+    import: 'library import',
+    external: 'changed outside the app'
+};
+
+const fieldText = (field: keyof ComorbidityDefinitionFields, definition: ComorbidityDefinitionFields | null) => {
+    const value = definition?.[field];
+    if (!value) return '';
+    if (field === 'charlson_category') return categoryLabel('charlson', value);
+    if (field === 'elixhauser_category') return categoryLabel('elixhauser', value);
+    return value;
+};
+
+export const DefinitionHistory = ({ selectedCode, isOpen, focusId, canRestore, onRestored, onClose }: DefinitionHistoryProps) => {
+    const [versions, setVersions] = useState<ComorbidityVersion[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [restoring, setRestoring] = useState(false);
+    const [syncing, setSyncing] = useState(false);
+    const [syncMessage, setSyncMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchVersions = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/comorbidity-versions/${encodeURIComponent(selectedCode)}`);
+            if (!response.ok) {
+                const errorResult = await response.json();
+                throw new Error(errorResult.error || `HTTP error! status: ${response.status}`);
+            }
+            setVersions(await response.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        } finally {
+            setLoading(false);
+        }
+    }, [selectedCode]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSelectedId(focusId);
+        setSelectedVersion(null);
+        setSyncMessage(null);
+        fetchVersions();
+    }, [isOpen, focusId, fetchVersions]);
+
+    // One entry per definition, newest version last; deleted definitions stay listed so they can be restored
+    const historyById = new Map<string, ComorbidityVersion[]>();
+    versions.forEach(version => {
+        historyById.set(version.comorbidity_id, [...(historyById.get(version.comorbidity_id) || []), version]);
+    });
+    const definitions = Array.from(historyById.entries()).map(([id, history]) => {
+        const latest = history[history.length - 1];
+        const named = [...history].reverse().find(version => version.definition);
+        return { id, history, latest, name: named?.definition?.name || id };
+    });
+
+    const activeId = selectedId && historyById.has(selectedId) ? selectedId : definitions[0]?.id || null;
+    const history = activeId ? historyById.get(activeId) || [] : [];
+    const latest = history[history.length - 1];
+    const shown = history.find(version => version.version === selectedVersion) || latest;
+    const previous = shown ? history.find(version => version.version === shown.version - 1) : undefined;
+
+    const handleRestore = async (version: ComorbidityVersion) => {
+        if (!confirm(`Restore "${version.definition?.name}" to version ${version.version}?`)) {
+            return;
+        }
+        setRestoring(true);
+        setError(null);
+        try {
+            const response = await fetch(
+                `/api/comorbidity-versions/${encodeURIComponent(selectedCode)}/${encodeURIComponent(version.comorbidity_id)}/restore`,
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({ version: version.version })
+                }
+            );
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to restore version');
+            }
+            onRestored({ ...result.comorbidity, enabled: true });
+            setSelectedId(String(result.comorbidity.id));
+            setSelectedVersion(null);
+            await fetchVersions();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        } finally {
+            setRestoring(false);
+        }
+    };
+
+    // Reading history never changes it, so changes made directly in the backend are picked up on request
+    const handleSync = async () => {
+        setSyncing(true);
+        setError(null);
+        setSyncMessage(null);
+        try {
+            const response = await fetch(`/api/comorbidity-versions/${encodeURIComponent(selectedCode)}/sync`, { method: 'POST' });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to check for changes');
+            }
+            setVersions(result.versions);
+            setSyncMessage(result.recorded.length > 0
+                ? `Recorded ${result.recorded.length} change${result.recorded.length === 1 ? '' : 's'} made outside the app`
+                : 'No changes made outside the app');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        } finally {
+            setSyncing(false);
+        }
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onRequestClose={onClose}
+            ariaHideApp={false}
+            className="max-w-5xl w-full mx-auto mt-10 bg-white rounded-lg shadow-xl outline-none max-h-[90vh] overflow-y-auto"
+            overlayClassName="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-start justify-center p-4 z-50"
+        >
+            <div className="p-6">
+                <div className="flex items-center justify-between mb-6">
+                    <div>
+                        <h2 className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+                            <History size={22} /> Definition History
+                        </h2>
+                        <p className="text-sm text-gray-500 mt-1">
+                            Every recorded version of the comorbidity definitions for {selectedCode}. Jobs keep the versions they ran with.
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                        {canRestore && (
+                            <button
+                                onClick={handleSync}
+                                disabled={syncing}
+                                className="inline-flex items-center gap-1 px-2 py-1 text-sm text-blue-700 hover:bg-blue-100 rounded disabled:opacity-50"
+                            >
+                                {syncing ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                                Check for outside changes
+                            </button>
+                        )}
+                        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
+                            <X size={24} />
+                        </button>
+                    </div>
+                </div>
+
+                {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+                {syncMessage && <p className="mb-4 text-sm text-gray-600">{syncMessage}</p>}
+
+                {loading && versions.length === 0 ? (
+                    <div className="flex items-center gap-2 text-gray-500">
+                        <Loader2 size={16} className="animate-spin" /> Loading history...
+                    </div>
+                ) : definitions.length === 0 ? (
+                    <p className="text-sm text-gray-500">No versions have been recorded for {selectedCode} yet.</p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <ul className="space-y-1 md:border-r md:pr-4">
+                            {definitions.map(definition => (
+                                <li key={definition.id}>
+                                    <button
+                                        onClick={() => {
+                                            setSelectedId(definition.id);
+                                            setSelectedVersion(null);
+                                        }}
+                                        className={`w-full text-left px-3 py-2 rounded-lg text-sm ${definition.id === activeId ? 'bg-blue-50 text-blue-800 font-semibold' : 'hover:bg-gray-50 text-gray-700'}`}
+                                    >
+                                        <span className={definition.latest.definition ? '' : 'line-through text-gray-400'}>{definition.name}</span>
+                                        <span className="ml-2 text-xs text-gray-500">v{definition.latest.version}</span>
+                                        {!definition.latest.definition && <span className="ml-2 text-xs text-red-600">Deleted</span>}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+
+                        <div className="md:col-span-2 space-y-4">
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            {['Version', 'Change', 'Recorded', 'By', ''].map(heading => (
+                                                <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{heading}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200">
+                                        {[...history].reverse().map(version => (
+                                            <tr
+                                                key={version.version}
+                                                onClick={() => setSelectedVersion(version.version)}
+                                                className={`cursor-pointer ${version.version === shown?.version ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                                            >
+                                                <td className="px-3 py-2 font-medium">v{version.version}</td>
+                                                <td className="px-3 py-2">
+                                                    <span className={`px-2 py-0.5 text-xs rounded-full ${CHANGE_STYLES[version.change]}`}>{version.change}</span>
+                                                    {version.restored_from && (
+                                                        <span className="ml-1 text-xs text-gray-500">from v{version.restored_from.version}</span>
+                                                    )}
+                                                </td>
+                                                <td className="px-3 py-2 whitespace-nowrap">{new Date(version.recorded_at).toLocaleString()}</td>
+                                                <td className="px-3 py-2">
+                                                    {version.recorded_by || 'System'}
+                                                    <span className="block text-xs text-gray-500">{SOURCE_LABELS[version.source]}</span>
+                                                </td>
+                                                <td className="px-3 py-2 text-right">
+                                                    {canRestore && version.definition && (version !== latest || !latest.definition) && (
+                                                        <button
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                handleRestore(version);
+                                                            }}
+                                                            disabled={restoring}
+                                                            className="inline-flex items-center gap-1 px-2 py-1 text-xs text-blue-700 hover:bg-blue-100 rounded disabled:opacity-50"
+                                                        >
+                                                            {restoring ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                                                            Restore
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            {shown && (
+                                <div>
+                                    <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                                        {previous ? `Changes from v${previous.version} to v${shown.version}` : `v${shown.version} as first recorded`}
+                                    </h3>
+                                    <table className="min-w-full text-sm">
+                                        <thead>
+                                            <tr className="text-left text-xs text-gray-500">
+                                                <th className="pr-4 py-1 w-40">Field</th>
+                                                {previous && <th className="pr-4 py-1">v{previous.version}</th>}
+                                                <th className="py-1">v{shown.version}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {(Object.keys(FIELD_LABELS) as Array<keyof ComorbidityDefinitionFields>).map(field => {
+                                                const before = fieldText(field, previous?.definition ?? null);
+                                                const after = fieldText(field, shown.definition);
+                                                const isChanged = !!previous && before !== after;
+                                                return (
+                                                    <tr key={field} className={`align-top ${isChanged ? 'bg-amber-50' : ''}`}>
+                                                        <td className="pr-4 py-1 font-medium text-gray-700">{FIELD_LABELS[field]}</td>
+                                                        {previous && (
+                                                            <td className={`pr-4 py-1 whitespace-pre-wrap break-words ${isChanged ? 'text-red-700 line-through' : 'text-gray-600'}`}>{before || '—'}</td>
+                                                        )}
+                                                        <td className={`py-1 whitespace-pre-wrap break-words ${isChanged ? 'text-green-700' : 'text-gray-600'}`}>
+                                                            {shown.definition ? after || '—' : 'Deleted'}
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -51,7 +51,7 @@ export const FileUpload = ({
             <input
                 type="file"
                 multiple
-                accept=".xlsx,.xls,.csv"
+                accept=".xlsx,.xls,.csv,.hl7,.txt"
                 onChange={(e) => {
                     const files = Array.from(e.target.files || []);
                     handleFileUpload(files);
@@ -61,10 +61,10 @@ export const FileUpload = ({
             />
 
             <h3 className="text-3xl font-bold text-gray-900 mb-4">
-                Drop your Excel/CSV files here
+                Drop your Excel/CSV or HL7 files here
             </h3>
             <p className="text-xl text-gray-600 mb-8">
-                Supports .xlsx, .xls, and .csv formats • Maximum 16MB per file • HIPAA Compliant
+                Supports .xlsx, .xls, .csv and HL7 v2 (.hl7) message batches • Maximum 16MB per file • HIPAA Compliant
             </p>
 
             <Button variant="primary" size="lg">
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { FaFileAlt, FaSyncAlt, FaCheckCircle, FaExclamationTriangle, FaTrash, FaUsers, FaHeart, FaTimes, FaChartBar, FaEye } from 'react-icons/fa';
+import { FaFileAlt, FaSyncAlt, FaCheckCircle, FaExclamationTriangle, FaTrash, FaUsers, FaHeart, FaTimes, FaChartBar, FaEye, FaBalanceScale, FaColumns } from 'react-icons/fa';
 import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, LineChart, Line, CartesianGrid } from 'recharts';
+import { RiskAdjustedMortality } from './RiskAdjustedMortality';
+import { JobComparison } from './JobComparison';
+import { useCurrentUser } from '../hooks/useCurrentUser';
 
 // Enhanced Type Definitions
 interface OverallStats {
@@ -57,7 +60,10 @@ const JobAnalytics = () => {
     const [dashboardData, setDashboardData] = useState<DashboardData | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [selectedView, setSelectedView] = useState<'overview' | 'jobs' | 'analytics'>('overview');
+    const [selectedView, setSelectedView] = useState<'overview' | 'jobs' | 'analytics' | 'risk' | 'compare'>('overview');
+    const { can } = useCurrentUser();
+    const [selectedJobIds, setSelectedJobIds] = useState<string[]>([]);
+    const [comparedJobIds, setComparedJobIds] = useState<string[]>([]);
 
     useEffect(() => {
         fetchDashboardData();
@@ -194,7 +200,9 @@ const JobAnalytics = () => {
                 {[
                     { id: 'overview', label: 'Overview', icon: <FaChartBar /> },
                     { id: 'jobs', label: 'Recent Jobs', icon: <FaFileAlt /> },
-                    { id: 'analytics', label: 'Advanced Analytics', icon: <FaUsers /> }
+                    { id: 'analytics', label: 'Advanced Analytics', icon: <FaUsers /> },
+                    { id: 'risk', label: 'Risk Adjustment', icon: <FaBalanceScale /> },
+                    ...(comparedJobIds.length > 1 ? [{ id: 'compare', label: 'Comparison', icon: <FaColumns /> }] : [])
                 ].map(tab => (
                     <button
                         key={tab.id}
@@ -352,7 +360,12 @@ const JobAnalytics = () => {
             {/* Recent Jobs Performance */}
             {recentJobsChartData.length > 0 && (
                 <div className="bg-white p-6 rounded-lg shadow-md">
-                    <h3 className="text-lg font-semibold text-gray-800 mb-4">Recent Jobs Performance</h3>
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-lg font-semibold text-gray-800">Recent Jobs Performance</h3>
+                        <Link href="/trends" className="text-sm text-blue-600 hover:text-blue-800">
+                            Trends over time →
+                        </Link>
+                    </div>
                     <ResponsiveContainer width="100%" height={300}>
                         <LineChart data={recentJobsChartData}>
                             <CartesianGrid strokeDasharray="3 3" />
@@ -385,15 +398,33 @@ const JobAnalytics = () => {
         </div>
     );
 
+    const toggleJobSelection = (jobId: string) => {
+        setSelectedJobIds(prev => prev.includes(jobId) ? prev.filter(id => id !== jobId) : [...prev, jobId]);
+    };
+
+    const jobLabel = (job: RecentJob) => `${job.procedure_code} • ${new Date(job.processed_at).toLocaleDateString()}`;
+
     const renderRecentJobsTable = () => (
         <div className="bg-white shadow-md rounded-lg overflow-hidden">
-            <div className="px-6 py-4 border-b border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
                 <h3 className="text-lg font-semibold text-gray-800">Recent Jobs</h3>
+                <button
+                    onClick={() => {
+                        setComparedJobIds(selectedJobIds);
+                        setSelectedView('compare');
+                    }}
+                    disabled={selectedJobIds.length < 2}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Select two or more jobs to compare"
+                >
+                    <FaColumns /> Compare ({selectedJobIds.length})
+                </button>
             </div>
             <div className="overflow-x-auto">
                 <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50">
                         <tr>
+                            <th className="px-6 py-3"></th>
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job ID</th>
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Procedure</th>
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Processed At</th>
@@ -409,6 +440,14 @@ const JobAnalytics = () => {
                             const successRate = calculateSurgerySuccessRate(job);
                             return (
                                 <tr key={job.job_id} className="hover:bg-gray-50 transition-colors duration-150">
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedJobIds.includes(job.job_id)}
+                                            onChange={() => toggleJobSelection(job.job_id)}
+                                            aria-label={`Select job ${job.job_id} for comparison`}
+                                        />
+                                    </td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
                                         <Link href={`/audit-dashboard?job_id=${job.job_id}`} passHref>
                                             <a className="text-blue-600 hover:text-blue-800 font-mono">{job.job_id.substring(0, 8)}...</a>
@@ -451,16 +490,18 @@ const JobAnalytics = () => {
                                                     <FaEye />
                                                 </a>
                                             </Link>
-                                            <button
-                                                onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    handleDeleteJob(job.job_id);
-                                                }}
-                                                className="text-gray-400 hover:text-red-500 transition-colors"
-                                                title="Delete Job"
-                                            >
-                                                <FaTrash />
-                                            </button>
+                                            {can('admin') && (
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        handleDeleteJob(job.job_id);
+                                                    }}
+                                                    className="text-gray-400 hover:text-red-500 transition-colors"
+                                                    title="Delete Job"
+                                                >
+                                                    <FaTrash />
+                                                </button>
+                                            )}
                                         </div>
                                     </td>
                                 </tr>
@@ -610,6 +651,17 @@ const JobAnalytics = () => {
 
                 {selectedView === 'jobs' && renderRecentJobsTable()}
                 {selectedView === 'analytics' && renderAdvancedAnalytics()}
+                {selectedView === 'compare' && comparedJobIds.length > 1 && (
+                    <JobComparison
+                        jobIds={comparedJobIds}
+                        jobLabels={Object.fromEntries((dashboardData?.recent_jobs || []).map(job => [job.job_id, jobLabel(job)]))}
+                    />
+                )}
+                {selectedView === 'risk' && (
+                    <RiskAdjustedMortality
+                        procedureCodes={Array.from(new Set((dashboardData?.recent_jobs || []).map(job => job.procedure_code).filter(Boolean)))}
+                    />
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,179 @@
+// components/JobComparison.tsx
+import { useState, useEffect } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Printer, AlertTriangle } from 'lucide-react';
+import { compareJobs, ComparedJob } from '../utils/jobComparison';
+import type { ComparisonSection, ComparisonDelta } from '../types';
+
+interface JobComparisonProps {
+    jobIds: string[];
+    // Display names for each job, e.g. "ICMP-12 • 01/04/2025"
+    jobLabels?: Record<string, string>;
+}
+
+const COLORS = ['#6B7280', '#3B82F6', '#8B5CF6', '#10B981', '#F59E0B', '#EF4444'];
+
+const formatPValue = (p: number | null) => p === null ? '—' : p < 0.001 ? '<0.001' : p.toFixed(3);
+
+export const JobComparison = ({ jobIds, jobLabels = {} }: JobComparisonProps) => {
+    const [jobs, setJobs] = useState<ComparedJob[]>([]);
+    const [baselineIndex, setBaselineIndex] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setLoading(true);
+        setError(null);
+        setBaselineIndex(0);
+        Promise.all(jobIds.map(jobId =>
+            fetch(`/api/job-results/${jobId}?format=enhanced`).then(res => {
+                if (!res.ok) {
+                    throw new Error(`Failed to fetch results for job ${jobId.substring(0, 8)}`);
+                }
+                return res.json();
+            }).then(data => ({ job_id: jobId, patient_analytics: data.patient_analytics }))
+        ))
+            .then(setJobs)
+            .catch(err => setError(err.message))
+            .finally(() => setLoading(false));
+    }, [jobIds]);
+
+    if (loading) {
+        return <div className="text-center py-20 text-gray-600">Loading {jobIds.length} jobs...</div>;
+    }
+
+    if (error) {
+        return <div className="text-center py-20 text-red-600">{error}</div>;
+    }
+
+    // Chart series are keyed by label, so two jobs with the same label get their ID appended
+    const labelFor = (jobId: string) => {
+        const label = jobLabels[jobId] || jobId.substring(0, 8);
+        const duplicated = jobIds.filter(id => (jobLabels[id] || id.substring(0, 8)) === label).length > 1;
+        return duplicated ? `${label} (${jobId.substring(0, 6)})` : label;
+    };
+    const sections = compareJobs(jobs, baselineIndex);
+    const prevalenceChartData = sections
+        .find(section => section.id === 'comorbidities')!.rows
+        .slice(0, 8)
+        .map(row => ({
+            name: row.metric.length > 18 ? row.metric.substring(0, 18) + '...' : row.metric,
+            ...Object.fromEntries(row.values.map(value => [labelFor(value.job_id), Number(value.rate.toFixed(1))]))
+        }));
+
+    const renderDelta = (delta: ComparisonDelta | null) => {
+        if (!delta) return <span className="text-xs text-gray-400">baseline</span>;
+        const sign = delta.difference > 0 ? '+' : '';
+        return (
+            <span className={`text-xs ${delta.significant ? 'font-semibold text-blue-700' : 'text-gray-500'}`}>
+                {sign}{delta.difference.toFixed(1)} pp • p {formatPValue(delta.p_value)}
+                {delta.significant && ' *'}
+                {delta.small_sample && <span className="ml-1 text-amber-600" title="Too few patients for a reliable test">⚠</span>}
+            </span>
+        );
+    };
+
+    const renderSection = (section: ComparisonSection) => (
+        <div key={section.id} className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-lg font-medium text-gray-900">{section.title}</h3>
+            <p className="text-xs text-gray-500 mb-4">Percent of {section.denominator} in each job</p>
+            {section.rows.length === 0 ? (
+                <p className="text-sm text-gray-500">No data in the selected jobs.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Metric</th>
+                                {jobs.map((job, index) => (
+                                    <th key={job.job_id} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        {labelFor(job.job_id)}{index === baselineIndex && ' (baseline)'}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {section.rows.map(row => (
+                                <tr key={row.metric} className="hover:bg-gray-50">
+                                    <td className="px-4 py-3 text-sm text-gray-900">{row.metric}</td>
+                                    {row.values.map((value, index) => (
+                                        <td key={value.job_id} className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                                            <div>
+                                                {value.rate.toFixed(1)}% <span className="text-xs text-gray-400">({value.events}/{value.total})</span>
+                                                {value.exceeds_total && (
+                                                    <span
+                                                        className="ml-1 text-amber-600"
+                                                        title="More events than the denominator (this job counts matches, not patients), so it is not tested"
+                                                    >
+                                                        ⚠
+                                                    </span>
+                                                )}
+                                            </div>
+                                            {renderDelta(row.deltas[index])}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-gray-900">Job Comparison</h2>
+                    <p className="text-sm text-gray-500">
+                        Each job is tested against the baseline (Fisher&apos;s exact or chi-square). * marks p &lt; 0.05; with several
+                        comparisons some will cross that line by chance.
+                    </p>
+                </div>
+                <div className="flex items-center gap-3 print:hidden">
+                    <label className="text-sm text-gray-700">
+                        Baseline{' '}
+                        <select
+                            value={baselineIndex}
+                            onChange={(e) => setBaselineIndex(Number(e.target.value))}
+                            className="ml-1 p-2 text-sm border border-gray-300 rounded"
+                        >
+                            {jobs.map((job, index) => <option key={job.job_id} value={index}>{labelFor(job.job_id)}</option>)}
+                        </select>
+                    </label>
+                    <button onClick={() => window.print()} className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded">
+                        <Printer size={16} /> Print
+                    </button>
+                </div>
+            </div>
+
+            {jobs.some(job => !job.patient_analytics) && (
+                <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+                    <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+                    Some jobs have no patient-level analytics and show as zero.
+                </div>
+            )}
+
+            {prevalenceChartData.length > 0 && (
+                <div className="bg-white p-6 rounded-lg shadow">
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">Comorbidity Prevalence (%)</h3>
+                    <ResponsiveContainer width="100%" height={320}>
+                        <BarChart data={prevalenceChartData}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="name" angle={-30} textAnchor="end" height={80} />
+                            <YAxis />
+                            <Tooltip />
+                            <Legend verticalAlign="top" />
+                            {jobs.map((job, index) => (
+                                <Bar key={job.job_id} dataKey={labelFor(job.job_id)} fill={COLORS[index % COLORS.length]} />
+                            ))}
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
+            {sections.map(renderSection)}
+        </div>
+    );
+};
@@ -1,6 +1,8 @@
 // components/JobStatusTracker.tsx
 import { motion } from 'framer-motion';
-import { Cpu, CheckCircle, AlertTriangle, Loader, BarChart, Download } from 'lucide-react';
+import { Cpu, CheckCircle, AlertTriangle, Loader, BarChart, Download, Radio, RefreshCw } from 'lucide-react';
+import { useJobEvents } from '../hooks/useJobEvents';
+import type { FileProgress } from '../types';
 
 interface JobStatus {
     status: 'pending' | 'processing' | 'completed' | 'error';
@@ -11,15 +13,19 @@ interface JobStatus {
     error?: string;
     results?: any;
     latest_finding?: string;
+    files?: FileProgress[];
 }
 
 interface JobStatusTrackerProps {
     jobId: string; // It must expect 'jobId' here
-    jobStatus: JobStatus;
+    initialStatus: JobStatus;
     onViewAnalytics: (jobId: string) => void;
 }
 
-export const JobStatusTracker = ({ jobId, jobStatus, onViewAnalytics }: JobStatusTrackerProps) => {
+export const JobStatusTracker = ({ jobId, initialStatus, onViewAnalytics }: JobStatusTrackerProps) => {
+    const { status: jobStatus, completedColumns, connection } = useJobEvents<JobStatus>(jobId, initialStatus);
+    const isActive = jobStatus.status === 'pending' || jobStatus.status === 'processing';
+
     const getStatusInfo = () => {
         switch (jobStatus.status) {
             case 'processing':
@@ -67,10 +73,24 @@ export const JobStatusTracker = ({ jobId, jobStatus, onViewAnalytics }: JobStatu
         >
             <div className="flex items-center gap-4">
                 {icon}
-                <div>
+                <div className="flex-1">
                     <h3 className={`text-xl font-bold ${color}`}>{text}</h3>
-                    <p className="text-sm text-gray-600">File: {jobStatus.file_name}</p>
+                    <p className="text-sm text-gray-600">
+                        {jobStatus.files && jobStatus.files.length > 1 ? `Files (${jobStatus.files.length})` : 'File'}: {jobStatus.file_name}
+                    </p>
                 </div>
+                {isActive && (
+                    <span
+                        className={`flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full ${connection === 'streaming'
+                            ? 'bg-emerald-100 text-emerald-700'
+                            : 'bg-amber-100 text-amber-700'
+                            }`}
+                        title={connection === 'polling' ? 'Live updates unavailable, checking every 10 seconds' : undefined}
+                    >
+                        {connection === 'streaming' ? <Radio size={12} /> : <RefreshCw size={12} />}
+                        {connection === 'streaming' ? 'Live' : connection === 'reconnecting' ? 'Reconnecting...' : 'Polling'}
+                    </span>
+                )}
             </div>
 
             <div className="flex items-center gap-4">
@@ -85,12 +105,42 @@ export const JobStatusTracker = ({ jobId, jobStatus, onViewAnalytics }: JobStatu
                 <span className="font-semibold text-gray-800 w-12 text-right">{jobStatus.progress}%</span>
             </div>
 
+            {jobStatus.files && jobStatus.files.length > 1 && (
+                <div className="space-y-2">
+                    {jobStatus.files.map(file => (
+                        <div key={file.file_name} className="flex items-center gap-3 text-sm">
+                            <span className="w-48 truncate text-gray-700" title={file.file_name}>{file.file_name}</span>
+                            <div className="flex-1 bg-gray-200 rounded-full h-2">
+                                <motion.div
+                                    className={`h-2 rounded-full ${file.status === 'error' ? 'bg-red-500' : file.status === 'completed' ? 'bg-emerald-500' : 'bg-blue-500'}`}
+                                    initial={{ width: 0 }}
+                                    animate={{ width: `${file.progress}%` }}
+                                    transition={{ duration: 0.5 }}
+                                />
+                            </div>
+                            <span className="w-12 text-right text-gray-600">{file.progress}%</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {jobStatus.status === 'processing' && jobStatus.total_columns_to_process && (
                 <p className="text-sm text-center text-gray-600">
                     Analyzing column {jobStatus.processed_columns || 0} of {jobStatus.total_columns_to_process}
                 </p>
             )}
 
+            {jobStatus.status === 'processing' && completedColumns.length > 0 && (
+                <div className="flex flex-wrap justify-center gap-2">
+                    {completedColumns.map(column => (
+                        <span key={column} className="flex items-center gap-1 text-xs bg-emerald-100 text-emerald-700 px-2 py-1 rounded-full">
+                            <CheckCircle size={12} />
+                            {column}
+                        </span>
+                    ))}
+                </div>
+            )}
+
             {jobStatus.status === 'processing' && jobStatus.latest_finding && (
                 <motion.div
                     key={jobStatus.latest_finding}
@@ -0,0 +1,164 @@
+// components/OutcomeControlCharts.tsx
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceDot } from 'recharts';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import type { ControlBenchmark, ControlChartSettings, ControlChartSeries, ControlChartPoint } from '../types';
+
+interface OutcomeControlChartsProps {
+    title: string;
+    eventLabel: string;
+    series: ControlChartSeries;
+    benchmark: ControlBenchmark | null;
+    settings: ControlChartSettings;
+    onSettingsChange: (settings: ControlChartSettings) => void;
+}
+
+const describePoint = (point: ControlChartPoint) => `patient ${point.index} (${point.label}${point.date ? `, ${point.date}` : ''})`;
+
+export const OutcomeControlCharts = ({ title, eventLabel, series, benchmark, settings, onSettingsChange }: OutcomeControlChartsProps) => {
+    const updateSetting = (key: keyof ControlChartSettings, value: string) => {
+        const parsed = value === '' ? null : Number(value);
+        if (key === 'target_rate') {
+            onSettingsChange({ ...settings, target_rate: parsed === null ? null : Math.min(Math.max(parsed / 100, 0), 0.99) });
+        } else if (parsed !== null && !Number.isNaN(parsed) && parsed > 0) {
+            onSettingsChange({ ...settings, [key]: parsed });
+        }
+    };
+
+    const ChartTooltip = ({ active, payload }: any) => {
+        if (!active || !payload?.length) return null;
+        const point: ControlChartPoint = payload[0].payload;
+        return (
+            <div className="bg-white p-3 border border-gray-200 rounded shadow text-sm">
+                <p className="font-medium">Patient {point.index} • {point.label}</p>
+                {point.date && <p className="text-gray-500 text-xs">{point.date}</p>}
+                <p className={point.outcome ? 'text-red-600' : 'text-green-600'}>{point.outcome ? eventLabel : 'No event'}</p>
+                <p className="text-gray-600">CUSUM {point.cusum.toFixed(2)} • VLAD {point.vlad.toFixed(2)}</p>
+            </div>
+        );
+    };
+
+    if (series.points.length === 0) {
+        return (
+            <div className="bg-white p-6 rounded-lg shadow">
+                <h3 className="text-lg font-medium text-gray-900 mb-2">{title}</h3>
+                <p className="text-sm text-gray-500">No patients with a known outcome to chart.</p>
+            </div>
+        );
+    }
+
+    const alarms = series.cusum_alarms.length + series.vlad_alarms.length;
+    const targetDescription = series.target_source === 'configured'
+        ? 'configured'
+        : series.target_source === 'pooled' && benchmark
+            ? `pooled over ${benchmark.patients} patients in ${benchmark.jobs} other job${benchmark.jobs === 1 ? '' : 's'}`
+            : "this job's own rate";
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900">{title}</h3>
+                    <p className="text-xs text-gray-500">
+                        {series.points.length} patients in {series.order_basis === 'procedure_date' ? 'procedure date' : 'source row'} order •
+                        target rate {(series.target_rate * 100).toFixed(1)}% ({targetDescription})
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+                    <label className="block">
+                        <span className="text-gray-600">Target rate %</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={99}
+                            step={0.5}
+                            value={settings.target_rate === null ? '' : +(settings.target_rate * 100).toFixed(2)}
+                            placeholder={benchmark ? 'Pooled' : 'Job rate'}
+                            onChange={(e) => updateSetting('target_rate', e.target.value)}
+                            className="w-24 p-1 border border-gray-300 rounded"
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="text-gray-600">Detect odds ratio</span>
+                        <input type="number" min={1.1} step={0.1} value={settings.odds_ratio} onChange={(e) => updateSetting('odds_ratio', e.target.value)} className="w-24 p-1 border border-gray-300 rounded" />
+                    </label>
+                    <label className="block">
+                        <span className="text-gray-600">CUSUM limit (h)</span>
+                        <input type="number" min={0.5} step={0.5} value={settings.cusum_limit} onChange={(e) => updateSetting('cusum_limit', e.target.value)} className="w-24 p-1 border border-gray-300 rounded" />
+                    </label>
+                    <label className="block">
+                        <span className="text-gray-600">VLAD limit</span>
+                        <input type="number" min={1} step={1} value={settings.vlad_limit} onChange={(e) => updateSetting('vlad_limit', e.target.value)} className="w-24 p-1 border border-gray-300 rounded" />
+                    </label>
+                </div>
+            </div>
+
+            {series.target_source === 'job' && (
+                <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                    <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                    <p>
+                        There are no other jobs for this procedure to benchmark against, so the target is this job&apos;s own rate.
+                        The charts only show drift around the job&apos;s average, not performance against a standard. Enter a target rate to compare with one.
+                    </p>
+                </div>
+            )}
+
+            {alarms > 0 ? (
+                <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                    <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                    <div className="space-y-1">
+                        {series.cusum_alarms.map(point => (
+                            <p key={`cusum-${point.index}`}>CUSUM crossed h = {settings.cusum_limit} at {describePoint(point)}.</p>
+                        ))}
+                        {series.vlad_alarms.map(point => (
+                            <p key={`vlad-${point.index}`}>VLAD fell {settings.vlad_limit} {eventLabel.toLowerCase()}s below expected at {describePoint(point)}.</p>
+                        ))}
+                    </div>
+                </div>
+            ) : (
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                    <CheckCircle size={16} />
+                    No alarm limits crossed.
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Bernoulli CUSUM</h4>
+                    <ResponsiveContainer width="100%" height={260}>
+                        <LineChart data={series.points}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="index" />
+                            <YAxis domain={[0, (dataMax: number) => Math.max(dataMax, settings.cusum_limit) * 1.1]} tickFormatter={(value) => Number(value).toFixed(1)} />
+                            <Tooltip content={<ChartTooltip />} />
+                            <ReferenceLine y={settings.cusum_limit} stroke="#EF4444" strokeDasharray="4 4" label={{ value: `h = ${settings.cusum_limit}`, position: 'insideTopRight', fontSize: 11 }} />
+                            <Line type="stepAfter" dataKey="cusum" stroke="#3B82F6" dot={false} isAnimationActive={false} />
+                            {series.cusum_alarms.map(point => (
+                                <ReferenceDot key={point.index} x={point.index} y={point.cusum} r={5} fill="#EF4444" stroke="none" />
+                            ))}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+                <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">VLAD (net events avoided vs target)</h4>
+                    <ResponsiveContainer width="100%" height={260}>
+                        <LineChart data={series.points}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="index" />
+                            <YAxis
+                                domain={[(dataMin: number) => Math.min(dataMin, -settings.vlad_limit) * 1.1, (dataMax: number) => Math.max(dataMax, 1) * 1.1]}
+                                tickFormatter={(value) => Number(value).toFixed(1)}
+                            />
+                            <Tooltip content={<ChartTooltip />} />
+                            <ReferenceLine y={0} stroke="#6B7280" />
+                            <ReferenceLine y={-settings.vlad_limit} stroke="#EF4444" strokeDasharray="4 4" label={{ value: `-${settings.vlad_limit}`, position: 'insideBottomRight', fontSize: 11 }} />
+                            <Line type="linear" dataKey="vlad" stroke="#8B5CF6" dot={false} isAnimationActive={false} />
+                            {series.vlad_alarms.map(point => (
+                                <ReferenceDot key={point.index} x={point.index} y={point.vlad} r={5} fill="#EF4444" stroke="none" />
+                            ))}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,135 @@
+// components/PatientEvidencePanel.tsx
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, FileSearch, MapPin } from 'lucide-react';
+import type { ComorbidityMatch } from '../types';
+
+interface PatientEvidencePanelProps {
+    matches: ComorbidityMatch[];
+    renderReview?: (match: ComorbidityMatch) => React.ReactNode;
+}
+
+const confidenceClass = (confidence: number) => {
+    if (confidence >= 0.8) return 'bg-green-100 text-green-800';
+    if (confidence >= 0.5) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-red-100 text-red-800';
+};
+
+// Wraps every occurrence of the matched span in a <mark>, ignoring case
+const highlightMatch = (text: string, matchedText: string): React.ReactNode => {
+    const needle = matchedText?.trim();
+    if (!text || !needle) return text;
+
+    const parts: React.ReactNode[] = [];
+    const haystack = text.toLowerCase();
+    const target = needle.toLowerCase();
+    let cursor = 0;
+    let index = haystack.indexOf(target);
+
+    while (index !== -1) {
+        if (index > cursor) parts.push(text.slice(cursor, index));
+        parts.push(
+            <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+                {text.slice(index, index + needle.length)}
+            </mark>
+        );
+        cursor = index + needle.length;
+        index = haystack.indexOf(target, cursor);
+    }
+
+    if (parts.length === 0) return text;
+    if (cursor < text.length) parts.push(text.slice(cursor));
+    return parts;
+};
+
+export const PatientEvidencePanel = ({ matches, renderReview }: PatientEvidencePanelProps) => {
+    const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+
+    if (matches.length === 0) {
+        return (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-500">
+                No source evidence was returned for this patient.
+            </div>
+        );
+    }
+
+    const grouped = matches.reduce<Record<string, ComorbidityMatch[]>>((groups, match) => {
+        const name = match.comorbidity_name || 'Unspecified';
+        (groups[name] = groups[name] || []).push(match);
+        return groups;
+    }, {});
+
+    const comorbidityNames = Object.keys(grouped).sort((a, b) =>
+        Math.max(...grouped[b].map(m => m.confidence)) - Math.max(...grouped[a].map(m => m.confidence))
+    );
+
+    return (
+        <div className="space-y-3">
+            {comorbidityNames.map(name => {
+                const evidence = [...grouped[name]].sort((a, b) => b.confidence - a.confidence);
+                const isCollapsed = collapsed[name];
+
+                return (
+                    <div key={name} className="border border-gray-200 rounded-lg overflow-hidden">
+                        <button
+                            onClick={() => setCollapsed(prev => ({ ...prev, [name]: !prev[name] }))}
+                            className="w-full flex items-center justify-between px-4 py-3 bg-gray-50 hover:bg-gray-100 text-left"
+                        >
+                            <span className="font-medium text-gray-900">{name}</span>
+                            <span className="flex items-center gap-3 text-sm text-gray-500">
+                                {evidence.length} excerpt{evidence.length !== 1 ? 's' : ''}
+                                {isCollapsed ? <ChevronDown size={16} /> : <ChevronUp size={16} />}
+                            </span>
+                        </button>
+
+                        {!isCollapsed && (
+                            <div className="divide-y divide-gray-100">
+                                {evidence.map((match, index) => {
+                                    const sourceText = match.source_text || match.excerpt;
+                                    const needle = match.matched_text?.trim().toLowerCase();
+                                    const spanFound = Boolean(needle && sourceText?.toLowerCase().includes(needle));
+
+                                    return (
+                                        <div
+                                            key={`${match.column_name}-${match.row_number}-${index}`}
+                                            className={`p-4 space-y-3 ${match.adjudication?.decision === 'rejected' ? 'opacity-60' : ''}`}
+                                        >
+                                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                                <span className="flex items-center gap-1 text-xs text-gray-500" title="Location in the uploaded file">
+                                                    <MapPin size={12} />
+                                                    {match.file_name && <>{match.file_name} • </>}
+                                                    Row {match.row_number} • Column &quot;{match.column_name}&quot;
+                                                </span>
+                                                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${confidenceClass(match.confidence)}`}>
+                                                    {(match.confidence * 100).toFixed(0)}% confidence
+                                                </span>
+                                            </div>
+
+                                            <blockquote className="border-l-4 border-blue-300 bg-blue-50/50 px-3 py-2 text-sm text-gray-800 whitespace-pre-wrap">
+                                                {sourceText ? highlightMatch(sourceText, match.matched_text) : <span className="text-gray-400">No source text</span>}
+                                            </blockquote>
+
+                                            {!spanFound && match.matched_text && (
+                                                <p className="text-xs text-gray-500">
+                                                    Matched text: <span className="font-medium text-gray-700">{match.matched_text}</span>
+                                                </p>
+                                            )}
+
+                                            {match.reasoning && (
+                                                <div className="flex gap-2 text-sm text-gray-600">
+                                                    <FileSearch size={16} className="flex-shrink-0 mt-0.5 text-purple-500" />
+                                                    <p>{match.reasoning}</p>
+                                                </div>
+                                            )}
+
+                                            {renderReview && renderReview(match)}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
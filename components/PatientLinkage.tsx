@@ -0,0 +1,234 @@
+// components/PatientLinkage.tsx
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Link2, Eye, AlertTriangle, CheckCircle, Copy } from 'lucide-react';
+import { Button } from './Button';
+import type { FileMetadata, PatientLinkSpec, LinkagePreview } from '../types';
+import { deidentifyFile, loadDeidentificationKey, saveDeidentificationKey } from '../utils/deidentify';
+
+interface PatientLinkageProps {
+    files: File[];
+    filesMetadata: FileMetadata[];
+    linkSpec: PatientLinkSpec | null;
+    onLinkSpecChange: (linkSpec: PatientLinkSpec | null) => void;
+}
+
+const IDENTIFIER_PATTERN = /(mrn|patient.?(id|no|number)|hospital.?(no|number)|nhs|record.?(no|number)|\bid\b)/i;
+
+const DEFAULT_NORMALIZATION: PatientLinkSpec['normalization'] = {
+    trimWhitespace: true,
+    caseInsensitive: true,
+    stripNonAlphanumeric: false
+};
+
+export const suggestKeyColumn = (columns: string[]): string =>
+    columns.find(column => IDENTIFIER_PATTERN.test(column)) || '';
+
+export const PatientLinkage = ({ files, filesMetadata, linkSpec, onLinkSpecChange }: PatientLinkageProps) => {
+    const [preview, setPreview] = useState<LinkagePreview | null>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Start from a suggested identifier column in each file
+    useEffect(() => {
+        if (linkSpec || filesMetadata.length < 2) return;
+        onLinkSpecChange({
+            keys: filesMetadata.map(meta => ({ fileName: meta.fileName, columnName: suggestKeyColumn(meta.columns) })),
+            normalization: DEFAULT_NORMALIZATION
+        });
+    }, [filesMetadata, linkSpec, onLinkSpecChange]);
+
+    if (filesMetadata.length < 2 || !linkSpec) return null;
+
+    const isEnabled = linkSpec.keys.length > 0;
+    const isComplete = linkSpec.keys.every(key => key.columnName);
+
+    const updateKeyColumn = (fileName: string, columnName: string) => {
+        setPreview(null);
+        onLinkSpecChange({
+            ...linkSpec,
+            keys: filesMetadata.map(meta => ({
+                fileName: meta.fileName,
+                columnName: meta.fileName === fileName
+                    ? columnName
+                    : linkSpec.keys.find(key => key.fileName === meta.fileName)?.columnName || ''
+            }))
+        });
+    };
+
+    const updateNormalization = (updates: Partial<PatientLinkSpec['normalization']>) => {
+        setPreview(null);
+        onLinkSpecChange({ ...linkSpec, normalization: { ...linkSpec.normalization, ...updates } });
+    };
+
+    const handlePreview = async () => {
+        setIsPreviewing(true);
+        setError(null);
+        try {
+            // Key values are compared as pseudonyms, the same ones the processing job will use
+            const key = await loadDeidentificationKey();
+            const redactedFiles = await Promise.all(files.map(file => {
+                const meta = filesMetadata.find(candidate => candidate.fileName === file.name);
+                const keyColumns = linkSpec.keys.filter(linkKey => linkKey.fileName === file.name).map(linkKey => linkKey.columnName);
+                return meta ? deidentifyFile(file, meta, key, keyColumns) : file;
+            }));
+            saveDeidentificationKey(key);
+
+            const formData = new FormData();
+            redactedFiles.forEach(file => formData.append('file', file));
+            formData.append('patient_linkage', JSON.stringify(linkSpec));
+
+            const response = await fetch('/api/preview-linkage', {
+                method: 'POST',
+                body: formData
+            });
+            if (!response.ok) {
+                const errorResult = await response.json();
+                throw new Error(errorResult.error || `HTTP error! status: ${response.status}`);
+            }
+            setPreview(await response.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-2xl border border-gray-200 shadow-lg p-6 space-y-6"
+        >
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <Link2 className="text-indigo-500" size={32} />
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-900">Patient Linkage</h3>
+                        <p className="text-gray-600">Join these files on a patient identifier so each patient is analysed once across all sources</p>
+                    </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={isEnabled}
+                        onChange={(e) => onLinkSpecChange(e.target.checked
+                            ? {
+                                keys: filesMetadata.map(meta => ({ fileName: meta.fileName, columnName: suggestKeyColumn(meta.columns) })),
+                                normalization: linkSpec.normalization
+                            }
+                            : { ...linkSpec, keys: [] })}
+                        className="w-5 h-5 text-indigo-600 rounded focus:ring-indigo-500"
+                    />
+                    Link files
+                </label>
+            </div>
+
+            {isEnabled && (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {filesMetadata.map(meta => (
+                            <div key={meta.fileName} className="p-4 bg-gray-50 rounded-xl">
+                                <label className="block text-sm font-medium text-gray-700 mb-2 truncate" title={meta.fileName}>
+                                    {meta.fileName}
+                                </label>
+                                <select
+                                    value={linkSpec.keys.find(key => key.fileName === meta.fileName)?.columnName || ''}
+                                    onChange={(e) => updateKeyColumn(meta.fileName, e.target.value)}
+                                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                    <option value="">Select patient/MRN column...</option>
+                                    {meta.columns.map(column => (
+                                        <option key={column} value={column}>{column}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex flex-wrap gap-6 text-sm text-gray-700">
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={linkSpec.normalization.trimWhitespace} onChange={(e) => updateNormalization({ trimWhitespace: e.target.checked })} />
+                            Trim whitespace
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={linkSpec.normalization.caseInsensitive} onChange={(e) => updateNormalization({ caseInsensitive: e.target.checked })} />
+                            Ignore case
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={linkSpec.normalization.stripNonAlphanumeric} onChange={(e) => updateNormalization({ stripNonAlphanumeric: e.target.checked })} />
+                            Ignore spaces and punctuation
+                        </label>
+                    </div>
+
+                    <div className="flex items-center gap-4">
+                        <Button variant="ghost" size="sm" onClick={handlePreview} disabled={!isComplete} loading={isPreviewing}>
+                            {!isPreviewing && <Eye size={16} />}
+                            Preview Join
+                        </Button>
+                        {!isComplete && <span className="text-sm text-yellow-700">Choose a key column for every file</span>}
+                        {error && <span className="text-sm text-red-600">{error}</span>}
+                    </div>
+
+                    {preview && (
+                        <div className="space-y-4">
+                            <div className="flex items-center gap-3 p-4 bg-indigo-50 border border-indigo-200 rounded-xl">
+                                <CheckCircle className="text-indigo-600" size={20} />
+                                <span className="text-indigo-900 font-medium">
+                                    {preview.matched_keys} patients found in every file • {preview.total_patients} distinct patients overall
+                                </span>
+                            </div>
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b border-gray-200 text-left text-gray-700">
+                                            <th className="p-2 font-medium">File</th>
+                                            <th className="p-2 font-medium">Rows</th>
+                                            <th className="p-2 font-medium">Distinct Keys</th>
+                                            <th className="p-2 font-medium">Unmatched</th>
+                                            <th className="p-2 font-medium">Duplicates</th>
+                                            <th className="p-2 font-medium">Blank Keys</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {preview.files.map(file => (
+                                            <tr key={file.file_name} className="border-b border-gray-100 align-top">
+                                                <td className="p-2 font-medium text-gray-900">{file.file_name}</td>
+                                                <td className="p-2 text-gray-600">{file.total_rows}</td>
+                                                <td className="p-2 text-gray-600">{file.distinct_keys}</td>
+                                                <td className="p-2 text-gray-600">
+                                                    {file.unmatched_count}
+                                                    {file.unmatched_keys.length > 0 && (
+                                                        <div className="text-xs text-gray-500 truncate max-w-48" title={file.unmatched_keys.join(', ')}>
+                                                            e.g. {file.unmatched_keys.slice(0, 3).join(', ')}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td className="p-2 text-gray-600">
+                                                    {file.duplicate_keys.length > 0 ? (
+                                                        <span className="flex items-center gap-1 text-amber-700" title={file.duplicate_keys.map(d => `${d.key} (${d.count})`).join(', ')}>
+                                                            <Copy size={14} />
+                                                            {file.duplicate_keys.length}
+                                                        </span>
+                                                    ) : 0}
+                                                </td>
+                                                <td className="p-2 text-gray-600">
+                                                    {file.missing_keys > 0 ? (
+                                                        <span className="flex items-center gap-1 text-red-600">
+                                                            <AlertTriangle size={14} />
+                                                            {file.missing_keys}
+                                                        </span>
+                                                    ) : 0}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+        </motion.div>
+    );
+};
@@ -0,0 +1,249 @@
+// components/RiskAdjustedMortality.tsx
+import { useState, useEffect, useCallback } from 'react';
+import {
+    ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import type { RiskAdjustmentReport, RiskCovariate, ObservedExpected } from '../types';
+
+interface RiskAdjustedMortalityProps {
+    procedureCodes: string[];
+}
+
+const COVARIATE_OPTIONS: Array<{ id: RiskCovariate; label: string }> = [
+    { id: 'comorbidities', label: 'Comorbidity indicators' },
+    { id: 'age', label: 'Age' },
+    { id: 'charlson', label: 'Charlson score' },
+    { id: 'elixhauser', label: 'Elixhauser score' },
+    { id: 'comorbidity_count', label: 'Comorbidity count' }
+];
+
+const formatRatio = (value: number | null) => value === null ? '—' : value.toFixed(2);
+
+// Units whose interval excludes 1 are flagged as higher or lower than expected
+const outlierClass = (group: ObservedExpected) => {
+    if (group.ci_lower !== null && group.ci_lower > 1) return 'text-red-700 font-semibold';
+    if (group.ci_upper !== null && group.ci_upper < 1) return 'text-green-700 font-semibold';
+    return 'text-gray-900';
+};
+
+export const RiskAdjustedMortality = ({ procedureCodes }: RiskAdjustedMortalityProps) => {
+    const [covariates, setCovariates] = useState<RiskCovariate[]>(['comorbidities', 'age']);
+    const [procedureCode, setProcedureCode] = useState('');
+    const [groupBy, setGroupBy] = useState<'job' | 'procedure'>('job');
+    const [report, setReport] = useState<RiskAdjustmentReport | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchReport = useCallback(async () => {
+        if (covariates.length === 0) return;
+        setLoading(true);
+        setError(null);
+        try {
+            const params = new URLSearchParams({ covariates: covariates.join(',') });
+            if (procedureCode) params.set('procedure_code', procedureCode);
+
+            const response = await fetch(`/api/risk-adjustment?${params.toString()}`);
+            if (!response.ok) {
+                const errorResult = await response.json();
+                throw new Error(errorResult.error || `HTTP error! status: ${response.status}`);
+            }
+            setReport(await response.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        } finally {
+            setLoading(false);
+        }
+    }, [covariates, procedureCode]);
+
+    useEffect(() => {
+        fetchReport();
+    }, [fetchReport]);
+
+    const toggleCovariate = (id: RiskCovariate) => {
+        setCovariates(prev => prev.includes(id) ? prev.filter(value => value !== id) : [...prev, id]);
+    };
+
+    const groups = report ? (groupBy === 'job' ? report.by_job : report.by_procedure) : [];
+    const funnelPoints = groups
+        .filter(group => group.ratio !== null)
+        .map(group => ({ expected: group.expected, ratio: group.ratio, label: group.label, observed: group.observed, patients: group.patients }));
+
+    const FunnelTooltip = ({ active, payload }: any) => {
+        const point = payload?.find((entry: any) => entry.payload?.label)?.payload;
+        if (!active || !point) return null;
+        return (
+            <div className="bg-white p-3 border border-gray-200 rounded shadow text-sm">
+                <p className="font-medium">{point.label}</p>
+                <p className="text-gray-600">O/E {formatRatio(point.ratio)}</p>
+                <p className="text-gray-600">{point.observed} observed • {point.expected.toFixed(1)} expected</p>
+                <p className="text-gray-500 text-xs">{point.patients} patients</p>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900">Risk-Adjusted Mortality</h3>
+                    <p className="text-sm text-gray-600">
+                        A logistic model fitted across recent jobs gives each patient an expected risk of death. Units outside
+                        the funnel limits have more (or fewer) deaths than their case mix predicts.
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-end gap-6">
+                    <div>
+                        <div className="text-sm font-medium text-gray-700 mb-1">Covariates</div>
+                        <div className="flex flex-wrap gap-3">
+                            {COVARIATE_OPTIONS.map(option => (
+                                <label key={option.id} className="flex items-center gap-1 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={covariates.includes(option.id)}
+                                        onChange={() => toggleCovariate(option.id)}
+                                    />
+                                    {option.label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Procedure</label>
+                        <select value={procedureCode} onChange={(e) => setProcedureCode(e.target.value)} className="p-2 text-sm border border-gray-300 rounded">
+                            <option value="">All procedures</option>
+                            {procedureCodes.map(code => <option key={code} value={code}>{code}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Compare</label>
+                        <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as 'job' | 'procedure')} className="p-2 text-sm border border-gray-300 rounded">
+                            <option value="job">Jobs</option>
+                            <option value="procedure">Procedure codes</option>
+                        </select>
+                    </div>
+                    <button
+                        onClick={fetchReport}
+                        disabled={loading || covariates.length === 0}
+                        className="flex items-center gap-2 px-3 py-2 text-sm text-blue-700 hover:bg-blue-50 rounded disabled:opacity-50"
+                    >
+                        <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+                        Refit
+                    </button>
+                </div>
+                {covariates.length === 0 && <p className="text-sm text-amber-700">Select at least one covariate.</p>}
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+
+            {report && (
+                <>
+                    {report.warnings.length > 0 && (
+                        <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+                            <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+                            <ul className="space-y-1">
+                                {report.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {[
+                            { label: 'Jobs Modelled', value: String(report.jobs_included) },
+                            { label: 'Patients', value: String(report.patients) },
+                            { label: 'Deaths', value: String(report.deaths) },
+                            { label: 'C-statistic', value: report.c_statistic === null ? '—' : report.c_statistic.toFixed(3) }
+                        ].map(card => (
+                            <div key={card.label} className="bg-white shadow rounded-lg p-4">
+                                <div className="text-sm font-medium text-gray-500">{card.label}</div>
+                                <div className="text-2xl font-bold text-gray-900">{card.value}</div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {funnelPoints.length > 0 && (
+                        <div className="bg-white p-6 rounded-lg shadow">
+                            <h3 className="text-lg font-medium text-gray-900 mb-4">Funnel Plot (O/E vs Expected Deaths)</h3>
+                            <ResponsiveContainer width="100%" height={400}>
+                                <ComposedChart data={report.funnel_limits}>
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    <XAxis
+                                        dataKey="expected"
+                                        type="number"
+                                        domain={[0, 'dataMax']}
+                                        tickFormatter={(value) => Number(value).toFixed(0)}
+                                        label={{ value: 'Expected deaths', position: 'insideBottom', offset: -5 }}
+                                    />
+                                    <YAxis domain={[0, (dataMax: number) => Math.min(Math.ceil(dataMax), 4)]} allowDataOverflow />
+                                    <Tooltip content={<FunnelTooltip />} />
+                                    <Legend verticalAlign="top" />
+                                    <ReferenceLine y={1} stroke="#6B7280" />
+                                    <Line dataKey="upper_95" name="95% limit" stroke="#F59E0B" strokeDasharray="4 4" dot={false} />
+                                    <Line dataKey="lower_95" legendType="none" stroke="#F59E0B" strokeDasharray="4 4" dot={false} />
+                                    <Line dataKey="upper_998" name="99.8% limit" stroke="#EF4444" dot={false} />
+                                    <Line dataKey="lower_998" legendType="none" stroke="#EF4444" dot={false} />
+                                    <Scatter data={funnelPoints} dataKey="ratio" name={groupBy === 'job' ? 'Jobs' : 'Procedures'} fill="#3B82F6" />
+                                </ComposedChart>
+                            </ResponsiveContainer>
+                        </div>
+                    )}
+
+                    <div className="bg-white p-6 rounded-lg shadow">
+                        <h3 className="text-lg font-medium text-gray-900 mb-4">Observed vs Expected Mortality</h3>
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        {[groupBy === 'job' ? 'Job' : 'Procedure', 'Patients', 'Observed', 'Expected', 'O/E', '95% CI'].map(heading => (
+                                            <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{heading}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {groups.map(group => (
+                                        <tr key={group.id} className="hover:bg-gray-50">
+                                            <td className="px-4 py-3 text-sm text-gray-900" title={group.id}>{group.label}</td>
+                                            <td className="px-4 py-3 text-sm text-gray-700">{group.patients}</td>
+                                            <td className="px-4 py-3 text-sm text-gray-700">{group.observed}</td>
+                                            <td className="px-4 py-3 text-sm text-gray-700">{group.expected.toFixed(1)}</td>
+                                            <td className={`px-4 py-3 text-sm ${outlierClass(group)}`}>{formatRatio(group.ratio)}</td>
+                                            <td className="px-4 py-3 text-sm text-gray-700">{formatRatio(group.ci_lower)} – {formatRatio(group.ci_upper)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    {report.coefficients.length > 0 && (
+                        <div className="bg-white p-6 rounded-lg shadow">
+                            <h3 className="text-lg font-medium text-gray-900 mb-4">
+                                Model Coefficients {!report.converged && <span className="text-sm text-amber-700">(not converged)</span>}
+                            </h3>
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full divide-y divide-gray-200">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            {['Term', 'Estimate', 'Std. Error', 'Odds Ratio'].map(heading => (
+                                                <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{heading}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white divide-y divide-gray-200">
+                                        {report.coefficients.map(coefficient => (
+                                            <tr key={coefficient.term}>
+                                                <td className="px-4 py-3 text-sm text-gray-900">{coefficient.term}</td>
+                                                <td className="px-4 py-3 text-sm text-gray-700">{coefficient.estimate.toFixed(3)}</td>
+                                                <td className="px-4 py-3 text-sm text-gray-700">{coefficient.std_error === null ? '—' : coefficient.std_error.toFixed(3)}</td>
+                                                <td className="px-4 py-3 text-sm text-gray-700">{coefficient.term === 'Intercept' ? '—' : coefficient.odds_ratio.toFixed(2)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
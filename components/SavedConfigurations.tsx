@@ -0,0 +1,268 @@
+// components/SavedConfigurations.tsx
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Bookmark, Save, Upload, Copy, Edit3, Trash2, Check, X, AlertCircle } from 'lucide-react';
+import { Button } from './Button';
+import type { Comorbidity, FileMetadata, ColumnMapping, UserConfiguration } from '../types';
+import { allColumnMappings, activeColumnMappings, rangeOverridesByTable } from '../utils/sheets';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+
+interface SavedConfigurationsProps {
+    selectedCode: string;
+    comorbidities: Comorbidity[];
+    columnMetadata: FileMetadata[];
+    onLoadConfiguration: (config: UserConfiguration) => void;
+}
+
+const stripSampleData = (mappings: ColumnMapping[]): ColumnMapping[] =>
+    mappings.map(mapping => ({ ...mapping, sampleData: [] }));
+
+const countMappedColumns = (config: UserConfiguration) =>
+    Object.values(config.column_mappings || {}).reduce(
+        (sum, mappings) => sum + mappings.filter(mapping => mapping.isEnabled).length,
+        0
+    );
+
+export const SavedConfigurations = ({
+    selectedCode,
+    comorbidities,
+    columnMetadata,
+    onLoadConfiguration
+}: SavedConfigurationsProps) => {
+    const [configurations, setConfigurations] = useState<UserConfiguration[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [newName, setNewName] = useState('');
+    const { can } = useCurrentUser();
+    const [renamingId, setRenamingId] = useState<number | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+
+    const fetchConfigurations = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/configurations');
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+            const data = await response.json();
+            setConfigurations(Array.isArray(data) ? data : []);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load saved configurations');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchConfigurations();
+    }, [fetchConfigurations]);
+
+    const saveConfiguration = async (config: Omit<UserConfiguration, 'id' | 'created_at' | 'updated_at'>) => {
+        const response = await fetch('/api/save-configuration', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(config)
+        });
+        if (!response.ok) {
+            const errorResult = await response.json();
+            throw new Error(errorResult.error || `HTTP error! status: ${response.status}`);
+        }
+    };
+
+    const handleSaveCurrent = async () => {
+        if (!newName.trim() || !selectedCode) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await saveConfiguration({
+                config_name: newName.trim(),
+                icmp_code: selectedCode,
+                comorbidities,
+                column_mappings: Object.fromEntries(
+                    columnMetadata.map(meta => [meta.fileName, stripSampleData(allColumnMappings(meta))])
+                ),
+                range_overrides: Object.assign({}, ...columnMetadata.map(rangeOverridesByTable))
+            });
+            setNewName('');
+            await fetchConfigurations();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save configuration');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDuplicate = async (config: UserConfiguration) => {
+        setError(null);
+        try {
+            await saveConfiguration({
+                config_name: `${config.config_name} (copy)`,
+                icmp_code: config.icmp_code,
+                comorbidities: config.comorbidities,
+                column_mappings: config.column_mappings,
+                range_overrides: config.range_overrides
+            });
+            await fetchConfigurations();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to duplicate configuration');
+        }
+    };
+
+    const handleRename = async (configId: number) => {
+        if (!renameValue.trim()) return;
+        setError(null);
+        try {
+            const response = await fetch(`/api/configurations/${configId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ config_name: renameValue.trim() })
+            });
+            if (!response.ok) {
+                const errorResult = await response.json();
+                throw new Error(errorResult.error || `HTTP error! status: ${response.status}`);
+            }
+            setRenamingId(null);
+            await fetchConfigurations();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to rename configuration');
+        }
+    };
+
+    const handleDelete = async (config: UserConfiguration) => {
+        if (!confirm(`Delete saved configuration "${config.config_name}"?`)) return;
+        setError(null);
+        try {
+            const response = await fetch(`/api/configurations/${config.id}`, { method: 'DELETE' });
+            if (!response.ok) {
+                const errorResult = await response.json();
+                throw new Error(errorResult.error || `HTTP error! status: ${response.status}`);
+            }
+            setConfigurations(prev => prev.filter(c => c.id !== config.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete configuration');
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-6 text-left"
+        >
+            <div className="flex items-center gap-4">
+                <Bookmark className="text-indigo-500" size={32} />
+                <div>
+                    <h3 className="text-2xl font-semibold">Saved Audit Configurations</h3>
+                    <p className="text-gray-600">
+                        Save the current procedure code, enabled comorbidities and column mappings, then reload them for the next audit.
+                    </p>
+                </div>
+            </div>
+
+            <div className="border p-4 rounded-lg bg-slate-50">
+                <h4 className="font-bold text-lg">Save Current Setup</h4>
+                {selectedCode ? (
+                    <p className="text-sm text-gray-500 mb-4">
+                        {selectedCode} • {comorbidities.filter(c => c.enabled).length} enabled comorbidities •{' '}
+                        {columnMetadata.reduce((sum, meta) => sum + activeColumnMappings(meta).filter(m => m.isEnabled).length, 0)} active columns
+                    </p>
+                ) : (
+                    <p className="text-sm text-gray-500 mb-4">Select a procedure code on the Process Files tab first.</p>
+                )}
+                <div className="flex items-center gap-4">
+                    <input
+                        type="text"
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        placeholder="e.g. Monthly CABG audit"
+                        className="flex-grow p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    <Button onClick={handleSaveCurrent} disabled={!selectedCode || !newName.trim()} loading={isSaving}>
+                        {!isSaving && <Save size={16} />}
+                        Save
+                    </Button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                    <AlertCircle size={16} />
+                    {error}
+                </div>
+            )}
+
+            {isLoading ? (
+                <p className="text-gray-500">Loading saved configurations...</p>
+            ) : configurations.length === 0 ? (
+                <p className="text-gray-500">No saved configurations yet.</p>
+            ) : (
+                <div className="space-y-3">
+                    {configurations.map(config => (
+                        <div key={config.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg bg-white">
+                            <div className="min-w-0 flex-grow">
+                                {renamingId === config.id ? (
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="text"
+                                            value={renameValue}
+                                            onChange={(e) => setRenameValue(e.target.value)}
+                                            onKeyDown={(e) => e.key === 'Enter' && handleRename(config.id)}
+                                            className="flex-grow p-2 border border-gray-300 rounded-lg"
+                                            autoFocus
+                                        />
+                                        <button onClick={() => handleRename(config.id)} className="p-2 text-green-600 hover:bg-green-50 rounded-lg" title="Save name">
+                                            <Check size={16} />
+                                        </button>
+                                        <button onClick={() => setRenamingId(null)} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg" title="Cancel">
+                                            <X size={16} />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <h4 className="font-bold text-gray-900 truncate">{config.config_name}</h4>
+                                        <p className="text-sm text-gray-500">
+                                            {config.icmp_code} • {(config.comorbidities || []).filter(c => c.enabled).length} comorbidities •{' '}
+                                            {countMappedColumns(config)} mapped columns
+                                            {config.updated_at && ` • updated ${new Date(config.updated_at).toLocaleDateString()}`}
+                                        </p>
+                                    </>
+                                )}
+                            </div>
+                            {renamingId !== config.id && (
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    <Button size="sm" onClick={() => onLoadConfiguration(config)}>
+                                        <Upload size={16} />
+                                        Load
+                                    </Button>
+                                    <button
+                                        onClick={() => { setRenamingId(config.id); setRenameValue(config.config_name); }}
+                                        className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                                        title="Rename"
+                                    >
+                                        <Edit3 size={16} />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDuplicate(config)}
+                                        className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                                        title="Duplicate"
+                                    >
+                                        <Copy size={16} />
+                                    </button>
+                                    {can('auditor') && (
+                                        <button
+                                            onClick={() => handleDelete(config)}
+                                            className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                                            title="Delete"
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </motion.div>
+    );
+};
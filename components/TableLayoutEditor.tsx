@@ -0,0 +1,181 @@
+// components/TableLayoutEditor.tsx
+import { useState, useEffect } from 'react';
+import { Table2, RotateCcw } from 'lucide-react';
+import type { TableRangeOverride } from '../types';
+import { columnNames } from '../utils/sheets';
+
+interface TableLayoutEditorProps {
+    rawRows: string[][];
+    detectedHeaderRow: number;
+    override?: TableRangeOverride;
+    isApplying: boolean;
+    onApply: (override: TableRangeOverride) => void;
+    onReset: () => void;
+}
+
+// Inputs show 1-based row numbers, as in Excel; the override stores 0-based indexes
+const toRowNumber = (index: number | null) => index === null ? '' : String(index + 1);
+const toRowIndex = (value: string) => value.trim() === '' ? null : Math.max(0, parseInt(value, 10) - 1);
+
+const detectedLayout = (headerRow: number): TableRangeOverride => ({
+    headerRow,
+    firstDataRow: headerRow + 1,
+    lastDataRow: null,
+    ignoredColumns: []
+});
+
+export const TableLayoutEditor = ({ rawRows, detectedHeaderRow, override, isApplying, onApply, onReset }: TableLayoutEditorProps) => {
+    const [draft, setDraft] = useState<TableRangeOverride>(override || detectedLayout(detectedHeaderRow));
+    const [lastRowInput, setLastRowInput] = useState(toRowNumber(override?.lastDataRow ?? null));
+
+    // Start again from the applied layout whenever it changes
+    useEffect(() => {
+        setDraft(override || detectedLayout(detectedHeaderRow));
+        setLastRowInput(toRowNumber(override?.lastDataRow ?? null));
+    }, [override, detectedHeaderRow]);
+
+    const width = Math.max(0, ...rawRows.map(row => row.length));
+    const headerNames = columnNames(rawRows[draft.headerRow] || [], width);
+    const lastDataRow = toRowIndex(lastRowInput);
+
+    const errors = [
+        draft.firstDataRow <= draft.headerRow ? 'The first data row must come after the header row' : null,
+        lastDataRow !== null && lastDataRow < draft.firstDataRow ? 'The last data row must not come before the first' : null
+    ].filter(Boolean);
+
+    const setHeaderRow = (headerRow: number) => setDraft(prev => ({
+        ...prev,
+        headerRow,
+        firstDataRow: Math.max(prev.firstDataRow, headerRow + 1),
+        // Names depend on the header row, so earlier exclusions no longer apply
+        ignoredColumns: headerRow === prev.headerRow ? prev.ignoredColumns : []
+    }));
+
+    const toggleColumn = (name: string) => setDraft(prev => ({
+        ...prev,
+        ignoredColumns: prev.ignoredColumns.includes(name)
+            ? prev.ignoredColumns.filter(column => column !== name)
+            : [...prev.ignoredColumns, name]
+    }));
+
+    const rowClass = (index: number) => {
+        if (index === draft.headerRow) return 'bg-blue-100 font-semibold text-blue-900';
+        if (index < draft.firstDataRow || (lastDataRow !== null && index > lastDataRow)) return 'text-gray-300 line-through';
+        return 'text-gray-700';
+    };
+
+    return (
+        <div className="bg-gray-50 rounded-xl p-4 space-y-4">
+            <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+                    <Table2 className="text-blue-500" size={20} />
+                    Table Layout
+                </h4>
+                {override && (
+                    <span className="text-xs font-medium text-indigo-700 bg-indigo-100 px-2 py-0.5 rounded-full">Manual layout</span>
+                )}
+            </div>
+            <p className="text-sm text-gray-600">
+                Click a row number to make it the header. Rows outside the data range and unticked columns are ignored.
+            </p>
+
+            <div className="flex flex-wrap items-end gap-4 text-sm">
+                <label className="text-gray-700">
+                    Header row
+                    <input
+                        type="number"
+                        min={1}
+                        value={toRowNumber(draft.headerRow)}
+                        onChange={(e) => setHeaderRow(toRowIndex(e.target.value) ?? 0)}
+                        className="block w-24 mt-1 p-1.5 border border-gray-300 rounded"
+                    />
+                </label>
+                <label className="text-gray-700">
+                    First data row
+                    <input
+                        type="number"
+                        min={1}
+                        value={toRowNumber(draft.firstDataRow)}
+                        onChange={(e) => setDraft(prev => ({ ...prev, firstDataRow: toRowIndex(e.target.value) ?? prev.headerRow + 1 }))}
+                        className="block w-24 mt-1 p-1.5 border border-gray-300 rounded"
+                    />
+                </label>
+                <label className="text-gray-700">
+                    Last data row
+                    <input
+                        type="number"
+                        min={1}
+                        value={lastRowInput}
+                        placeholder="End"
+                        onChange={(e) => setLastRowInput(e.target.value)}
+                        className="block w-24 mt-1 p-1.5 border border-gray-300 rounded"
+                    />
+                </label>
+                <button
+                    onClick={() => onApply({ ...draft, lastDataRow })}
+                    disabled={errors.length > 0 || isApplying}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+                >
+                    {isApplying ? 'Applying…' : 'Apply layout'}
+                </button>
+                {override && (
+                    <button
+                        onClick={onReset}
+                        disabled={isApplying}
+                        className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 hover:bg-white rounded-md"
+                    >
+                        <RotateCcw size={14} /> Reset to detected
+                    </button>
+                )}
+            </div>
+
+            {errors.length > 0 && <p className="text-sm text-red-600">{errors.join('; ')}</p>}
+
+            <div className="overflow-auto max-h-80 border border-gray-200 rounded-lg bg-white">
+                <table className="min-w-full text-xs">
+                    <thead className="sticky top-0 bg-gray-100">
+                        <tr>
+                            <th className="p-1.5 text-gray-500">#</th>
+                            {headerNames.map(name => (
+                                <th key={name} className="p-1.5 text-left font-medium text-gray-700 whitespace-nowrap">
+                                    <label className="flex items-center gap-1">
+                                        <input
+                                            type="checkbox"
+                                            checked={!draft.ignoredColumns.includes(name)}
+                                            onChange={() => toggleColumn(name)}
+                                        />
+                                        <span className={draft.ignoredColumns.includes(name) ? 'line-through text-gray-400' : ''}>{name}</span>
+                                    </label>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rawRows.map((row, index) => (
+                            <tr key={index} className={`border-t border-gray-100 ${rowClass(index)}`}>
+                                <td className="p-1.5 text-center">
+                                    <button
+                                        onClick={() => setHeaderRow(index)}
+                                        title="Use as header row"
+                                        className="w-8 text-gray-500 hover:text-blue-600 hover:underline"
+                                    >
+                                        {index + 1}
+                                    </button>
+                                </td>
+                                {headerNames.map((name, column) => (
+                                    <td
+                                        key={name}
+                                        className={`p-1.5 max-w-40 truncate ${draft.ignoredColumns.includes(name) ? 'bg-gray-50 text-gray-300' : ''}`}
+                                    >
+                                        {row[column] || ''}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-gray-500">Showing the first {rawRows.length} rows of the sheet.</p>
+        </div>
+    );
+};
@@ -0,0 +1,242 @@
+// components/TrendAnalytics.tsx
+import { useState, useEffect, useCallback } from 'react';
+import {
+    ComposedChart, LineChart, BarChart, Area, Line, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import type { TrendReport, TrendGranularity, TrendDateBasis, TrendPeriod, RateInterval } from '../types';
+
+const COLORS = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#14B8A6', '#6B7280'];
+
+// Empty periods stay on the axis but get no point, so lines break instead of dropping to zero
+const rateOrNull = (interval: RateInterval) => interval.total > 0 ? Number(interval.rate.toFixed(1)) : null;
+const bandOrNull = (interval: RateInterval) => interval.total > 0 ? [Number(interval.lower.toFixed(1)), Number(interval.upper.toFixed(1))] : null;
+
+export const TrendAnalytics = () => {
+    const [granularity, setGranularity] = useState<TrendGranularity>('month');
+    const [basis, setBasis] = useState<TrendDateBasis>('processed_at');
+    const [rollingWindow, setRollingWindow] = useState(3);
+    const [procedureCode, setProcedureCode] = useState('');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [report, setReport] = useState<TrendReport | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchReport = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const params = new URLSearchParams({ granularity, basis, window: String(rollingWindow) });
+            if (procedureCode) params.set('procedure_code', procedureCode);
+            if (from) params.set('from', from);
+            if (to) params.set('to', to);
+
+            const response = await fetch(`/api/trends?${params.toString()}`);
+            if (!response.ok) {
+                const errorResult = await response.json();
+                throw new Error(errorResult.error || `HTTP error! status: ${response.status}`);
+            }
+            setReport(await response.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        } finally {
+            setLoading(false);
+        }
+    }, [granularity, basis, rollingWindow, procedureCode, from, to]);
+
+    useEffect(() => {
+        fetchReport();
+    }, [fetchReport]);
+
+    const periods = report?.periods || [];
+    const outcomeData = (pick: (period: TrendPeriod) => RateInterval, pickRolling: (period: TrendPeriod) => RateInterval) =>
+        periods.map(period => ({
+            period: period.period,
+            rate: rateOrNull(pick(period)),
+            rolling: rateOrNull(pickRolling(period)),
+            band: bandOrNull(pickRolling(period)),
+            events: pick(period).events,
+            total: pick(period).total
+        }));
+    const successData = outcomeData(p => p.success, p => p.rolling_success);
+    const mortalityData = outcomeData(p => p.mortality, p => p.rolling_mortality);
+    const prevalenceData = periods.map(period => ({
+        period: period.period,
+        ...Object.fromEntries((report?.comorbidities || []).map(name => [name, rateOrNull(period.comorbidity_prevalence[name])]))
+    }));
+
+    const RateTooltip = ({ active, payload, label }: any) => {
+        if (!active || !payload?.length) return null;
+        const point = payload[0].payload;
+        return (
+            <div className="bg-white p-3 border border-gray-200 rounded shadow text-sm">
+                <p className="font-medium">{label}</p>
+                <p className="text-gray-600">
+                    This period: {point.rate === null ? 'no patients' : `${point.rate}% (${point.events}/${point.total})`}
+                </p>
+                {point.rolling !== null && (
+                    <p className="text-gray-600">
+                        Rolling {report?.rolling_window}: {point.rolling}% (95% CI {point.band[0]}–{point.band[1]}%)
+                    </p>
+                )}
+            </div>
+        );
+    };
+
+    const renderRateChart = (title: string, data: typeof successData, color: string) => (
+        <div className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">{title}</h3>
+            <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={data}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="period" />
+                    <YAxis domain={[0, 100]} unit="%" />
+                    <Tooltip content={<RateTooltip />} />
+                    <Legend verticalAlign="top" />
+                    <Area dataKey="band" name="95% CI (rolling)" stroke="none" fill={color} fillOpacity={0.15} isAnimationActive={false} />
+                    <Line dataKey="rolling" name={`Rolling ${report?.rolling_window}-period rate`} stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line dataKey="rate" name="Period rate" stroke={color} strokeOpacity={0} dot={{ r: 3, fill: color }} isAnimationActive={false} />
+                </ComposedChart>
+            </ResponsiveContainer>
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900">Outcome Trends</h3>
+                    <p className="text-sm text-gray-600">
+                        Outcomes across historical jobs by calendar period. Single periods are shown as points; the line pools the
+                        last few periods and its shaded 95% interval shows how much of a change could be chance.
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-end gap-6">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Procedure</label>
+                        <select value={procedureCode} onChange={(e) => setProcedureCode(e.target.value)} className="p-2 text-sm border border-gray-300 rounded">
+                            <option value="">All procedures</option>
+                            {(report?.procedure_codes || []).map(code => <option key={code} value={code}>{code}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Period</label>
+                        <select value={granularity} onChange={(e) => setGranularity(e.target.value as TrendGranularity)} className="p-2 text-sm border border-gray-300 rounded">
+                            <option value="month">Month</option>
+                            <option value="quarter">Quarter</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Date by</label>
+                        <select value={basis} onChange={(e) => setBasis(e.target.value as TrendDateBasis)} className="p-2 text-sm border border-gray-300 rounded">
+                            <option value="processed_at">Job processed</option>
+                            <option value="procedure_date">Procedure date</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Rolling window</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={12}
+                            value={rollingWindow}
+                            onChange={(e) => {
+                                const value = Number(e.target.value);
+                                if (Number.isInteger(value) && value >= 1 && value <= 12) setRollingWindow(value);
+                            }}
+                            className="w-20 p-2 text-sm border border-gray-300 rounded"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="p-2 text-sm border border-gray-300 rounded" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="p-2 text-sm border border-gray-300 rounded" />
+                    </div>
+                    <button
+                        onClick={fetchReport}
+                        disabled={loading}
+                        className="flex items-center gap-2 px-3 py-2 text-sm text-blue-700 hover:bg-blue-50 rounded disabled:opacity-50"
+                    >
+                        <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+                        Refresh
+                    </button>
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+
+            {report && (
+                <>
+                    {report.warnings.length > 0 && (
+                        <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+                            <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+                            <ul className="space-y-1">
+                                {report.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {[
+                            { label: 'Jobs', value: String(report.jobs_included) },
+                            { label: 'Patients', value: String(report.patients) },
+                            { label: 'Periods', value: String(periods.length) },
+                            { label: 'Range', value: periods.length > 0 ? `${periods[0].period} – ${periods[periods.length - 1].period}` : '—' }
+                        ].map(card => (
+                            <div key={card.label} className="bg-white shadow rounded-lg p-4">
+                                <div className="text-sm font-medium text-gray-500">{card.label}</div>
+                                <div className="text-2xl font-bold text-gray-900">{card.value}</div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {periods.length === 0 ? (
+                        <div className="bg-white p-6 rounded-lg shadow text-sm text-gray-500">No jobs fall within the selected filters.</div>
+                    ) : (
+                        <>
+                            {renderRateChart('Surgery Success Rate (%)', successData, '#10B981')}
+                            {renderRateChart('Mortality Rate (%)', mortalityData, '#EF4444')}
+
+                            {report.comorbidities.length > 0 && (
+                                <div className="bg-white p-6 rounded-lg shadow">
+                                    <h3 className="text-lg font-medium text-gray-900 mb-4">Comorbidity Prevalence (% of patients)</h3>
+                                    <ResponsiveContainer width="100%" height={320}>
+                                        <LineChart data={prevalenceData}>
+                                            <CartesianGrid strokeDasharray="3 3" />
+                                            <XAxis dataKey="period" />
+                                            <YAxis unit="%" />
+                                            <Tooltip />
+                                            <Legend verticalAlign="top" />
+                                            {report.comorbidities.map((name, index) => (
+                                                <Line key={name} dataKey={name} stroke={COLORS[index % COLORS.length]} dot={{ r: 2 }} isAnimationActive={false} />
+                                            ))}
+                                        </LineChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            )}
+
+                            <div className="bg-white p-6 rounded-lg shadow">
+                                <h3 className="text-lg font-medium text-gray-900 mb-4">Volume</h3>
+                                <ResponsiveContainer width="100%" height={260}>
+                                    <BarChart data={periods}>
+                                        <CartesianGrid strokeDasharray="3 3" />
+                                        <XAxis dataKey="period" />
+                                        <YAxis yAxisId="left" />
+                                        <YAxis yAxisId="right" orientation="right" />
+                                        <Tooltip />
+                                        <Legend verticalAlign="top" />
+                                        <Bar yAxisId="left" dataKey="patients" name="Patients" fill="#3B82F6" />
+                                        <Bar yAxisId="right" dataKey="jobs" name="Jobs" fill="#9CA3AF" />
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,254 @@
+// components/ValidationReport.tsx
+import { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Upload, AlertTriangle, Target } from 'lucide-react';
+import { Button } from './Button';
+import type { GoldStandardReport, ConfusionMetrics, ValidationDiscrepancy } from '../types';
+import { deidentifyReferenceRows, loadDeidentificationKey, saveDeidentificationKey } from '../utils/deidentify';
+import { referenceIdColumn } from '../utils/validation';
+
+interface ValidationReportProps {
+    jobId: string;
+    // Whether the job's patients carry linkage keys; otherwise they are identified by row number
+    linked: boolean;
+}
+
+const formatMetric = (value: number | null) => value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+
+// The reference workbook is read here, in the browser; the server only ever receives its rows
+const readReferenceRows = async (file: File): Promise<Record<string, any>[]> => {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    return XLSX.utils.sheet_to_json<Record<string, any>>(workbook.Sheets[workbook.SheetNames[0]], { defval: '' });
+};
+
+export const ValidationReport = ({ jobId, linked }: ValidationReportProps) => {
+    const [referenceFile, setReferenceFile] = useState<File | null>(null);
+    const [patientIdColumn, setPatientIdColumn] = useState('');
+    const [threshold, setThreshold] = useState(0);
+    const [report, setReport] = useState<GoldStandardReport | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const runValidation = async (confidenceThreshold: number = threshold) => {
+        if (!referenceFile) return;
+        setIsRunning(true);
+        setError(null);
+        try {
+            // Linked jobs carry pseudonymised patient keys, so the reference IDs have to be pseudonymised too
+            const rows = await readReferenceRows(referenceFile);
+            const idColumn = referenceIdColumn(rows.length > 0 ? Object.keys(rows[0]) : [], patientIdColumn.trim() || undefined);
+            const key = await loadDeidentificationKey();
+            const redactedRows = deidentifyReferenceRows(rows, key, idColumn, linked);
+            saveDeidentificationKey(key);
+
+            const response = await fetch(`/api/validate-job/${jobId}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    rows: redactedRows,
+                    confidence_threshold: confidenceThreshold,
+                    patient_id_column: patientIdColumn.trim() || undefined
+                })
+            });
+            if (!response.ok) {
+                const errorResult = await response.json();
+                throw new Error(errorResult.error || `HTTP error! status: ${response.status}`);
+            }
+            setReport(await response.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const renderMetricsRow = (metrics: ConfusionMetrics, emphasise = false) => (
+        <tr key={metrics.comorbidity} className={emphasise ? 'bg-gray-50 font-semibold' : 'hover:bg-gray-50'}>
+            <td className="px-4 py-3 text-sm text-gray-900">{metrics.comorbidity}</td>
+            <td className="px-4 py-3 text-sm text-gray-700">{metrics.true_positives}</td>
+            <td className="px-4 py-3 text-sm text-gray-700">{metrics.false_positives}</td>
+            <td className="px-4 py-3 text-sm text-gray-700">{metrics.false_negatives}</td>
+            <td className="px-4 py-3 text-sm text-gray-700">{metrics.true_negatives}</td>
+            <td className="px-4 py-3 text-sm text-gray-900">{formatMetric(metrics.sensitivity)}</td>
+            <td className="px-4 py-3 text-sm text-gray-900">{formatMetric(metrics.specificity)}</td>
+            <td className="px-4 py-3 text-sm text-gray-900">{formatMetric(metrics.ppv)}</td>
+            <td className="px-4 py-3 text-sm text-gray-900">{formatMetric(metrics.f1)}</td>
+        </tr>
+    );
+
+    const renderDiscrepancies = (title: string, items: ValidationDiscrepancy[], tone: 'red' | 'amber') => (
+        <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">{title} ({items.length})</h3>
+            {items.length === 0 ? (
+                <p className="text-sm text-gray-500">None at this threshold.</p>
+            ) : (
+                <div className="space-y-3 max-h-96 overflow-y-auto">
+                    {items.map((item, index) => (
+                        <div key={`${item.patient_id}-${item.comorbidity}-${index}`} className="border border-gray-200 rounded-lg p-3">
+                            <div className="flex items-center justify-between text-sm">
+                                <span className="font-medium text-gray-900">Patient {item.patient_id}</span>
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${tone === 'red' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}>
+                                    {item.comorbidity}
+                                    {item.confidence !== null && ` • ${(item.confidence * 100).toFixed(0)}%`}
+                                </span>
+                            </div>
+                            {item.excerpts.map((excerpt, excerptIndex) => (
+                                <blockquote key={excerptIndex} className="mt-2 border-l-4 border-gray-300 pl-3 text-sm text-gray-700">
+                                    {excerpt}
+                                </blockquote>
+                            ))}
+                            {item.reference_note && (
+                                <p className="mt-2 text-xs text-gray-500">Reference note: {item.reference_note}</p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white shadow rounded-lg p-6 space-y-4">
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900">Validate Against a Gold Standard</h3>
+                    <p className="text-sm text-gray-600">
+                        Upload a manually labelled sheet with a patient ID column and either one row per patient/comorbidity
+                        (with a &quot;Comorbidity&quot; column) or one column per comorbidity marked 1/yes/x. Patient IDs must match
+                        the linked patient key, or the row number when the job has a single unlinked file.
+                    </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Reference sheet</label>
+                        <input
+                            type="file"
+                            accept=".csv,.xlsx,.xls"
+                            onChange={(e) => { setReferenceFile(e.target.files?.[0] || null); setReport(null); }}
+                            className="w-full text-sm file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Patient ID column (optional)</label>
+                        <input
+                            type="text"
+                            value={patientIdColumn}
+                            onChange={(e) => setPatientIdColumn(e.target.value)}
+                            placeholder="Detected automatically"
+                            className="w-full p-2 text-sm border border-gray-300 rounded"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Confidence threshold: {threshold.toFixed(2)}
+                        </label>
+                        <input
+                            type="range"
+                            min={0}
+                            max={0.95}
+                            step={0.05}
+                            value={threshold}
+                            onChange={(e) => setThreshold(Number(e.target.value))}
+                            onMouseUp={(e) => report && runValidation(Number(e.currentTarget.value))}
+                            onKeyUp={(e) => report && runValidation(Number(e.currentTarget.value))}
+                            className="w-full"
+                        />
+                    </div>
+                </div>
+                <div className="flex items-center gap-4">
+                    <Button size="sm" onClick={() => runValidation()} disabled={!referenceFile} loading={isRunning}>
+                        {!isRunning && <Upload size={16} />}
+                        Run Validation
+                    </Button>
+                    {error && <span className="text-sm text-red-600">{error}</span>}
+                </div>
+            </div>
+
+            {report && (
+                <>
+                    {report.unmatched_reference_ids.length > 0 && (
+                        <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+                            <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+                            <span>
+                                {report.unmatched_reference_ids.length} reference patients were not found in this job and were excluded
+                                (e.g. {report.unmatched_reference_ids.slice(0, 5).join(', ')}).
+                            </span>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        {[
+                            { label: 'Patients Evaluated', value: String(report.evaluated_patients) },
+                            { label: 'Sensitivity', value: formatMetric(report.overall.sensitivity) },
+                            { label: 'Specificity', value: formatMetric(report.overall.specificity) },
+                            { label: 'PPV', value: formatMetric(report.overall.ppv) },
+                            { label: 'F1', value: formatMetric(report.overall.f1) }
+                        ].map(card => (
+                            <div key={card.label} className="bg-white shadow rounded-lg p-4">
+                                <div className="text-sm font-medium text-gray-500">{card.label}</div>
+                                <div className="text-2xl font-bold text-gray-900">{card.value}</div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="bg-white shadow rounded-lg p-6">
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-lg font-medium text-gray-900">Threshold Sweep</h3>
+                            {report.best_threshold !== null && (
+                                <span className="flex items-center gap-1 text-sm text-gray-600">
+                                    <Target size={16} className="text-blue-500" />
+                                    Best F1 at {report.best_threshold.toFixed(2)}
+                                </span>
+                            )}
+                        </div>
+                        <ResponsiveContainer width="100%" height={300}>
+                            <LineChart data={report.threshold_sweep.map(point => ({
+                                threshold: point.threshold,
+                                Sensitivity: point.sensitivity,
+                                PPV: point.ppv,
+                                F1: point.f1
+                            }))}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="threshold" />
+                                <YAxis domain={[0, 1]} tickFormatter={(value) => `${Math.round(value * 100)}%`} />
+                                <Tooltip formatter={(value) => formatMetric(value as number | null)} />
+                                <Legend />
+                                <ReferenceLine x={report.confidence_threshold} stroke="#6B7280" strokeDasharray="4 4" />
+                                <Line type="monotone" dataKey="Sensitivity" stroke="#10B981" dot={false} />
+                                <Line type="monotone" dataKey="PPV" stroke="#3B82F6" dot={false} />
+                                <Line type="monotone" dataKey="F1" stroke="#8B5CF6" dot={false} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    <div className="bg-white shadow rounded-lg p-6">
+                        <h3 className="text-lg font-medium text-gray-900 mb-4">
+                            Per-Comorbidity Accuracy at {report.confidence_threshold.toFixed(2)}
+                        </h3>
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        {['Comorbidity', 'TP', 'FP', 'FN', 'TN', 'Sensitivity', 'Specificity', 'PPV', 'F1'].map(heading => (
+                                            <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{heading}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {report.per_comorbidity.map(metrics => renderMetricsRow(metrics))}
+                                    {renderMetricsRow(report.overall, true)}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        {renderDiscrepancies('False Positives', report.false_positives, 'red')}
+                        {renderDiscrepancies('False Negatives', report.false_negatives, 'amber')}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
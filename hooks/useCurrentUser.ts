@@ -0,0 +1,46 @@
+// hooks/useCurrentUser.ts
+import { useState, useEffect } from 'react';
+import type { SessionUser, UserRole } from '../types';
+import { hasRole } from '../utils/roles';
+
+// One request per page load, shared by every component that asks
+let currentUser: Promise<SessionUser | null> | null = null;
+
+const fetchCurrentUser = (): Promise<SessionUser | null> => {
+    if (!currentUser) {
+        currentUser = fetch('/api/auth/me')
+            .then(response => response.ok ? response.json() : null)
+            .catch(error => {
+                console.error('Could not load the signed-in user:', error);
+                currentUser = null;
+                return null;
+            });
+    }
+    return currentUser;
+};
+
+export const signInUrl = (returnTo: string) => `/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`;
+export const SIGN_OUT_URL = '/api/auth/logout';
+
+/**
+ * The signed-in user and a role check for hiding controls they cannot use. The API enforces
+ * roles regardless; this only keeps the UI from offering actions that would be refused.
+ */
+export function useCurrentUser() {
+    const [user, setUser] = useState<SessionUser | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        let isCancelled = false;
+        fetchCurrentUser().then(result => {
+            if (isCancelled) return;
+            setUser(result);
+            setLoading(false);
+        });
+        return () => {
+            isCancelled = true;
+        };
+    }, []);
+
+    return { user, loading, can: (role: UserRole) => hasRole(user, role) };
+}
@@ -0,0 +1,126 @@
+// hooks/useJobEvents.ts
+import { useState, useEffect } from 'react';
+
+export type JobConnectionMode = 'streaming' | 'reconnecting' | 'polling';
+
+const POLL_INTERVAL_MS = 10000;
+const MAX_POLL_BACKOFF_MS = 60000;
+const MAX_STREAM_FAILURES = 3;
+
+const isFinished = (status: any) => status?.status === 'completed' || status?.status === 'error';
+
+/**
+ * Tracks a processing job through the `job-events` Server-Sent Events stream.
+ * EventSource reconnects on its own; if the stream cannot be established at all
+ * we fall back to polling `job-status`, backing off on errors instead of stopping.
+ */
+export function useJobEvents<T extends { status: string }>(jobId: string, initialStatus: T) {
+    const [status, setStatus] = useState<T>(initialStatus);
+    const [completedColumns, setCompletedColumns] = useState<string[]>([]);
+    const [connection, setConnection] = useState<JobConnectionMode>('streaming');
+
+    useEffect(() => {
+        if (!jobId) return;
+
+        let isCancelled = false;
+        let finished = false;
+        let source: EventSource | null = null;
+        let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+        const applyStatus = (data: T) => {
+            if (isCancelled) return;
+            setStatus(prev => ({ ...prev, ...data }));
+            if (isFinished(data)) {
+                finished = true;
+            }
+        };
+
+        const startPolling = (delay: number = 0) => {
+            if (isCancelled || finished) return;
+            setConnection('polling');
+            pollTimer = setTimeout(async () => {
+                let nextDelay = POLL_INTERVAL_MS;
+                try {
+                    const response = await fetch(`/api/job-status/${jobId}`);
+                    if (!response.ok) throw new Error('Could not fetch job status');
+                    applyStatus(await response.json());
+                } catch (error) {
+                    console.error(error);
+                    nextDelay = Math.min(delay * 2 || POLL_INTERVAL_MS, MAX_POLL_BACKOFF_MS);
+                }
+                startPolling(nextDelay);
+            }, delay);
+        };
+
+        if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+            startPolling(POLL_INTERVAL_MS);
+            return () => {
+                isCancelled = true;
+                if (pollTimer) clearTimeout(pollTimer);
+            };
+        }
+
+        let consecutiveFailures = 0;
+        source = new EventSource(`/api/job-events/${jobId}`);
+
+        source.onopen = () => {
+            consecutiveFailures = 0;
+            if (!isCancelled) setConnection('streaming');
+        };
+
+        source.addEventListener('progress', (event) => {
+            applyStatus(JSON.parse((event as MessageEvent).data));
+        });
+
+        source.addEventListener('column-complete', (event) => {
+            const data = JSON.parse((event as MessageEvent).data);
+            if (!isCancelled && data.column_name) {
+                setCompletedColumns(prev => prev.includes(data.column_name) ? prev : [...prev, data.column_name]);
+            }
+        });
+
+        source.addEventListener('finding', (event) => {
+            const data = JSON.parse((event as MessageEvent).data);
+            if (!isCancelled) setStatus(prev => ({ ...prev, latest_finding: data.latest_finding } as T));
+        });
+
+        source.addEventListener('done', (event) => {
+            applyStatus(JSON.parse((event as MessageEvent).data));
+            source?.close();
+        });
+
+        source.addEventListener('job-error', (event) => {
+            const data = JSON.parse((event as MessageEvent).data);
+            source?.close();
+            if (data.status === 'error') {
+                applyStatus(data);
+            } else {
+                // The stream gave up on the backend; keep tracking by polling.
+                startPolling(POLL_INTERVAL_MS);
+            }
+        });
+
+        source.onerror = () => {
+            if (isCancelled || finished) {
+                source?.close();
+                return;
+            }
+            consecutiveFailures++;
+            if (consecutiveFailures >= MAX_STREAM_FAILURES || source?.readyState === EventSource.CLOSED) {
+                console.warn(`Job event stream unavailable for ${jobId}, falling back to polling`);
+                source?.close();
+                startPolling(0);
+            } else {
+                setConnection('reconnecting');
+            }
+        };
+
+        return () => {
+            isCancelled = true;
+            source?.close();
+            if (pollTimer) clearTimeout(pollTimer);
+        };
+    }, [jobId]);
+
+    return { status, completedColumns, connection };
+}
@@ -7,15 +7,7 @@ const nextConfig = {
   // If you're using Pages Router, you don't need this
   // If you're using App Router, remove this entire experimental section
 
-  async rewrites() {
-    return [
-      {
-        source: '/api/backend/:path*',
-        // Fixed: removed space in "http: //localhost:5007"
-        destination: 'http://localhost:5007/api/:path*',
-      },
-    ]
-  },
+  // No rewrite to the backend: every backend call goes through pages/api, where sign-in and roles are enforced
   async headers() {
     return [
       {
@@ -1,9 +1,25 @@
 // pages/_app.tsx
 import type { AppProps } from 'next/app'
+import { useEffect } from 'react';
 import '../styles/globals.css';
 import { AnimatePresence } from 'framer-motion'
+import LoadingSpinner from '../components/LoadingSpinner';
+import { useCurrentUser, signInUrl } from '../hooks/useCurrentUser';
 
 export default function App({ Component, pageProps, router }: AppProps) {
+    const { user, loading } = useCurrentUser();
+
+    // Nothing is shown until the user has signed in with the identity provider
+    useEffect(() => {
+        if (!loading && !user) {
+            window.location.href = signInUrl(router.asPath);
+        }
+    }, [loading, user, router.asPath]);
+
+    if (!user) {
+        return <LoadingSpinner text={loading ? 'Checking sign-in...' : 'Redirecting to sign-in...'} />;
+    }
+
     return (
         <AnimatePresence mode="wait" initial={false}>
             <Component {...pageProps} key={router.asPath} />
@@ -3,10 +3,43 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import formidable from 'formidable';
 import fs from 'fs';
+import { matchTargetId, patientTargetId, matchesForPatient } from '../../utils/adjudication';
+import { parseReferenceRows, evaluateAgainstReference, needsLinkage } from '../../utils/validation';
+import { IndexName, INDEX_STRATA, isIndexCategory, scoreIndex, stratumFor } from '../../utils/comorbidityIndices';
+import { buildRiskAdjustmentReport, RiskJob } from '../../utils/riskAdjustment';
+import { wilsonInterval, associationTest } from '../../utils/statistics';
+import { buildTrendReport, TrendJob } from '../../utils/trends';
+import { CONTROL_OUTCOMES, pooledBenchmark } from '../../utils/controlCharts';
+import { renderJobReport, ReportColumnPrompt } from '../../utils/pdfReport';
+import {
+  buildExport, exportColumns, EXPORT_DATASETS, EXPORT_FORMATS, ExportDataset, ExportFormat, ExportFilters
+} from '../../utils/dataExport';
+import { buildFhirResources, toTransactionBundle, toNdjson, FhirExportFormat } from '../../utils/fhir';
+import { previewWorkbook } from '../../utils/filePreview';
+import { includedSheets, rangeOverridesByTable, sheetConfigurationErrors } from '../../utils/sheets';
+import { AUTH_DISABLED, AuthError, beginLogin, completeLogin, endSession, getSessionUser } from '../../utils/auth';
+import { ROLE_LABELS, hasRole, requiredRole } from '../../utils/roles';
+import { appendAuditEntry, auditLogCsv, describeAction, diffSnapshots, readAuditLog } from '../../utils/auditLog';
+import {
+  currentDefinitionVersions, loadJobDefinitionPin, pinJobDefinitions, pinnedDefinitionRecords,
+  readDefinitionVersions, syncDefinitionVersions, versionedCodes
+} from '../../utils/definitionVersions';
+import { buildLibrary, definitionFields, libraryToCsv, resolvedDefinition } from '../../utils/comorbidityLibrary';
+import { JobOwner, loadJobOwners, recordJobOwner } from '../../utils/jobOwners';
+import type {
+  RiskCovariate, ControlBenchmarks, TrendGranularity, TrendDateBasis, FileMetadata, SessionUser, DefinitionChangeSource, ComorbidityVersion,
+  LibraryImportAction, LibraryImportResult
+} from '../../types';
 
 // Backend configuration from environment variables
 const BACKEND_BASE_URL = process.env.BACKEND_BASE_URL || process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5007';
 const BACKEND_API_URL = `${BACKEND_BASE_URL}/api`;
+// Identifier namespace of patient keys in FHIR exports. Keys are browser-side pseudonyms, so this must
+// not be the hospital MRN system
+const FHIR_PSEUDONYM_SYSTEM = process.env.FHIR_PSEUDONYM_SYSTEM || 'urn:mediaudit:pseudonym';
+// Secret the browser derives patient pseudonyms from (see utils/deidentify). Held here rather than in
+// the client bundle, and never sent with uploads
+const PSEUDONYM_SECRET = process.env.PSEUDONYM_SECRET || '';
 
 console.log(`[API] Backend configured: ${BACKEND_API_URL}`);
 
@@ -94,7 +127,26 @@ export default async function handler(
   }
 
   try {
+    // Every route except sign-in itself needs a session with a sufficient role
+    const role = requiredRole(path, req.method);
+    const user = role ? await getSessionUser(req) : null;
+    // Recorded once the response has gone out, refusals included
+    await auditRequest(req, res, path, user, !role || hasRole(user, role));
+    if (role && !user) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    if (role && !hasRole(user, role)) {
+      console.log(`--- [API] ${user!.name} (${user!.role}) denied ${req.method} ${path} ---`);
+      return res.status(403).json({ error: `This requires the ${ROLE_LABELS[role]} role` });
+    }
+
     switch (path) {
+      case 'auth/login':
+      case 'auth/callback':
+      case 'auth/logout':
+      case 'auth/me':
+        return handleAuth(req, res, path.split('/')[1]);
+
       case 'icmp-codes':
         return handleIcmpCodes(req, res);
 
@@ -111,10 +163,10 @@ export default async function handler(
         return handleAnalyzeFileStructure(req, res);
 
       case 'process-file-enhanced':
-        return handleProcessFileEnhanced(req, res);
+        return handleProcessFileEnhanced(req, res, user!);
 
       case 'process-file':
-        return handleProcessFileWithFormData(req, res);
+        return handleProcessFileWithFormData(req, res, user!);
 
       case 'dashboard-stats':
         return handleDashboardStats(req, res);
@@ -122,6 +174,22 @@ export default async function handler(
       case 'consolidate-files':
         return handleConsolidateFiles(req, res);
 
+      case 'preview-linkage':
+        return handlePreviewLinkage(req, res);
+
+      case 'risk-adjustment':
+        return handleRiskAdjustment(req, res);
+
+      case 'trends':
+        return handleTrends(req, res);
+
+      case 'pseudonym-key':
+        return handlePseudonymKey(req, res);
+
+      case 'audit-log':
+      case 'audit-log/export':
+        return handleAuditLog(req, res, path === 'audit-log/export');
+
       default:
         // Handle dynamic routes
         if (path.startsWith('comorbidities/')) {
@@ -129,15 +197,40 @@ export default async function handler(
           const code = pathParts[1];
 
           if (pathParts.length === 2) {
-            return handleComorbidities(req, res, code);
+            return handleComorbidities(req, res, code, user!);
           } else if (pathParts.length === 3) {
             const comorbidityId = pathParts[2];
-            return handleIndividualComorbidity(req, res, code, comorbidityId);
+            return handleIndividualComorbidity(req, res, code, comorbidityId, user!);
           }
         }
 
+        if (path.startsWith('comorbidity-versions/')) {
+          const [, code, comorbidityId, action] = path.split('/');
+          return handleComorbidityVersions(req, res, code, comorbidityId, action, user!);
+        }
+
+        if (path.startsWith('comorbidity-library/')) {
+          const code = path.split('/')[1];
+          return handleComorbidityLibrary(req, res, code, user!);
+        }
+
+        if (path.startsWith('control-benchmarks/')) {
+          const jobId = path.split('/')[1];
+          return handleControlBenchmarks(req, res, jobId);
+        }
+
+        if (path.startsWith('job-definitions/')) {
+          const jobId = path.split('/')[1];
+          return handleJobDefinitions(req, res, jobId);
+        }
+
+        if (path.startsWith('configurations/')) {
+          const configId = path.split('/')[1];
+          return handleIndividualConfiguration(req, res, configId);
+        }
+
         if (path.startsWith('upload/')) {
-          return handleGenericFileUpload(req, res, path);
+          return handleGenericFileUpload(req, res, path, user!);
         }
 
         if (path.startsWith('job-results/')) {
@@ -154,6 +247,36 @@ export default async function handler(
           return handleJobStatus(req, res, jobId);
         }
 
+        if (path.startsWith('job-events/')) {
+          const jobId = path.split('/')[1];
+          return handleJobEvents(req, res, jobId);
+        }
+
+        if (path.startsWith('adjudications/')) {
+          const jobId = path.split('/')[1];
+          return handleAdjudications(req, res, jobId, user!);
+        }
+
+        if (path.startsWith('validate-job/')) {
+          const jobId = path.split('/')[1];
+          return handleValidateJob(req, res, jobId);
+        }
+
+        if (path.startsWith('job-report/')) {
+          const jobId = path.split('/')[1];
+          return handleJobReport(req, res, jobId);
+        }
+
+        if (path.startsWith('job-export/')) {
+          const [, jobId, action] = path.split('/');
+          return handleJobExport(req, res, jobId, action);
+        }
+
+        if (path.startsWith('fhir-export/')) {
+          const jobId = path.split('/')[1];
+          return handleFhirExport(req, res, jobId);
+        }
+
         if (path.startsWith('download-results/')) {
           const jobId = path.split('/')[1];
           return handleDownloadResults(req, res, jobId);
@@ -163,10 +286,163 @@ export default async function handler(
     }
   } catch (error) {
     console.error('API Error:', error);
+    // Missing OIDC or session settings; say so rather than failing every request silently
+    if (error instanceof AuthError) {
+      return res.status(500).json({ error: error.message });
+    }
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
 
+// Sign-in routes: login and callback run the OIDC flow, logout ends the session, me reports the user
+async function handleAuth(req: NextApiRequest, res: NextApiResponse, action: string) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (action === 'me') {
+      const user = await getSessionUser(req);
+      return user ? res.status(200).json(user) : res.status(401).json({ error: 'Sign in required' });
+    }
+
+    if (action === 'login') {
+      const { url, cookie } = await beginLogin(req.query.returnTo);
+      res.setHeader('Set-Cookie', cookie);
+      return res.redirect(302, url);
+    }
+
+    if (action === 'callback') {
+      const { user, cookies, returnTo } = await completeLogin(req, req.query);
+      console.log(`--- [API] ${user.name} signed in as ${user.role} ---`);
+      await recordAuthEvent(user, 'auth.sign_in', 'auth/callback');
+      res.setHeader('Set-Cookie', cookies);
+      return res.redirect(302, returnTo);
+    }
+
+    const user = await getSessionUser(req);
+    if (user) {
+      await recordAuthEvent(user, 'auth.sign_out', 'auth/logout');
+    }
+    const { url, cookie } = await endSession(req);
+    res.setHeader('Set-Cookie', cookie);
+    return res.redirect(302, url);
+  } catch (error) {
+    console.error(`Error during auth ${action}:`, error);
+    if (error instanceof AuthError) {
+      return res.status(action === 'callback' ? 400 : 500).json({ error: error.message });
+    }
+    res.status(500).json({ error: `Failed to ${action === 'callback' ? 'complete sign-in' : action === 'logout' ? 'sign out' : 'start sign-in'}` });
+  }
+}
+
+// Sign-in routes are not audited per request (most are anonymous), so sign-in and sign-out are logged here
+function recordAuthEvent(user: SessionUser, action: string, path: string) {
+  return appendAuditEntry({ user, action, method: 'GET', path, resource_type: null, resource_id: null, status: 302 })
+    .catch(error => console.error(`--- [API] Could not write audit entry for ${action}:`, error));
+}
+
+// State of whatever a mutation changes, read before and after it so the audit entry can carry a diff
+function auditSnapshot(path: string, method: string): (() => Promise<unknown>) | null {
+  if (method === 'GET' || method === 'HEAD') return null;
+  const [route, id, subId] = path.split('/');
+
+  if ((route === 'comorbidities' || route === 'comorbidity-versions' || route === 'comorbidity-library') && id) {
+    return async () => {
+      const definitions = await fetchComorbidityDefinitions(id);
+      // Restores and imports may create definitions under new IDs, so they are diffed as a list
+      return subId && route === 'comorbidities' ? definitions.find(definition => String(definition.id) === subId) ?? null : definitions;
+    };
+  }
+  if (route === 'adjudications' && id) {
+    return () => fetchAdjudications(id);
+  }
+  if (route === 'configurations' || route === 'save-configuration') {
+    return async () => {
+      const response = await fetch(`${BACKEND_API_URL}/configurations`);
+      if (!response.ok) throw new Error(`Backend responded with status: ${response.status}`);
+      const data = await response.json();
+      const configurations = Array.isArray(data) ? data : [];
+      return id ? configurations.find((config: any) => String(config.id) === id) ?? null : configurations;
+    };
+  }
+  if (route === 'jobs' && id && method === 'DELETE') {
+    return async () => {
+      const response = await fetch(`${BACKEND_API_URL}/job-status/${encodeURIComponent(id)}`);
+      return response.ok ? response.json() : null;
+    };
+  }
+  return null;
+}
+
+/**
+ * Registers the audit entry for a request, written when the response closes. For allowed
+ * mutations the affected state is read first, so the entry records what the request changed.
+ */
+async function auditRequest(req: NextApiRequest, res: NextApiResponse, path: string, user: SessionUser | null, authorized: boolean) {
+  const method = req.method || 'GET';
+  const audited = describeAction(path, method);
+  if (!audited) return;
+
+  const snapshot = authorized ? auditSnapshot(path, method) : null;
+  const before = snapshot ? await snapshot().catch(() => undefined) : undefined;
+
+  res.on('close', async () => {
+    try {
+      const after = snapshot && before !== undefined && res.statusCode < 400 ? await snapshot() : undefined;
+      await appendAuditEntry({
+        user,
+        ...audited,
+        method,
+        path,
+        status: res.statusCode,
+        changes: after !== undefined ? diffSnapshots(before, after) : null
+      });
+    } catch (error) {
+      console.error(`--- [API] Could not write audit entry for ${method} ${path}:`, error);
+    }
+  });
+}
+
+// The audit trail for admins: filtered entries with the chain check as JSON, or the entries as CSV
+async function handleAuditLog(req: NextApiRequest, res: NextApiResponse, asCsv: boolean) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { user, action, resource_id, from, to } = req.query;
+  const text = (value: string | string[] | undefined) => value === undefined || value === '' ? undefined : String(value);
+  for (const [name, value] of Object.entries({ from: text(from), to: text(to) })) {
+    if (value && Number.isNaN(new Date(value).getTime())) {
+      return res.status(400).json({ error: `${name} must be a date` });
+    }
+  }
+
+  try {
+    const { entries, verification } = await readAuditLog({
+      user: text(user),
+      action: text(action),
+      resource_id: text(resource_id),
+      from: text(from),
+      to: text(to)
+    });
+
+    if (!verification.valid) {
+      console.error(`--- [API] Audit log chain is broken at entry ${verification.first_invalid_seq} ---`);
+    }
+
+    if (asCsv) {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename=audit-log-${new Date().toISOString().slice(0, 10)}.csv`);
+      return res.send(auditLogCsv(entries));
+    }
+    res.status(200).json({ entries, verification });
+  } catch (error) {
+    console.error('Error reading audit log:', error);
+    res.status(500).json({ error: 'Failed to read audit log' });
+  }
+}
+
 // CRITICAL FIX 1: Enhanced handleJobResults with proper transformation
 async function handleJobResults(req: NextApiRequest, res: NextApiResponse, jobId: string) {
   if (req.method !== 'GET') {
@@ -199,8 +475,22 @@ async function handleJobResults(req: NextApiRequest, res: NextApiResponse, jobId
     const data = await response.json();
     console.log(`--- [API] Backend response received for job ${jobId} ---`);
 
+    // Clinician decisions replace the raw AI values before analytics are computed
+    const adjudications = format === 'enhanced' ? await fetchAdjudications(jobId) : [];
+
+    // Charlson/Elixhauser categories live on the comorbidity definitions for the job's procedure,
+    // as pinned when the job was submitted; jobs from before pinning use the current definitions
+    const procedureCode = data.stats?.procedure_code || data.procedure_code || data.icmp_code;
+    const pin = format === 'enhanced' ? await loadJobDefinitionPin(jobId).catch(() => null) : null;
+    const definitions = pin
+      ? pinnedDefinitionRecords(pin)
+      : format === 'enhanced' && procedureCode ? await fetchComorbidityDefinitions(procedureCode) : [];
+
     // FIXED: Always transform data to match frontend expectations
-    const transformedData = transformJobResultsForFrontend(data, format);
+    const transformedData = transformJobResultsForFrontend(data, format, adjudications, definitions);
+    if (format === 'enhanced') {
+      transformedData.definition_pin = pin;
+    }
 
     res.status(200).json(transformedData);
   } catch (error) {
@@ -210,7 +500,7 @@ async function handleJobResults(req: NextApiRequest, res: NextApiResponse, jobId
 }
 
 // CRITICAL FIX 2: Completely rewritten data transformation
-function transformJobResultsForFrontend(backendData: any, format: string) {
+function transformJobResultsForFrontend(backendData: any, format: string, adjudications: any[] = [], definitions: any[] = []) {
   console.log(`--- [API] Transforming job results for format: ${format} ---`);
   console.log(`--- [API] Backend data keys: ${Object.keys(backendData || {})} ---`);
 
@@ -223,7 +513,8 @@ function transformJobResultsForFrontend(backendData: any, format: string) {
         processing_time: backendData.stats?.processing_time || 0,
         successful_surgeries: backendData.stats?.successful_surgeries || 0,
         failed_surgeries: backendData.stats?.failed_surgeries || 0,
-        output_file_path: backendData.stats?.output_file_path || null
+        output_file_path: backendData.stats?.output_file_path || null,
+        procedure_code: backendData.stats?.procedure_code || backendData.procedure_code || backendData.icmp_code || null
       },
       matches: backendData.matches || [],
       summary: {
@@ -254,6 +545,7 @@ function transformJobResultsForFrontend(backendData: any, format: string) {
 
         return {
           patient_id: patient.patient_id,
+          file_name: patient.file_name || patient.source_file || null,
           total_comorbidities: patient.total_comorbidities || 0,
           highest_confidence: patient.highest_confidence || 0,
           comorbidity_summary: patient.comorbidity_summary || '',
@@ -266,17 +558,45 @@ function transformJobResultsForFrontend(backendData: any, format: string) {
           mortality_status: mortalityStatus,
           mortality_confidence: patient.mortality_confidence || 0,
           mortality_causes: mortalityCauses,
-          time_of_death: patient.time_of_death || null
+          time_of_death: patient.time_of_death || null,
+          // Orders patients on the CUSUM/VLAD charts; row order is used when absent
+          procedure_date: patient.procedure_date || patient.surgery_date || null,
+          // Optional covariate for risk adjustment when the backend extracted it
+          age: patient.age != null && patient.age !== '' && !Number.isNaN(Number(patient.age)) ? Number(patient.age) : null,
+          // Value of the linkage key column when files were joined on a patient identifier
+          patient_key: patient.patient_key != null && patient.patient_key !== '' ? String(patient.patient_key) : null
         };
       });
     }
 
+    // Column set-up the job ran with, for the methods section of reports
+    const columnMappings = backendData.column_mappings ?? backendData.config?.column_mappings;
+    transformedData.column_mappings = typeof columnMappings === 'string' ? safeParseJSON(columnMappings, null) : columnMappings || null;
+
+    // Per-file breakdown for audits that combined several uploaded files
+    transformedData.files = buildFileBreakdown(
+      transformedData.patient_summaries || [],
+      transformedData.matches || [],
+      backendData.files || backendData.stats?.files || []
+    );
+
+    // Collapse rows from linked files into one summary per patient before computing analytics
+    if (transformedData.patient_summaries && backendData.patient_linkage) {
+      transformedData.patient_linkage = backendData.patient_linkage;
+      transformedData.patient_summaries = mergeLinkedPatientSummaries(transformedData.patient_summaries);
+    }
+
+    if (transformedData.patient_summaries) {
+      applyAdjudications(transformedData, adjudications);
+      applyComorbidityIndices(transformedData.patient_summaries, definitions);
+    }
+
     // FIXED: Generate comprehensive patient_analytics with mortality data
     if (format === 'enhanced' || backendData.patient_summaries) {
       transformedData.patient_analytics = generateEnhancedPatientAnalytics(
         transformedData.patient_summaries || [],
         transformedData.stats,
-        transformedData.matches || [],
+        (transformedData.matches || []).filter((match: any) => match.adjudication?.decision !== 'rejected'),
         backendData.patient_analytics
       );
     }
@@ -290,6 +610,179 @@ function transformJobResultsForFrontend(backendData: any, format: string) {
   }
 }
 
+// Combine backend per-file stats with what the patient summaries and matches say about each source file
+function buildFileBreakdown(patientSummaries: any[], matches: any[], backendFiles: any[]) {
+  const fileNames: string[] = [];
+  const addFileName = (name: any) => {
+    if (name && typeof name === 'string' && !fileNames.includes(name)) {
+      fileNames.push(name);
+    }
+  };
+
+  backendFiles.forEach(file => addFileName(file.file_name));
+  patientSummaries.forEach(patient => addFileName(patient.file_name));
+  matches.forEach(match => addFileName(match.file_name));
+
+  return fileNames.map(fileName => {
+    const backendFile = backendFiles.find(file => file.file_name === fileName) || {};
+    const patients = patientSummaries.filter(p => p.file_name === fileName);
+    const successful = patients.filter(p => p.surgery_outcome === 'success').length;
+    const failed = patients.filter(p => p.surgery_outcome === 'failure').length;
+    const deceased = patients.filter(p => p.mortality_status === 'deceased').length;
+
+    return {
+      file_name: fileName,
+      rows_processed: backendFile.rows_processed || patients.length,
+      matches_found: backendFile.matches_found || matches.filter(m => m.file_name === fileName).length,
+      total_patients: patients.length,
+      successful_surgeries: successful,
+      failed_surgeries: failed,
+      deceased_patients: deceased,
+      success_rate: patients.length > 0 ? (successful / patients.length) * 100 : 0,
+      mortality_rate: patients.length > 0 ? (deceased / patients.length) * 100 : 0,
+      success_rate_interval: wilsonInterval(successful, patients.length),
+      mortality_rate_interval: wilsonInterval(deceased, patients.length)
+    };
+  });
+}
+
+// Merge patient summaries that share a linkage key so one patient's comorbidities,
+// outcome and mortality are aggregated across every linked source file
+function mergeLinkedPatientSummaries(patientSummaries: any[]): any[] {
+  const merged: any[] = [];
+  const byKey: Record<string, any> = {};
+
+  const unique = (values: any[]) => values.filter((value, index) => value && values.indexOf(value) === index);
+
+  patientSummaries.forEach(patient => {
+    const sourceRow = { file_name: patient.file_name, row_number: patient.patient_id };
+
+    if (!patient.patient_key) {
+      merged.push({ ...patient, source_files: patient.file_name ? [patient.file_name] : [], source_rows: [sourceRow] });
+      return;
+    }
+
+    const existing = byKey[patient.patient_key];
+    if (!existing) {
+      const entry = { ...patient, source_files: patient.file_name ? [patient.file_name] : [], source_rows: [sourceRow] };
+      byKey[patient.patient_key] = entry;
+      merged.push(entry);
+      return;
+    }
+
+    existing.source_files = unique([...existing.source_files, patient.file_name]);
+    existing.source_rows.push(sourceRow);
+    existing.primary_concerns = unique([...existing.primary_concerns, ...patient.primary_concerns]);
+    existing.failure_causes = unique([...existing.failure_causes, ...patient.failure_causes]);
+    existing.mortality_causes = unique([...existing.mortality_causes, ...patient.mortality_causes]);
+    existing.total_comorbidities = Math.max(existing.primary_concerns.length, existing.total_comorbidities, patient.total_comorbidities);
+    existing.highest_confidence = Math.max(existing.highest_confidence, patient.highest_confidence);
+    existing.columns_analyzed += patient.columns_analyzed;
+    existing.comprehensive_summary = [existing.comprehensive_summary, patient.comprehensive_summary].filter(Boolean).join('\n\n');
+    existing.comorbidity_summary = [existing.comorbidity_summary, patient.comorbidity_summary].filter(Boolean).join(' ');
+
+    // A failure or death recorded in any linked source outweighs a success/alive in another
+    if (patient.surgery_outcome === 'failure' || (existing.surgery_outcome === 'unknown' && patient.surgery_outcome === 'success')) {
+      existing.surgery_outcome = patient.surgery_outcome;
+    }
+    if (patient.mortality_status === 'deceased') {
+      existing.mortality_status = 'deceased';
+      existing.mortality_confidence = Math.max(existing.mortality_confidence, patient.mortality_confidence);
+      existing.time_of_death = existing.time_of_death || patient.time_of_death;
+    }
+    existing.procedure_date = existing.procedure_date || patient.procedure_date;
+    existing.age = existing.age ?? patient.age;
+  });
+
+  console.log(`--- [API] Linked ${patientSummaries.length} patient rows into ${merged.length} patients ---`);
+  return merged;
+}
+
+// Overlay clinician decisions on the AI findings. Every match and patient is tagged
+// with its decision so analytics can split AI-only from clinician-verified counts.
+function applyAdjudications(transformedData: any, adjudications: any[]) {
+  const decisions: Record<string, any> = {};
+  adjudications.forEach(adjudication => {
+    decisions[`${adjudication.target_type}|${adjudication.target_id}`] = adjudication;
+  });
+  transformedData.adjudications = adjudications;
+
+  transformedData.matches = (transformedData.matches || []).map((match: any) => {
+    const adjudication = decisions[`match|${matchTargetId(match)}`];
+    return adjudication ? { ...match, adjudication } : match;
+  });
+
+  transformedData.patient_summaries = transformedData.patient_summaries.map((patient: any) => {
+    const patientMatches = matchesForPatient(patient, transformedData.matches);
+
+    let primaryConcerns: string[] = [...(patient.primary_concerns || [])];
+    const verifiedConcerns: string[] = [];
+    const reviewedMatches = patientMatches.filter((match: any) => match.adjudication);
+
+    if (reviewedMatches.length > 0) {
+      const byComorbidity: Record<string, any[]> = {};
+      patientMatches.forEach((match: any) => {
+        (byComorbidity[match.comorbidity_name] = byComorbidity[match.comorbidity_name] || []).push(match);
+      });
+
+      Object.entries(byComorbidity).forEach(([name, comorbidityMatches]) => {
+        const standing = comorbidityMatches.filter(m => !['rejected', 'corrected'].includes(m.adjudication?.decision));
+        if (standing.length === 0) {
+          primaryConcerns = primaryConcerns.filter(concern => concern !== name);
+        }
+        if (comorbidityMatches.some(m => m.adjudication?.decision === 'confirmed')) {
+          verifiedConcerns.push(name);
+        }
+        comorbidityMatches
+          .filter(m => m.adjudication?.decision === 'corrected' && m.adjudication.corrected_value)
+          .forEach(m => verifiedConcerns.push(m.adjudication.corrected_value));
+      });
+
+      verifiedConcerns.forEach(name => {
+        if (!primaryConcerns.includes(name)) primaryConcerns.push(name);
+      });
+    }
+
+    const targetId = patientTargetId(patient);
+    const outcomeDecision = decisions[`surgery_outcome|${targetId}`];
+    const mortalityDecision = decisions[`mortality_status|${targetId}`];
+
+    let surgeryOutcome = patient.surgery_outcome;
+    if (outcomeDecision?.decision === 'corrected' && outcomeDecision.corrected_value) {
+      surgeryOutcome = outcomeDecision.corrected_value;
+    } else if (outcomeDecision?.decision === 'rejected') {
+      surgeryOutcome = 'unknown';
+    }
+
+    // Mortality is binary, so rejecting the AI status means the opposite one holds
+    let mortalityStatus = patient.mortality_status;
+    if (mortalityDecision?.decision === 'corrected' && mortalityDecision.corrected_value) {
+      mortalityStatus = mortalityDecision.corrected_value;
+    } else if (mortalityDecision?.decision === 'rejected') {
+      mortalityStatus = mortalityStatus === 'deceased' ? 'alive' : 'deceased';
+    }
+
+    return {
+      ...patient,
+      primary_concerns: primaryConcerns,
+      total_comorbidities: reviewedMatches.length > 0 ? primaryConcerns.length : patient.total_comorbidities,
+      surgery_outcome: surgeryOutcome,
+      mortality_status: mortalityStatus,
+      ai_surgery_outcome: patient.surgery_outcome,
+      ai_mortality_status: patient.mortality_status,
+      verification: {
+        surgery_outcome: Boolean(outcomeDecision),
+        mortality_status: Boolean(mortalityDecision),
+        comorbidities: verifiedConcerns.filter((name, index) => verifiedConcerns.indexOf(name) === index)
+      }
+    };
+  });
+
+  if (adjudications.length > 0) {
+    console.log(`--- [API] Applied ${adjudications.length} clinician adjudications ---`);
+  }
+}
+
 // CRITICAL FIX 3: Better JSON parsing with proper fallbacks
 function safeParseJSONArray(jsonString: any, fallback: any[] = []): any[] {
   if (Array.isArray(jsonString)) {
@@ -374,7 +867,8 @@ function generateEnhancedPatientAnalytics(patientSummaries: any[], stats: any, m
         high_risk_comorbidities: {},
         risk_distribution: { 'Critical': 0, 'High': 0, 'Medium': 0, 'Low': 0 }
       },
-      failure_causes: {}
+      failure_causes: {},
+      comorbidity_associations: []
     };
   }
 
@@ -384,7 +878,8 @@ function generateEnhancedPatientAnalytics(patientSummaries: any[], stats: any, m
     successful: patientSummaries.filter(p => p.surgery_outcome === 'success').length,
     failed: patientSummaries.filter(p => p.surgery_outcome === 'failure').length,
     unknown: patientSummaries.filter(p => p.surgery_outcome === 'unknown' || !p.surgery_outcome).length,
-    success_rate: totalPatients > 0 ? (patientSummaries.filter(p => p.surgery_outcome === 'success').length / totalPatients) * 100 : 0
+    success_rate: totalPatients > 0 ? (patientSummaries.filter(p => p.surgery_outcome === 'success').length / totalPatients) * 100 : 0,
+    success_rate_interval: wilsonInterval(patientSummaries.filter(p => p.surgery_outcome === 'success').length, totalPatients)
   };
 
   // FIXED: Proper mortality analytics
@@ -399,10 +894,14 @@ function generateEnhancedPatientAnalytics(patientSummaries: any[], stats: any, m
     death_rate_in_failed: 0,
     death_rate_in_successful: 0,
     high_risk_comorbidities: {},
-    risk_distribution: { 'Critical': 0, 'High': 0, 'Medium': 0, 'Low': 0 }
+    risk_distribution: { 'Critical': 0, 'High': 0, 'Medium': 0, 'Low': 0 },
+    mortality_rate_interval: wilsonInterval(0, 0),
+    death_rate_in_failed_interval: wilsonInterval(0, 0),
+    death_rate_in_successful_interval: wilsonInterval(0, 0)
   };
 
   mortalityAnalytics.mortality_rate = totalPatients > 0 ? (mortalityAnalytics.deceased_patients / totalPatients) * 100 : 0;
+  mortalityAnalytics.mortality_rate_interval = wilsonInterval(mortalityAnalytics.deceased_patients, totalPatients);
 
   // FIXED: Extract mortality causes from deceased patients
   const allMortalityCauses: string[] = [];
@@ -440,6 +939,8 @@ function generateEnhancedPatientAnalytics(patientSummaries: any[], stats: any, m
   mortalityAnalytics.success_surgery_deaths = successSurgeryDeaths;
   mortalityAnalytics.death_rate_in_failed = surgeryOutcomes.failed > 0 ? (failedSurgeryDeaths / surgeryOutcomes.failed) * 100 : 0;
   mortalityAnalytics.death_rate_in_successful = surgeryOutcomes.successful > 0 ? (successSurgeryDeaths / surgeryOutcomes.successful) * 100 : 0;
+  mortalityAnalytics.death_rate_in_failed_interval = wilsonInterval(failedSurgeryDeaths, surgeryOutcomes.failed);
+  mortalityAnalytics.death_rate_in_successful_interval = wilsonInterval(successSurgeryDeaths, surgeryOutcomes.successful);
 
   // FIXED: Enhanced comorbidity extraction with multiple sources
   const comorbidityCounts: Record<string, number> = {};
@@ -473,7 +974,8 @@ function generateEnhancedPatientAnalytics(patientSummaries: any[], stats: any, m
     });
   }
 
-  // Calculate high-risk comorbidities (those with higher mortality rates)
+  // Crude >20% cut-off kept for the chart; comorbidity_associations carries the interval and
+  // test so the dashboard can show whether that label is actually supported by the data
   const highRiskComorbidities: Record<string, number> = {};
   Object.keys(comorbidityCounts).forEach(comorbidity => {
     const patientsWithComorbidity = patientSummaries.filter(p =>
@@ -527,7 +1029,10 @@ function generateEnhancedPatientAnalytics(patientSummaries: any[], stats: any, m
     most_effective_columns: columnCounts,
     surgery_outcomes: surgeryOutcomes,
     mortality_analytics: mortalityAnalytics,
-    failure_causes: extractFailureCauses(patientSummaries)
+    failure_causes: extractFailureCauses(patientSummaries),
+    comorbidity_associations: generateComorbidityAssociations(patientSummaries, Object.keys(comorbidityCounts)),
+    verification: generateVerificationBreakdown(patientSummaries),
+    comorbidity_indices: generateIndexAnalytics(patientSummaries)
   };
 
   console.log(`--- [API] Enhanced analytics generated: ${analytics.total_patients} patients, ${Object.keys(analytics.most_common_comorbidities).length} unique comorbidities, Surgery: ${analytics.surgery_outcomes.successful}S/${analytics.surgery_outcomes.failed}F/${analytics.surgery_outcomes.unknown}U, Mortality: ${analytics.mortality_analytics.deceased_patients}/${analytics.mortality_analytics.alive_patients} ---`);
@@ -535,99 +1040,622 @@ function generateEnhancedPatientAnalytics(patientSummaries: any[], stats: any, m
   return analytics;
 }
 
-// CRITICAL FIX 6: Enhanced dashboard stats transformation
-async function handleDashboardStats(req: NextApiRequest, res: NextApiResponse) {
-  if (req.method !== 'GET') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  try {
-    console.log(`--- [API] Fetching dashboard stats from backend ---`);
-    const response = await fetch(`${BACKEND_API_URL}/dashboard-stats`);
+// Mortality and surgical failure in patients with vs without each comorbidity
+function generateComorbidityAssociations(patientSummaries: any[], comorbidities: string[]) {
+  const knownOutcome = patientSummaries.filter(p => p.surgery_outcome === 'success' || p.surgery_outcome === 'failure');
+  const totalDeaths = patientSummaries.filter(p => p.mortality_status === 'deceased').length;
+  const totalFailures = knownOutcome.filter(p => p.surgery_outcome === 'failure').length;
 
-    if (!response.ok) {
-      console.error(`Backend dashboard stats error: ${response.status}`);
-      throw new Error(`Backend responded with status: ${response.status}`);
-    }
+  return comorbidities.map(comorbidity => {
+    const hasComorbidity = (p: any) => p.primary_concerns && p.primary_concerns.includes(comorbidity);
+    const exposed = patientSummaries.filter(hasComorbidity);
+    const exposedDeaths = exposed.filter(p => p.mortality_status === 'deceased').length;
+    const exposedKnown = knownOutcome.filter(hasComorbidity);
+    const exposedFailures = exposedKnown.filter(p => p.surgery_outcome === 'failure').length;
 
-    const data = await response.json();
-    console.log(`--- [API] Backend dashboard data keys: ${Object.keys(data || {})} ---`);
+    return {
+      comorbidity,
+      patients: exposed.length,
+      mortality: wilsonInterval(exposedDeaths, exposed.length),
+      mortality_association: associationTest(exposedDeaths, exposed.length, totalDeaths - exposedDeaths, patientSummaries.length - exposed.length),
+      failure: wilsonInterval(exposedFailures, exposedKnown.length),
+      failure_association: associationTest(exposedFailures, exposedKnown.length, totalFailures - exposedFailures, knownOutcome.length - exposedKnown.length)
+    };
+  }).sort((a, b) => b.patients - a.patients);
+}
 
-    // FIXED: Transform dashboard stats with proper structure
-    const transformedData = transformDashboardStatsForFrontend(data);
+// Throws rather than returning an empty list, for callers that would read an outage as "all deleted"
+async function loadComorbidityDefinitions(code: string): Promise<any[]> {
+  const response = await fetch(`${BACKEND_API_URL}/comorbidities/${encodeURIComponent(code)}`);
+  if (!response.ok) {
+    throw new Error(`Backend responded with status: ${response.status}`);
+  }
+  const data = await response.json();
+  if (!Array.isArray(data)) {
+    throw new Error('Backend returned comorbidity definitions in an unexpected format');
+  }
+  return data;
+}
 
-    res.status(200).json(transformedData);
+async function fetchComorbidityDefinitions(code: string): Promise<any[]> {
+  try {
+    return await loadComorbidityDefinitions(code);
   } catch (error) {
-    console.error('Error fetching dashboard stats:', error);
-    res.status(500).json({ error: 'Failed to fetch dashboard stats' });
+    console.warn(`--- [API] Could not load comorbidity definitions for ${code}:`, error);
+    return [];
   }
 }
 
-function transformDashboardStatsForFrontend(backendData: any) {
-  try {
-    console.log(`--- [API] Transforming dashboard stats ---`);
+// Score each patient's (adjudicated) concerns on the Charlson and Elixhauser indices,
+// using the categories mapped onto the comorbidity definitions
+function applyComorbidityIndices(patientSummaries: any[], definitions: any[]) {
+  const categoriesByName: Record<IndexName, Record<string, string>> = { charlson: {}, elixhauser: {} };
+  definitions.forEach(definition => {
+    const name = String(definition.name || '').trim().toLowerCase();
+    if (!name) return;
+    if (definition.charlson_category) categoriesByName.charlson[name] = definition.charlson_category;
+    if (definition.elixhauser_category) categoriesByName.elixhauser[name] = definition.elixhauser_category;
+  });
 
-    // Ensure all expected fields exist with defaults
-    const transformedData = {
-      overall: {
-        total_jobs: backendData.overall?.total_jobs || 0,
-        total_rows: backendData.overall?.total_rows || 0,
-        total_matches: backendData.overall?.total_matches || 0,
-        avg_processing_time: backendData.overall?.avg_processing_time || 0
-      },
-      recent_jobs: (backendData.recent_jobs || []).map((job: any) => ({
-        job_id: job.job_id,
-        procedure_code: job.procedure_code || 'Unknown',
-        processing_time: job.processing_time || 0,
-        rows_processed: job.rows_processed || 0,
-        comorbidities_checked: job.comorbidities_checked || 0,
-        matches_found: job.matches_found || 0,
-        successful_surgeries: job.successful_surgeries || 0,
-        failed_surgeries: job.failed_surgeries || 0,
-        processed_at: job.processed_at,
-        file_name: job.file_name || 'Unknown'
-      }))
-    };
+  (['charlson', 'elixhauser'] as IndexName[]).forEach(index => {
+    if (Object.keys(categoriesByName[index]).length === 0) return;
 
-    // FIXED: Enhanced stats with proper filtering and structure
-    if (backendData.enhanced) {
-      const enhanced: any = {
-        patient_analytics: backendData.enhanced.patient_analytics || {},
-        surgery_analytics: backendData.enhanced.surgery_analytics || {
-          total_successful_surgeries: 0,
-          total_failed_surgeries: 0,
-          overall_success_rate: 0,
-          avg_success_rate: 0
-        },
-        top_comorbidities: {},
-        top_failure_causes: {},
-        column_effectiveness: backendData.enhanced.column_effectiveness || []
+    patientSummaries.forEach(patient => {
+      const categoryIds = (patient.primary_concerns || [])
+        .map((concern: any) => categoriesByName[index][String(typeof concern === 'string' ? concern : concern?.comorbidity || '').trim().toLowerCase()])
+        .filter(Boolean);
+      const { score, categories } = scoreIndex(index, categoryIds);
+      patient[`${index}_index`] = { score, categories, stratum: stratumFor(index, score) };
+    });
+  });
+}
+
+// Cohort distribution of each index score, with mortality by stratum
+function generateIndexAnalytics(patientSummaries: any[]) {
+  const indexAnalytics: Record<string, any> = {};
+
+  (['charlson', 'elixhauser'] as IndexName[]).forEach(index => {
+    const scored = patientSummaries.filter(patient => patient[`${index}_index`]);
+    if (scored.length === 0) return;
+
+    const scores = scored.map(patient => patient[`${index}_index`].score).sort((a: number, b: number) => a - b);
+    const middle = Math.floor(scores.length / 2);
+    const distribution: Record<string, number> = {};
+    scores.forEach((score: number) => {
+      distribution[score] = (distribution[score] || 0) + 1;
+    });
+
+    const strata = INDEX_STRATA[index].map(stratum => {
+      const patients = scored.filter(patient => patient[`${index}_index`].stratum === stratum.label);
+      const deceased = patients.filter(patient => patient.mortality_status === 'deceased').length;
+      const failed = patients.filter(patient => patient.surgery_outcome === 'failure').length;
+      return {
+        stratum: stratum.label,
+        patients: patients.length,
+        deceased,
+        failed_surgeries: failed,
+        mortality_rate: patients.length > 0 ? (deceased / patients.length) * 100 : 0,
+        failure_rate: patients.length > 0 ? (failed / patients.length) * 100 : 0,
+        mortality_rate_interval: wilsonInterval(deceased, patients.length),
+        failure_rate_interval: wilsonInterval(failed, patients.length)
       };
+    });
 
-      // FIXED: Filter and clean comorbidities data
-      if (backendData.enhanced.top_comorbidities) {
-        Object.entries(backendData.enhanced.top_comorbidities).forEach(([key, value]: [string, any]) => {
-          if (key && key.trim() && value > 0) {
-            enhanced.top_comorbidities[key] = value;
-          }
-        });
-      }
+    indexAnalytics[index] = {
+      scored_patients: scored.length,
+      mean: scores.reduce((sum: number, score: number) => sum + score, 0) / scores.length,
+      median: scores.length % 2 === 0 ? (scores[middle - 1] + scores[middle]) / 2 : scores[middle],
+      max: scores[scores.length - 1],
+      distribution,
+      strata
+    };
+  });
 
-      // FIXED: Filter and clean failure causes data
-      if (backendData.enhanced.top_failure_causes) {
-        Object.entries(backendData.enhanced.top_failure_causes).forEach(([key, value]: [string, any]) => {
-          if (key && key.trim() && value > 0 && key !== 'null' && key !== 'undefined') {
-            enhanced.top_failure_causes[key] = value;
-          }
-        });
-      }
+  return indexAnalytics;
+}
 
-      (transformedData as any).enhanced = enhanced;
+// Fetch and fully transform a job's enhanced results (adjudications and index scores applied);
+// null when the backend no longer has the job. Definitions are cached per procedure code.
+async function fetchTransformedJobResults(jobId: string, definitionsCache: Map<string, any[]> = new Map()) {
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/job-results/${jobId}?format=enhanced`);
+    if (!response.ok) {
+      throw new Error(`Backend responded with status: ${response.status}`);
     }
+    const data = await response.json();
 
-    console.log(`--- [API] Dashboard transformation complete. Jobs: ${transformedData.recent_jobs.length}, Comorbidities: ${Object.keys((transformedData as any).enhanced?.top_comorbidities || {}).length}, Failure causes: ${Object.keys((transformedData as any).enhanced?.top_failure_causes || {}).length} ---`);
+    const procedureCode = data.stats?.procedure_code || data.procedure_code || data.icmp_code;
+    const pin = await loadJobDefinitionPin(jobId).catch(() => null);
+    if (!pin && procedureCode && !definitionsCache.has(procedureCode)) {
+      definitionsCache.set(procedureCode, await fetchComorbidityDefinitions(procedureCode));
+    }
 
-    return transformedData;
+    const adjudications = await fetchAdjudications(jobId);
+    const definitions = pin ? pinnedDefinitionRecords(pin) : procedureCode ? definitionsCache.get(procedureCode) : [];
+    return { ...transformJobResultsForFrontend(data, 'enhanced', adjudications, definitions), definition_pin: pin };
+  } catch (error) {
+    console.warn(`--- [API] Could not load results for job ${jobId}:`, error);
+    return null;
+  }
+}
+
+// Split every analytics count into clinician-verified and AI-only patients
+function generateVerificationBreakdown(patientSummaries: any[]) {
+  const tally = (bucket: Record<string, { verified: number; ai_only: number }>, key: string, verified: boolean) => {
+    if (!key) return;
+    bucket[key] = bucket[key] || { verified: 0, ai_only: 0 };
+    bucket[key][verified ? 'verified' : 'ai_only']++;
+  };
+
+  const breakdown = {
+    surgery_outcomes: {} as Record<string, { verified: number; ai_only: number }>,
+    mortality_status: {} as Record<string, { verified: number; ai_only: number }>,
+    comorbidities: {} as Record<string, { verified: number; ai_only: number }>,
+    failure_causes: {} as Record<string, { verified: number; ai_only: number }>,
+    mortality_causes: {} as Record<string, { verified: number; ai_only: number }>,
+    reviewed_patients: 0
+  };
+
+  patientSummaries.forEach(patient => {
+    const verification = patient.verification || { surgery_outcome: false, mortality_status: false, comorbidities: [] };
+    const outcome = patient.surgery_outcome || 'unknown';
+    const mortality = patient.mortality_status || 'alive';
+
+    tally(breakdown.surgery_outcomes, outcome, verification.surgery_outcome);
+    tally(breakdown.mortality_status, mortality, verification.mortality_status);
+    (patient.primary_concerns || []).forEach((concern: any) => {
+      const name = typeof concern === 'string' ? concern.trim() : concern?.comorbidity;
+      tally(breakdown.comorbidities, name, verification.comorbidities.includes(name));
+    });
+    if (outcome === 'failure') {
+      (patient.failure_causes || []).forEach((cause: string) => tally(breakdown.failure_causes, cause?.trim(), verification.surgery_outcome));
+    }
+    if (mortality === 'deceased') {
+      (patient.mortality_causes || []).forEach((cause: string) => tally(breakdown.mortality_causes, cause?.trim(), verification.mortality_status));
+    }
+    if (verification.surgery_outcome || verification.mortality_status || verification.comorbidities.length > 0) {
+      breakdown.reviewed_patients++;
+    }
+  });
+
+  return breakdown;
+}
+
+async function fetchAdjudications(jobId: string): Promise<any[]> {
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/adjudications/${encodeURIComponent(jobId)}`);
+    if (!response.ok) {
+      throw new Error(`Backend responded with status: ${response.status}`);
+    }
+    const data = await response.json();
+    return Array.isArray(data) ? data : data.adjudications || [];
+  } catch (error) {
+    // Results are still usable without review decisions; they just all count as AI-only
+    console.warn(`--- [API] Could not load adjudications for job ${jobId}:`, error);
+    return [];
+  }
+}
+
+const ADJUDICATION_TARGETS = ['match', 'surgery_outcome', 'mortality_status'];
+const ADJUDICATION_DECISIONS = ['confirmed', 'rejected', 'corrected'];
+// Values an outcome correction may set; a corrected match names the comorbidity instead
+const CORRECTED_VALUES: Record<string, string[]> = {
+  surgery_outcome: ['success', 'failure', 'unknown'],
+  mortality_status: ['alive', 'deceased']
+};
+
+async function handleAdjudications(req: NextApiRequest, res: NextApiResponse, jobId: string, user: SessionUser) {
+  if (!jobId) {
+    return res.status(400).json({ error: 'Invalid job ID' });
+  }
+
+  try {
+    const backendUrl = `${BACKEND_API_URL}/adjudications/${encodeURIComponent(jobId)}`;
+
+    if (req.method === 'GET') {
+      return res.status(200).json(await fetchAdjudications(jobId));
+
+    } else if (req.method === 'POST') {
+      const body = await getParsedBody(req);
+
+      if (!body || !ADJUDICATION_TARGETS.includes(body.target_type) || !body.target_id) {
+        return res.status(400).json({ error: 'A valid target_type and target_id are required' });
+      }
+      if (!ADJUDICATION_DECISIONS.includes(body.decision)) {
+        return res.status(400).json({ error: `Decision must be one of: ${ADJUDICATION_DECISIONS.join(', ')}` });
+      }
+      const correctedValue = typeof body.corrected_value === 'string' ? body.corrected_value.trim() : '';
+      if (body.decision === 'corrected') {
+        const allowed = CORRECTED_VALUES[body.target_type];
+        if (allowed && !allowed.includes(correctedValue)) {
+          return res.status(400).json({ error: `The corrected value must be one of: ${allowed.join(', ')}` });
+        }
+        if (!correctedValue) {
+          return res.status(400).json({ error: 'A corrected comorbidity name is required' });
+        }
+      }
+      if (body.decision !== 'confirmed' && (typeof body.note !== 'string' || !body.note.trim())) {
+        return res.status(400).json({ error: 'A reviewer note is required when rejecting or correcting a finding' });
+      }
+
+      const adjudication = {
+        job_id: jobId,
+        target_type: body.target_type,
+        target_id: String(body.target_id),
+        decision: body.decision,
+        corrected_value: body.decision === 'corrected' ? correctedValue : null,
+        note: typeof body.note === 'string' ? body.note.trim() : '',
+        // The signed-in reviewer, not a name typed into the form
+        reviewer: AUTH_DISABLED ? body.reviewer || null : user.name,
+        decided_at: new Date().toISOString()
+      };
+
+      console.log(`--- [API] Recording ${adjudication.decision} ${adjudication.target_type} decision for job ${jobId} ---`);
+
+      const response = await fetch(backendUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(adjudication)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Backend responded with status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return res.status(200).json(data);
+
+    } else if (req.method === 'DELETE') {
+      const { target_type, target_id } = req.query;
+
+      if (!target_type || !target_id) {
+        return res.status(400).json({ error: 'target_type and target_id are required' });
+      }
+
+      const params = new URLSearchParams({ target_type: String(target_type), target_id: String(target_id) });
+      const response = await fetch(`${backendUrl}?${params.toString()}`, {
+        method: 'DELETE'
+      });
+
+      if (!response.ok) {
+        throw new Error(`Backend responded with status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return res.status(200).json(data);
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error handling adjudications:', error);
+    res.status(500).json({ error: 'Failed to handle adjudication request' });
+  }
+}
+
+// CRITICAL FIX 6: Enhanced dashboard stats transformation
+async function handleDashboardStats(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    console.log(`--- [API] Fetching dashboard stats from backend ---`);
+    const response = await fetch(`${BACKEND_API_URL}/dashboard-stats`);
+
+    if (!response.ok) {
+      console.error(`Backend dashboard stats error: ${response.status}`);
+      throw new Error(`Backend responded with status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    console.log(`--- [API] Backend dashboard data keys: ${Object.keys(data || {})} ---`);
+
+    // FIXED: Transform dashboard stats with proper structure
+    const transformedData = transformDashboardStatsForFrontend(data, await loadJobOwners());
+
+    res.status(200).json(transformedData);
+  } catch (error) {
+    console.error('Error fetching dashboard stats:', error);
+    res.status(500).json({ error: 'Failed to fetch dashboard stats' });
+  }
+}
+
+const RISK_COVARIATES: RiskCovariate[] = ['comorbidities', 'age', 'charlson', 'elixhauser', 'comorbidity_count'];
+
+// Fit a mortality risk model across historical jobs and report observed/expected ratios
+async function handleRiskAdjustment(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { covariates, procedure_code, limit } = req.query;
+  const requested = String(covariates || 'comorbidities,age').split(',').map(value => value.trim()).filter(Boolean);
+  const unknown = requested.filter(value => !RISK_COVARIATES.includes(value as RiskCovariate));
+  if (unknown.length > 0 || requested.length === 0) {
+    return res.status(400).json({ error: `covariates must be drawn from: ${RISK_COVARIATES.join(', ')}` });
+  }
+
+  const jobLimit = limit ? Number(limit) : 50;
+  if (!Number.isInteger(jobLimit) || jobLimit < 1 || jobLimit > 200) {
+    return res.status(400).json({ error: 'limit must be a whole number between 1 and 200' });
+  }
+
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/dashboard-stats`);
+    if (!response.ok) {
+      throw new Error(`Backend responded with status: ${response.status}`);
+    }
+    const stats = await response.json();
+
+    const candidates = (stats.recent_jobs || [])
+      .filter((job: any) => !procedure_code || job.procedure_code === procedure_code)
+      .slice(0, jobLimit);
+
+    console.log(`--- [API] Fitting risk model over ${candidates.length} jobs with covariates: ${requested.join(', ')} ---`);
+
+    const definitionsCache = new Map<string, any[]>();
+    const jobs: RiskJob[] = [];
+    // Sequential on purpose: the backend serves results one job at a time
+    for (const job of candidates) {
+      const results = await fetchTransformedJobResults(job.job_id, definitionsCache);
+      if (results?.patient_summaries?.length) {
+        jobs.push({
+          job_id: job.job_id,
+          procedure_code: job.procedure_code || results.stats?.procedure_code,
+          processed_at: job.processed_at,
+          patient_summaries: results.patient_summaries
+        });
+      }
+    }
+
+    const report = buildRiskAdjustmentReport(jobs, requested as RiskCovariate[]);
+    if (jobs.length < candidates.length) {
+      report.warnings.push(`${candidates.length - jobs.length} jobs had no patient-level results and were skipped.`);
+    }
+
+    res.status(200).json(report);
+  } catch (error) {
+    console.error('Error building risk adjustment:', error);
+    res.status(500).json({ error: 'Failed to build risk-adjusted mortality report' });
+  }
+}
+
+// Outcome rates pooled over other jobs for the same procedure, the default target for a job's control charts
+async function handleControlBenchmarks(req: NextApiRequest, res: NextApiResponse, jobId: string) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (!jobId) {
+    return res.status(400).json({ error: 'Invalid job ID' });
+  }
+
+  const { limit } = req.query;
+  const jobLimit = limit ? Number(limit) : 50;
+  if (!Number.isInteger(jobLimit) || jobLimit < 1 || jobLimit > 200) {
+    return res.status(400).json({ error: 'limit must be a whole number between 1 and 200' });
+  }
+
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/dashboard-stats`);
+    if (!response.ok) {
+      throw new Error(`Backend responded with status: ${response.status}`);
+    }
+    const stats = await response.json();
+    const recentJobs: any[] = stats.recent_jobs || [];
+    const procedureCode: string | null = recentJobs.find(job => job.job_id === jobId)?.procedure_code || null;
+
+    const benchmarks: ControlBenchmarks = { procedure_code: procedureCode, surgery: null, mortality: null, warnings: [] };
+    if (!procedureCode) {
+      benchmarks.warnings.push('The job is not among the recent jobs, so its procedure code and benchmark are unknown.');
+      return res.status(200).json(benchmarks);
+    }
+
+    const candidates = recentJobs
+      .filter(job => job.job_id !== jobId && job.procedure_code === procedureCode)
+      .slice(0, jobLimit);
+
+    console.log(`--- [API] Pooling control chart benchmarks for ${procedureCode} over ${candidates.length} jobs ---`);
+
+    const definitionsCache = new Map<string, any[]>();
+    const jobs: Array<{ patient_summaries: any[] }> = [];
+    // Sequential on purpose: the backend serves results one job at a time
+    for (const job of candidates) {
+      const results = await fetchTransformedJobResults(job.job_id, definitionsCache);
+      if (results?.patient_summaries?.length) {
+        jobs.push({ patient_summaries: results.patient_summaries });
+      }
+    }
+
+    benchmarks.surgery = pooledBenchmark(jobs, CONTROL_OUTCOMES.surgery);
+    benchmarks.mortality = pooledBenchmark(jobs, CONTROL_OUTCOMES.mortality);
+    if (jobs.length < candidates.length) {
+      benchmarks.warnings.push(`${candidates.length - jobs.length} jobs had no patient-level results and were skipped.`);
+    }
+
+    res.status(200).json(benchmarks);
+  } catch (error) {
+    console.error('Error building control chart benchmarks:', error);
+    res.status(500).json({ error: 'Failed to build control chart benchmarks' });
+  }
+}
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+// Aggregate historical jobs into monthly or quarterly outcome and prevalence trends
+async function handleTrends(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { procedure_code, granularity, basis, window, from, to, limit } = req.query;
+  const periodType = String(granularity || 'month');
+  if (periodType !== 'month' && periodType !== 'quarter') {
+    return res.status(400).json({ error: 'granularity must be month or quarter' });
+  }
+
+  const dateBasis = String(basis || 'processed_at');
+  if (dateBasis !== 'processed_at' && dateBasis !== 'procedure_date') {
+    return res.status(400).json({ error: 'basis must be processed_at or procedure_date' });
+  }
+
+  const rollingWindow = window ? Number(window) : 3;
+  if (!Number.isInteger(rollingWindow) || rollingWindow < 1 || rollingWindow > 12) {
+    return res.status(400).json({ error: 'window must be a whole number of periods between 1 and 12' });
+  }
+
+  if ((from && !DATE_PARAM.test(String(from))) || (to && !DATE_PARAM.test(String(to)))) {
+    return res.status(400).json({ error: 'from and to must be dates in YYYY-MM-DD format' });
+  }
+  const fromDate = from ? new Date(`${from}T00:00:00.000Z`) : null;
+  const toDate = to ? new Date(`${to}T23:59:59.999Z`) : null;
+  if (fromDate && toDate && fromDate > toDate) {
+    return res.status(400).json({ error: 'from must not be after to' });
+  }
+
+  const jobLimit = limit ? Number(limit) : 100;
+  if (!Number.isInteger(jobLimit) || jobLimit < 1 || jobLimit > 200) {
+    return res.status(400).json({ error: 'limit must be a whole number between 1 and 200' });
+  }
+
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/dashboard-stats`);
+    if (!response.ok) {
+      throw new Error(`Backend responded with status: ${response.status}`);
+    }
+    const stats = await response.json();
+    const recentJobs: any[] = stats.recent_jobs || [];
+
+    // Patients can fall in range by procedure date even when their job ran later, so only
+    // the processed_at basis can drop jobs before fetching their results
+    const matching = recentJobs
+      .filter(job => !procedure_code || job.procedure_code === procedure_code)
+      .filter(job => {
+        if (dateBasis !== 'processed_at') return true;
+        const processedAt = new Date(job.processed_at);
+        return Number.isNaN(processedAt.getTime()) ||
+          ((!fromDate || processedAt >= fromDate) && (!toDate || processedAt <= toDate));
+      });
+    const candidates = matching.slice(0, jobLimit);
+
+    console.log(`--- [API] Building ${periodType} trends over ${candidates.length} jobs (${dateBasis}) ---`);
+
+    const definitionsCache = new Map<string, any[]>();
+    const jobs: TrendJob[] = [];
+    let skipped = 0;
+    // Sequential on purpose: the backend serves results one job at a time
+    for (const job of candidates) {
+      const results = await fetchTransformedJobResults(job.job_id, definitionsCache);
+      if (!results?.patient_summaries) skipped++;
+      jobs.push({
+        job_id: job.job_id,
+        processed_at: job.processed_at,
+        rows_processed: job.rows_processed || 0,
+        matches_found: job.matches_found || 0,
+        patient_summaries: results?.patient_summaries || []
+      });
+    }
+
+    const report = buildTrendReport(jobs, {
+      granularity: periodType as TrendGranularity,
+      basis: dateBasis as TrendDateBasis,
+      rolling_window: rollingWindow,
+      from: fromDate,
+      to: toDate
+    });
+
+    const totalJobs = stats.overall?.total_jobs || 0;
+    if (totalJobs > recentJobs.length) {
+      report.warnings.push(`The backend returned ${recentJobs.length} of ${totalJobs} jobs; older jobs are not included in these trends.`);
+    }
+    if (matching.length > jobLimit) {
+      report.warnings.push(`Only the ${jobLimit} most recent matching jobs were included.`);
+    }
+    if (skipped > 0) {
+      report.warnings.push(`${skipped} jobs had no patient-level results and count towards volume only.`);
+    }
+
+    res.status(200).json({
+      ...report,
+      procedure_code: procedure_code ? String(procedure_code) : null,
+      procedure_codes: Array.from(new Set(recentJobs.map(job => job.procedure_code).filter(Boolean))).sort()
+    });
+  } catch (error) {
+    console.error('Error building trends:', error);
+    res.status(500).json({ error: 'Failed to build trend analytics' });
+  }
+}
+
+function transformDashboardStatsForFrontend(backendData: any, owners: Map<string, JobOwner>) {
+  try {
+    console.log(`--- [API] Transforming dashboard stats ---`);
+
+    // Ensure all expected fields exist with defaults
+    const transformedData = {
+      overall: {
+        total_jobs: backendData.overall?.total_jobs || 0,
+        total_rows: backendData.overall?.total_rows || 0,
+        total_matches: backendData.overall?.total_matches || 0,
+        avg_processing_time: backendData.overall?.avg_processing_time || 0
+      },
+      recent_jobs: (backendData.recent_jobs || []).map((job: any) => ({
+        job_id: job.job_id,
+        procedure_code: job.procedure_code || 'Unknown',
+        processing_time: job.processing_time || 0,
+        rows_processed: job.rows_processed || 0,
+        comorbidities_checked: job.comorbidities_checked || 0,
+        matches_found: job.matches_found || 0,
+        successful_surgeries: job.successful_surgeries || 0,
+        failed_surgeries: job.failed_surgeries || 0,
+        processed_at: job.processed_at,
+        file_name: job.file_name || 'Unknown',
+        // The locally recorded owner wins; the backend's copy covers jobs submitted elsewhere
+        owner_id: owners.get(String(job.job_id))?.owner_id ?? job.owner_id ?? null,
+        owner_name: owners.get(String(job.job_id))?.owner_name ?? job.owner_name ?? null
+      }))
+    };
+
+    // FIXED: Enhanced stats with proper filtering and structure
+    if (backendData.enhanced) {
+      const enhanced: any = {
+        patient_analytics: backendData.enhanced.patient_analytics || {},
+        surgery_analytics: backendData.enhanced.surgery_analytics || {
+          total_successful_surgeries: 0,
+          total_failed_surgeries: 0,
+          overall_success_rate: 0,
+          avg_success_rate: 0
+        },
+        top_comorbidities: {},
+        top_failure_causes: {},
+        column_effectiveness: backendData.enhanced.column_effectiveness || []
+      };
+
+      // FIXED: Filter and clean comorbidities data
+      if (backendData.enhanced.top_comorbidities) {
+        Object.entries(backendData.enhanced.top_comorbidities).forEach(([key, value]: [string, any]) => {
+          if (key && key.trim() && value > 0) {
+            enhanced.top_comorbidities[key] = value;
+          }
+        });
+      }
+
+      // FIXED: Filter and clean failure causes data
+      if (backendData.enhanced.top_failure_causes) {
+        Object.entries(backendData.enhanced.top_failure_causes).forEach(([key, value]: [string, any]) => {
+          if (key && key.trim() && value > 0 && key !== 'null' && key !== 'undefined') {
+            enhanced.top_failure_causes[key] = value;
+          }
+        });
+      }
+
+      (transformedData as any).enhanced = enhanced;
+    }
+
+    console.log(`--- [API] Dashboard transformation complete. Jobs: ${transformedData.recent_jobs.length}, Comorbidities: ${Object.keys((transformedData as any).enhanced?.top_comorbidities || {}).length}, Failure causes: ${Object.keys((transformedData as any).enhanced?.top_failure_causes || {}).length} ---`);
+
+    return transformedData;
   } catch (error) {
     console.error('Error transforming dashboard stats:', error);
     return backendData; // Return original data if transformation fails
@@ -635,7 +1663,7 @@ function transformDashboardStatsForFrontend(backendData: any) {
 }
 
 // File upload and other handlers
-async function handleGenericFileUpload(req: NextApiRequest, res: NextApiResponse, path: string) {
+async function handleGenericFileUpload(req: NextApiRequest, res: NextApiResponse, path: string, user: SessionUser) {
   console.log(`--- [API] Handling generic file upload for: ${path} ---`);
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
@@ -662,6 +1690,11 @@ async function handleGenericFileUpload(req: NextApiRequest, res: NextApiResponse
     const backendUrl = `${BACKEND_API_URL}/${path}`;
     console.log(`--- [API] Forwarding upload to: ${backendUrl} ---`);
 
+    const versioned = path === 'upload/comorbidities' ? await versionedCodes().catch(() => [] as string[]) : [];
+    for (const code of versioned) {
+      await catchUpDefinitionVersions(code);
+    }
+
     const response = await fetch(backendUrl, {
       method: 'POST',
       body: formData
@@ -675,6 +1708,15 @@ async function handleGenericFileUpload(req: NextApiRequest, res: NextApiResponse
       return res.status(response.status).json(responseJson);
     }
     fs.unlinkSync(file.filepath);
+
+    if (path === 'upload/comorbidities') {
+      // The file replaces definitions wholesale; record what it changed for every code, which gives
+      // codes uploaded for the first time their baseline version
+      const codes = Array.from(new Set([...versioned, ...await backendProcedureCodes()]));
+      for (const code of codes) {
+        await refreshDefinitionVersions(code, user, 'upload');
+      }
+    }
     res.status(200).json(responseJson);
   } catch (error) {
     console.error(`--- ❌ CRITICAL ERROR in handleGenericFileUpload for ${path} ❌ ---`, error);
@@ -682,6 +1724,20 @@ async function handleGenericFileUpload(req: NextApiRequest, res: NextApiResponse
   }
 }
 
+async function backendProcedureCodes(): Promise<string[]> {
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/icmp-codes`);
+    if (!response.ok) {
+      throw new Error(`Backend responded with status: ${response.status}`);
+    }
+    const data = await response.json();
+    return (Array.isArray(data) ? data : []).map((entry: any) => String(entry.code)).filter(Boolean);
+  } catch (error) {
+    console.error('--- [API] Could not list procedure codes:', error);
+    return [];
+  }
+}
+
 async function handleDeleteJobRequest(req: NextApiRequest, res: NextApiResponse, path: string) {
   if (req.method !== 'DELETE') {
     return res.status(405).json({ error: 'Method not allowed' });
@@ -759,6 +1815,28 @@ async function handleAnalyzeFileStructure(req: NextApiRequest, res: NextApiRespo
     const data = await response.json();
     console.log('--- [API] 7. Successfully received and parsed JSON from backend. ---');
 
+    // The backend analyses a workbook's first sheet only; every sheet is analysed here so each can be configured
+    if (!Array.isArray(data.sheets) && /\.xlsx?$/i.test(file.originalFilename || '')) {
+      try {
+        const { sheets } = previewWorkbook(file.originalFilename || 'upload.xlsx', fileContent, { parseRows: 0 });
+        if (sheets.length > 1) {
+          data.sheets = sheets.map((sheet, index) => index === 0
+            ? {
+              ...sheet,
+              columns: data.columns,
+              detectedHeaderRow: data.detectedHeaderRow,
+              totalRows: data.totalRows,
+              sampleData: data.sampleData,
+              sampleDataByColumn: data.sampleDataByColumn,
+              columnAnalysis: data.columnAnalysis
+            }
+            : sheet);
+        }
+      } catch (sheetError) {
+        console.warn('--- [API] Could not analyse workbook sheets:', sheetError);
+      }
+    }
+
     fs.unlinkSync(file.filepath);
     res.status(200).json(data);
 
@@ -775,7 +1853,22 @@ async function handleAnalyzeFileStructure(req: NextApiRequest, res: NextApiRespo
   }
 }
 
-async function handleProcessFileEnhanced(req: NextApiRequest, res: NextApiResponse) {
+async function handlePseudonymKey(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Without one shared secret, different browsers would give different patients the same pseudonym
+  if (!PSEUDONYM_SECRET) {
+    console.error('--- [API] PSEUDONYM_SECRET is not set; uploads cannot be de-identified ---');
+    return res.status(503).json({ error: 'Pseudonymisation is not configured on this server (PSEUDONYM_SECRET)' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).json({ secret: PSEUDONYM_SECRET });
+}
+
+async function handlePreviewLinkage(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -787,23 +1880,181 @@ async function handleProcessFileEnhanced(req: NextApiRequest, res: NextApiRespon
     });
 
     const [fields, files] = await form.parse(req);
-    const file = Array.isArray(files.file) ? files.file[0] : files.file;
+    const uploadedFiles = Array.isArray(files.file) ? files.file : files.file ? [files.file] : [];
+    const linkSpec = Array.isArray(fields.patient_linkage) ? fields.patient_linkage[0] : fields.patient_linkage;
 
-    if (!file) {
+    if (uploadedFiles.length < 2) {
+      return res.status(400).json({ error: 'At least two files are required to preview a linkage' });
+    }
+    if (!linkSpec) {
+      return res.status(400).json({ error: 'No linkage specification provided' });
+    }
+
+    const formData = new FormData();
+    uploadedFiles.forEach(file => {
+      const blob = new Blob([fs.readFileSync(file.filepath)]);
+      formData.append('file', blob, file.originalFilename || 'upload.xlsx');
+    });
+    formData.append('patient_linkage', linkSpec);
+
+    const response = await fetch(`${BACKEND_API_URL}/preview-linkage`, {
+      method: 'POST',
+      body: formData
+    });
+
+    uploadedFiles.forEach(file => fs.unlinkSync(file.filepath));
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Backend linkage preview error:', errorText);
+      throw new Error(`Backend responded with status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    res.status(200).json(data);
+  } catch (error) {
+    console.error('Error previewing patient linkage:', error);
+    res.status(500).json({ error: 'Failed to preview patient linkage' });
+  }
+}
+
+// Score a finished job against an uploaded gold-standard sheet of known comorbidities per patient
+async function handleValidateJob(req: NextApiRequest, res: NextApiResponse, jobId: string) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!jobId) {
+    return res.status(400).json({ error: 'Invalid job ID' });
+  }
+
+  try {
+    // The browser reads the reference workbook and posts its rows; uploaded spreadsheets are never
+    // parsed on the server
+    const body = await getParsedBody(req);
+    const rows: Record<string, any>[] = Array.isArray(body?.rows)
+      ? body.rows.filter((row: unknown) => row && typeof row === 'object' && !Array.isArray(row))
+      : [];
+
+    if (rows.length === 0) {
+      return res.status(400).json({ error: 'The reference sheet is empty' });
+    }
+
+    const threshold = body.confidence_threshold !== undefined ? Number(body.confidence_threshold) : 0;
+    if (Number.isNaN(threshold) || threshold < 0 || threshold > 1) {
+      return res.status(400).json({ error: 'confidence_threshold must be between 0 and 1' });
+    }
+
+    const response = await fetch(`${BACKEND_API_URL}/job-results/${jobId}?format=enhanced`);
+    if (!response.ok) {
+      if (response.status === 404) {
+        return res.status(404).json({ error: 'Job results not found in backend' });
+      }
+      throw new Error(`Backend responded with status: ${response.status}`);
+    }
+
+    // Validation scores the raw AI output, so clinician adjudications are deliberately not applied
+    const jobData = transformJobResultsForFrontend(await response.json(), 'enhanced');
+    if (needsLinkage(jobData)) {
+      return res.status(400).json({
+        error: 'This job has several unlinked files, so row numbers do not identify patients. Link patients across the files and run the job again to validate it.'
+      });
+    }
+
+    const patientIdColumn = typeof body.patient_id_column === 'string' ? body.patient_id_column : undefined;
+    const reference = parseReferenceRows(rows, patientIdColumn);
+    const report = evaluateAgainstReference(jobId, jobData, reference, threshold);
+
+    console.log(`--- [API] Validated job ${jobId} against ${reference.patients.size} reference patients (${report.evaluated_patients} matched) ---`);
+    res.status(200).json(report);
+  } catch (error) {
+    console.error('Error validating job:', error);
+    res.status(500).json({ error: 'Failed to validate job against reference sheet' });
+  }
+}
+
+async function handleProcessFileEnhanced(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const form = formidable({
+      maxFileSize: 16 * 1024 * 1024,
+      keepExtensions: true,
+    });
+
+    const [fields, files] = await form.parse(req);
+    // Every uploaded file belongs to the same audit run
+    const uploadedFiles = Array.isArray(files.file) ? files.file : files.file ? [files.file] : [];
+
+    if (uploadedFiles.length === 0) {
       return res.status(400).json({ error: 'No file provided' });
     }
 
     const formData = new FormData();
-    const blob = new Blob([fs.readFileSync(file.filepath)]);
-    formData.append('file', blob, file.originalFilename || 'upload.xlsx');
+    uploadedFiles.forEach(file => {
+      const blob = new Blob([fs.readFileSync(file.filepath)]);
+      formData.append('file', blob, file.originalFilename || 'upload.xlsx');
+    });
 
     const icmpCode = Array.isArray(fields.icmp_code) ? fields.icmp_code[0] : fields.icmp_code;
     const fileMetadata = Array.isArray(fields.file_metadata) ? fields.file_metadata[0] : fields.file_metadata;
+    const filesMetadata = Array.isArray(fields.files_metadata) ? fields.files_metadata[0] : fields.files_metadata;
     const globalSettings = Array.isArray(fields.global_settings) ? fields.global_settings[0] : fields.global_settings;
+    const patientLinkage = Array.isArray(fields.patient_linkage) ? fields.patient_linkage[0] : fields.patient_linkage;
+
+    if (filesMetadata) {
+      const parsedFilesMetadata = safeParseJSONArray(filesMetadata);
+      if (parsedFilesMetadata.length !== uploadedFiles.length) {
+        uploadedFiles.forEach(file => fs.unlinkSync(file.filepath));
+        return res.status(400).json({ error: `Expected metadata for ${uploadedFiles.length} files, received ${parsedFilesMetadata.length}` });
+      }
+      const sheetErrors = parsedFilesMetadata.flatMap((meta: FileMetadata) => sheetConfigurationErrors(meta));
+      if (sheetErrors.length > 0) {
+        uploadedFiles.forEach(file => fs.unlinkSync(file.filepath));
+        return res.status(400).json({ error: `Invalid sheet configuration: ${sheetErrors.join('; ')}` });
+      }
+      // Included sheets per workbook, with the header row, join key and mappings the backend needs to read and join them
+      const sheetConfiguration = parsedFilesMetadata
+        .filter((meta: FileMetadata) => meta.sheets)
+        .map((meta: FileMetadata) => ({
+          file_name: meta.fileName,
+          sheets: includedSheets(meta).map(sheet => ({
+            sheet_name: sheet.sheetName,
+            header_row: sheet.detectedHeaderRow,
+            join_key: sheet.joinKey || null,
+            column_mappings: sheet.columnMappings.map(mapping => ({ ...mapping, sampleData: [] }))
+          }))
+        }));
+      if (sheetConfiguration.length > 0) {
+        formData.append('sheet_configuration', JSON.stringify(sheetConfiguration));
+      }
+      // Manually set header rows, data ranges and ignored columns, by file then sheet ('' for single-table files)
+      const rangeOverrides = Object.fromEntries(
+        parsedFilesMetadata
+          .map((meta: FileMetadata) => [meta.fileName, rangeOverridesByTable(meta)])
+          .filter(([, overrides]) => Object.keys(overrides).length > 0)
+      );
+      if (Object.keys(rangeOverrides).length > 0) {
+        formData.append('range_overrides', JSON.stringify(rangeOverrides));
+      }
+    }
+
+    console.log(`--- [API] Submitting audit with ${uploadedFiles.length} file(s): ${uploadedFiles.map(f => f.originalFilename).join(', ')} ---`);
+
+    // The exact definition versions this job runs with, pinned to it once the backend returns its ID
+    const selectedIds = selectedComorbidityIds(safeParseJSON(globalSettings, {})?.comorbidities);
+    const definitionVersions = icmpCode ? await definitionVersionsForJob(icmpCode, selectedIds) : [];
 
     if (icmpCode) formData.append('icmp_code', icmpCode);
+    if (definitionVersions.length > 0) formData.append('definition_versions', JSON.stringify(definitionVersionsField(definitionVersions)));
     if (fileMetadata) formData.append('file_metadata', fileMetadata);
+    if (filesMetadata) formData.append('files_metadata', filesMetadata);
     if (globalSettings) formData.append('global_settings', globalSettings);
+    if (patientLinkage) formData.append('patient_linkage', patientLinkage);
+    formData.append('owner_id', user.sub);
+    formData.append('owner_name', user.name);
 
     const response = await fetch(`${BACKEND_API_URL}/process-file-enhanced`, {
       method: 'POST',
@@ -817,7 +2068,13 @@ async function handleProcessFileEnhanced(req: NextApiRequest, res: NextApiRespon
     }
 
     const data = await response.json();
-    fs.unlinkSync(file.filepath);
+    uploadedFiles.forEach(file => fs.unlinkSync(file.filepath));
+    if (data.job_id) {
+      await tagJobOwner(String(data.job_id), user);
+    }
+    if (icmpCode && data.job_id) {
+      await pinDefinitionVersions(String(data.job_id), icmpCode, definitionVersions);
+    }
     res.status(200).json(data);
   } catch (error) {
     console.error('Error processing file enhanced:', error);
@@ -825,8 +2082,39 @@ async function handleProcessFileEnhanced(req: NextApiRequest, res: NextApiRespon
   }
 }
 
+const definitionVersionsField = (versions: ComorbidityVersion[]) =>
+  versions.map(version => ({ comorbidity_id: version.comorbidity_id, version: version.version, ...version.definition }));
+
+async function tagJobOwner(jobId: string, user: SessionUser) {
+  try {
+    await recordJobOwner(jobId, user);
+  } catch (error) {
+    console.error(`--- [API] Could not record the owner of job ${jobId}:`, error);
+  }
+}
+
+async function pinDefinitionVersions(jobId: string, code: string, versions: ComorbidityVersion[]) {
+  try {
+    await pinJobDefinitions(jobId, code, versions);
+  } catch (error) {
+    console.error(`--- [API] Could not pin definition versions to job ${jobId}:`, error);
+  }
+}
+
 // Comorbidities management handlers
-async function handleComorbidities(req: NextApiRequest, res: NextApiResponse, code: string) {
+const CLEARABLE_DEFINITION_FIELDS = ['notes', 'charlson_category', 'elixhauser_category'];
+
+function invalidIndexCategory(body: any): string | null {
+  for (const index of ['charlson', 'elixhauser'] as IndexName[]) {
+    const categoryId = body[`${index}_category`];
+    if (categoryId && (typeof categoryId !== 'string' || !isIndexCategory(index, categoryId))) {
+      return `Unknown ${index === 'charlson' ? 'Charlson' : 'Elixhauser'} category: ${categoryId}`;
+    }
+  }
+  return null;
+}
+
+async function handleComorbidities(req: NextApiRequest, res: NextApiResponse, code: string, user: SessionUser) {
   if (!code) {
     return res.status(400).json({ error: 'Invalid ICMP code' });
   }
@@ -863,13 +2151,22 @@ async function handleComorbidities(req: NextApiRequest, res: NextApiResponse, co
         return res.status(400).json({ error: 'Comorbidity name is required' });
       }
 
+      const categoryError = invalidIndexCategory(body);
+      if (categoryError) {
+        return res.status(400).json({ error: categoryError });
+      }
+
       const cleanedData = {
         name: String(body.name).trim(),
         description: String(body.description || '').trim(),
-        keywords: String(body.keywords || '').trim()
+        notes: String(body.notes || '').trim(),
+        keywords: String(body.keywords || '').trim(),
+        charlson_category: body.charlson_category || null,
+        elixhauser_category: body.elixhauser_category || null
       };
 
       console.log('Sending to Flask backend:', cleanedData);
+      await catchUpDefinitionVersions(code);
 
       const response = await fetch(`${BACKEND_API_URL}/comorbidities/${encodeURIComponent(code)}`, {
         method: 'POST',
@@ -895,91 +2192,366 @@ async function handleComorbidities(req: NextApiRequest, res: NextApiResponse, co
         return res.status(response.status).json(errorData);
       }
 
-      const data = await response.json();
-      console.log('Flask success response:', data);
+      const data = await response.json();
+      console.log('Flask success response:', data);
+      await refreshDefinitionVersions(code, user, 'editor');
+
+      return res.status(201).json(data);
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error) {
+    console.error('=== COMORBIDITIES ERROR ===');
+    console.error('Error:', error);
+
+    res.status(500).json({
+      error: 'Failed to handle comorbidities request',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+async function handleIndividualComorbidity(req: NextApiRequest, res: NextApiResponse, code: string, comorbidityId: string, user: SessionUser) {
+  if (!code || !comorbidityId) {
+    return res.status(400).json({ error: 'Invalid ICMP code or comorbidity ID' });
+  }
+
+  try {
+    console.log(`=== INDIVIDUAL COMORBIDITY ===`);
+    console.log(`Code: ${code}, ID: ${comorbidityId}, Method: ${req.method}`);
+
+    if (req.method === 'PUT') {
+      const body = await getParsedBody(req);
+      console.log('Update body:', body);
+
+      if (!body || typeof body !== 'object' || Object.keys(body).length === 0) {
+        return res.status(400).json({ error: 'No update data provided' });
+      }
+
+      const categoryError = invalidIndexCategory(body);
+      if (categoryError) {
+        return res.status(400).json({ error: categoryError });
+      }
+
+      // Blank values are ignored, except for the fields the editor clears by sending null or ''
+      const cleanedData = Object.fromEntries(
+        Object.entries(body)
+          .filter(([key, value]) =>
+            value !== undefined && (CLEARABLE_DEFINITION_FIELDS.includes(key) || (value !== null && value !== ''))
+          )
+          .map(([key, value]) => [key, key.endsWith('_category') ? value || null : value])
+      );
+
+      console.log('Sending update to Flask:', cleanedData);
+      await catchUpDefinitionVersions(code);
+
+      const response = await fetch(`${BACKEND_API_URL}/comorbidities/${encodeURIComponent(code)}/${encodeURIComponent(comorbidityId)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(cleanedData)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Flask update error: ${errorText}`);
+        throw new Error(`Backend responded with status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      await refreshDefinitionVersions(code, user, 'editor');
+      return res.status(200).json(data);
+
+    } else if (req.method === 'DELETE') {
+      console.log('Deleting comorbidity');
+      await catchUpDefinitionVersions(code);
+
+      const response = await fetch(`${BACKEND_API_URL}/comorbidities/${encodeURIComponent(code)}/${encodeURIComponent(comorbidityId)}`, {
+        method: 'DELETE'
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Flask delete error: ${errorText}`);
+        throw new Error(`Backend responded with status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      await refreshDefinitionVersions(code, user, 'editor');
+      return res.status(200).json(data);
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error) {
+    console.error('Error handling individual comorbidity:', error);
+    res.status(500).json({ error: 'Failed to handle comorbidity request' });
+  }
+}
+
+// Version history is kept next to the backend, so failing to record it is logged rather than
+// failing the change itself
+async function recordDefinitionVersions(
+  code: string,
+  definitions: any[],
+  user: SessionUser | null,
+  source: DefinitionChangeSource,
+  restored?: { comorbidity_id: string; from: { comorbidity_id: string; version: number } }
+): Promise<ComorbidityVersion[]> {
+  try {
+    const recorded = await syncDefinitionVersions(code, definitions, { recorded_by: user?.name ?? null, source, restored });
+    if (recorded.length > 0) {
+      console.log(`--- [API] Recorded ${recorded.length} comorbidity definition version(s) for ${code} (${source}) ---`);
+    }
+    return recorded;
+  } catch (error) {
+    console.error(`--- [API] Could not record comorbidity definition versions for ${code}:`, error);
+    return [];
+  }
+}
+
+async function refreshDefinitionVersions(
+  code: string,
+  user: SessionUser | null,
+  source: DefinitionChangeSource,
+  restored?: { comorbidity_id: string; from: { comorbidity_id: string; version: number } }
+): Promise<ComorbidityVersion[]> {
+  try {
+    return await recordDefinitionVersions(code, await loadComorbidityDefinitions(code), user, source, restored);
+  } catch (error) {
+    console.error(`--- [API] Could not load comorbidity definitions for ${code} to version them:`, error);
+    return [];
+  }
+}
+
+// Records changes made directly in the backend since the last recorded version. Nobody in this app
+// made them, so they are recorded without a user. Runs before every change made through the app,
+// so that change is not credited with edits it did not make.
+function catchUpDefinitionVersions(code: string): Promise<ComorbidityVersion[]> {
+  return refreshDefinitionVersions(code, null, 'external');
+}
+
+// IDs of the comorbidities selected for a run, from a list of IDs or the UI's { id, enabled } records.
+// Null when the request does not say, in which case the backend checks every definition.
+function selectedComorbidityIds(comorbidities: unknown): string[] | null {
+  if (!Array.isArray(comorbidities)) return null;
+  return comorbidities
+    .filter(entry => entry != null && (typeof entry !== 'object' || entry.enabled !== false))
+    .map(entry => String(typeof entry === 'object' ? entry.id : entry));
+}
+
+// The definitions a new job will run with: brought up to date, then pinned once the job has an ID
+async function definitionVersionsForJob(code: string, selectedIds: string[] | null): Promise<ComorbidityVersion[]> {
+  await catchUpDefinitionVersions(code);
+  try {
+    const versions = await currentDefinitionVersions(code);
+    return selectedIds ? versions.filter(version => selectedIds.includes(version.comorbidity_id)) : versions;
+  } catch (error) {
+    console.error(`--- [API] Could not read comorbidity definition versions for ${code}:`, error);
+    return [];
+  }
+}
+
+// Definition history per procedure code, an explicit check for changes made outside the app, and
+// restoring a definition to an earlier version
+async function handleComorbidityVersions(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  code: string,
+  comorbidityId: string | undefined,
+  action: string | undefined,
+  user: SessionUser
+) {
+  if (!code) {
+    return res.status(400).json({ error: 'Invalid ICMP code' });
+  }
+
+  try {
+    if (req.method === 'GET' && !comorbidityId) {
+      return res.status(200).json(await readDefinitionVersions(code));
+    }
+
+    if (req.method === 'POST' && comorbidityId === 'sync' && !action) {
+      console.log(`--- [API] Checking ${code} for comorbidity definitions changed outside the app ---`);
+      const recorded = await recordDefinitionVersions(code, await loadComorbidityDefinitions(code), null, 'external');
+      return res.status(200).json({ recorded, versions: await readDefinitionVersions(code) });
+    }
+
+    if (req.method !== 'POST' || !comorbidityId || action !== 'restore') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const body = await getParsedBody(req);
+    const version = Number(body?.version);
+    const target = (await readDefinitionVersions(code))
+      .find(entry => entry.comorbidity_id === comorbidityId && entry.version === version);
+    if (!target) {
+      return res.status(404).json({ error: `Version ${body?.version} of comorbidity ${comorbidityId} not found` });
+    }
+    if (!target.definition) {
+      return res.status(400).json({ error: 'That version records the deletion; restore an earlier version instead' });
+    }
+
+    await catchUpDefinitionVersions(code);
+    // A deleted definition comes back as a new one, since the backend does not reuse IDs
+    const exists = (await loadComorbidityDefinitions(code)).some(definition => String(definition.id) === comorbidityId);
+    const backendUrl = exists
+      ? `${BACKEND_API_URL}/comorbidities/${encodeURIComponent(code)}/${encodeURIComponent(comorbidityId)}`
+      : `${BACKEND_API_URL}/comorbidities/${encodeURIComponent(code)}`;
+    console.log(`--- [API] Restoring comorbidity ${comorbidityId} for ${code} to version ${version} ---`);
 
-      return res.status(201).json(data);
+    const response = await fetch(backendUrl, {
+      method: exists ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(target.definition)
+    });
 
-    } else {
-      return res.status(405).json({ error: 'Method not allowed' });
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Backend restore error: ${errorText}`);
+      throw new Error(`Backend responded with status: ${response.status}`);
     }
 
-  } catch (error) {
-    console.error('=== COMORBIDITIES ERROR ===');
-    console.error('Error:', error);
-
-    res.status(500).json({
-      error: 'Failed to handle comorbidities request',
-      details: error instanceof Error ? error.message : 'Unknown error'
+    const data = await response.json();
+    const restoredId = exists ? comorbidityId : String(data.comorbidity?.id ?? data.id);
+    const versions = await refreshDefinitionVersions(code, user, 'editor', {
+      comorbidity_id: restoredId,
+      from: { comorbidity_id: comorbidityId, version }
     });
+    return res.status(200).json({ comorbidity: { id: restoredId, ...target.definition }, versions });
+  } catch (error) {
+    console.error('Error handling comorbidity versions:', error);
+    res.status(500).json({ error: 'Failed to handle comorbidity versions request' });
   }
 }
 
-async function handleIndividualComorbidity(req: NextApiRequest, res: NextApiResponse, code: string, comorbidityId: string) {
-  if (!code || !comorbidityId) {
-    return res.status(400).json({ error: 'Invalid ICMP code or comorbidity ID' });
+// Export a procedure's definitions as a shareable library, or apply a previewed library import
+async function handleComorbidityLibrary(req: NextApiRequest, res: NextApiResponse, code: string, user: SessionUser) {
+  if (!code) {
+    return res.status(400).json({ error: 'Invalid ICMP code' });
   }
 
   try {
-    console.log(`=== INDIVIDUAL COMORBIDITY ===`);
-    console.log(`Code: ${code}, ID: ${comorbidityId}, Method: ${req.method}`);
+    if (req.method === 'GET') {
+      const { format = 'json' } = req.query;
+      if (format !== 'json' && format !== 'csv') {
+        return res.status(400).json({ error: 'format must be json or csv' });
+      }
 
-    if (req.method === 'PUT') {
-      const body = await getParsedBody(req);
-      console.log('Update body:', body);
+      const library = buildLibrary(code, await loadComorbidityDefinitions(code));
+      console.log(`--- [API] Exporting ${library.comorbidities.length} comorbidities for ${code} as ${format} ---`);
 
-      if (!body || typeof body !== 'object' || Object.keys(body).length === 0) {
-        return res.status(400).json({ error: 'No update data provided' });
-      }
+      const fileName = `comorbidity-library-${code.replace(/[^\w.-]+/g, '_')}.${format}`;
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename=${fileName}`);
+      return res.send(format === 'csv' ? libraryToCsv(library) : JSON.stringify(library, null, 2));
+    }
 
-      const cleanedData = Object.fromEntries(
-        Object.entries(body).filter(([key, value]) =>
-          value !== undefined && value !== null && value !== ''
-        )
-      );
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
 
-      console.log('Sending update to Flask:', cleanedData);
+    const body = await getParsedBody(req);
+    if (!body || !Array.isArray(body.items) || body.items.length === 0) {
+      return res.status(400).json({ error: 'No import items provided' });
+    }
 
-      const response = await fetch(`${BACKEND_API_URL}/comorbidities/${encodeURIComponent(code)}/${encodeURIComponent(comorbidityId)}`, {
-        method: 'PUT',
+    await catchUpDefinitionVersions(code);
+    // The preview may be stale, so every item is checked against the definitions as they are now
+    const current = await loadComorbidityDefinitions(code);
+    const currentById = new Map(current.map(definition => [String(definition.id), definition]));
+    const currentNames = new Set(current.map(definition => String(definition.name || '').trim().toLowerCase()));
+    const result: LibraryImportResult = { added: 0, updated: 0, skipped: 0, failed: [] };
+    const backendUrl = `${BACKEND_API_URL}/comorbidities/${encodeURIComponent(code)}`;
+
+    for (const item of body.items) {
+      const incoming = definitionFields(item?.incoming);
+      const action: LibraryImportAction = item?.action;
+      if (!incoming.name || !['add', 'merge', 'replace', 'skip'].includes(action)) {
+        result.failed.push({ name: incoming.name || '(unnamed)', error: 'Invalid import item' });
+        continue;
+      }
+      if (action === 'skip') {
+        result.skipped++;
+        continue;
+      }
+
+      const existing = action === 'add' ? null : currentById.get(String(item.existing_id));
+      if (action === 'add' && currentNames.has(incoming.name.toLowerCase())) {
+        result.failed.push({ name: incoming.name, error: 'A comorbidity with this name now exists; preview the import again' });
+        continue;
+      }
+      if (action !== 'add' && !existing) {
+        result.failed.push({ name: incoming.name, error: 'The comorbidity to update no longer exists' });
+        continue;
+      }
+
+      const definition = resolvedDefinition({
+        incoming,
+        existing: existing ? { id: String(existing.id), ...definitionFields(existing) } : null,
+        action
+      });
+      // Imports are held to the same categories as definitions created or edited one at a time
+      const categoryError = invalidIndexCategory(definition);
+      if (categoryError) {
+        result.failed.push({ name: incoming.name, error: categoryError });
+        continue;
+      }
+      const response = await fetch(existing ? `${backendUrl}/${encodeURIComponent(String(existing.id))}` : backendUrl, {
+        method: existing ? 'PUT' : 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(cleanedData)
+        body: JSON.stringify(definition)
       });
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error(`Flask update error: ${errorText}`);
-        throw new Error(`Backend responded with status: ${response.status}`);
+        console.error(`Backend import error for ${incoming.name}: ${errorText}`);
+        result.failed.push({ name: incoming.name, error: `Backend responded with status: ${response.status}` });
+        continue;
       }
+      if (existing) {
+        result.updated++;
+      } else {
+        result.added++;
+        currentNames.add(incoming.name.toLowerCase());
+      }
+    }
 
-      const data = await response.json();
-      return res.status(200).json(data);
-
-    } else if (req.method === 'DELETE') {
-      console.log('Deleting comorbidity');
-
-      const response = await fetch(`${BACKEND_API_URL}/comorbidities/${encodeURIComponent(code)}/${encodeURIComponent(comorbidityId)}`, {
-        method: 'DELETE'
-      });
+    console.log(`--- [API] Imported comorbidity library into ${code}: ${result.added} added, ${result.updated} updated, ${result.skipped} skipped, ${result.failed.length} failed ---`);
+    await refreshDefinitionVersions(code, user, 'import');
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Error handling comorbidity library:', error);
+    res.status(500).json({ error: 'Failed to handle comorbidity library request' });
+  }
+}
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Flask delete error: ${errorText}`);
-        throw new Error(`Backend responded with status: ${response.status}`);
-      }
+async function handleJobDefinitions(req: NextApiRequest, res: NextApiResponse, jobId: string) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
 
-      const data = await response.json();
-      return res.status(200).json(data);
+  if (!jobId) {
+    return res.status(400).json({ error: 'Invalid job ID' });
+  }
 
-    } else {
-      return res.status(405).json({ error: 'Method not allowed' });
+  try {
+    const pin = await loadJobDefinitionPin(jobId);
+    if (!pin) {
+      return res.status(404).json({ error: 'No definition versions were recorded for this job' });
     }
-
+    res.status(200).json(pin);
   } catch (error) {
-    console.error('Error handling individual comorbidity:', error);
-    res.status(500).json({ error: 'Failed to handle comorbidity request' });
+    console.error('Error fetching job definitions:', error);
+    res.status(500).json({ error: 'Failed to fetch job definitions' });
   }
 }
 
@@ -1024,7 +2596,7 @@ async function handleAnalyzeColumnsWithFormData(req: NextApiRequest, res: NextAp
   }
 }
 
-async function handleProcessFileWithFormData(req: NextApiRequest, res: NextApiResponse) {
+async function handleProcessFileWithFormData(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -1050,9 +2622,14 @@ async function handleProcessFileWithFormData(req: NextApiRequest, res: NextApiRe
     const comorbidities = Array.isArray(fields.comorbidities) ? fields.comorbidities[0] : fields.comorbidities;
     const columnMappings = Array.isArray(fields.column_mappings) ? fields.column_mappings[0] : fields.column_mappings;
 
+    const definitionVersions = icmpCode ? await definitionVersionsForJob(icmpCode, selectedComorbidityIds(safeParseJSON(comorbidities))) : [];
+
     if (icmpCode) formData.append('icmp_code', icmpCode);
+    if (definitionVersions.length > 0) formData.append('definition_versions', JSON.stringify(definitionVersionsField(definitionVersions)));
     if (comorbidities) formData.append('comorbidities', comorbidities);
     if (columnMappings) formData.append('column_mappings', columnMappings);
+    formData.append('owner_id', user.sub);
+    formData.append('owner_name', user.name);
 
     const response = await fetch(`${BACKEND_API_URL}/process-file`, {
       method: 'POST',
@@ -1065,6 +2642,12 @@ async function handleProcessFileWithFormData(req: NextApiRequest, res: NextApiRe
 
     const data = await response.json();
     fs.unlinkSync(file.filepath);
+    if (data.job_id) {
+      await tagJobOwner(String(data.job_id), user);
+    }
+    if (icmpCode && data.job_id) {
+      await pinDefinitionVersions(String(data.job_id), icmpCode, definitionVersions);
+    }
     res.status(200).json(data);
   } catch (error) {
     console.error('Error processing file:', error);
@@ -1072,6 +2655,193 @@ async function handleProcessFileWithFormData(req: NextApiRequest, res: NextApiRe
   }
 }
 
+// Column mappings are saved either per file ({ [fileName]: ColumnMapping[] }) or as a flat list
+function columnPromptsFromMappings(mappings: any, definitions: any[]): ReportColumnPrompt[] {
+  const nameById = new Map(definitions.map(definition => [String(definition.id), definition.name]));
+  const entries: Array<[string | null, any[]]> = Array.isArray(mappings)
+    ? [[null, mappings]]
+    : Object.entries(mappings || {}).map(([fileName, list]) => [fileName, Array.isArray(list) ? list : []]);
+
+  return entries.flatMap(([fileName, list]) => list
+    .filter(mapping => mapping && mapping.isEnabled !== false)
+    .map(mapping => ({
+      file_name: fileName,
+      column: String(mapping.columnName ?? mapping.column_name ?? ''),
+      prompt: String(mapping.customPrompt ?? mapping.custom_prompt ?? ''),
+      comorbidities: (mapping.selectedComorbidities || mapping.selected_comorbidities || [])
+        .map((id: any) => nameById.get(String(id)) || String(id))
+    })));
+}
+
+// Render a completed job as a PDF report, optionally with a de-identified patient appendix
+async function handleJobReport(req: NextApiRequest, res: NextApiResponse, jobId: string) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!jobId) {
+    return res.status(400).json({ error: 'Invalid job ID' });
+  }
+
+  const { confidence_threshold, appendix } = req.query;
+  const threshold = confidence_threshold !== undefined ? Number(confidence_threshold) : 0;
+  if (Number.isNaN(threshold) || threshold < 0 || threshold > 1) {
+    return res.status(400).json({ error: 'confidence_threshold must be between 0 and 1' });
+  }
+
+  try {
+    const definitionsCache = new Map<string, any[]>();
+    const results = await fetchTransformedJobResults(jobId, definitionsCache);
+    if (!results) {
+      return res.status(404).json({ error: 'Results not found' });
+    }
+
+    const procedureCode = results.stats?.procedure_code || null;
+    const definitions = results.definition_pin
+      ? pinnedDefinitionRecords(results.definition_pin)
+      : procedureCode ? definitionsCache.get(procedureCode) || [] : [];
+    let columnPrompts = columnPromptsFromMappings(results.column_mappings, definitions);
+    if (columnPrompts.length === 0) {
+      // Without saved mappings from the backend, list the columns that produced matches instead
+      columnPrompts = Object.keys(results.summary?.matches_by_column || {}).map(column => ({
+        file_name: null, column, prompt: 'Not recorded', comorbidities: []
+      }));
+    }
+
+    console.log(`--- [API] Rendering PDF report for job ${jobId} (appendix: ${appendix === 'true'}) ---`);
+
+    const pdf = await renderJobReport({
+      job_id: jobId,
+      procedure_code: procedureCode,
+      comorbidities: definitions
+        .filter(definition => definition.enabled !== false)
+        .map(definition => ({ name: definition.name, description: definition.description || '' })),
+      column_prompts: columnPrompts,
+      confidence_threshold: threshold,
+      include_appendix: appendix === 'true',
+      results
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=audit-report-${jobId}.pdf`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Error rendering job report:', error);
+    res.status(500).json({ error: 'Failed to generate job report' });
+  }
+}
+
+// Export matches, patient summaries or analytics as CSV, NDJSON or Parquet.
+// job-export/<jobId>/columns lists the columns available in each dataset.
+async function handleJobExport(req: NextApiRequest, res: NextApiResponse, jobId: string, action?: string) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!jobId || (action && action !== 'columns')) {
+    return res.status(400).json({ error: 'Invalid export path' });
+  }
+
+  const { dataset = 'patients', format = 'csv', columns, min_confidence, exclude_rejected, ...rest } = req.query;
+  if (!action) {
+    if (!EXPORT_DATASETS.includes(dataset as ExportDataset)) {
+      return res.status(400).json({ error: `dataset must be one of: ${EXPORT_DATASETS.join(', ')}` });
+    }
+    if (!(String(format) in EXPORT_FORMATS)) {
+      return res.status(400).json({ error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    }
+  }
+
+  const minConfidence = min_confidence !== undefined ? Number(min_confidence) : undefined;
+  if (minConfidence !== undefined && (Number.isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1)) {
+    return res.status(400).json({ error: 'min_confidence must be between 0 and 1' });
+  }
+
+  const text = (value: string | string[] | undefined) => value === undefined || value === '' ? undefined : String(value);
+  const filters: ExportFilters = {
+    min_confidence: minConfidence,
+    exclude_rejected: exclude_rejected === 'true',
+    comorbidity: text(rest.comorbidity),
+    file_name: text(rest.file_name),
+    column_name: text(rest.column_name),
+    surgery_outcome: text(rest.surgery_outcome),
+    mortality_status: text(rest.mortality_status),
+    section: text(rest.section)
+  };
+
+  try {
+    const results = await fetchTransformedJobResults(jobId);
+    if (!results) {
+      return res.status(404).json({ error: 'Results not found' });
+    }
+
+    if (action === 'columns') {
+      return res.status(200).json(Object.fromEntries(EXPORT_DATASETS.map(name => [name, exportColumns(name, results)])));
+    }
+
+    const selected = columns ? String(columns).split(',').map(column => column.trim()).filter(Boolean) : undefined;
+    const exported = buildExport(dataset as ExportDataset, format as ExportFormat, results, filters, selected);
+    if ('error' in exported) {
+      return res.status(400).json({ error: exported.error });
+    }
+
+    console.log(`--- [API] Exporting ${exported.rows} ${dataset} rows for job ${jobId} as ${format} ---`);
+
+    const { content_type, extension } = EXPORT_FORMATS[format as ExportFormat];
+    res.setHeader('Content-Type', content_type);
+    res.setHeader('Content-Disposition', `attachment; filename=${dataset}-${jobId}.${extension}`);
+    res.send(exported.body);
+  } catch (error) {
+    console.error('Error exporting job results:', error);
+    res.status(500).json({ error: 'Failed to export job results' });
+  }
+}
+
+// Export a job as FHIR R4 Condition, Procedure and Observation resources
+async function handleFhirExport(req: NextApiRequest, res: NextApiResponse, jobId: string) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!jobId) {
+    return res.status(400).json({ error: 'Invalid job ID' });
+  }
+
+  const { format = 'bundle', include_unreviewed } = req.query;
+  if (format !== 'bundle' && format !== 'ndjson') {
+    return res.status(400).json({ error: 'format must be bundle or ndjson' });
+  }
+
+  try {
+    const results = await fetchTransformedJobResults(jobId);
+    if (!results) {
+      return res.status(404).json({ error: 'Results not found' });
+    }
+
+    const resources = buildFhirResources(results, {
+      job_id: jobId,
+      procedure_code: results.stats?.procedure_code || null,
+      pseudonym_system: FHIR_PSEUDONYM_SYSTEM,
+      include_unreviewed: include_unreviewed === 'true'
+    }, format as FhirExportFormat);
+
+    console.log(`--- [API] Exporting ${resources.length} FHIR resources for job ${jobId} as ${format} ---`);
+
+    if (format === 'ndjson') {
+      res.setHeader('Content-Type', 'application/fhir+ndjson');
+      res.setHeader('Content-Disposition', `attachment; filename=fhir-${jobId}.ndjson`);
+      return res.send(toNdjson(resources));
+    }
+
+    res.setHeader('Content-Type', 'application/fhir+json');
+    res.setHeader('Content-Disposition', `attachment; filename=fhir-bundle-${jobId}.json`);
+    res.send(JSON.stringify(toTransactionBundle(resources)));
+  } catch (error) {
+    console.error('Error exporting FHIR resources:', error);
+    res.status(500).json({ error: 'Failed to export FHIR resources' });
+  }
+}
+
 // Basic handlers
 async function handleIcmpCodes(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -1102,7 +2872,20 @@ async function handleConfigurations(req: NextApiRequest, res: NextApiResponse) {
       throw new Error(`Backend responded with status: ${response.status}`);
     }
     const data = await response.json();
-    res.status(200).json(data);
+    // The backend stores comorbidities, column mappings and range overrides as JSON strings
+    const configurations = (Array.isArray(data) ? data : []).map((config: any) => ({
+      ...config,
+      comorbidities: typeof config.comorbidities === 'string'
+        ? safeParseJSONArray(config.comorbidities)
+        : config.comorbidities || [],
+      column_mappings: typeof config.column_mappings === 'string'
+        ? safeParseJSON(config.column_mappings, {})
+        : config.column_mappings || {},
+      range_overrides: typeof config.range_overrides === 'string'
+        ? safeParseJSON(config.range_overrides, {})
+        : config.range_overrides || {}
+    }));
+    res.status(200).json(configurations);
   } catch (error) {
     console.error('Error fetching configurations:', error);
     res.status(500).json({ error: 'Failed to fetch configurations' });
@@ -1115,12 +2898,23 @@ async function handleSaveConfiguration(req: NextApiRequest, res: NextApiResponse
   }
 
   try {
+    // bodyParser is disabled for this route, so req.body is never populated
+    const body = await getParsedBody(req);
+
+    if (!body || typeof body !== 'object') {
+      return res.status(400).json({ error: 'No valid request body provided' });
+    }
+
+    if (!body.config_name || typeof body.config_name !== 'string' || !body.config_name.trim()) {
+      return res.status(400).json({ error: 'Configuration name is required' });
+    }
+
     const response = await fetch(`${BACKEND_API_URL}/save-configuration`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(req.body)
+      body: JSON.stringify({ ...body, config_name: body.config_name.trim() })
     });
 
     if (!response.ok) {
@@ -1135,6 +2929,66 @@ async function handleSaveConfiguration(req: NextApiRequest, res: NextApiResponse
   }
 }
 
+async function handleIndividualConfiguration(req: NextApiRequest, res: NextApiResponse, configId: string) {
+  if (!configId) {
+    return res.status(400).json({ error: 'Invalid configuration ID' });
+  }
+
+  try {
+    const backendUrl = `${BACKEND_API_URL}/configurations/${encodeURIComponent(configId)}`;
+
+    if (req.method === 'PUT') {
+      const body = await getParsedBody(req);
+
+      if (!body || typeof body !== 'object' || Object.keys(body).length === 0) {
+        return res.status(400).json({ error: 'No update data provided' });
+      }
+      if (body.config_name !== undefined && (typeof body.config_name !== 'string' || !body.config_name.trim())) {
+        return res.status(400).json({ error: 'Configuration name cannot be empty' });
+      }
+
+      const response = await fetch(backendUrl, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          return res.status(404).json({ error: 'Configuration not found' });
+        }
+        throw new Error(`Backend responded with status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return res.status(200).json(data);
+
+    } else if (req.method === 'DELETE') {
+      const response = await fetch(backendUrl, {
+        method: 'DELETE'
+      });
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          return res.status(404).json({ error: 'Configuration not found' });
+        }
+        throw new Error(`Backend responded with status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return res.status(200).json(data);
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error handling configuration:', error);
+    res.status(500).json({ error: 'Failed to handle configuration request' });
+  }
+}
+
 // Job management handlers
 async function handleJobStatus(req: NextApiRequest, res: NextApiResponse, jobId: string) {
   if (req.method !== 'GET') {
@@ -1163,6 +3017,124 @@ async function handleJobStatus(req: NextApiRequest, res: NextApiResponse, jobId:
   }
 }
 
+// Server-Sent Events stream of job progress. The backend only exposes job-status,
+// so we poll it here on a short interval and push changes to the browser,
+// tolerating transient backend failures instead of giving up on the first one.
+const JOB_EVENTS_POLL_INTERVAL_MS = 2000;
+const JOB_EVENTS_HEARTBEAT_MS = 15000;
+const JOB_EVENTS_MAX_FAILURES = 10;
+
+async function handleJobEvents(req: NextApiRequest, res: NextApiResponse, jobId: string) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!jobId) {
+    return res.status(400).json({ error: 'Invalid job ID' });
+  }
+
+  console.log(`--- [API] Opening job event stream for ${jobId} ---`);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 3000\n\n');
+
+  let closed = false;
+  let eventId = 0;
+  let failures = 0;
+  let lastSnapshot = '';
+  let lastProcessedColumns = -1;
+  let lastFinding = '';
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const sendEvent = (event: string, data: any) => {
+    if (closed) return;
+    eventId++;
+    res.write(`id: ${eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const heartbeatTimer = setInterval(() => {
+    if (!closed) res.write(': keep-alive\n\n');
+  }, JOB_EVENTS_HEARTBEAT_MS);
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeatTimer);
+    if (pollTimer) clearTimeout(pollTimer);
+    res.end();
+  };
+
+  req.on('close', () => {
+    console.log(`--- [API] Job event stream closed by client for ${jobId} ---`);
+    closed = true;
+    clearInterval(heartbeatTimer);
+    if (pollTimer) clearTimeout(pollTimer);
+  });
+
+  const poll = async () => {
+    if (closed) return;
+
+    try {
+      const response = await fetch(`${BACKEND_API_URL}/job-status/${jobId}`);
+
+      if (response.status === 404) {
+        sendEvent('job-error', { status: 'error', error: 'Job not found' });
+        return finish();
+      }
+      if (!response.ok) {
+        throw new Error(`Backend responded with status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      failures = 0;
+
+      const snapshot = JSON.stringify(data);
+      if (snapshot !== lastSnapshot) {
+        lastSnapshot = snapshot;
+        sendEvent('progress', data);
+
+        const processedColumns = data.processed_columns || 0;
+        if (lastProcessedColumns >= 0 && processedColumns > lastProcessedColumns) {
+          sendEvent('column-complete', {
+            processed_columns: processedColumns,
+            total_columns_to_process: data.total_columns_to_process || 0,
+            column_name: data.last_completed_column || data.current_column || null
+          });
+        }
+        lastProcessedColumns = processedColumns;
+
+        if (data.latest_finding && data.latest_finding !== lastFinding) {
+          lastFinding = data.latest_finding;
+          sendEvent('finding', { latest_finding: data.latest_finding });
+        }
+      }
+
+      if (data.status === 'completed' || data.status === 'error') {
+        sendEvent('done', data);
+        return finish();
+      }
+    } catch (error) {
+      failures++;
+      console.warn(`--- [API] Job event poll failed for ${jobId} (${failures}/${JOB_EVENTS_MAX_FAILURES}):`, error);
+      if (failures >= JOB_EVENTS_MAX_FAILURES) {
+        sendEvent('job-error', { error: 'Backend unavailable while tracking job' });
+        return finish();
+      }
+    }
+
+    if (!closed) {
+      pollTimer = setTimeout(poll, JOB_EVENTS_POLL_INTERVAL_MS);
+    }
+  };
+
+  await poll();
+}
+
 async function handleDownloadResults(req: NextApiRequest, res: NextApiResponse, jobId: string) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
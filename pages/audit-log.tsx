@@ -0,0 +1,39 @@
+// pages/audit-log.tsx
+import Head from 'next/head';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { AuditLogViewer } from '../components/AuditLogViewer';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+
+export default function AuditLog() {
+    const { can } = useCurrentUser();
+
+    return (
+        <>
+            <Head>
+                <title>Audit Log - MediAudit AI</title>
+                <meta name="description" content="Record of who viewed, downloaded and changed audit data" />
+                <link rel="icon" href="/favicon.ico" />
+            </Head>
+
+            <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100">
+                <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+                            <p className="text-gray-600">Who viewed patient details, downloaded results and changed definitions or jobs</p>
+                        </div>
+                        <Link href="/" className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-white rounded-lg">
+                            <ArrowLeft size={16} /> Back to dashboard
+                        </Link>
+                    </div>
+                    {can('admin') ? (
+                        <AuditLogViewer />
+                    ) : (
+                        <div className="bg-white p-6 rounded-lg shadow text-sm text-gray-600">The audit log is only available to admins.</div>
+                    )}
+                </div>
+            </div>
+        </>
+    );
+}
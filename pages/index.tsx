@@ -2,8 +2,9 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Head from 'next/head';
 import Image from 'next/image';
+import Link from 'next/link';
 import {
-    FileText, BarChart3, Settings, Brain, Shield, Cpu, Target, Globe
+    FileText, BarChart3, Settings, Brain, Shield, Cpu, Target, Globe, LogOut
 } from 'lucide-react';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
@@ -12,23 +13,38 @@ import { ProgressOverview } from '../components/ProgressOverview';
 import { CodeSelection } from '../components/CodeSelection';
 import { FileUpload } from '../components/FileUpload';
 import { ColumnConfiguration } from '../components/ColumnConfiguration';
+import { PatientLinkage } from '../components/PatientLinkage';
+import { SavedConfigurations } from '../components/SavedConfigurations';
 import ComorbidityManagement from '../components/ComorbidityManagement';
-import type { ICMPCode, Comorbidity, FileMetadata } from '../types';
+import type { ICMPCode, Comorbidity, FileMetadata, ColumnMapping, PatientLinkSpec, UserConfiguration, TableRangeOverride } from '../types';
 import { JobStatusTracker } from '../components/JobStatusTracker';
 import ClinicalAuditDashboard from '../components/ClinicalAuditDashboard';
+import { JobComparison } from '../components/JobComparison';
+import { convertHl7File } from '../utils/hl7';
+import { activeColumnMappings, sheetConfigurationErrors } from '../utils/sheets';
+import { deidentifyFile, deidentifyMetadata, loadDeidentificationKey, loadStoredOriginals, saveDeidentificationKey } from '../utils/deidentify';
+import { useCurrentUser, SIGN_OUT_URL } from '../hooks/useCurrentUser';
+import { ROLE_LABELS } from '../utils/roles';
 
 export default function Home() {
+    const { user, can } = useCurrentUser();
     const [icmpCodes, setIcmpCodes] = useState<ICMPCode[]>([]);
     const [selectedCode, setSelectedCode] = useState<string>('');
     const [comorbidities, setComorbidities] = useState<Comorbidity[]>([]);
     const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
     const [columnMetadata, setColumnMetadata] = useState<FileMetadata[]>([]);
+    const [linkSpec, setLinkSpec] = useState<PatientLinkSpec | null>(null);
+    const [columnSources, setColumnSources] = useState<Record<string, Record<string, string>>>({});
+    const [presetMappings, setPresetMappings] = useState<ColumnMapping[] | null>(null);
+    const [presetRangeOverrides, setPresetRangeOverrides] = useState<Record<string, TableRangeOverride> | null>(null);
     const [activeTab, setActiveTab] = useState<'process' | 'dashboard' | 'configurations'>('process');
     const [isDragOver, setIsDragOver] = useState(false);
     const [currentStep, setCurrentStep] = useState(1);
     const [jobId, setJobId] = useState<string | null>(null);
     const [jobStatus, setJobStatus] = useState<any | null>(null);
     const [viewingAnalyticsFor, setViewingAnalyticsFor] = useState<string | null>(null);
+    const [selectedJobIds, setSelectedJobIds] = useState<string[]>([]);
+    const [comparingJobIds, setComparingJobIds] = useState<string[] | null>(null);
     const [dashboardStats, setDashboardStats] = useState<any | null>(null);
     const [proceduresFile, setProceduresFile] = useState<File | null>(null);
     const [comorbiditiesFile, setComorbiditiesFile] = useState<File | null>(null);
@@ -41,7 +57,7 @@ export default function Home() {
             if (uploadedFiles.length > 0) {
                 if (columnMetadata.length > 0) {
                     const hasValidConfig = columnMetadata.some(file =>
-                        file.columnMappings.some(col =>
+                        activeColumnMappings(file).some(col =>
                             col.isEnabled && col.selectedComorbidities.length > 0
                         )
                     );
@@ -75,26 +91,6 @@ export default function Home() {
         }
     };
 
-    useEffect(() => {
-        if (!jobId) return;
-        const fetchStatus = async () => {
-            try {
-                const response = await fetch(`/api/job-status/${jobId}`);
-                if (!response.ok) throw new Error('Could not fetch job status');
-                const data = await response.json();
-                setJobStatus(data);
-                if (data.status === 'completed' || data.status === 'error') {
-                    clearInterval(intervalId);
-                }
-            } catch (error) {
-                console.error(error);
-                clearInterval(intervalId);
-            }
-        };
-        const intervalId = setInterval(fetchStatus, 10000);
-        return () => clearInterval(intervalId);
-    }, [jobId]);
-
     const fetchDashboardStats = async () => {
         setIsLoadingDashboard(true);
         try {
@@ -122,17 +118,40 @@ export default function Home() {
             return;
         }
         try {
-            const formData = new FormData();
-            formData.append('file', uploadedFiles[0]);
-            formData.append('icmp_code', selectedCode);
-            const fileMeta = columnMetadata.find(meta => meta.fileName === uploadedFiles[0].name);
-            if (!fileMeta) {
-                alert("Could not find metadata for the uploaded file.");
+            const filesMetadata = uploadedFiles.map(file => columnMetadata.find(meta => meta.fileName === file.name));
+            const missingFiles = uploadedFiles.filter((_, index) => !filesMetadata[index]).map(file => file.name);
+            if (missingFiles.length > 0) {
+                alert(`Could not find metadata for: ${missingFiles.join(', ')}`);
+                return;
+            }
+            const sheetErrors = filesMetadata.flatMap(meta => sheetConfigurationErrors(meta!));
+            if (sheetErrors.length > 0) {
+                alert(`Please fix the sheet configuration:\n${sheetErrors.join('\n')}`);
                 return;
             }
-            formData.append('file_metadata', JSON.stringify(fileMeta));
+
+            // Identifiers are pseudonymised or masked here; the table to reverse that stays in this browser
+            const key = await loadDeidentificationKey();
+            const keyColumns = (fileName: string) => (linkSpec?.keys || []).filter(linkKey => linkKey.fileName === fileName).map(linkKey => linkKey.columnName);
+            const redactedFiles = await Promise.all(uploadedFiles.map((file, index) => deidentifyFile(file, filesMetadata[index]!, key, keyColumns(file.name))));
+            const redactedMetadata = filesMetadata.map(meta => deidentifyMetadata(meta!, key, keyColumns(meta!.fileName)));
+            saveDeidentificationKey(key);
+
+            const formData = new FormData();
+            redactedFiles.forEach(file => formData.append('file', file));
+            formData.append('icmp_code', selectedCode);
+            // file_metadata keeps single-file requests compatible; files_metadata carries one entry per file, in upload order
+            formData.append('file_metadata', JSON.stringify(redactedMetadata[0]));
+            formData.append('files_metadata', JSON.stringify(redactedMetadata));
             const globalSettings = { comorbidities: comorbidities };
             formData.append('global_settings', JSON.stringify(globalSettings));
+            if (uploadedFiles.length > 1 && linkSpec && linkSpec.keys.length > 0) {
+                if (linkSpec.keys.some(key => !key.columnName)) {
+                    alert("Please choose a patient identifier column for every linked file.");
+                    return;
+                }
+                formData.append('patient_linkage', JSON.stringify(linkSpec));
+            }
             const response = await fetch('/api/process-file-enhanced', {
                 method: 'POST',
                 body: formData,
@@ -143,32 +162,78 @@ export default function Home() {
             }
             const result = await response.json();
             setJobId(result.job_id);
-            setJobStatus({ status: 'pending', progress: 0, file_name: uploadedFiles[0].name });
+            setJobStatus({
+                status: 'pending',
+                progress: 0,
+                file_name: uploadedFiles.map(file => file.name).join(', '),
+                files: uploadedFiles.map(file => ({ file_name: file.name, status: 'pending', progress: 0 }))
+            });
         } catch (error) {
             console.error("Failed to start processing:", error);
             alert(`Error: ${error instanceof Error ? error.message : 'An unknown error occurred.'}`);
         }
     };
 
-    const handleCodeSelection = async (code: string) => {
+    const handleDownloadKey = () => {
+        const blob = new Blob([JSON.stringify(loadStoredOriginals(), null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'reidentification-key.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleCodeSelection = async (code: string, savedComorbidities?: Comorbidity[]): Promise<Comorbidity[]> => {
         setSelectedCode(code);
+        let loaded: Comorbidity[] = [];
         if (code) {
             try {
                 const response = await fetch(`/api/comorbidities/${encodeURIComponent(code)}`);
                 if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
                 const data = await response.json();
                 if (Array.isArray(data)) {
-                    setComorbidities(data.map((c: any) => ({ ...c, enabled: true })));
-                } else {
-                    setComorbidities([]);
+                    loaded = data.map((c: any) => {
+                        if (!savedComorbidities) return { ...c, enabled: true };
+                        const saved = savedComorbidities.find(s => s.id === c.id || s.name === c.name);
+                        return { ...c, enabled: saved ? saved.enabled : false };
+                    });
                 }
             } catch (error) {
                 console.error('Error fetching comorbidities:', error);
-                setComorbidities([]);
             }
-        } else {
-            setComorbidities([]);
         }
+        setComorbidities(loaded);
+        return loaded;
+    };
+
+    const handleLoadConfiguration = async (config: UserConfiguration) => {
+        const loaded = await handleCodeSelection(config.icmp_code, config.comorbidities || []);
+
+        // Comorbidity IDs may have changed since the preset was saved, so map them through the name
+        const savedNames = new Map((config.comorbidities || []).map(c => [c.id, c.name]));
+        const remapId = (savedId: string) => {
+            const name = savedNames.get(savedId);
+            return loaded.find(c => c.id === savedId && (!name || c.name === name))?.id
+                || loaded.find(c => c.name === name)?.id;
+        };
+
+        // Column names, not file names, carry over between monthly extracts
+        const mappingsByColumn = new Map<string, ColumnMapping>();
+        Object.values(config.column_mappings || {}).flat().forEach(mapping => {
+            if (!mappingsByColumn.has(mapping.columnName)) {
+                mappingsByColumn.set(mapping.columnName, {
+                    ...mapping,
+                    selectedComorbidities: mapping.selectedComorbidities
+                        .map(remapId)
+                        .filter((id): id is string => Boolean(id))
+                });
+            }
+        });
+
+        setPresetMappings(Array.from(mappingsByColumn.values()));
+        setPresetRangeOverrides(Object.keys(config.range_overrides || {}).length > 0 ? config.range_overrides! : null);
+        setActiveTab('process');
     };
 
     const handleSettingsFileUploadChange = (e: React.ChangeEvent<HTMLInputElement>, fileType: 'procedures' | 'comorbidities') => {
@@ -213,9 +278,34 @@ export default function Home() {
         setComorbidities(updatedComorbidities);
     };
 
-    const handleFileUpload = (files: File[]) => {
-        setUploadedFiles(files);
+    const handleFileUpload = async (files: File[]) => {
+        // HL7 message batches are flattened to CSV here, so analysis and processing see a normal table
+        const converted: File[] = [];
+        const sources: Record<string, Record<string, string>> = {};
+        const warnings: string[] = [];
+        try {
+            for (const file of files) {
+                const hl7 = await convertHl7File(file);
+                if (!hl7) {
+                    converted.push(file);
+                    continue;
+                }
+                converted.push(hl7.file);
+                sources[hl7.file.name] = hl7.table.sources;
+                warnings.push(...hl7.table.warnings.map(warning => `${file.name}: ${warning}`));
+            }
+        } catch (error) {
+            alert(`Error reading HL7 file: ${error instanceof Error ? error.message : 'An unknown error occurred.'}`);
+            return;
+        }
+        if (warnings.length > 0) {
+            alert(`HL7 conversion warnings:\n${warnings.slice(0, 10).join('\n')}${warnings.length > 10 ? `\n…and ${warnings.length - 10} more` : ''}`);
+        }
+
+        setUploadedFiles(converted);
+        setColumnSources(sources);
         setColumnMetadata([]);
+        setLinkSpec(null);
     };
 
     return (
@@ -364,6 +454,19 @@ export default function Home() {
                                         </motion.button>
                                     ))}
                                 </div>
+
+                                {user && (
+                                    <div className="flex items-center gap-3 text-sm">
+                                        <div className="text-right">
+                                            <p className="font-semibold text-gray-900">{user.name}</p>
+                                            <p className="text-gray-500">{ROLE_LABELS[user.role]}</p>
+                                        </div>
+                                        <a href={SIGN_OUT_URL} className="flex items-center gap-1 px-3 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-xl">
+                                            <LogOut size={16} />
+                                            Sign out
+                                        </a>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -445,7 +548,20 @@ export default function Home() {
                                                 files={uploadedFiles}
                                                 comorbidities={comorbidities}
                                                 onConfigurationChange={setColumnMetadata}
+                                                presetMappings={presetMappings}
+                                                presetRangeOverrides={presetRangeOverrides}
+                                                columnSources={columnSources}
                                             />
+                                            {uploadedFiles.length > 1 && columnMetadata.length > 1 && (
+                                                <div className="mt-6">
+                                                    <PatientLinkage
+                                                        files={uploadedFiles}
+                                                        filesMetadata={columnMetadata}
+                                                        linkSpec={linkSpec}
+                                                        onLinkSpecChange={setLinkSpec}
+                                                    />
+                                                </div>
+                                            )}
                                         </StepCard>
                                     )}
 
@@ -466,6 +582,12 @@ export default function Home() {
                                                     <Brain size={24} />
                                                     Start Processing
                                                 </Button>
+                                                <p className="text-sm text-gray-500 mt-6">
+                                                    Identifier columns and identifiers in free text are replaced before upload. The key to re-identify patients is kept in this browser.{' '}
+                                                    <button onClick={handleDownloadKey} className="font-semibold text-blue-600 hover:text-blue-800">
+                                                        Download re-identification key
+                                                    </button>
+                                                </p>
                                             </div>
                                         </StepCard>
                                     )}
@@ -474,8 +596,9 @@ export default function Home() {
                                     {jobId && jobStatus && (
                                         <div className="mt-12">
                                             <JobStatusTracker
+                                                key={jobId}
                                                 jobId={jobId}
-                                                jobStatus={jobStatus}
+                                                initialStatus={jobStatus}
                                                 onViewAnalytics={setViewingAnalyticsFor}
                                             />
                                         </div>
@@ -526,12 +649,27 @@ export default function Home() {
 
                                             {/* Recent Jobs Table */}
                                             <Card>
-                                                <h3 className="text-2xl font-semibold mb-4">Recent Jobs</h3>
+                                                <div className="flex items-center justify-between mb-4">
+                                                    <h3 className="text-2xl font-semibold">Recent Jobs</h3>
+                                                    <div className="flex items-center gap-3">
+                                                        <Link href="/trends" className="text-sm font-semibold text-blue-600 hover:text-blue-800">
+                                                            View Trends
+                                                        </Link>
+                                                        {can('admin') && (
+                                                            <Link href="/audit-log" className="text-sm font-semibold text-blue-600 hover:text-blue-800">
+                                                                Audit Log
+                                                            </Link>
+                                                        )}
+                                                        <Button size="sm" onClick={() => setComparingJobIds(selectedJobIds)} disabled={selectedJobIds.length < 2}>
+                                                            Compare Selected ({selectedJobIds.length})
+                                                        </Button>
+                                                    </div>
+                                                </div>
                                                 <div className="overflow-x-auto">
                                                     <table className="min-w-full text-sm text-left">
                                                         <thead className="bg-gray-100">
                                                             <tr>
-                                                                {['Job ID', 'Procedure', 'Matches', 'Rows', 'Time', 'Date'].map(h =>
+                                                                {['', 'Job ID', 'Procedure', 'Owner', 'Matches', 'Rows', 'Time', 'Date'].map(h =>
                                                                     <th key={h} className="p-3 font-semibold">{h}</th>
                                                                 )}
                                                             </tr>
@@ -540,6 +678,16 @@ export default function Home() {
                                                             {dashboardStats.recent_jobs && dashboardStats.recent_jobs.length > 0 ? (
                                                                 dashboardStats.recent_jobs.map((job: any) => (
                                                                     <tr key={job.job_id} className="border-b hover:bg-gray-50">
+                                                                        <td className="p-3">
+                                                                            <input
+                                                                                type="checkbox"
+                                                                                checked={selectedJobIds.includes(job.job_id)}
+                                                                                onChange={() => setSelectedJobIds(prev => prev.includes(job.job_id)
+                                                                                    ? prev.filter(id => id !== job.job_id)
+                                                                                    : [...prev, job.job_id])}
+                                                                                aria-label={`Select job ${job.job_id} for comparison`}
+                                                                            />
+                                                                        </td>
                                                                         <td className="p-3 font-mono text-xs">
                                                                             <a
                                                                                 href="#"
@@ -553,6 +701,7 @@ export default function Home() {
                                                                             </a>
                                                                         </td>
                                                                         <td className="p-3">{job.procedure_code}</td>
+                                                                        <td className="p-3">{job.owner_name || '—'}</td>
                                                                         <td className="p-3">{job.matches_found}</td>
                                                                         <td className="p-3">{job.rows_processed}</td>
                                                                         <td className="p-3">{job.processing_time.toFixed(2)}s</td>
@@ -561,7 +710,7 @@ export default function Home() {
                                                                 ))
                                                             ) : (
                                                                 <tr>
-                                                                    <td colSpan={6} className="text-center p-4 text-gray-500">No recent jobs found.</td>
+                                                                    <td colSpan={8} className="text-center p-4 text-gray-500">No recent jobs found.</td>
                                                                 </tr>
                                                             )}
                                                         </tbody>
@@ -582,40 +731,52 @@ export default function Home() {
                                     className="text-center py-20"
                                 >
                                     <h2 className="text-4xl font-bold text-gray-900 mb-8 text-center">Settings</h2>
-                                    <Card>
-                                        <h3 className="text-2xl font-semibold mb-2">Upload Data Files</h3>
-                                        <p className="text-gray-600 mb-6">
-                                            Upload new versions of the core data files. The system will use these for future processing jobs. Uploading a new file will overwrite the existing one.
-                                        </p>
-
-                                        <div className="space-y-6">
-                                            {/* Procedures Upload */}
-                                            <div className="border p-4 rounded-lg bg-slate-50">
-                                                <h4 className="font-bold text-lg">Procedures File (ICMP Codes)</h4>
-                                                <p className="text-sm text-gray-500 mb-4">Upload a .csv or .xlsx file containing procedure codes and descriptions.</p>
-                                                <div className="flex items-center gap-4">
-                                                    <input type="file" accept=".csv,.xlsx" onChange={(e) => handleSettingsFileUploadChange(e, 'procedures')} className="flex-grow file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100" />
-                                                    <Button onClick={() => handleSettingsUpload('procedures')} disabled={!proceduresFile}>Upload Procedures</Button>
+                                    <div className="mb-8">
+                                        <Card>
+                                            <SavedConfigurations
+                                                selectedCode={selectedCode}
+                                                comorbidities={comorbidities}
+                                                columnMetadata={columnMetadata}
+                                                onLoadConfiguration={handleLoadConfiguration}
+                                            />
+                                        </Card>
+                                    </div>
+                                    {can('admin') && (
+                                        <Card>
+                                            <h3 className="text-2xl font-semibold mb-2">Upload Data Files</h3>
+                                            <p className="text-gray-600 mb-6">
+                                                Upload new versions of the core data files. The system will use these for future processing jobs. Uploading a new file will overwrite the existing one.
+                                            </p>
+
+                                            <div className="space-y-6">
+                                                {/* Procedures Upload */}
+                                                <div className="border p-4 rounded-lg bg-slate-50">
+                                                    <h4 className="font-bold text-lg">Procedures File (ICMP Codes)</h4>
+                                                    <p className="text-sm text-gray-500 mb-4">Upload a .csv or .xlsx file containing procedure codes and descriptions.</p>
+                                                    <div className="flex items-center gap-4">
+                                                        <input type="file" accept=".csv,.xlsx" onChange={(e) => handleSettingsFileUploadChange(e, 'procedures')} className="flex-grow file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100" />
+                                                        <Button onClick={() => handleSettingsUpload('procedures')} disabled={!proceduresFile}>Upload Procedures</Button>
+                                                    </div>
+                                                    {uploadStatus.procedures && (
+                                                        <p className={`mt-2 text-sm ${uploadStatus.procedures.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{uploadStatus.procedures.message}</p>
+                                                    )}
                                                 </div>
-                                                {uploadStatus.procedures && (
-                                                    <p className={`mt-2 text-sm ${uploadStatus.procedures.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{uploadStatus.procedures.message}</p>
-                                                )}
-                                            </div>
 
-                                            {/* Comorbidities Upload */}
-                                            <div className="border p-4 rounded-lg bg-slate-50">
-                                                <h4 className="font-bold text-lg">Comorbidities File</h4>
-                                                <p className="text-sm text-gray-500 mb-4">Upload a .csv or .xlsx file containing comorbidities linked to procedure codes.</p>
-                                                <div className="flex items-center gap-4">
-                                                    <input type="file" accept=".csv,.xlsx" onChange={(e) => handleSettingsFileUploadChange(e, 'comorbidities')} className="flex-grow file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" />
-                                                    <Button onClick={() => handleSettingsUpload('comorbidities')} disabled={!comorbiditiesFile}>Upload Comorbidities</Button>
+                                                {/* Comorbidities Upload */}
+                                                <div className="border p-4 rounded-lg bg-slate-50">
+                                                    <h4 className="font-bold text-lg">Comorbidities File</h4>
+                                                    <p className="text-sm text-gray-500 mb-4">Upload a .csv or .xlsx file containing comorbidities linked to procedure codes.</p>
+                                                    <div className="flex items-center gap-4">
+                                                        <input type="file" accept=".csv,.xlsx" onChange={(e) => handleSettingsFileUploadChange(e, 'comorbidities')} className="flex-grow file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" />
+                                                        <Button onClick={() => handleSettingsUpload('comorbidities')} disabled={!comorbiditiesFile}>Upload Comorbidities</Button>
+                                                    </div>
+                                                    {uploadStatus.comorbidities && (
+                                                        <p className={`mt-2 text-sm ${uploadStatus.comorbidities.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{uploadStatus.comorbidities.message}</p>
+                                                    )}
                                                 </div>
-                                                {uploadStatus.comorbidities && (
-                                                    <p className={`mt-2 text-sm ${uploadStatus.comorbidities.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{uploadStatus.comorbidities.message}</p>
-                                                )}
                                             </div>
-                                        </div>
-                                    </Card>
+                                        </Card>
+                                    )}
                                 </motion.div>
                             )}
                         </AnimatePresence>
@@ -631,6 +792,21 @@ export default function Home() {
                         </div>
                     </div>
                 )}
+
+                {comparingJobIds && (
+                    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+                        <div className="bg-gray-50 rounded-lg shadow-2xl w-full max-w-6xl h-full max-h-[90vh] overflow-y-auto relative p-8">
+                            <button onClick={() => setComparingJobIds(null)} className="absolute top-4 right-4 text-gray-500 hover:text-gray-800 z-10" style={{ fontSize: '24px' }}>&times;</button>
+                            <JobComparison
+                                jobIds={comparingJobIds}
+                                jobLabels={Object.fromEntries((dashboardStats?.recent_jobs || []).map((job: any) => [
+                                    job.job_id,
+                                    `${job.procedure_code} • ${new Date(job.processed_at).toLocaleDateString()}`
+                                ]))}
+                            />
+                        </div>
+                    </div>
+                )}
             </div>
         </>
     );
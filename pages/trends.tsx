@@ -0,0 +1,32 @@
+// pages/trends.tsx
+import Head from 'next/head';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { TrendAnalytics } from '../components/TrendAnalytics';
+
+export default function Trends() {
+    return (
+        <>
+            <Head>
+                <title>Trends - MediAudit AI</title>
+                <meta name="description" content="Longitudinal surgical outcome and comorbidity trends across audit jobs" />
+                <link rel="icon" href="/favicon.ico" />
+            </Head>
+
+            <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100">
+                <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h1 className="text-3xl font-bold text-gray-900">Longitudinal Trends</h1>
+                            <p className="text-gray-600">Success, mortality and comorbidity prevalence over time, by procedure</p>
+                        </div>
+                        <Link href="/" className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-white rounded-lg">
+                            <ArrowLeft size={16} /> Back to dashboard
+                        </Link>
+                    </div>
+                    <TrendAnalytics />
+                </div>
+            </div>
+        </>
+    );
+}
@@ -12,6 +12,8 @@ export interface Comorbidity {
     notes?: string;
     enabled: boolean;
     keywords?: string;
+    charlson_category?: string | null; // category id from utils/comorbidityIndices
+    elixhauser_category?: string | null;
 }
 
 export interface ColumnMapping {
@@ -20,8 +22,12 @@ export interface ColumnMapping {
     selectedComorbidities: string[]; // Array of comorbidity IDs
     customPrompt: string;
     sampleData: string[];
+    source?: string; // Segment/field path for columns flattened from HL7 messages, e.g. OBX-5
+    identifier?: IdentifierKind | null; // Pseudonymised or masked before upload; null when cleared by the user
 }
 
+export type IdentifierKind = 'name' | 'nhs_number' | 'mrn' | 'date_of_birth' | 'address' | 'postcode' | 'phone' | 'email';
+
 export interface FileMetadata {
     fileName: string;
     columns: string[];
@@ -34,6 +40,45 @@ export interface FileMetadata {
         processedShape: [number, number];
         emptyRowsRemoved: number;
     };
+    columnAnalysis?: ColumnAnalysis;
+    rangeOverride?: TableRangeOverride;
+    // Every sheet of a multi-sheet workbook; the file-level fields above mirror the first sheet
+    sheets?: SheetMetadata[];
+    // 'preview' until the server's analysis of the file has replaced the in-browser one
+    analysisSource?: 'preview' | 'server';
+}
+
+export interface SheetMetadata {
+    sheetName: string;
+    isEnabled: boolean;
+    columns: string[];
+    sampleData: any[];
+    detectedHeaderRow: number;
+    totalRows: number;
+    columnMappings: ColumnMapping[];
+    columnAnalysis?: ColumnAnalysis;
+    joinKey?: string; // Rows of the included sheets are joined on matching values of this column
+    rangeOverride?: TableRangeOverride;
+}
+
+// Manual correction of a table's detected layout. Rows are 0-based indexes into the raw sheet.
+export interface TableRangeOverride {
+    headerRow: number;
+    firstDataRow: number;
+    lastDataRow: number | null; // null reads to the end of the sheet
+    ignoredColumns: string[];
+}
+
+// One sheet of a workbook as analysed by analyze-file-structure
+export interface SheetAnalysis {
+    sheetName: string;
+    columns: string[];
+    detectedHeaderRow: number;
+    totalRows: number;
+    sampleData: any[];
+    sampleDataByColumn: { [column: string]: string[] };
+    columnAnalysis: ColumnAnalysis;
+    rangeOverride?: TableRangeOverride; // Set when the layout was given rather than detected
 }
 
 export interface ColumnAnalysis {
@@ -56,6 +101,7 @@ export interface ProcessingJob {
     estimated_time?: string;
     total_columns_to_process?: number;
     processed_columns?: number;
+    files?: FileProgress[];
     results?: {
         total_matches: number;
         total_rows_processed: number;
@@ -68,16 +114,322 @@ export interface ProcessingJob {
     error?: string;
 }
 
+// Progress of one file within a multi-file audit run
+export interface FileProgress {
+    file_name: string;
+    status: 'pending' | 'processing' | 'completed' | 'error';
+    progress: number;
+    processed_columns?: number;
+    total_columns_to_process?: number;
+}
+
+// Per-file results within a multi-file audit run
+export interface FileBreakdown {
+    file_name: string;
+    rows_processed: number;
+    matches_found: number;
+    total_patients: number;
+    successful_surgeries: number;
+    failed_surgeries: number;
+    deceased_patients: number;
+    success_rate: number;
+    mortality_rate: number;
+    success_rate_interval?: RateInterval;
+    mortality_rate_interval?: RateInterval;
+}
+
+// Cross-file patient linkage: which column identifies the patient in each file
+export interface PatientLinkKey {
+    fileName: string;
+    columnName: string;
+}
+
+export interface PatientLinkSpec {
+    keys: PatientLinkKey[];
+    normalization: {
+        trimWhitespace: boolean;
+        caseInsensitive: boolean;
+        stripNonAlphanumeric: boolean;
+    };
+}
+
+export interface LinkagePreview {
+    total_patients: number;
+    matched_keys: number;
+    files: Array<{
+        file_name: string;
+        total_rows: number;
+        distinct_keys: number;
+        missing_keys: number;
+        unmatched_count: number;
+        unmatched_keys: string[];
+        duplicate_keys: Array<{ key: string; count: number }>;
+    }>;
+}
+
 export interface ComorbidityMatch {
     row_number: number;
+    file_name?: string;
     column_name: string;
     comorbidity_id: string;
     comorbidity_name: string;
     matched_text: string;
     excerpt: string;
+    source_text?: string; // Full cell text the excerpt was taken from, when the backend returns it
     confidence: number;
     reasoning: string;
     job_id: string;
+    adjudication?: Adjudication;
+}
+
+// Clinician review of an AI finding. Matches are keyed by matchTargetId, patient-level
+// outcomes by patientTargetId (see utils/adjudication.ts).
+export type AdjudicationTarget = 'match' | 'surgery_outcome' | 'mortality_status';
+export type AdjudicationDecision = 'confirmed' | 'rejected' | 'corrected';
+
+export interface Adjudication {
+    id?: number;
+    job_id: string;
+    target_type: AdjudicationTarget;
+    target_id: string;
+    decision: AdjudicationDecision;
+    corrected_value?: string | null;
+    note: string;
+    reviewer?: string | null;
+    decided_at?: string;
+}
+
+export interface VerificationSplit {
+    verified: number;
+    ai_only: number;
+}
+
+// Accuracy of a finished job against a manually labelled gold-standard sheet
+export interface ConfusionMetrics {
+    comorbidity: string;
+    true_positives: number;
+    false_positives: number;
+    false_negatives: number;
+    true_negatives: number;
+    sensitivity: number | null;
+    specificity: number | null;
+    ppv: number | null;
+    f1: number | null;
+}
+
+export interface ValidationDiscrepancy {
+    patient_id: string;
+    comorbidity: string;
+    confidence: number | null;
+    excerpts: string[];
+    reference_note?: string;
+}
+
+export interface ThresholdSweepPoint {
+    threshold: number;
+    sensitivity: number | null;
+    ppv: number | null;
+    f1: number | null;
+}
+
+export interface GoldStandardReport {
+    job_id: string;
+    confidence_threshold: number;
+    reference_layout: 'long' | 'wide';
+    patient_id_column: string;
+    evaluated_patients: number;
+    unmatched_reference_ids: string[];
+    overall: ConfusionMetrics;
+    per_comorbidity: ConfusionMetrics[];
+    false_positives: ValidationDiscrepancy[];
+    false_negatives: ValidationDiscrepancy[];
+    threshold_sweep: ThresholdSweepPoint[];
+    best_threshold: number | null;
+}
+
+// A proportion with its 95% Wilson interval, all rates in percent
+export interface RateInterval {
+    events: number;
+    total: number;
+    rate: number;
+    lower: number;
+    upper: number;
+    small_sample: boolean;
+}
+
+export interface AssociationTest {
+    odds_ratio: number | null;
+    or_lower: number | null;
+    or_upper: number | null;
+    p_value: number | null;
+    test: 'fisher' | 'chi_square';
+    significant: boolean;
+    small_sample: boolean;
+}
+
+export interface ComorbidityAssociation {
+    comorbidity: string;
+    patients: number;
+    mortality: RateInterval;
+    mortality_association: AssociationTest;
+    failure: RateInterval;
+    failure_association: AssociationTest;
+}
+
+export interface ComparisonValue {
+    job_id: string;
+    events: number;
+    total: number;
+    rate: number;
+    // More events than the denominator, e.g. comorbidities counted per match rather than per patient
+    exceeds_total: boolean;
+}
+
+// Change against the baseline job, in percentage points
+export interface ComparisonDelta {
+    job_id: string;
+    difference: number;
+    p_value: number | null;
+    significant: boolean;
+    small_sample: boolean;
+}
+
+export interface ComparisonRow {
+    metric: string;
+    values: ComparisonValue[];
+    deltas: Array<ComparisonDelta | null>;
+}
+
+export interface ComparisonSection {
+    id: 'outcomes' | 'comorbidities' | 'failure_causes' | 'columns';
+    title: string;
+    denominator: string;
+    rows: ComparisonRow[];
+}
+
+export type ControlOutcome = 'surgery' | 'mortality';
+
+export interface ControlChartSettings {
+    // Acceptable event rate; null uses the rate pooled over other jobs for the same procedure
+    target_rate: number | null;
+    // CUSUM is tuned to detect a shift to this odds ratio
+    odds_ratio: number;
+    cusum_limit: number;
+    // Alarm when VLAD falls this many net events below expected
+    vlad_limit: number;
+}
+
+export interface ControlChartPoint {
+    index: number;
+    label: string;
+    date: string | null;
+    outcome: 0 | 1;
+    cusum: number;
+    vlad: number;
+    cusum_alarm: boolean;
+    vlad_alarm: boolean;
+}
+
+export interface ControlChartSeries {
+    points: ControlChartPoint[];
+    order_basis: 'procedure_date' | 'row_order';
+    target_rate: number;
+    // 'job' means no external benchmark was available, so the charts only show deviation from the job's own average
+    target_source: 'configured' | 'pooled' | 'job';
+    cusum_alarms: ControlChartPoint[];
+    vlad_alarms: ControlChartPoint[];
+}
+
+export interface ControlBenchmark {
+    rate: number;
+    events: number;
+    patients: number;
+    jobs: number;
+}
+
+export interface ControlBenchmarks {
+    procedure_code: string | null;
+    surgery: ControlBenchmark | null;
+    mortality: ControlBenchmark | null;
+    warnings: string[];
+}
+
+export type RiskCovariate = 'comorbidities' | 'age' | 'charlson' | 'elixhauser' | 'comorbidity_count';
+
+export interface RiskModelCoefficient {
+    term: string;
+    estimate: number;
+    std_error: number | null;
+    odds_ratio: number;
+}
+
+export interface ObservedExpected {
+    id: string;
+    label: string;
+    procedure_code?: string;
+    patients: number;
+    observed: number;
+    expected: number;
+    ratio: number | null;
+    ci_lower: number | null;
+    ci_upper: number | null;
+}
+
+export interface FunnelLimitPoint {
+    expected: number;
+    lower_95: number;
+    upper_95: number;
+    lower_998: number;
+    upper_998: number;
+}
+
+export interface RiskAdjustmentReport {
+    covariates: RiskCovariate[];
+    jobs_included: number;
+    patients: number;
+    deaths: number;
+    converged: boolean;
+    c_statistic: number | null;
+    coefficients: RiskModelCoefficient[];
+    by_job: ObservedExpected[];
+    by_procedure: ObservedExpected[];
+    funnel_limits: FunnelLimitPoint[];
+    warnings: string[];
+}
+
+export type TrendGranularity = 'month' | 'quarter';
+
+// Which date places a patient in a period: when the job ran, or when the operation took place
+export type TrendDateBasis = 'processed_at' | 'procedure_date';
+
+export interface TrendPeriod {
+    period: string;
+    start: string;
+    jobs: number;
+    rows_processed: number;
+    matches_found: number;
+    patients: number;
+    success: RateInterval;
+    mortality: RateInterval;
+    // Pooled over this period and the preceding rolling_window - 1 periods
+    rolling_success: RateInterval;
+    rolling_mortality: RateInterval;
+    comorbidity_prevalence: Record<string, RateInterval>;
+}
+
+export interface TrendReport {
+    granularity: TrendGranularity;
+    basis: TrendDateBasis;
+    rolling_window: number;
+    procedure_code: string | null;
+    procedure_codes: string[];
+    from: string | null;
+    to: string | null;
+    jobs_included: number;
+    patients: number;
+    comorbidities: string[];
+    periods: TrendPeriod[];
+    warnings: string[];
 }
 
 export interface ProcessingStats {
@@ -90,6 +442,118 @@ export interface ProcessingStats {
     comorbidities_checked: number;
     matches_found: number;
     processed_at: string;
+    // Signed-in user who started the job; absent on jobs from before sign-in was required
+    owner_id?: string | null;
+    owner_name?: string | null;
+}
+
+export type UserRole = 'viewer' | 'auditor' | 'admin';
+
+export interface SessionUser {
+    sub: string;
+    name: string;
+    email?: string;
+    role: UserRole;
+}
+
+export interface AuditChange {
+    // Record the change applies to, for list resources such as comorbidity definitions
+    id: string | null;
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+export interface AuditLogEntry {
+    seq: number;
+    timestamp: string;
+    user: Pick<SessionUser, 'sub' | 'name' | 'role'> | null;
+    action: string;
+    method: string;
+    path: string;
+    resource_type: string | null;
+    resource_id: string | null;
+    status: number;
+    changes: AuditChange[] | null;
+    // sha256 of the previous entry's hash and this entry, so edits or deletions break the chain
+    prev_hash: string;
+    hash: string;
+}
+
+export interface AuditLogVerification {
+    valid: boolean;
+    entries_checked: number;
+    first_invalid_seq: number | null;
+    // Recovery entries written after torn appends
+    recovered_seqs: number[];
+    // Hash of the last entry. Recording it outside the app is the only way to detect later
+    // removal of entries from the end of the log, which leaves a shorter but valid chain
+    last_hash: string | null;
+}
+
+// The parts of a comorbidity definition that affect matching or scoring, and so are versioned
+export interface ComorbidityDefinitionFields {
+    name: string;
+    description: string;
+    notes: string;
+    keywords: string;
+    charlson_category: string | null;
+    elixhauser_category: string | null;
+}
+
+export type DefinitionChange = 'created' | 'updated' | 'deleted' | 'restored';
+
+// How a change reached the definitions: the comorbidity editor, a reference file upload, a library
+// import, or none of these (changed directly in the backend, noticed the next time they were read)
+export type DefinitionChangeSource = 'editor' | 'upload' | 'import' | 'external';
+
+export interface ComorbidityVersion {
+    code: string;
+    comorbidity_id: string;
+    version: number; // Counts from 1 per definition
+    recorded_at: string;
+    recorded_by: string | null;
+    change: DefinitionChange;
+    source: DefinitionChangeSource;
+    definition: ComorbidityDefinitionFields | null; // null once deleted
+    restored_from?: { comorbidity_id: string; version: number } | null;
+}
+
+// The definition versions a job ran with, recorded when it was submitted
+export interface JobDefinitionPin {
+    job_id: string;
+    code: string;
+    pinned_at: string;
+    definitions: ComorbidityVersion[];
+}
+
+// A procedure's comorbidity set as exported for another procedure code or deployment
+export interface ComorbidityLibrary {
+    format: 'mediaudit-comorbidity-library';
+    format_version: number;
+    procedure_code: string | null; // null when read from a CSV, which has no header for it
+    exported_at: string | null;
+    comorbidities: ComorbidityDefinitionFields[];
+}
+
+// How an imported definition relates to the existing one with the same name: new, only filling
+// in blank fields (update), disagreeing with it (conflict), or identical
+export type LibraryImportStatus = 'add' | 'update' | 'conflict' | 'unchanged';
+export type LibraryImportAction = 'add' | 'merge' | 'replace' | 'skip';
+
+export interface LibraryImportItem {
+    incoming: ComorbidityDefinitionFields;
+    existing: (ComorbidityDefinitionFields & { id: string }) | null;
+    status: LibraryImportStatus;
+    changed_fields: Array<keyof ComorbidityDefinitionFields>;
+    action: LibraryImportAction;
+}
+
+export interface LibraryImportResult {
+    added: number;
+    updated: number;
+    skipped: number;
+    failed: Array<{ name: string; error: string }>;
 }
 
 export interface UserConfiguration {
@@ -98,6 +562,8 @@ export interface UserConfiguration {
     icmp_code: string;
     comorbidities: Comorbidity[];
     column_mappings: { [fileName: string]: ColumnMapping[] };
+    // Keyed by sheet name ('' for single-table files), so layouts carry over between extracts like column mappings
+    range_overrides?: { [sheetName: string]: TableRangeOverride };
     created_at: string;
     updated_at: string;
 }
@@ -142,6 +608,8 @@ export interface FileAnalysisResponse {
         processedShape: [number, number];
         emptyRowsRemoved: number;
     };
+    // Present for workbooks with more than one sheet; the first entry matches the top-level fields
+    sheets?: SheetAnalysis[];
 }
 
 export interface ProcessingRequest {
@@ -174,6 +642,7 @@ export interface ColumnConfigurationProps {
     files: File[];
     comorbidities: Comorbidity[];
     onConfigurationChange: (config: FileMetadata[]) => void;
+    presetMappings?: ColumnMapping[] | null;
 }
 
 export interface ComorbidityManagementProps {
@@ -209,12 +678,25 @@ export interface ColumnValidation {
 export type APIEndpoint =
     | 'icmp-codes'
     | 'comorbidities'
+    | 'comorbidity-versions'
+    | 'comorbidity-library'
     | 'analyze-file-structure'
     | 'process-file-enhanced'
+    | 'preview-linkage'
     | 'job-status'
+    | 'job-events'
+    | 'job-definitions'
     | 'download-results'
     | 'configurations'
     | 'save-configuration'
+    | 'adjudications'
+    | 'validate-job'
+    | 'risk-adjustment'
+    | 'trends'
+    | 'control-benchmarks'
+    | 'job-report'
+    | 'job-export'
+    | 'fhir-export'
     | 'dashboard-stats';
 
 // Database schema types (for backend)
@@ -249,6 +731,7 @@ export interface DBUserConfiguration {
     icmp_code: string;
     comorbidities: string; // JSON string
     column_mappings: string; // JSON string
+    range_overrides?: string; // JSON string
     created_at: string;
     updated_at: string;
 }
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SessionUser } from '../../types';
+
+// The log path is read when the module loads, so it is pointed at a scratch file before importing
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-log-'));
+const logPath = path.join(dir, 'audit-log.jsonl');
+let auditLog: typeof import('../auditLog');
+
+const user: SessionUser = { sub: 'u-1', name: 'Ada Clinician', role: 'auditor' };
+
+const append = (action: string, resourceId: string | null = null) => auditLog.appendAuditEntry({
+  user, action, method: 'GET', path: `/api/${action}`, resource_type: resourceId ? 'job' : null, resource_id: resourceId, status: 200
+});
+
+beforeAll(async () => {
+  process.env.AUDIT_LOG_PATH = logPath;
+  auditLog = await import('../auditLog');
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('audit log hash chain', () => {
+  it('chains each appended entry to the one before it, even when appends overlap', async () => {
+    const written = await Promise.all([append('job.results.view', 'job-1'), append('job.delete', 'job-2'), append('audit_log.view')]);
+    expect(written.map(entry => entry.seq)).toEqual([1, 2, 3]);
+    expect(written[0].prev_hash).toBe('0'.repeat(64));
+    expect(written[1].prev_hash).toBe(written[0].hash);
+    expect(written[2].prev_hash).toBe(written[1].hash);
+
+    const { entries, verification } = await auditLog.readAuditLog();
+    expect(verification).toEqual({ valid: true, entries_checked: 3, first_invalid_seq: null, recovered_seqs: [], last_hash: written[2].hash });
+    expect(entries.map(entry => entry.seq)).toEqual([3, 2, 1]);
+  });
+
+  it('filters entries without affecting verification of the whole log', async () => {
+    const { entries, verification } = await auditLog.readAuditLog({ resource_id: 'job-2' });
+    expect(entries.map(entry => entry.action)).toEqual(['job.delete']);
+    expect(verification.valid).toBe(true);
+  });
+
+  it('reports the first entry that was edited', async () => {
+    const { entries } = await auditLog.readAuditLog();
+    const chain = entries.slice().reverse();
+    const edited = chain.map(entry => entry.seq === 2 ? { ...entry, resource_id: 'job-9' } : entry);
+    expect(auditLog.verifyAuditLog(edited)).toMatchObject({ valid: false, entries_checked: 2, first_invalid_seq: 2 });
+  });
+
+  it('reports a removed entry', async () => {
+    const { entries } = await auditLog.readAuditLog();
+    const chain = entries.slice().reverse();
+    expect(auditLog.verifyAuditLog([chain[0], chain[2]])).toMatchObject({ valid: false, first_invalid_seq: 3 });
+  });
+
+  it('records a torn last line in a recovery entry and carries on', async () => {
+    // As after a crash mid-append: a partial line with no newline, read by a freshly started server
+    fs.appendFileSync(logPath, '{"seq":4,"timestamp":"2024-');
+    expect((await auditLog.readAuditLog()).verification).toMatchObject({ valid: false, first_invalid_seq: 4 });
+
+    vi.resetModules();
+    auditLog = await import('../auditLog');
+    const written = await append('job.results.view', 'job-3');
+    expect(written.seq).toBe(5);
+
+    const { entries, verification } = await auditLog.readAuditLog();
+    expect(verification).toMatchObject({ valid: true, recovered_seqs: [4], last_hash: written.hash });
+    const recovery = entries.find(entry => entry.seq === 4)!;
+    expect(recovery).toMatchObject({ action: 'audit_log.recover', user: null, method: 'SYSTEM' });
+    expect(recovery.changes![0].before).toEqual(['{"seq":4,"timestamp":"2024-']);
+  });
+
+  it('does not accept unreadable lines in the middle of the log without a recovery entry', async () => {
+    const { entries } = await auditLog.readAuditLog();
+    const chain = entries.slice().reverse().filter(entry => entry.action !== 'audit_log.recover');
+    const withGap = [chain[0], {} as typeof chain[0], ...chain.slice(1)];
+    expect(auditLog.verifyAuditLog(withGap)).toMatchObject({ valid: false, first_invalid_seq: 2 });
+  });
+
+  it('fails verification when a line in the file is tampered with', async () => {
+    const lines = fs.readFileSync(logPath, 'utf8').trimEnd().split('\n');
+    lines[0] = lines[0].replace('"job-1"', '"job-7"');
+    fs.writeFileSync(logPath, `${lines.join('\n')}\n`);
+    const { verification } = await auditLog.readAuditLog();
+    expect(verification).toMatchObject({ valid: false, first_invalid_seq: 1 });
+  });
+});
+
+describe('describeAction', () => {
+  it('names audited actions and their resource', () => {
+    expect(auditLog.describeAction('job-results/abc%20123', 'GET')).toEqual({ action: 'job.results.view', resource_type: 'job', resource_id: 'abc 123' });
+    expect(auditLog.describeAction('control-benchmarks/JOB-1', 'GET')).toEqual({ action: 'job.control_benchmarks.view', resource_type: 'job', resource_id: 'JOB-1' });
+    expect(auditLog.describeAction('comorbidity-versions/W401/sync', 'POST')).toEqual({ action: 'comorbidity.history.sync', resource_type: 'procedure', resource_id: 'W401' });
+  });
+
+  it('skips progress polling and names unknown routes after the route', () => {
+    expect(auditLog.describeAction('job-status/abc', 'GET')).toBeNull();
+    expect(auditLog.describeAction('health', 'GET')).toEqual({ action: 'health.get', resource_type: null, resource_id: null });
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('matches list records by id and reports changed, added and removed records', () => {
+    const before = [{ id: 1, name: 'Diabetes', enabled: true }, { id: 2, name: 'COPD' }];
+    const after = [{ id: 1, name: 'Diabetes', enabled: false }, { id: 3, name: 'CKD' }];
+    expect(auditLog.diffSnapshots(before, after)).toEqual([
+      { id: '1', field: 'enabled', before: true, after: false },
+      { id: '2', field: '*', before: { id: 2, name: 'COPD' }, after: null },
+      { id: '3', field: '*', before: null, after: { id: 3, name: 'CKD' } }
+    ]);
+  });
+
+  it('is empty when nothing changed', () => {
+    expect(auditLog.diffSnapshots({ id: 1, a: [1, 2] }, { id: 1, a: [1, 2] })).toEqual([]);
+  });
+});
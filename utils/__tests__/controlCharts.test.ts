@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { buildControlChart, CONTROL_OUTCOMES, DEFAULT_CONTROL_SETTINGS, orderPatients, pooledBenchmark } from '../controlCharts';
+
+const patient = (row: number, outcome: 'failure' | 'success' | null, extra: Record<string, unknown> = {}) =>
+  ({ patient_id: row, source_rows: [{ row_number: row }], surgery_outcome: outcome, ...extra });
+
+const settings = { ...DEFAULT_CONTROL_SETTINGS, target_rate: 0.1 };
+
+describe('buildControlChart', () => {
+  it('accumulates the Bernoulli CUSUM and alarms once the limit is crossed', () => {
+    const patients = Array.from({ length: 9 }, (_, i) => patient(i + 1, 'failure'));
+    const series = buildControlChart(patients, CONTROL_OUTCOMES.surgery, settings);
+
+    // ln(2) - ln(1 - 0.1 + 2 * 0.1) per failure
+    const failureWeight = Math.log(2) - Math.log(1.1);
+    expect(series.points[0].cusum).toBeCloseTo(failureWeight, 10);
+    expect(series.cusum_alarms.map(point => point.index)).toEqual([8]);
+    // The CUSUM restarts after an alarm
+    expect(series.points[8].cusum).toBeCloseTo(failureWeight, 10);
+  });
+
+  it('decays the CUSUM on successes but never below zero', () => {
+    const series = buildControlChart([patient(1, 'failure'), patient(2, 'success'), patient(3, 'success')], CONTROL_OUTCOMES.surgery, settings);
+    expect(series.points[1].cusum).toBeCloseTo(Math.log(2) - 2 * Math.log(1.1), 10);
+    expect(series.points[2].cusum).toBeGreaterThanOrEqual(0);
+    expect(series.points.every(point => point.cusum >= 0)).toBe(true);
+  });
+
+  it('tracks VLAD as expected minus observed events and flags only the first point past the limit', () => {
+    const patients = Array.from({ length: 8 }, (_, i) => patient(i + 1, 'failure'));
+    const series = buildControlChart(patients, CONTROL_OUTCOMES.surgery, { ...settings, cusum_limit: 100 });
+    expect(series.points[7].vlad).toBeCloseTo(8 * (0.1 - 1), 10);
+    // -0.9 per failure passes -5 at the sixth patient
+    expect(series.vlad_alarms.map(point => point.index)).toEqual([6]);
+  });
+
+  it('leaves patients with an unknown outcome off the chart', () => {
+    const series = buildControlChart([patient(1, 'failure'), patient(2, null), patient(3, 'success')], CONTROL_OUTCOMES.surgery, settings);
+    expect(series.points.map(point => point.label)).toEqual(['Row 1', 'Row 3']);
+  });
+
+  it('prefers a configured target, then the pooled benchmark, then the job rate', () => {
+    const patients = [patient(1, 'failure'), patient(2, 'success'), patient(3, 'success'), patient(4, 'success')];
+
+    const configured = buildControlChart(patients, CONTROL_OUTCOMES.surgery, settings, 0.3);
+    expect(configured).toMatchObject({ target_rate: 0.1, target_source: 'configured' });
+
+    const pooled = buildControlChart(patients, CONTROL_OUTCOMES.surgery, DEFAULT_CONTROL_SETTINGS, 0.3);
+    expect(pooled).toMatchObject({ target_rate: 0.3, target_source: 'pooled' });
+
+    const own = buildControlChart(patients, CONTROL_OUTCOMES.surgery, DEFAULT_CONTROL_SETTINGS);
+    expect(own).toMatchObject({ target_rate: 0.25, target_source: 'job' });
+    // Against its own rate a job's VLAD always ends back at zero
+    expect(own.points[own.points.length - 1].vlad).toBeCloseTo(0, 10);
+  });
+});
+
+describe('pooledBenchmark', () => {
+  it('pools events over the patients of jobs with known outcomes', () => {
+    const benchmark = pooledBenchmark([
+      { patient_summaries: [patient(1, 'failure'), patient(2, 'success')] },
+      { patient_summaries: [patient(1, 'success'), patient(2, 'success'), patient(3, null)] },
+      { patient_summaries: [patient(1, null)] }
+    ], CONTROL_OUTCOMES.surgery);
+    expect(benchmark).toEqual({ rate: 0.25, events: 1, patients: 4, jobs: 2 });
+  });
+
+  it('is null when no job has a known outcome', () => {
+    expect(pooledBenchmark([{ patient_summaries: [patient(1, null)] }], CONTROL_OUTCOMES.surgery)).toBeNull();
+    expect(pooledBenchmark([], CONTROL_OUTCOMES.mortality)).toBeNull();
+  });
+});
+
+describe('orderPatients', () => {
+  it('orders by procedure date when most patients have one, undated patients last', () => {
+    const { ordered, basis } = orderPatients([
+      patient(1, 'success', { procedure_date: '2024-03-01' }),
+      patient(2, 'success'),
+      patient(3, 'success', { procedure_date: '2024-01-15' })
+    ]);
+    expect(basis).toBe('procedure_date');
+    expect(ordered.map(p => p.patient_id)).toEqual([3, 1, 2]);
+  });
+
+  it('falls back to row order when few patients are dated', () => {
+    const { ordered, basis } = orderPatients([
+      patient(3, 'success'),
+      patient(1, 'success', { procedure_date: '2024-03-01' }),
+      patient(2, 'success'),
+      patient(4, 'success')
+    ]);
+    expect(basis).toBe('row_order');
+    expect(ordered.map(p => p.patient_id)).toEqual([1, 2, 3, 4]);
+  });
+});
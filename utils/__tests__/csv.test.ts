@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { csvCell, unguardFormula } from '../csv';
+
+describe('csvCell', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(csvCell('plain')).toBe('plain');
+    expect(csvCell('a,b')).toBe('"a,b"');
+    expect(csvCell('say "no"')).toBe('"say ""no"""');
+    expect(csvCell('line\nbreak')).toBe('"line\nbreak"');
+    expect(csvCell(null)).toBe('');
+    expect(csvCell({ field: 'x' })).toBe('"{""field"":""x""}"');
+  });
+
+  it('stops spreadsheets running text as a formula', () => {
+    expect(csvCell('=HYPERLINK("http://example.com","click")')).toBe('"\'=HYPERLINK(""http://example.com"",""click"")"');
+    expect(csvCell('-ve troponin')).toBe("'-ve troponin");
+    expect(csvCell('+44 20 7946 0000')).toBe("'+44 20 7946 0000");
+    expect(csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvCell('\tindented')).toBe("'\tindented");
+  });
+
+  it('leaves numbers alone, and formulas when the guard is off', () => {
+    expect(csvCell(-2.5)).toBe('-2.5');
+    expect(csvCell('=1+1', false)).toBe('=1+1');
+  });
+});
+
+describe('unguardFormula', () => {
+  it('removes only the apostrophe that csvCell added', () => {
+    expect(unguardFormula("'-ve troponin")).toBe('-ve troponin');
+    expect(unguardFormula("'quoted remark")).toBe("'quoted remark");
+    expect(unguardFormula("'")).toBe("'");
+  });
+});
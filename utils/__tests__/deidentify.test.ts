@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createDeidentificationKey, deidentifyReferenceRows, deidentifyValue, detectIdentifierKind, isValidNhsNumber, pseudonymFor, redactText
+} from '../deidentify';
+
+const newKey = (secret = 'test-secret') => createDeidentificationKey(secret);
+
+describe('isValidNhsNumber', () => {
+  it('accepts numbers whose modulus 11 check digit matches, with or without separators', () => {
+    expect(isValidNhsNumber('9434765919')).toBe(true);
+    expect(isValidNhsNumber('943 476 5919')).toBe(true);
+    expect(isValidNhsNumber('943-476-5919')).toBe(true);
+  });
+
+  it('rejects a wrong check digit and anything that is not ten digits', () => {
+    expect(isValidNhsNumber('9434765918')).toBe(false);
+    expect(isValidNhsNumber('1234567890')).toBe(false);
+    expect(isValidNhsNumber('943476591')).toBe(false);
+  });
+});
+
+describe('pseudonymFor', () => {
+  it('gives the same value the same pseudonym and different values different ones', () => {
+    const key = newKey();
+    const first = pseudonymFor(key, 'name', 'Jane Doe');
+    expect(first).toMatch(/^NAME-[0-9A-F]{16}$/);
+    expect(pseudonymFor(key, 'name', '  jane   DOE ')).toBe(first);
+    expect(pseudonymFor(key, 'name', 'John Roe')).not.toBe(first);
+    expect(key.originals[first]).toBe('Jane Doe');
+  });
+
+  it('derives pseudonyms from the secret, not from what this key has seen before', () => {
+    // Two browsers of one deployment, seeing patients in a different order
+    const first = newKey();
+    const second = newKey();
+    pseudonymFor(second, 'mrn', 'AB99999');
+    expect(pseudonymFor(second, 'mrn', 'AB12345')).toBe(pseudonymFor(first, 'mrn', 'AB12345'));
+    expect(pseudonymFor(newKey('other-deployment'), 'mrn', 'AB12345')).not.toBe(pseudonymFor(first, 'mrn', 'AB12345'));
+  });
+
+  it('links hospital numbers that are valid NHS numbers to the NHS number pseudonym', () => {
+    const key = newKey();
+    const nhs = pseudonymFor(key, 'nhs_number', '943 476 5919');
+    expect(nhs).toMatch(/^NHS-/);
+    expect(pseudonymFor(key, 'mrn', '9434765919')).toBe(nhs);
+    expect(pseudonymFor(key, 'mrn', 'ab-12345')).toBe(pseudonymFor(key, 'mrn', 'AB12345'));
+  });
+});
+
+describe('deidentifyValue', () => {
+  it('keeps only the year of a date of birth and the outward code of a postcode', () => {
+    const key = newKey();
+    expect(deidentifyValue(key, 'date_of_birth', '12/03/1950')).toBe('1950');
+    expect(deidentifyValue(key, 'date_of_birth', 'unknown')).toBe('[DOB]');
+    expect(deidentifyValue(key, 'postcode', 'sw1a 1aa')).toBe('SW1A');
+    expect(deidentifyValue(key, 'postcode', 'somewhere')).toBe('[POSTCODE]');
+  });
+
+  it('masks contact details and leaves blank cells alone', () => {
+    const key = newKey();
+    expect(deidentifyValue(key, 'email', 'jane@example.com')).toBe('[EMAIL]');
+    expect(deidentifyValue(key, 'address', '1 High Street')).toBe('[ADDRESS]');
+    expect(deidentifyValue(key, 'phone', '  ')).toBe('  ');
+  });
+});
+
+describe('detectIdentifierKind', () => {
+  it('recognises identifier columns by name', () => {
+    expect(detectIdentifierKind('NHS No', [])).toBe('nhs_number');
+    expect(detectIdentifierKind('Date of Birth', [])).toBe('date_of_birth');
+    expect(detectIdentifierKind('Hospital Number', [])).toBe('mrn');
+    expect(detectIdentifierKind('Surname', [])).toBe('name');
+  });
+
+  it('does not flag consultant or procedure names', () => {
+    expect(detectIdentifierKind('Consultant Name', ['Mr A Surgeon'])).toBeNull();
+    expect(detectIdentifierKind('Procedure Name', ['Hip replacement'])).toBeNull();
+  });
+
+  it('falls back to the values when the column name says nothing', () => {
+    expect(detectIdentifierKind('Ref', ['9434765919', '4010232137', ''])).toBe('nhs_number');
+    expect(detectIdentifierKind('Contact', ['a@example.com', 'b@example.org'])).toBe('email');
+    expect(detectIdentifierKind('Area', ['SW1A 1AA', 'M1 1AE'])).toBe('postcode');
+    expect(detectIdentifierKind('Ref', ['1234567890', '42'])).toBeNull();
+  });
+});
+
+describe('redactText', () => {
+  it('replaces known identifiers from the row, including parts of names', () => {
+    const key = newKey();
+    const text = redactText('JANE DOE reviewed on the ward; Mrs Doe is stable. Seen with Doe, Jane.', key, [{ kind: 'name', value: 'Jane Doe' }]);
+    const name = pseudonymFor(key, 'name', 'Jane Doe');
+    expect(text).toBe(`${name} reviewed on the ward; Mrs ${name} is stable. Seen with ${name}.`);
+  });
+
+  it('only replaces parts of a name where they read as a name', () => {
+    const key = newKey();
+    const known = [{ kind: 'name' as const, value: 'May Heart' }];
+    const name = pseudonymFor(key, 'name', 'May Heart');
+    expect(redactText('Known heart failure. Heart rate 80, may need review in May.', key, known))
+      .toBe('Known heart failure. Heart rate 80, may need review in May.');
+    expect(redactText('Mr Heart seen; heart failure stable', key, known)).toBe(`Mr ${name} seen; heart failure stable`);
+    expect(redactText('Heart failure', key, [{ kind: 'name', value: 'Heart' }])).toBe('Heart failure');
+  });
+
+  it('recognises titled names, labelled dates of birth, NHS numbers and contact details', () => {
+    const key = newKey();
+    const text = redactText(
+      'Seen by Mr John Smith, DOB: 12/03/1950, NHS 943 476 5919. Email jane@example.com, tel 07700 900123, postcode SW1A 1AA.',
+      key
+    );
+    expect(text).not.toMatch(/John|Smith|12\/03\/1950|943 476 5919|jane@example\.com|07700|1AA/);
+    expect(text).toContain(`Mr ${pseudonymFor(key, 'name', 'John Smith')}`);
+    expect(text).toContain('DOB: [DOB]');
+    expect(text).toContain(pseudonymFor(key, 'nhs_number', '9434765919'));
+    expect(text).toContain('[EMAIL]');
+    expect(text).toContain('[PHONE]');
+    expect(text).toContain('SW1A [POSTCODE]');
+  });
+
+  it('leaves ten-digit numbers that are not NHS numbers and existing pseudonyms untouched', () => {
+    const key = newKey();
+    expect(redactText('Batch 1234567890 used', key)).toBe('Batch 1234567890 used');
+    expect(redactText('Reviewed by Dr NAME-00004', key)).toBe('Reviewed by Dr NAME-00004');
+    const mrn = pseudonymFor(key, 'mrn', 'AB12345');
+    expect(redactText(`Hospital no ${mrn}, previously MRN-00001`, key)).toBe(`Hospital no ${mrn}, previously MRN-00001`);
+  });
+
+  it('uses the same pseudonyms as the identifier columns', () => {
+    const key = newKey();
+    const column = deidentifyValue(key, 'nhs_number', '9434765919');
+    expect(redactText('NHS number 943-476-5919 confirmed', key)).toBe(`NHS number ${column} confirmed`);
+  });
+});
+
+describe('deidentifyReferenceRows', () => {
+  const rows = [
+    { patient_id: 5, 'Patient Name': 'Jane Doe', Comorbidity: 'Diabetes', Note: 'Jane Doe on insulin' },
+    { patient_id: 12, 'Patient Name': 'John Roe', Comorbidity: 'COPD', Note: '' }
+  ];
+
+  it('leaves the row numbers of unlinked jobs alone, even though the column looks like a patient number', () => {
+    const key = newKey();
+    const redacted = deidentifyReferenceRows(rows, key, 'patient_id', false);
+    expect(redacted.map(row => row.patient_id)).toEqual([5, 12]);
+    expect(redacted[0]['Patient Name']).toBe(pseudonymFor(key, 'name', 'Jane Doe'));
+    expect(redacted[0].Note).toBe(`${pseudonymFor(key, 'name', 'Jane Doe')} on insulin`);
+    expect(redacted[1].Comorbidity).toBe('COPD');
+  });
+
+  it('pseudonymises the IDs of linked jobs like the linkage keys', () => {
+    const key = newKey();
+    const redacted = deidentifyReferenceRows([{ MRN: 'AB12345', Comorbidity: 'Diabetes' }], key, 'MRN', true);
+    expect(redacted[0].MRN).toBe(pseudonymFor(key, 'mrn', 'AB12345'));
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { buildRiskAdjustmentReport, fitLogistic, funnelLimits, observedExpectedInterval } from '../riskAdjustment';
+
+// n patients with the given covariate value, the first `events` of them with the outcome
+const group = (n: number, events: number, value: number) =>
+  Array.from({ length: n }, (_, i) => ({ x: [value], y: i < events ? 1 : 0 }));
+
+describe('fitLogistic', () => {
+  it('fits the crude log-odds when there are no covariates', () => {
+    const y = [1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+    const { beta, converged } = fitLogistic(y.map(() => []), y);
+    expect(converged).toBe(true);
+    expect(beta[0]).toBeCloseTo(Math.log(3 / 7), 8);
+  });
+
+  it('recovers the log odds ratio of a binary covariate', () => {
+    const data = [...group(10, 6, 1), ...group(10, 2, 0)];
+    const { beta, covariance, converged } = fitLogistic(data.map(row => row.x), data.map(row => row.y));
+    expect(converged).toBe(true);
+    expect(beta[0]).toBeCloseTo(Math.log(2 / 8), 1);
+    // Odds ratio (6/4) / (2/8) = 6, shrunk very slightly by the ridge penalty
+    expect(beta[1]).toBeCloseTo(Math.log(6), 1);
+    expect(beta[1]).toBeLessThan(Math.log(6));
+    expect(covariance![1][1]).toBeGreaterThan(0);
+  });
+
+  it('stays finite under complete separation', () => {
+    const data = [...group(8, 8, 1), ...group(8, 0, 0)];
+    const { beta } = fitLogistic(data.map(row => row.x), data.map(row => row.y));
+    expect(beta.every(Number.isFinite)).toBe(true);
+  });
+});
+
+describe('observedExpectedInterval', () => {
+  it("approximates the exact Poisson interval with Byar's method", () => {
+    const { lower, upper } = observedExpectedInterval(10, 10);
+    // Exact Poisson limits for 10 events: 4.795 and 18.39
+    expect(lower).toBeCloseTo(0.479, 2);
+    expect(upper).toBeCloseTo(1.839, 2);
+  });
+
+  it('has a zero lower limit with no deaths and no interval without expected deaths', () => {
+    expect(observedExpectedInterval(0, 2).lower).toBe(0);
+    expect(observedExpectedInterval(3, 0)).toEqual({ lower: null, upper: null });
+  });
+});
+
+describe('funnelLimits', () => {
+  it('narrows around O/E = 1 as expected deaths grow', () => {
+    const limits = funnelLimits(50);
+    const first = limits[0];
+    const last = limits[limits.length - 1];
+    expect(last.expected).toBeCloseTo(55, 6);
+    expect(last.upper_95 - last.lower_95).toBeLessThan(first.upper_95 - first.lower_95);
+    expect(last.upper_998).toBeGreaterThan(last.upper_95);
+    limits.forEach(limit => expect(limit.lower_998).toBeGreaterThanOrEqual(0));
+  });
+});
+
+describe('buildRiskAdjustmentReport', () => {
+  const patients = (count: number, deaths: number, age: number) =>
+    Array.from({ length: count }, (_, i) => ({ age: age + (i % 5), mortality_status: i < deaths ? 'deceased' : 'alive' }));
+
+  it('balances expected against observed deaths overall', () => {
+    const report = buildRiskAdjustmentReport([
+      { job_id: 'a', procedure_code: 'P1', patient_summaries: patients(30, 6, 70) },
+      { job_id: 'b', procedure_code: 'P1', patient_summaries: patients(30, 2, 50) }
+    ], ['age']);
+
+    expect(report.converged).toBe(true);
+    expect(report.patients).toBe(60);
+    expect(report.deaths).toBe(8);
+    expect(report.coefficients.map(coefficient => coefficient.term)).toEqual(['Intercept', 'Age (per 10 years)']);
+    // The intercept is unpenalised, so the fitted probabilities sum to the observed deaths
+    const expected = report.by_job.reduce((sum, job) => sum + job.expected, 0);
+    expect(expected).toBeCloseTo(8, 6);
+    expect(report.by_procedure).toHaveLength(1);
+    expect(report.by_procedure[0].ratio).toBeCloseTo(1, 6);
+  });
+
+  it('refuses to fit without both outcomes', () => {
+    const report = buildRiskAdjustmentReport([{ job_id: 'a', patient_summaries: patients(10, 0, 60) }], ['age']);
+    expect(report.converged).toBe(false);
+    expect(report.coefficients).toEqual([]);
+    expect(report.warnings).toContain('The model needs both deceased and surviving patients across the selected jobs.');
+  });
+});
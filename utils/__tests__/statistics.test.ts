@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { associationTest, chiSquareTest, fisherExactTest, wilsonInterval } from '../statistics';
+
+describe('wilsonInterval', () => {
+  it('matches the published 95% interval for 10/20', () => {
+    const interval = wilsonInterval(10, 20);
+    expect(interval.rate).toBe(50);
+    expect(interval.lower).toBeCloseTo(29.93, 2);
+    expect(interval.upper).toBeCloseTo(70.07, 2);
+  });
+
+  it('keeps sensible bounds at 0% and 100%', () => {
+    const none = wilsonInterval(0, 10);
+    expect(none.lower).toBe(0);
+    expect(none.upper).toBeCloseTo(27.75, 2);
+
+    const all = wilsonInterval(10, 10);
+    expect(all.upper).toBeCloseTo(100, 6);
+    expect(all.lower).toBeCloseTo(72.25, 2);
+  });
+
+  it('flags small samples and handles an empty denominator', () => {
+    expect(wilsonInterval(3, 8).small_sample).toBe(true);
+    expect(wilsonInterval(50, 100).small_sample).toBe(false);
+    expect(wilsonInterval(0, 0)).toEqual({ events: 0, total: 0, rate: 0, lower: 0, upper: 0, small_sample: true });
+  });
+});
+
+describe('fisherExactTest', () => {
+  it('reproduces the lady tasting tea p-value', () => {
+    expect(fisherExactTest(3, 1, 1, 3)).toBeCloseTo(0.4857, 4);
+  });
+
+  it('gives the two-sided p-value for an unbalanced table', () => {
+    expect(fisherExactTest(8, 2, 1, 5)).toBeCloseTo(0.03497, 4);
+  });
+
+  it('returns 1 when there is no association', () => {
+    expect(fisherExactTest(5, 5, 5, 5)).toBeCloseTo(1, 6);
+  });
+});
+
+describe('chiSquareTest', () => {
+  it('matches the Pearson statistic with one degree of freedom', () => {
+    // Statistic 6.667
+    expect(chiSquareTest(10, 20, 20, 10)).toBeCloseTo(0.00982, 4);
+  });
+
+  it('returns 1 for a table with an empty margin', () => {
+    expect(chiSquareTest(0, 0, 5, 5)).toBe(1);
+  });
+});
+
+describe('associationTest', () => {
+  it('uses chi-square for large cells and reports the Woolf interval', () => {
+    const result = associationTest(20, 30, 10, 30);
+    expect(result.test).toBe('chi_square');
+    expect(result.odds_ratio).toBeCloseTo(4, 6);
+    expect(result.or_lower).toBeCloseTo(1.367, 3);
+    expect(result.or_upper).toBeCloseTo(11.70, 2);
+    expect(result.significant).toBe(true);
+  });
+
+  it('falls back to Fisher for small expected counts', () => {
+    const result = associationTest(3, 4, 1, 4);
+    expect(result.test).toBe('fisher');
+    expect(result.p_value).toBeCloseTo(0.4857, 4);
+    expect(result.small_sample).toBe(true);
+  });
+
+  it('applies the Haldane correction to a zero cell', () => {
+    const result = associationTest(5, 5, 2, 10);
+    // (5.5 * 8.5) / (0.5 * 2.5)
+    expect(result.odds_ratio).toBeCloseTo(37.4, 1);
+  });
+
+  it('has no odds ratio when a group is empty', () => {
+    const result = associationTest(0, 0, 2, 10);
+    expect(result.odds_ratio).toBeNull();
+  });
+});
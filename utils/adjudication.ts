@@ -0,0 +1,41 @@
+// utils/adjudication.ts
+// Stable identifiers for the findings a clinician can adjudicate. Shared by the
+// API route (which applies decisions) and the dashboard (which records them).
+
+interface MatchLike {
+  file_name?: string | null;
+  row_number: number;
+  column_name: string;
+  comorbidity_id?: string;
+  comorbidity_name: string;
+}
+
+interface PatientLike {
+  patient_id: number;
+  file_name?: string | null;
+  patient_key?: string | null;
+}
+
+export function matchTargetId(match: MatchLike): string {
+  return [match.file_name || '', match.row_number, match.column_name, match.comorbidity_id || match.comorbidity_name].join(':');
+}
+
+export function patientTargetId(patient: PatientLike): string {
+  return patient.patient_key ? `key:${patient.patient_key}` : `${patient.file_name || ''}:${patient.patient_id}`;
+}
+
+interface PatientRowsLike extends PatientLike {
+  source_rows?: Array<{ file_name?: string | null; row_number: number }>;
+}
+
+// Matches carry the source row number, which is the patient_id of an unlinked summary;
+// linked summaries list every row they were merged from in source_rows.
+export function matchesForPatient<T extends MatchLike>(patient: PatientRowsLike, matches: T[]): T[] {
+  const rows = patient.source_rows || [{ file_name: patient.file_name, row_number: patient.patient_id }];
+  return matches.filter(match =>
+    rows.some(row =>
+      row.row_number === match.row_number &&
+      (!row.file_name || !match.file_name || row.file_name === match.file_name)
+    )
+  );
+}
@@ -0,0 +1,282 @@
+// utils/auditLog.ts
+// Append-only, hash-chained log of API actions: who did what to which job or definition, and what
+// changed. Each entry's hash covers the previous hash, so editing or removing a line breaks the chain.
+// Removing lines from the end leaves a shorter chain that is still valid; only a head hash recorded
+// outside the log (see AuditLogVerification.last_hash) can show that. Server-side only.
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { AuditChange, AuditLogEntry, AuditLogVerification, SessionUser } from '../types';
+import { csvCell } from './csv';
+
+const AUDIT_LOG_PATH = process.env.AUDIT_LOG_PATH || path.join(process.cwd(), 'data', 'audit-log.jsonl');
+const GENESIS_HASH = '0'.repeat(64);
+// Written before the next entry when the log ends in lines that no longer parse, e.g. after a crash mid-append
+const RECOVERY_ACTION = 'audit_log.recover';
+
+// Progress polling carries no patient data and would drown out everything else
+const UNAUDITED_PATHS = [/^auth\//, /^job-status\//, /^job-events\//];
+
+// [path pattern (first group is the resource ID), method, action, resource type]
+const ACTION_RULES: Array<[RegExp, string, string, string | null]> = [
+  [/^job-results\/([^/]+)/, 'GET', 'job.results.view', 'job'],
+  [/^download-results\/([^/]+)/, 'GET', 'job.results.download', 'job'],
+  [/^job-report\/([^/]+)/, 'GET', 'job.report.download', 'job'],
+  [/^job-export\/([^/]+)$/, 'GET', 'job.export.download', 'job'],
+  [/^fhir-export\/([^/]+)/, 'GET', 'job.fhir_export.download', 'job'],
+  [/^jobs\/([^/]+)/, 'DELETE', 'job.delete', 'job'],
+  [/^validate-job\/([^/]+)/, 'POST', 'job.validate', 'job'],
+  [/^job-definitions\/([^/]+)/, 'GET', 'job.definitions.view', 'job'],
+  [/^control-benchmarks\/([^/]+)/, 'GET', 'job.control_benchmarks.view', 'job'],
+  [/^(process-file-enhanced|process-file)$/, 'POST', 'job.create', null],
+  [/^adjudications\/([^/]+)/, 'GET', 'adjudication.view', 'job'],
+  [/^adjudications\/([^/]+)/, 'POST', 'adjudication.record', 'job'],
+  [/^adjudications\/([^/]+)/, 'DELETE', 'adjudication.delete', 'job'],
+  [/^comorbidities\/[^/]+\/([^/]+)/, 'PUT', 'comorbidity.update', 'comorbidity'],
+  [/^comorbidities\/[^/]+\/([^/]+)/, 'DELETE', 'comorbidity.delete', 'comorbidity'],
+  [/^comorbidities\/([^/]+)$/, 'POST', 'comorbidity.create', 'procedure'],
+  [/^comorbidities\/([^/]+)$/, 'GET', 'comorbidity.list', 'procedure'],
+  [/^comorbidity-versions\/[^/]+\/([^/]+)\/restore$/, 'POST', 'comorbidity.restore', 'comorbidity'],
+  [/^comorbidity-versions\/([^/]+)$/, 'GET', 'comorbidity.history.view', 'procedure'],
+  [/^comorbidity-versions\/([^/]+)\/sync$/, 'POST', 'comorbidity.history.sync', 'procedure'],
+  [/^comorbidity-library\/([^/]+)$/, 'GET', 'comorbidity.library.export', 'procedure'],
+  [/^comorbidity-library\/([^/]+)$/, 'POST', 'comorbidity.library.import', 'procedure'],
+  [/^configurations\/([^/]+)/, 'PUT', 'configuration.update', 'configuration'],
+  [/^configurations\/([^/]+)/, 'DELETE', 'configuration.delete', 'configuration'],
+  [/^(save-configuration)$/, 'POST', 'configuration.create', null],
+  [/^(configurations)$/, 'GET', 'configuration.list', null],
+  [/^upload\/([^/]+)/, 'POST', 'reference_file.upload', 'reference_file'],
+  [/^audit-log\/export/, 'GET', 'audit_log.export', null],
+  [/^audit-log/, 'GET', 'audit_log.view', null]
+];
+
+export interface AuditedAction {
+  action: string;
+  resource_type: string | null;
+  resource_id: string | null;
+}
+
+/** How a request is recorded, or null for requests that are not audited. */
+export function describeAction(apiPath: string, method: string): AuditedAction | null {
+  if (UNAUDITED_PATHS.some(pattern => pattern.test(apiPath))) return null;
+  for (const [pattern, ruleMethod, action, resourceType] of ACTION_RULES) {
+    const match = apiPath.match(pattern);
+    if (match && ruleMethod === method) {
+      return { action, resource_type: resourceType, resource_id: resourceType && match[1] ? decodeURIComponent(match[1]) : null };
+    }
+  }
+  // Anything else is still recorded, named after the route
+  return { action: `${apiPath.split('/')[0] || 'api'}.${method.toLowerCase()}`, resource_type: null, resource_id: null };
+}
+
+const recordId = (record: any): string | null =>
+  record && typeof record === 'object' && (record.id ?? record.target_id) != null ? String(record.id ?? record.target_id) : null;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-level differences between two snapshots of a resource. Lists are matched on each
+ * record's `id` (or `target_id`); added and removed records appear whole, with field '*'.
+ */
+export function diffSnapshots(before: unknown, after: unknown): AuditChange[] {
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const beforeById = new Map((Array.isArray(before) ? before : []).map(record => [recordId(record), record]));
+    const afterById = new Map((Array.isArray(after) ? after : []).map(record => [recordId(record), record]));
+    const ids = Array.from(new Set([...Array.from(beforeById.keys()), ...Array.from(afterById.keys())]));
+    return ids.flatMap(id => diffRecord(id, beforeById.get(id), afterById.get(id)));
+  }
+  return diffRecord(recordId(before) || recordId(after), before, after);
+}
+
+function diffRecord(id: string | null, before: any, after: any): AuditChange[] {
+  if (same(before, after)) return [];
+  if (before == null || after == null || typeof before !== 'object' || typeof after !== 'object') {
+    return [{ id, field: '*', before: before ?? null, after: after ?? null }];
+  }
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return fields
+    .filter(field => !same(before[field], after[field]))
+    .map(field => ({ id, field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+const entryHash = (prevHash: string, entry: Omit<AuditLogEntry, 'hash'>) =>
+  crypto.createHash('sha256').update(prevHash).update(JSON.stringify(entry)).digest('hex');
+
+interface ChainHead {
+  seq: number;
+  hash: string;
+  // Lines after the last readable entry, which the next append has to account for
+  unreadable: string[];
+  endsWithNewline: boolean;
+}
+
+let chainHead: Promise<ChainHead> | null = null;
+
+function parseEntry(line: string): AuditLogEntry | null {
+  try {
+    const entry = JSON.parse(line);
+    return entry && typeof entry.hash === 'string' ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+// Sequence number and hash of the last readable entry, read from the end of the file
+async function readChainHead(): Promise<ChainHead> {
+  const content = await fs.promises.readFile(AUDIT_LOG_PATH, 'utf8').catch(() => '');
+  const lines = content.split('\n').filter(Boolean);
+  const endsWithNewline = content === '' || content.endsWith('\n');
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const entry = parseEntry(lines[index]);
+    if (entry) return { seq: entry.seq, hash: entry.hash, unreadable: lines.slice(index + 1), endsWithNewline };
+  }
+  return { seq: 0, hash: GENESIS_HASH, unreadable: lines, endsWithNewline };
+}
+
+type UnsignedEntry = Omit<AuditLogEntry, 'seq' | 'timestamp' | 'prev_hash' | 'hash'>;
+
+function signEntry(head: { seq: number; hash: string }, entry: UnsignedEntry): AuditLogEntry {
+  const unsigned: Omit<AuditLogEntry, 'hash'> = { seq: head.seq + 1, timestamp: new Date().toISOString(), ...entry, prev_hash: head.hash };
+  return { ...unsigned, hash: entryHash(head.hash, unsigned) };
+}
+
+/**
+ * Appends an entry to the log. Appends are serialised so concurrent requests cannot fork the
+ * chain; the file is only ever opened for appending. If the log ends in unreadable lines (a torn
+ * write), a recovery entry recording them is chained to the last readable entry first, so logging
+ * carries on and the break stays visible when the chain is checked.
+ */
+export function appendAuditEntry(entry: {
+  user: SessionUser | null;
+  action: string;
+  method: string;
+  path: string;
+  resource_type: string | null;
+  resource_id: string | null;
+  status: number;
+  changes?: AuditChange[] | null;
+}): Promise<AuditLogEntry> {
+  const previous = chainHead || readChainHead();
+  const appended = previous.then(async head => {
+    const lines: AuditLogEntry[] = [];
+    if (head.unreadable.length > 0) {
+      lines.push(signEntry(head, {
+        user: null,
+        action: RECOVERY_ACTION,
+        method: 'SYSTEM',
+        path: '',
+        resource_type: null,
+        resource_id: null,
+        status: 0,
+        changes: [{ id: null, field: 'unreadable_lines', before: head.unreadable, after: null }]
+      }));
+      console.error(`--- [AUDIT] The audit log ended in ${head.unreadable.length} unreadable line(s); recorded them in recovery entry ${lines[0].seq} ---`);
+    }
+    const written = signEntry(lines[0] || head, {
+      user: entry.user ? { sub: entry.user.sub, name: entry.user.name, role: entry.user.role } : null,
+      action: entry.action,
+      method: entry.method,
+      path: entry.path,
+      resource_type: entry.resource_type,
+      resource_id: entry.resource_id,
+      status: entry.status,
+      changes: entry.changes && entry.changes.length > 0 ? entry.changes : null
+    });
+    lines.push(written);
+    const text = lines.map(line => `${JSON.stringify(line)}\n`).join('');
+    await fs.promises.mkdir(path.dirname(AUDIT_LOG_PATH), { recursive: true });
+    // A torn last line has no newline; the next entry must not run on from it
+    await fs.promises.appendFile(AUDIT_LOG_PATH, head.endsWithNewline ? text : `\n${text}`, { flag: 'a' });
+    return written;
+  });
+  // A failed write leaves the head where it was; the next append re-reads it from the file
+  chainHead = appended.then(
+    written => ({ seq: written.seq, hash: written.hash, unreadable: [], endsWithNewline: true }),
+    () => readChainHead()
+  );
+  return appended;
+}
+
+export interface AuditLogFilters {
+  user?: string;
+  action?: string;
+  resource_id?: string;
+  from?: string;
+  to?: string;
+}
+
+const recoveredLineCount = (entry: AuditLogEntry): number => {
+  const recorded = entry.changes?.find(change => change.field === 'unreadable_lines')?.before;
+  return Array.isArray(recorded) ? recorded.length : 0;
+};
+
+/**
+ * Recomputes every hash in order; the first entry that does not chain is reported. Unreadable
+ * lines (parsed as empty entries) are only accepted when a recovery entry accounting for exactly
+ * those lines follows them; an unreadable tail with no recovery entry yet is reported too.
+ */
+export function verifyAuditLog(entries: AuditLogEntry[]): AuditLogVerification {
+  let prevHash = GENESIS_HASH;
+  let expectedSeq = 1;
+  let unreadable = 0;
+  const recovered: number[] = [];
+  const broken = (checked: number, seq: number = expectedSeq): AuditLogVerification =>
+    ({ valid: false, entries_checked: checked, first_invalid_seq: seq, recovered_seqs: recovered, last_hash: null });
+
+  for (let index = 0; index < entries.length; index++) {
+    const { hash, ...unsigned } = entries[index];
+    if (!hash) {
+      unreadable++;
+      continue;
+    }
+    if (unreadable > 0) {
+      if (unsigned.action !== RECOVERY_ACTION || recoveredLineCount(entries[index]) !== unreadable) return broken(index + 1);
+      recovered.push(unsigned.seq);
+      unreadable = 0;
+    }
+    if (unsigned.prev_hash !== prevHash || unsigned.seq !== expectedSeq || entryHash(prevHash, unsigned) !== hash) {
+      return broken(index + 1, unsigned.seq);
+    }
+    prevHash = hash;
+    expectedSeq++;
+  }
+  if (unreadable > 0) return broken(entries.length);
+  return {
+    valid: true,
+    entries_checked: entries.length,
+    first_invalid_seq: null,
+    recovered_seqs: recovered,
+    last_hash: prevHash === GENESIS_HASH ? null : prevHash
+  };
+}
+
+/** The whole log, verified, with the entries that match the filters (newest first). */
+export async function readAuditLog(filters: AuditLogFilters = {}): Promise<{ entries: AuditLogEntry[]; verification: AuditLogVerification }> {
+  const content = await fs.promises.readFile(AUDIT_LOG_PATH, 'utf8').catch(() => '');
+  // A line that no longer parses is kept as an empty entry for verification to account for
+  const all: AuditLogEntry[] = content.split('\n').filter(Boolean).map(line => parseEntry(line) || ({} as AuditLogEntry));
+  const user = filters.user?.trim().toLowerCase();
+  const from = filters.from ? new Date(filters.from).toISOString() : null;
+  // A bare date as the upper bound includes that whole day
+  const to = filters.to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(filters.to) ? `${filters.to}T23:59:59.999Z` : filters.to).toISOString() : null;
+
+  const entries = all.filter(entry =>
+    !!entry.hash &&
+    (!user || `${entry.user?.name || ''} ${entry.user?.sub || ''}`.toLowerCase().includes(user)) &&
+    (!filters.action || entry.action.startsWith(filters.action)) &&
+    (!filters.resource_id || entry.resource_id === filters.resource_id) &&
+    (!from || entry.timestamp >= from) &&
+    (!to || entry.timestamp <= to)
+  );
+  return { entries: entries.reverse(), verification: verifyAuditLog(all) };
+}
+
+const CSV_COLUMNS = ['seq', 'timestamp', 'user', 'role', 'action', 'method', 'path', 'resource_type', 'resource_id', 'status', 'changes', 'prev_hash', 'hash'];
+
+export function auditLogCsv(entries: AuditLogEntry[]): string {
+  const rows = entries.map(entry => [
+    entry.seq, entry.timestamp, entry.user?.name, entry.user?.role, entry.action, entry.method, entry.path,
+    entry.resource_type, entry.resource_id, entry.status, entry.changes, entry.prev_hash, entry.hash
+  ]);
+  return [CSV_COLUMNS, ...rows].map(cells => cells.map(cell => csvCell(cell)).join(',')).join('\r\n') + '\r\n';
+}
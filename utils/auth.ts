@@ -0,0 +1,229 @@
+// utils/auth.ts
+// OpenID Connect sign-in (authorization code flow with PKCE) and the signed session cookie the
+// API layer reads the user and role from. Server-side only.
+import crypto from 'crypto';
+import type { IncomingMessage } from 'http';
+import { SignJWT, jwtVerify, createRemoteJWKSet, base64url, JWTPayload } from 'jose';
+import type { SessionUser, UserRole } from '../types';
+
+const OIDC_ISSUER = (process.env.OIDC_ISSUER || '').replace(/\/$/, '');
+const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID || '';
+const OIDC_CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || '';
+const OIDC_REDIRECT_URI = process.env.OIDC_REDIRECT_URI || 'http://localhost:3007/api/auth/callback';
+const OIDC_SCOPES = process.env.OIDC_SCOPES || 'openid profile email';
+// Claim holding the user's groups or roles; a dotted path reaches nested claims, e.g. realm_access.roles
+const OIDC_ROLES_CLAIM = process.env.OIDC_ROLES_CLAIM || 'roles';
+const OIDC_ADMIN_ROLES = (process.env.OIDC_ADMIN_ROLES || 'admin').split(',').map(role => role.trim());
+const OIDC_AUDITOR_ROLES = (process.env.OIDC_AUDITOR_ROLES || 'auditor,reviewer').split(',').map(role => role.trim());
+const SESSION_SECRET = process.env.SESSION_SECRET || '';
+const SESSION_TTL_SECONDS = Number(process.env.SESSION_TTL_SECONDS) || 8 * 60 * 60;
+
+// Only for local development without an identity provider: every request acts as an admin
+export const AUTH_DISABLED = process.env.AUTH_DISABLED === 'true';
+const DEVELOPMENT_USER: SessionUser = { sub: 'local-development', name: 'Local development', role: 'admin' };
+
+const SESSION_COOKIE = 'mediaudit_session';
+// Holds state, nonce and PKCE verifier between the redirect to the provider and the callback
+const LOGIN_COOKIE = 'mediaudit_login';
+const LOGIN_TTL_SECONDS = 10 * 60;
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+}
+
+export class AuthError extends Error {}
+
+let discovery: Promise<OidcDiscovery> | null = null;
+let keySet: ReturnType<typeof createRemoteJWKSet> | null = null;
+
+function oidcDiscovery(): Promise<OidcDiscovery> {
+  if (!OIDC_ISSUER || !OIDC_CLIENT_ID) {
+    return Promise.reject(new AuthError('OIDC_ISSUER and OIDC_CLIENT_ID must be set, or AUTH_DISABLED=true for local development'));
+  }
+  if (!discovery) {
+    discovery = fetch(`${OIDC_ISSUER}/.well-known/openid-configuration`)
+      .then(response => {
+        if (!response.ok) throw new Error(`OIDC discovery responded with status: ${response.status}`);
+        return response.json();
+      })
+      .catch(error => {
+        // A provider that was down at first use is retried on the next request
+        discovery = null;
+        throw error;
+      });
+  }
+  return discovery!;
+}
+
+function secretKey(): Uint8Array {
+  if (SESSION_SECRET.length < 32) {
+    throw new AuthError('SESSION_SECRET must be set to at least 32 characters');
+  }
+  return new TextEncoder().encode(SESSION_SECRET);
+}
+
+const sign = (payload: JWTPayload, ttlSeconds: number) =>
+  new SignJWT(payload)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(`${ttlSeconds}s`)
+    .sign(secretKey());
+
+const randomToken = () => base64url.encode(crypto.randomBytes(32));
+
+function readCookie(req: IncomingMessage, name: string): string | null {
+  const cookie = (req.headers.cookie || '').split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : null;
+}
+
+function cookieHeader(name: string, value: string, maxAgeSeconds: number): string {
+  const secure = OIDC_REDIRECT_URI.startsWith('https://') ? '; Secure' : '';
+  return `${name}=${encodeURIComponent(value)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAgeSeconds}${secure}`;
+}
+
+// Only same-site paths, so the login flow cannot be used as an open redirect
+const safeReturnPath = (value: unknown) =>
+  typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') ? value : '/';
+
+function claimAt(claims: JWTPayload, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as any)[key] : undefined), claims);
+}
+
+/** Highest app role granted by the provider's roles claim; signed-in users without one are viewers. */
+export function roleFromClaims(claims: JWTPayload): UserRole {
+  const value = claimAt(claims, OIDC_ROLES_CLAIM);
+  const granted = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(/[\s,]+/) : [];
+  if (granted.some(role => OIDC_ADMIN_ROLES.includes(role))) return 'admin';
+  if (granted.some(role => OIDC_AUDITOR_ROLES.includes(role))) return 'auditor';
+  return 'viewer';
+}
+
+/** Where to send the browser to sign in, and the cookie that lets the callback finish the flow. */
+export async function beginLogin(returnTo: unknown): Promise<{ url: string; cookie: string }> {
+  const provider = await oidcDiscovery();
+  const state = randomToken();
+  const nonce = randomToken();
+  const verifier = randomToken();
+  const challenge = base64url.encode(crypto.createHash('sha256').update(verifier).digest());
+
+  const url = new URL(provider.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: OIDC_CLIENT_ID,
+    redirect_uri: OIDC_REDIRECT_URI,
+    scope: OIDC_SCOPES,
+    state,
+    nonce,
+    code_challenge: challenge,
+    code_challenge_method: 'S256'
+  }).toString();
+
+  const login = await sign({ state, nonce, verifier, returnTo: safeReturnPath(returnTo) }, LOGIN_TTL_SECONDS);
+  return { url: url.toString(), cookie: cookieHeader(LOGIN_COOKIE, login, LOGIN_TTL_SECONDS) };
+}
+
+/**
+ * Exchanges the authorization code for tokens, verifies the ID token against the provider's keys
+ * and returns the session cookie for the signed-in user. Throws AuthError when the callback does
+ * not belong to a login this browser started.
+ */
+export async function completeLogin(
+  req: IncomingMessage,
+  query: { code?: unknown; state?: unknown; error?: unknown; error_description?: unknown }
+): Promise<{ user: SessionUser; cookies: string[]; returnTo: string }> {
+  if (query.error) {
+    throw new AuthError(`Sign-in was refused: ${query.error_description || query.error}`);
+  }
+  const loginToken = readCookie(req, LOGIN_COOKIE);
+  if (!loginToken || typeof query.code !== 'string') {
+    throw new AuthError('Sign-in expired or was started in another browser');
+  }
+  const { payload: login } = await jwtVerify(loginToken, secretKey()).catch(() => {
+    throw new AuthError('Sign-in expired or was started in another browser');
+  });
+  if (login.state !== query.state) {
+    throw new AuthError('Sign-in state does not match');
+  }
+
+  const provider = await oidcDiscovery();
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (OIDC_CLIENT_SECRET) {
+    headers.Authorization = `Basic ${Buffer.from(`${encodeURIComponent(OIDC_CLIENT_ID)}:${encodeURIComponent(OIDC_CLIENT_SECRET)}`).toString('base64')}`;
+  }
+  const response = await fetch(provider.token_endpoint, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: query.code,
+      redirect_uri: OIDC_REDIRECT_URI,
+      client_id: OIDC_CLIENT_ID,
+      code_verifier: String(login.verifier)
+    }).toString()
+  });
+  if (!response.ok) {
+    throw new Error(`Token endpoint responded with status: ${response.status} - ${await response.text()}`);
+  }
+  const tokens = await response.json();
+
+  keySet = keySet || createRemoteJWKSet(new URL(provider.jwks_uri));
+  const { payload: claims } = await jwtVerify(tokens.id_token, keySet, { issuer: provider.issuer, audience: OIDC_CLIENT_ID });
+  if (claims.nonce !== login.nonce) {
+    throw new AuthError('ID token nonce does not match');
+  }
+
+  const user: SessionUser = {
+    sub: String(claims.sub),
+    name: String(claims.name || claims.preferred_username || claims.email || claims.sub),
+    ...(claims.email ? { email: String(claims.email) } : {}),
+    role: roleFromClaims(claims)
+  };
+  const session = await sign({ ...user, id_token: tokens.id_token }, SESSION_TTL_SECONDS);
+  return {
+    user,
+    cookies: [cookieHeader(SESSION_COOKIE, session, SESSION_TTL_SECONDS), cookieHeader(LOGIN_COOKIE, '', 0)],
+    returnTo: safeReturnPath(login.returnTo)
+  };
+}
+
+/** The signed-in user, or null when the session cookie is missing, expired or tampered with. */
+export async function getSessionUser(req: IncomingMessage): Promise<SessionUser | null> {
+  if (AUTH_DISABLED) return DEVELOPMENT_USER;
+  const token = readCookie(req, SESSION_COOKIE);
+  if (!token) return null;
+  try {
+    const { payload } = await jwtVerify(token, secretKey());
+    return {
+      sub: String(payload.sub),
+      name: String(payload.name),
+      ...(payload.email ? { email: String(payload.email) } : {}),
+      role: payload.role as UserRole
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Clears the session and, when the provider supports it, signs out there too. */
+export async function endSession(req: IncomingMessage): Promise<{ url: string; cookie: string }> {
+  const cookie = cookieHeader(SESSION_COOKIE, '', 0);
+  const fallback = new URL('/', OIDC_REDIRECT_URI).toString();
+  if (AUTH_DISABLED) return { url: fallback, cookie };
+
+  const provider = await oidcDiscovery().catch(() => null);
+  if (!provider?.end_session_endpoint) return { url: fallback, cookie };
+
+  const token = readCookie(req, SESSION_COOKIE);
+  const idToken = token ? await jwtVerify(token, secretKey()).then(({ payload }) => payload.id_token, () => undefined) : undefined;
+  const url = new URL(provider.end_session_endpoint);
+  url.search = new URLSearchParams({
+    client_id: OIDC_CLIENT_ID,
+    post_logout_redirect_uri: fallback,
+    ...(typeof idToken === 'string' ? { id_token_hint: idToken } : {})
+  }).toString();
+  return { url: url.toString(), cookie };
+}
@@ -0,0 +1,132 @@
+// utils/comorbidityIndices.ts
+// Charlson (Charlson et al. 1987) and Elixhauser (van Walraven et al. 2009) index scoring.
+// Comorbidity definitions can be mapped onto one category of each index; weights and
+// hierarchy rules come from the published tables below, not from user input.
+
+export type IndexName = 'charlson' | 'elixhauser';
+
+export interface IndexCategory {
+  id: string;
+  label: string;
+  weight: number;
+}
+
+export const CHARLSON_CATEGORIES: IndexCategory[] = [
+  { id: 'myocardial_infarction', label: 'Myocardial infarction', weight: 1 },
+  { id: 'congestive_heart_failure', label: 'Congestive heart failure', weight: 1 },
+  { id: 'peripheral_vascular_disease', label: 'Peripheral vascular disease', weight: 1 },
+  { id: 'cerebrovascular_disease', label: 'Cerebrovascular disease', weight: 1 },
+  { id: 'dementia', label: 'Dementia', weight: 1 },
+  { id: 'chronic_pulmonary_disease', label: 'Chronic pulmonary disease', weight: 1 },
+  { id: 'rheumatic_disease', label: 'Rheumatic disease', weight: 1 },
+  { id: 'peptic_ulcer_disease', label: 'Peptic ulcer disease', weight: 1 },
+  { id: 'mild_liver_disease', label: 'Mild liver disease', weight: 1 },
+  { id: 'diabetes_uncomplicated', label: 'Diabetes without chronic complications', weight: 1 },
+  { id: 'diabetes_complicated', label: 'Diabetes with chronic complications', weight: 2 },
+  { id: 'hemiplegia_paraplegia', label: 'Hemiplegia or paraplegia', weight: 2 },
+  { id: 'renal_disease', label: 'Renal disease', weight: 2 },
+  { id: 'malignancy', label: 'Any malignancy (incl. lymphoma, leukaemia)', weight: 2 },
+  { id: 'moderate_severe_liver_disease', label: 'Moderate or severe liver disease', weight: 3 },
+  { id: 'metastatic_solid_tumour', label: 'Metastatic solid tumour', weight: 6 },
+  { id: 'aids_hiv', label: 'AIDS/HIV', weight: 6 }
+];
+
+export const ELIXHAUSER_CATEGORIES: IndexCategory[] = [
+  { id: 'congestive_heart_failure', label: 'Congestive heart failure', weight: 7 },
+  { id: 'cardiac_arrhythmias', label: 'Cardiac arrhythmias', weight: 5 },
+  { id: 'valvular_disease', label: 'Valvular disease', weight: -1 },
+  { id: 'pulmonary_circulation_disorders', label: 'Pulmonary circulation disorders', weight: 4 },
+  { id: 'peripheral_vascular_disorders', label: 'Peripheral vascular disorders', weight: 2 },
+  { id: 'hypertension_uncomplicated', label: 'Hypertension, uncomplicated', weight: 0 },
+  { id: 'hypertension_complicated', label: 'Hypertension, complicated', weight: 0 },
+  { id: 'paralysis', label: 'Paralysis', weight: 7 },
+  { id: 'other_neurological_disorders', label: 'Other neurological disorders', weight: 6 },
+  { id: 'chronic_pulmonary_disease', label: 'Chronic pulmonary disease', weight: 3 },
+  { id: 'diabetes_uncomplicated', label: 'Diabetes, uncomplicated', weight: 0 },
+  { id: 'diabetes_complicated', label: 'Diabetes, complicated', weight: 0 },
+  { id: 'hypothyroidism', label: 'Hypothyroidism', weight: 0 },
+  { id: 'renal_failure', label: 'Renal failure', weight: 5 },
+  { id: 'liver_disease', label: 'Liver disease', weight: 11 },
+  { id: 'peptic_ulcer_disease', label: 'Peptic ulcer disease (excl. bleeding)', weight: 0 },
+  { id: 'aids_hiv', label: 'AIDS/HIV', weight: 0 },
+  { id: 'lymphoma', label: 'Lymphoma', weight: 9 },
+  { id: 'metastatic_cancer', label: 'Metastatic cancer', weight: 12 },
+  { id: 'solid_tumour_without_metastasis', label: 'Solid tumour without metastasis', weight: 4 },
+  { id: 'rheumatoid_arthritis', label: 'Rheumatoid arthritis/collagen vascular diseases', weight: 0 },
+  { id: 'coagulopathy', label: 'Coagulopathy', weight: 3 },
+  { id: 'obesity', label: 'Obesity', weight: -4 },
+  { id: 'weight_loss', label: 'Weight loss', weight: 6 },
+  { id: 'fluid_electrolyte_disorders', label: 'Fluid and electrolyte disorders', weight: 5 },
+  { id: 'blood_loss_anaemia', label: 'Blood loss anaemia', weight: -2 },
+  { id: 'deficiency_anaemia', label: 'Deficiency anaemia', weight: -2 },
+  { id: 'alcohol_abuse', label: 'Alcohol abuse', weight: 0 },
+  { id: 'drug_abuse', label: 'Drug abuse', weight: -7 },
+  { id: 'psychoses', label: 'Psychoses', weight: 0 },
+  { id: 'depression', label: 'Depression', weight: -3 }
+];
+
+// When the more severe category is present the milder one is not also counted
+const HIERARCHIES: Record<IndexName, Array<[string, string]>> = {
+  charlson: [
+    ['moderate_severe_liver_disease', 'mild_liver_disease'],
+    ['diabetes_complicated', 'diabetes_uncomplicated'],
+    ['metastatic_solid_tumour', 'malignancy']
+  ],
+  elixhauser: [
+    ['diabetes_complicated', 'diabetes_uncomplicated'],
+    ['hypertension_complicated', 'hypertension_uncomplicated'],
+    ['metastatic_cancer', 'solid_tumour_without_metastasis']
+  ]
+};
+
+// Conventional reporting strata for each score
+export const INDEX_STRATA: Record<IndexName, Array<{ label: string; min: number; max: number }>> = {
+  charlson: [
+    { label: '0', min: -Infinity, max: 0 },
+    { label: '1-2', min: 1, max: 2 },
+    { label: '3-4', min: 3, max: 4 },
+    { label: '5+', min: 5, max: Infinity }
+  ],
+  elixhauser: [
+    { label: '≤0', min: -Infinity, max: 0 },
+    { label: '1-4', min: 1, max: 4 },
+    { label: '5-13', min: 5, max: 13 },
+    { label: '14+', min: 14, max: Infinity }
+  ]
+};
+
+export const INDEX_CATEGORIES: Record<IndexName, IndexCategory[]> = {
+  charlson: CHARLSON_CATEGORIES,
+  elixhauser: ELIXHAUSER_CATEGORIES
+};
+
+export interface IndexScore {
+  score: number;
+  categories: string[];
+}
+
+export function scoreIndex(index: IndexName, categoryIds: string[]): IndexScore {
+  const present = new Set(categoryIds.filter(id => INDEX_CATEGORIES[index].some(category => category.id === id)));
+  HIERARCHIES[index].forEach(([severe, mild]) => {
+    if (present.has(severe)) present.delete(mild);
+  });
+
+  const categories = Array.from(present);
+  const score = categories.reduce(
+    (sum, id) => sum + (INDEX_CATEGORIES[index].find(category => category.id === id)?.weight || 0),
+    0
+  );
+  return { score, categories };
+}
+
+export function stratumFor(index: IndexName, score: number): string {
+  return INDEX_STRATA[index].find(stratum => score >= stratum.min && score <= stratum.max)?.label || INDEX_STRATA[index][0].label;
+}
+
+export function isIndexCategory(index: IndexName, categoryId: string): boolean {
+  return INDEX_CATEGORIES[index].some(category => category.id === categoryId);
+}
+
+export function categoryLabel(index: IndexName, categoryId: string): string {
+  return INDEX_CATEGORIES[index].find(category => category.id === categoryId)?.label || categoryId;
+}
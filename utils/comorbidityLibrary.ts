@@ -0,0 +1,196 @@
+// utils/comorbidityLibrary.ts
+// Export of a procedure's comorbidity definitions as a shareable JSON or CSV library, and the plan
+// for importing one into another procedure code or deployment, matched by comorbidity name.
+import * as XLSX from 'xlsx';
+import type {
+  ComorbidityDefinitionFields, ComorbidityLibrary, LibraryImportAction, LibraryImportItem, LibraryImportStatus
+} from '../types';
+import { INDEX_CATEGORIES, IndexName } from './comorbidityIndices';
+import { csvCell, unguardFormula } from './csv';
+
+export const LIBRARY_FORMAT = 'mediaudit-comorbidity-library';
+export const LIBRARY_FORMAT_VERSION = 1;
+
+export const LIBRARY_FIELDS: Array<keyof ComorbidityDefinitionFields> = [
+  'name', 'description', 'notes', 'keywords', 'charlson_category', 'elixhauser_category'
+];
+
+export const IMPORT_ACTIONS: Record<LibraryImportStatus, LibraryImportAction[]> = {
+  add: ['add', 'skip'],
+  update: ['merge', 'replace', 'skip'],
+  conflict: ['merge', 'replace', 'skip'],
+  unchanged: ['skip']
+};
+
+const text = (value: unknown) => value == null ? '' : String(value).trim();
+
+/** The shareable fields of a backend definition record. */
+export function definitionFields(record: any): ComorbidityDefinitionFields {
+  return {
+    name: text(record?.name),
+    description: text(record?.description),
+    notes: text(record?.notes),
+    keywords: text(record?.keywords),
+    charlson_category: record?.charlson_category || null,
+    elixhauser_category: record?.elixhauser_category || null
+  };
+}
+
+export function buildLibrary(code: string, definitions: any[]): ComorbidityLibrary {
+  return {
+    format: LIBRARY_FORMAT,
+    format_version: LIBRARY_FORMAT_VERSION,
+    procedure_code: code,
+    exported_at: new Date().toISOString(),
+    comorbidities: definitions.map(definitionFields).filter(definition => definition.name)
+  };
+}
+
+export function libraryToCsv(library: ComorbidityLibrary): string {
+  const rows = library.comorbidities.map(definition => LIBRARY_FIELDS.map(field => csvCell(definition[field] || '')).join(','));
+  return [LIBRARY_FIELDS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// Categories are exported as IDs, but hand-edited CSVs may use the labels instead
+function categoryId(index: IndexName, value: unknown, warnings: string[], name: string): string | null {
+  const raw = text(value);
+  if (!raw) return null;
+  const category = INDEX_CATEGORIES[index].find(entry =>
+    entry.id === raw || entry.label.toLowerCase() === raw.toLowerCase());
+  if (!category) {
+    warnings.push(`${name}: unknown ${index === 'charlson' ? 'Charlson' : 'Elixhauser'} category "${raw}" was dropped`);
+  }
+  return category ? category.id : null;
+}
+
+/**
+ * Reads an exported library, or a bare JSON array or CSV of definitions. Rows without a name,
+ * repeated names and unknown index categories are dropped with a warning; anything that is not a
+ * library at all throws.
+ */
+export function parseLibrary(content: string, fileName: string): { library: ComorbidityLibrary; warnings: string[] } {
+  const warnings: string[] = [];
+  let records: any[];
+  let procedureCode: string | null = null;
+  let exportedAt: string | null = null;
+
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+  if (/\.json$/i.test(fileName) || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    if (!Array.isArray(parsed)) {
+      if (parsed?.format !== LIBRARY_FORMAT || !Array.isArray(parsed.comorbidities)) {
+        throw new Error('The file is not a comorbidity library export');
+      }
+      if (Number(parsed.format_version) > LIBRARY_FORMAT_VERSION) {
+        throw new Error(`The library was exported by a newer version of MediAudit (format ${parsed.format_version})`);
+      }
+      procedureCode = parsed.procedure_code ? String(parsed.procedure_code) : null;
+      exportedAt = parsed.exported_at ? String(parsed.exported_at) : null;
+    }
+    records = Array.isArray(parsed) ? parsed : parsed.comorbidities;
+  } else {
+    const workbook = XLSX.read(trimmed, { type: 'string', raw: true });
+    const rows: any[] = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { defval: '', raw: false });
+    // Header names are matched loosely: "Charlson Category" and "charlson_category" both work.
+    // Values lose the apostrophe the export puts in front of formula-like text
+    records = rows.map(row => Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [
+        key.trim().toLowerCase().replace(/\s+/g, '_'),
+        typeof value === 'string' ? unguardFormula(value) : value
+      ])
+    ));
+    if (records.length > 0 && !('name' in records[0])) {
+      throw new Error('The CSV needs a "name" column');
+    }
+  }
+
+  const seen = new Set<string>();
+  const comorbidities = records.flatMap((record, index) => {
+    const name = text(record?.name);
+    if (!name) {
+      warnings.push(`Entry ${index + 1} has no name and was skipped`);
+      return [];
+    }
+    if (seen.has(name.toLowerCase())) {
+      warnings.push(`${name} appears more than once; only the first entry is used`);
+      return [];
+    }
+    seen.add(name.toLowerCase());
+    return [{
+      ...definitionFields(record),
+      charlson_category: categoryId('charlson', record.charlson_category, warnings, name),
+      elixhauser_category: categoryId('elixhauser', record.elixhauser_category, warnings, name)
+    }];
+  });
+
+  if (comorbidities.length === 0) {
+    throw new Error('The file contains no comorbidities');
+  }
+  return {
+    library: { format: LIBRARY_FORMAT, format_version: LIBRARY_FORMAT_VERSION, procedure_code: procedureCode, exported_at: exportedAt, comorbidities },
+    warnings
+  };
+}
+
+const keywordList = (keywords: string) => keywords.split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean);
+
+/**
+ * Combines an existing definition with an imported one without losing anything: existing values
+ * win, blanks are filled from the import, and keywords are the union of both.
+ */
+export function mergeDefinition(existing: ComorbidityDefinitionFields, incoming: ComorbidityDefinitionFields): ComorbidityDefinitionFields {
+  const existingKeywords = new Set(keywordList(existing.keywords).map(keyword => keyword.toLowerCase()));
+  const addedKeywords = keywordList(incoming.keywords).filter(keyword => {
+    if (existingKeywords.has(keyword.toLowerCase())) return false;
+    existingKeywords.add(keyword.toLowerCase());
+    return true;
+  });
+  return {
+    name: existing.name || incoming.name,
+    description: existing.description || incoming.description,
+    notes: existing.notes || incoming.notes,
+    keywords: addedKeywords.length > 0 ? [existing.keywords, ...addedKeywords].filter(Boolean).join(', ') : existing.keywords,
+    charlson_category: existing.charlson_category || incoming.charlson_category,
+    elixhauser_category: existing.elixhauser_category || incoming.elixhauser_category
+  };
+}
+
+/** The definition an import item writes, or null when it is skipped. */
+export function resolvedDefinition(item: Pick<LibraryImportItem, 'incoming' | 'existing' | 'action'>): ComorbidityDefinitionFields | null {
+  if (item.action === 'skip') return null;
+  if (item.action === 'merge' && item.existing) return mergeDefinition(definitionFields(item.existing), item.incoming);
+  // A replaced definition keeps its existing name, so only the content changes
+  return item.existing ? { ...item.incoming, name: item.existing.name } : item.incoming;
+}
+
+/**
+ * Matches each imported definition to an existing one by name (case-insensitive). Same-name
+ * definitions are updates when the import only fills in blanks or adds keywords, conflicts when a
+ * description, note or category disagrees, and unchanged when the import adds nothing. Merging is
+ * the default for updates and conflicts.
+ */
+export function planLibraryImport(existingRecords: any[], incoming: ComorbidityDefinitionFields[]): LibraryImportItem[] {
+  const existingByName = new Map(existingRecords.map(record => [text(record.name).toLowerCase(), record]));
+
+  return incoming.map(definition => {
+    const record = existingByName.get(definition.name.toLowerCase());
+    if (!record) {
+      return { incoming: definition, existing: null, status: 'add', changed_fields: [...LIBRARY_FIELDS], action: 'add' };
+    }
+
+    const existing = { id: String(record.id), ...definitionFields(record) };
+    const merged = mergeDefinition(existing, definition);
+    const changed_fields = LIBRARY_FIELDS.filter(field => (existing[field] || '') !== (definition[field] || ''));
+    const conflicting = changed_fields.some(field =>
+      field !== 'name' && field !== 'keywords' && existing[field] && definition[field]);
+    // Nothing to import when the existing definition already has everything the import offers
+    const addsNothing = LIBRARY_FIELDS.every(field => (merged[field] || '') === (existing[field] || ''));
+    const status: LibraryImportStatus = conflicting ? 'conflict' : addsNothing ? 'unchanged' : 'update';
+    return { incoming: definition, existing, status, changed_fields, action: status === 'unchanged' ? 'skip' : 'merge' };
+  });
+}
@@ -0,0 +1,129 @@
+// utils/controlCharts.ts
+// Bernoulli CUSUM and VLAD (variable life-adjusted display) charts over a job's patients,
+// in procedure-date order when dates are available and source row order otherwise.
+import type { ControlBenchmark, ControlChartSettings, ControlChartPoint, ControlChartSeries, ControlOutcome } from '../types';
+
+export const DEFAULT_CONTROL_SETTINGS: ControlChartSettings = {
+  target_rate: null,
+  odds_ratio: 2,
+  cusum_limit: 4.5,
+  vlad_limit: 5
+};
+
+// Adverse event (1), none (0), or null to leave the patient off the chart (e.g. unknown surgery outcome)
+export const CONTROL_OUTCOMES: Record<ControlOutcome, (patient: any) => 0 | 1 | null> = {
+  surgery: patient => patient.surgery_outcome === 'failure' ? 1 : patient.surgery_outcome === 'success' ? 0 : null,
+  mortality: patient => patient.mortality_status === 'deceased' ? 1 : 0
+};
+
+const DATE_FIELDS = ['procedure_date', 'surgery_date', 'operation_date', 'admission_date'];
+
+export const patientDate = (patient: any): Date | null => {
+  const field = DATE_FIELDS.find(name => patient[name]);
+  if (!field) return null;
+  const date = new Date(patient[field]);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const rowOrder = (patient: any): number =>
+  Number(patient.source_rows?.[0]?.row_number ?? patient.patient_id) || 0;
+
+/**
+ * Orders patients by procedure date when at least half carry one (undated patients keep their
+ * row order at the end), otherwise by row order within the uploaded file.
+ */
+export function orderPatients(patients: any[]): { ordered: any[]; basis: ControlChartSeries['order_basis'] } {
+  const dated = patients.filter(patient => patientDate(patient));
+  const byRow = (a: any, b: any) => rowOrder(a) - rowOrder(b);
+
+  if (patients.length > 0 && dated.length >= patients.length / 2) {
+    const undated = patients.filter(patient => !patientDate(patient)).sort(byRow);
+    const sorted = [...dated].sort((a, b) => patientDate(a)!.getTime() - patientDate(b)!.getTime() || byRow(a, b));
+    return { ordered: [...sorted, ...undated], basis: 'procedure_date' };
+  }
+
+  return { ordered: [...patients].sort(byRow), basis: 'row_order' };
+}
+
+/** Event rate pooled over the patients of other jobs, or null when none has a known outcome. */
+export function pooledBenchmark(
+  jobs: Array<{ patient_summaries: any[] }>,
+  outcomeOf: (patient: any) => 0 | 1 | null
+): ControlBenchmark | null {
+  let events = 0;
+  let patients = 0;
+  let contributing = 0;
+  jobs.forEach(job => {
+    const outcomes = job.patient_summaries.map(outcomeOf).filter((outcome): outcome is 0 | 1 => outcome !== null);
+    if (outcomes.length === 0) return;
+    contributing++;
+    patients += outcomes.length;
+    events += outcomes.reduce((sum: number, outcome) => sum + outcome, 0);
+  });
+  return patients > 0 ? { rate: events / patients, events, patients, jobs: contributing } : null;
+}
+
+/**
+ * Builds both charts for one binary outcome, see CONTROL_OUTCOMES for `outcomeOf`. The target
+ * is the configured rate, else `benchmarkRate` (pooled over other jobs), else the job's own
+ * crude rate; the last only shows deviation from the job's own average, so it is reported as
+ * such. The CUSUM restarts from zero after each alarm so later runs are still detected.
+ */
+export function buildControlChart(
+  patients: any[],
+  outcomeOf: (patient: any) => 0 | 1 | null,
+  settings: ControlChartSettings,
+  benchmarkRate: number | null = null
+): ControlChartSeries {
+  const eligible = patients.filter(patient => outcomeOf(patient) !== null);
+  const { ordered, basis } = orderPatients(eligible);
+  const events = ordered.reduce((sum, patient) => sum + (outcomeOf(patient) as number), 0);
+  const crudeRate = ordered.length > 0 ? events / ordered.length : 0;
+  const targetSource: ControlChartSeries['target_source'] =
+    settings.target_rate !== null ? 'configured' : benchmarkRate !== null ? 'pooled' : 'job';
+  const targetRate = settings.target_rate ?? benchmarkRate ?? crudeRate;
+
+  // Log-likelihood ratio weights for a shift from the target odds to odds_ratio times them
+  const oddsRatio = Math.max(settings.odds_ratio, 1.01);
+  const failureWeight = Math.log(oddsRatio) - Math.log(1 - targetRate + oddsRatio * targetRate);
+  const successWeight = -Math.log(1 - targetRate + oddsRatio * targetRate);
+
+  let cusum = 0;
+  let vlad = 0;
+  let belowVladLimit = false;
+
+  const points: ControlChartPoint[] = ordered.map((patient, index) => {
+    const outcome = outcomeOf(patient) as 0 | 1;
+    cusum = Math.max(0, cusum + (outcome ? failureWeight : successWeight));
+    vlad += targetRate - outcome;
+
+    const cusumAlarm = cusum >= settings.cusum_limit;
+    // Only the first patient of each excursion below the VLAD limit is flagged
+    const vladAlarm = vlad <= -settings.vlad_limit && !belowVladLimit;
+    belowVladLimit = vlad <= -settings.vlad_limit;
+
+    const date = patientDate(patient);
+    const point: ControlChartPoint = {
+      index: index + 1,
+      label: patient.patient_key ? String(patient.patient_key) : `Row ${rowOrder(patient)}`,
+      date: date ? date.toISOString().slice(0, 10) : null,
+      outcome,
+      cusum,
+      vlad,
+      cusum_alarm: cusumAlarm,
+      vlad_alarm: vladAlarm
+    };
+
+    if (cusumAlarm) cusum = 0;
+    return point;
+  });
+
+  return {
+    points,
+    order_basis: basis,
+    target_rate: targetRate,
+    target_source: targetSource,
+    cusum_alarms: points.filter(point => point.cusum_alarm),
+    vlad_alarms: points.filter(point => point.vlad_alarm)
+  };
+}
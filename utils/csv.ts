@@ -0,0 +1,24 @@
+// utils/csv.ts
+// Cell escaping shared by every CSV the app writes.
+
+// Spreadsheets run a cell that starts with one of these as a formula, even when it comes from a CSV
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV cell: quoted when it holds a comma, quote or line break, objects as JSON. Text that a
+ * spreadsheet would run as a formula ("=HYPERLINK(...)", "-ve troponin") is prefixed with an
+ * apostrophe; `guardFormulas` is off only for CSVs that are read back by a parser, never opened.
+ */
+export function csvCell(value: unknown, guardFormulas = true): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (guardFormulas && typeof value === 'string' && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Removes the apostrophe `csvCell` put in front of formula-like text, for CSVs that are read back in. */
+export function unguardFormula(text: string): string {
+  return text.length > 1 && text[0] === "'" && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+}
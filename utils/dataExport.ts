@@ -0,0 +1,178 @@
+// utils/dataExport.ts
+// Flat exports of a job's matches, patient summaries and analytics for use in R or Python.
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import type { ColumnSource } from 'hyparquet-writer';
+import { csvCell } from './csv';
+
+export type ExportDataset = 'matches' | 'patients' | 'analytics';
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+export const EXPORT_DATASETS: ExportDataset[] = ['matches', 'patients', 'analytics'];
+
+export const EXPORT_FORMATS: Record<ExportFormat, { content_type: string; extension: string }> = {
+  csv: { content_type: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { content_type: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+  parquet: { content_type: 'application/vnd.apache.parquet', extension: 'parquet' }
+};
+
+export interface ExportFilters {
+  min_confidence?: number;
+  comorbidity?: string;
+  file_name?: string;
+  column_name?: string;
+  surgery_outcome?: string;
+  mortality_status?: string;
+  exclude_rejected?: boolean;
+  section?: string;
+}
+
+type ExportValue = string | number | boolean | null;
+type ExportRow = Record<string, ExportValue | ExportValue[]>;
+
+const listItem = (item: any): ExportValue =>
+  item === null || item === undefined ? null : typeof item === 'object' ? JSON.stringify(item) : item;
+
+/**
+ * Flattens nested objects into dot-separated columns (adjudication.decision, charlson_index.score).
+ * Arrays stay as lists for NDJSON and are joined with "; " for the tabular formats.
+ */
+function flattenRow(row: any, joinArrays: boolean, prefix = '', out: ExportRow = {}): ExportRow {
+  Object.entries(row || {}).forEach(([key, value]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (Array.isArray(value)) {
+      const items = value.map(listItem);
+      out[name] = joinArrays ? items.filter(item => item !== null).join('; ') : items;
+    } else if (value !== null && typeof value === 'object') {
+      flattenRow(value, joinArrays, name, out);
+    } else {
+      out[name] = value === undefined ? null : value as ExportValue;
+    }
+  });
+  return out;
+}
+
+const concernNames = (patient: any): string[] =>
+  (patient.primary_concerns || []).map((concern: any) => String(typeof concern === 'string' ? concern : concern?.comorbidity || ''));
+
+const sameText = (a: any, b: string) => String(a ?? '').trim().toLowerCase() === b.trim().toLowerCase();
+
+// Analytics are nested counts and rates; exported long-format as one row per (section, key)
+function analyticsRows(analytics: any): any[] {
+  const rows: any[] = [];
+  const walk = (value: any, section: string, key: string) => {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      Object.entries(value).forEach(([childKey, child]) => walk(child, section, key ? `${key}.${childKey}` : childKey));
+    } else if (!Array.isArray(value)) {
+      // Numbers and labels go in separate columns so `value` stays numeric in typed formats
+      rows.push({
+        section,
+        key,
+        value: typeof value === 'number' ? value : null,
+        text: typeof value === 'number' || value == null ? null : String(value)
+      });
+    }
+  };
+
+  Object.entries(analytics || {}).forEach(([section, value]) => {
+    if (Array.isArray(value)) {
+      // e.g. comorbidity_associations: one set of rows per entry, keyed by its name
+      value.forEach((entry: any, index: number) => walk(entry, section, String(entry?.comorbidity ?? index)));
+    } else if (value !== null && typeof value === 'object') {
+      walk(value, section, '');
+    } else {
+      walk(value, 'summary', section);
+    }
+  });
+  return rows;
+}
+
+function sourceRows(dataset: ExportDataset, results: any): any[] {
+  if (dataset === 'matches') return results.matches || [];
+  if (dataset === 'patients') return results.patient_summaries || [];
+  return analyticsRows(results.patient_analytics);
+}
+
+function applyFilters(dataset: ExportDataset, rows: any[], filters: ExportFilters): any[] {
+  return rows.filter(row => {
+    if (dataset === 'matches') {
+      if (filters.min_confidence !== undefined && (Number(row.confidence) || 0) < filters.min_confidence) return false;
+      if (filters.comorbidity && !sameText(row.comorbidity_name, filters.comorbidity)) return false;
+      if (filters.column_name && !sameText(row.column_name, filters.column_name)) return false;
+      if (filters.exclude_rejected && row.adjudication?.decision === 'rejected') return false;
+    }
+    if (dataset === 'patients') {
+      if (filters.comorbidity && !concernNames(row).some(name => sameText(name, filters.comorbidity!))) return false;
+      if (filters.surgery_outcome && !sameText(row.surgery_outcome, filters.surgery_outcome)) return false;
+      if (filters.mortality_status && !sameText(row.mortality_status, filters.mortality_status)) return false;
+    }
+    if (dataset === 'analytics' && filters.section && row.section !== filters.section) return false;
+    if (dataset !== 'analytics' && filters.file_name && !sameText(row.file_name, filters.file_name)) return false;
+    return true;
+  });
+}
+
+// Union of column names in first-seen order, so sparse fields still get a column
+function columnsOf(rows: ExportRow[]): string[] {
+  const seen = new Set<string>();
+  const columns: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!seen.has(key)) {
+      seen.add(key);
+      columns.push(key);
+    }
+  }));
+  return columns;
+}
+
+export function exportColumns(dataset: ExportDataset, results: any): string[] {
+  return columnsOf(sourceRows(dataset, results).map(row => flattenRow(row, true)));
+}
+
+function toCsv(rows: ExportRow[], columns: string[]): string {
+  return [columns.map(column => csvCell(column)).join(','), ...rows.map(row => columns.map(column => csvCell(row[column])).join(','))].join('\r\n') + '\r\n';
+}
+
+function toNdjson(rows: ExportRow[], columns: string[]): string {
+  return rows.map(row => JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null])))).join('\n') + '\n';
+}
+
+// Column types are inferred from the values: all-numeric as DOUBLE, all-boolean as BOOLEAN, otherwise STRING
+function toParquet(rows: ExportRow[], columns: string[]): Buffer {
+  const columnData: ColumnSource[] = columns.map(column => {
+    const values = rows.map(row => row[column] ?? null);
+    const present = values.filter(value => value !== null);
+    if (present.length > 0 && present.every(value => typeof value === 'number')) {
+      return { name: column, data: values, type: 'DOUBLE', nullable: true };
+    }
+    if (present.length > 0 && present.every(value => typeof value === 'boolean')) {
+      return { name: column, data: values, type: 'BOOLEAN', nullable: true };
+    }
+    return { name: column, data: values.map(value => value === null ? null : String(value)), type: 'STRING', nullable: true };
+  });
+  return Buffer.from(parquetWriteBuffer({ columnData }));
+}
+
+/**
+ * Serialises one dataset of a transformed job result. `columns` selects and orders the output;
+ * unknown names are rejected so a typo doesn't silently produce an empty column.
+ */
+export function buildExport(
+  dataset: ExportDataset,
+  format: ExportFormat,
+  results: any,
+  filters: ExportFilters,
+  columns?: string[]
+): { body: string | Buffer; rows: number } | { error: string } {
+  const filtered = applyFilters(dataset, sourceRows(dataset, results), filters);
+  const rows = filtered.map(row => flattenRow(row, format !== 'ndjson'));
+  const available = exportColumns(dataset, results);
+
+  const selected = columns && columns.length > 0 ? columns : available;
+  const unknown = selected.filter(column => !available.includes(column));
+  if (unknown.length > 0) {
+    return { error: `Unknown columns for ${dataset}: ${unknown.join(', ')}` };
+  }
+
+  const body = format === 'csv' ? toCsv(rows, selected) : format === 'ndjson' ? toNdjson(rows, selected) : toParquet(rows, selected);
+  return { body, rows: rows.length };
+}
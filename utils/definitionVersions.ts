@@ -0,0 +1,145 @@
+// utils/definitionVersions.ts
+// Version history of comorbidity definitions, and the versions each job was submitted with. The
+// backend only keeps the current definitions, so both are appended to local JSON Lines files.
+// Server-side only.
+import fs from 'fs';
+import path from 'path';
+import type {
+  ComorbidityDefinitionFields, ComorbidityVersion, DefinitionChangeSource, JobDefinitionPin
+} from '../types';
+import { definitionFields } from './comorbidityLibrary';
+
+const VERSIONS_PATH = process.env.DEFINITION_VERSIONS_PATH || path.join(process.cwd(), 'data', 'comorbidity-versions.jsonl');
+const PINS_PATH = process.env.JOB_DEFINITION_PINS_PATH || path.join(process.cwd(), 'data', 'job-definition-pins.jsonl');
+
+interface StoredPin {
+  job_id: string;
+  code: string;
+  pinned_at: string;
+  versions: Array<{ comorbidity_id: string; version: number }>;
+}
+
+const sameDefinition = (a: ComorbidityDefinitionFields | null, b: ComorbidityDefinitionFields | null) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+async function readLines<T>(filePath: string): Promise<T[]> {
+  const content = await fs.promises.readFile(filePath, 'utf8').catch(() => '');
+  return content.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+async function appendLines(filePath: string, records: unknown[]) {
+  if (records.length === 0) return;
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.appendFile(filePath, records.map(record => `${JSON.stringify(record)}\n`).join(''), { flag: 'a' });
+}
+
+// Read-compare-append runs one at a time, so two requests cannot both record version n+1
+let queue: Promise<unknown> = Promise.resolve();
+function serialised<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+/** Every recorded version for a procedure code, oldest first. */
+export async function readDefinitionVersions(code: string): Promise<ComorbidityVersion[]> {
+  return (await readLines<ComorbidityVersion>(VERSIONS_PATH)).filter(version => version.code === code);
+}
+
+function latestById(versions: ComorbidityVersion[]): Map<string, ComorbidityVersion> {
+  const latest = new Map<string, ComorbidityVersion>();
+  versions.forEach(version => latest.set(version.comorbidity_id, version));
+  return latest;
+}
+
+/**
+ * Records a new version of every definition that differs from its latest recorded version, and
+ * marks recorded definitions missing from `definitions` as deleted. Called with the backend's
+ * current definitions after every change, and on reads to catch changes made elsewhere.
+ * Returns the versions it recorded.
+ */
+export function syncDefinitionVersions(
+  code: string,
+  definitions: any[],
+  options: {
+    recorded_by: string | null;
+    source: DefinitionChangeSource;
+    restored?: { comorbidity_id: string; from: { comorbidity_id: string; version: number } };
+  }
+): Promise<ComorbidityVersion[]> {
+  return serialised(async () => {
+    const latest = latestById(await readDefinitionVersions(code));
+    const recorded_at = new Date().toISOString();
+    const record = (comorbidity_id: string, definition: ComorbidityDefinitionFields | null): ComorbidityVersion => {
+      const previous = latest.get(comorbidity_id);
+      const isRestore = options.restored?.comorbidity_id === comorbidity_id;
+      return {
+        code,
+        comorbidity_id,
+        version: (previous?.version || 0) + 1,
+        recorded_at,
+        recorded_by: options.recorded_by,
+        change: isRestore ? 'restored' : !definition ? 'deleted' : previous?.definition ? 'updated' : 'created',
+        source: options.source,
+        definition,
+        ...(isRestore ? { restored_from: options.restored!.from } : {})
+      };
+    };
+
+    const currentIds = new Set<string>();
+    const changed = definitions.flatMap(definition => {
+      const id = String(definition.id);
+      currentIds.add(id);
+      const fields = definitionFields(definition);
+      return sameDefinition(latest.get(id)?.definition ?? null, fields) ? [] : [record(id, fields)];
+    });
+    const deleted = Array.from(latest.values())
+      .filter(version => version.definition && !currentIds.has(version.comorbidity_id))
+      .map(version => record(version.comorbidity_id, null));
+
+    await appendLines(VERSIONS_PATH, [...changed, ...deleted]);
+    return [...changed, ...deleted];
+  });
+}
+
+/** Procedure codes that already have a history, which a reference file upload may have changed. */
+export async function versionedCodes(): Promise<string[]> {
+  return Array.from(new Set((await readLines<ComorbidityVersion>(VERSIONS_PATH)).map(version => version.code)));
+}
+
+/** The latest version of each definition that currently exists for a procedure code. */
+export async function currentDefinitionVersions(code: string): Promise<ComorbidityVersion[]> {
+  return Array.from(latestById(await readDefinitionVersions(code)).values()).filter(version => version.definition);
+}
+
+/** Records which definition versions a job was submitted with. */
+export async function pinJobDefinitions(jobId: string, code: string, definitions: ComorbidityVersion[]): Promise<JobDefinitionPin> {
+  const pin: StoredPin = {
+    job_id: jobId,
+    code,
+    pinned_at: new Date().toISOString(),
+    versions: definitions.map(version => ({ comorbidity_id: version.comorbidity_id, version: version.version }))
+  };
+  await serialised(() => appendLines(PINS_PATH, [pin]));
+  return { job_id: pin.job_id, code: pin.code, pinned_at: pin.pinned_at, definitions };
+}
+
+/** The definition versions a job ran with, or null for jobs submitted before pinning existed. */
+export async function loadJobDefinitionPin(jobId: string): Promise<JobDefinitionPin | null> {
+  const pin = (await readLines<StoredPin>(PINS_PATH)).find(stored => stored.job_id === jobId);
+  if (!pin) return null;
+  const versions = await readDefinitionVersions(pin.code);
+  const byKey = new Map(versions.map(version => [`${version.comorbidity_id}@${version.version}`, version]));
+  return {
+    job_id: pin.job_id,
+    code: pin.code,
+    pinned_at: pin.pinned_at,
+    definitions: pin.versions
+      .map(({ comorbidity_id, version }) => byKey.get(`${comorbidity_id}@${version}`))
+      .filter((version): version is ComorbidityVersion => !!version)
+  };
+}
+
+/** Pinned versions in the shape of backend definition records, for scoring past results. */
+export const pinnedDefinitionRecords = (pin: JobDefinitionPin) =>
+  pin.definitions.map(version => ({ id: version.comorbidity_id, ...version.definition }));
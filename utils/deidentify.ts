@@ -0,0 +1,383 @@
+// utils/deidentify.ts
+// Flags identifier columns and redacts uploads in the browser, so only pseudonymised data reaches the
+// backend and the LLM. Pseudonyms are derived from the deployment's pseudonym secret, so every user
+// gives a patient the same one; the table that maps them back to patients never leaves this browser.
+import crypto from 'crypto';
+import * as XLSX from 'xlsx';
+import type { ColumnMapping, FileMetadata, IdentifierKind } from '../types';
+import { columnNames } from './sheets';
+
+export const IDENTIFIER_LABELS: Record<IdentifierKind, string> = {
+  name: 'Name',
+  nhs_number: 'NHS number',
+  mrn: 'Hospital number (MRN)',
+  date_of_birth: 'Date of birth',
+  address: 'Address',
+  postcode: 'Postcode',
+  phone: 'Phone number',
+  email: 'Email address'
+};
+
+// What happens to an identifier column's values before upload; see deidentifyValue
+export const IDENTIFIER_TREATMENTS: Record<IdentifierKind, string> = {
+  name: 'pseudonymised',
+  nhs_number: 'pseudonymised',
+  mrn: 'pseudonymised',
+  date_of_birth: 'reduced to year of birth',
+  address: 'masked',
+  postcode: 'reduced to outward code',
+  phone: 'masked',
+  email: 'masked'
+};
+
+export interface DeidentificationKey {
+  // Deployment secret the pseudonyms are derived from; fetched from the server, never stored or uploaded
+  secret: string;
+  // pseudonym -> original value, for re-identification
+  originals: Record<string, string>;
+}
+
+const STORAGE_KEY = 'mediaudit-deidentification-key';
+
+// Identifiers that are replaced by a consistent pseudonym, so patients can still be linked and counted
+const PSEUDONYM_PREFIXES: Partial<Record<IdentifierKind, string>> = { name: 'NAME', nhs_number: 'NHS', mrn: 'MRN' };
+
+const COLUMN_PATTERNS: Array<[IdentifierKind, RegExp]> = [
+  ['nhs_number', /^nhs$|\bnhs[ _]?(no|num|number|id)\b/i],
+  ['date_of_birth', /\b(dob|d\.o\.b\.?|date[ _]?of[ _]?birth|birth[ _]?date)\b/i],
+  ['mrn', /\b(mrn|crn|hosp(ital)?[ _]?(no|num|number)|unit[ _]?(no|number)|pas[ _]?(id|no|number)|patient[ _]?(id|no|num|number|identifier))\b/i],
+  ['postcode', /\b(post[ _]?code|zip)\b/i],
+  ['address', /\b(address|addr|street|town|city)\b/i],
+  ['phone', /\b(phone|tel|telephone|mobile)\b/i],
+  ['email', /e-?mail/i],
+  // Bare "name" only; consultant and procedure names are not patient identifiers
+  ['name', /^(full[ _]?)?name$|\b(patient[ _]?name|forenames?|first[ _]?name|surname|last[ _]?name|family[ _]?name|given[ _]?names?)\b/i]
+];
+
+const NHS_NUMBER = /\b\d{3}[ -]?\d{3}[ -]?\d{4}\b/g;
+const EMAIL = /\b[\w.+-]+@[\w-]+(\.[\w-]+)+\b/g;
+const POSTCODE = /\b([A-Z]{1,2}\d[A-Z\d]?) ?(\d[A-Z]{2})\b/gi;
+const PHONE = /(\+44\s?|\b0)\d{2,4}[\s-]?\d{3,4}[\s-]?\d{3,4}\b/g;
+const LABELLED_DOB = /\b(DOB|D\.O\.B\.?|date of birth|born(?: on)?)(\s*[:\-]?\s*)(\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}|\d{1,2}(st|nd|rd|th)? [A-Za-z]{3,9} \d{4})/gi;
+const LABELLED_MRN = /\b(MRN|CRN|hospital (?:no|number)|hosp no|unit no)(\.?\s*[:#\-]?\s*)([A-Z]{0,3}\d[A-Z\d]{3,})\b/gi;
+const TITLES = 'Mr|Mrs|Ms|Miss|Mx|Dr|Prof|Professor|Sister|Nurse';
+// Name words must not run into a hyphen or digit, so pseudonyms already in the text are left alone
+const TITLED_NAME = new RegExp(`\\b(${TITLES})(\\.?\\s+)((?:[A-Z][a-zA-Z']+(?:-[A-Z][a-zA-Z']+)?(?![\\w-])\\s*){1,3})`, 'g');
+const STREET = /\b\d{1,4}[a-z]?,?\s+(?:[A-Z][a-z]+\s+){1,3}(Road|Rd|Street|St|Avenue|Ave|Lane|Ln|Drive|Dr|Close|Way|Court|Crescent|Place|Gardens|Terrace|Grove|Hill)\b\.?/g;
+
+// Pseudonyms as this module writes them (and the numbered ones of earlier versions), so they are not redacted again
+const PSEUDONYM = /^(NAME|NHS|MRN)-([0-9A-F]{16}|\d{5})$/;
+
+export const createDeidentificationKey = (secret: string): DeidentificationKey => ({ secret, originals: {} });
+
+/** The re-identification table saved in this browser: pseudonym -> original value. */
+export function loadStoredOriginals(): Record<string, string> {
+  if (typeof window === 'undefined') return {};
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved && saved.originals ? saved.originals : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Fetches the deployment's pseudonym secret; uploads cannot be de-identified without it. */
+export async function loadDeidentificationKey(): Promise<DeidentificationKey> {
+  const response = await fetch('/api/pseudonym-key');
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.secret) {
+    throw new Error(result.error || 'Could not load the pseudonymisation key');
+  }
+  return createDeidentificationKey(result.secret);
+}
+
+/**
+ * Adds the key's entries to the saved re-identification table. The table is re-read first, as other
+ * steps and tabs save theirs too; a pseudonym always names one value, so entries only ever get added.
+ */
+export function saveDeidentificationKey(key: DeidentificationKey): void {
+  const originals = { ...key.originals, ...loadStoredOriginals() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ originals }));
+}
+
+/** NHS numbers carry a modulus 11 check digit, which tells them apart from other ten-digit numbers. */
+export function isValidNhsNumber(value: string): boolean {
+  const digits = value.replace(/[\s-]/g, '');
+  if (!/^\d{10}$/.test(digits)) return false;
+  const sum = digits.slice(0, 9).split('').reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = 11 - (sum % 11);
+  return check !== 10 && (check === 11 ? 0 : check) === Number(digits[9]);
+}
+
+const normalise = (kind: IdentifierKind, value: string): string => {
+  if (kind === 'nhs_number') return value.replace(/[\s-]/g, '');
+  if (kind === 'mrn') return value.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+};
+
+/**
+ * An HMAC of the normalised value under the deployment secret, so the same value gets the same
+ * pseudonym in every browser, file and job, and different values practically never share one.
+ * Hospital numbers that are valid NHS numbers count as NHS numbers, so files keyed either way still link.
+ */
+export function pseudonymFor(key: DeidentificationKey, identifierKind: IdentifierKind, value: string): string {
+  const kind = identifierKind === 'mrn' && isValidNhsNumber(value) ? 'nhs_number' : identifierKind;
+  const prefix = PSEUDONYM_PREFIXES[kind] || kind.toUpperCase();
+  const digest = crypto.createHmac('sha256', key.secret).update(`${kind}:${normalise(kind, value)}`).digest('hex');
+  const pseudonym = `${prefix}-${digest.slice(0, 16).toUpperCase()}`;
+  if (!key.originals[pseudonym]) key.originals[pseudonym] = value.trim();
+  return pseudonym;
+}
+
+/**
+ * Suggests what kind of identifier a column holds, from its name first and then from its values
+ * (valid NHS numbers, email addresses, postcodes). Returns null for ordinary columns.
+ */
+export function detectIdentifierKind(columnName: string, values: string[]): IdentifierKind | null {
+  const byName = COLUMN_PATTERNS.find(([, pattern]) => pattern.test(columnName));
+  if (byName) return byName[0];
+
+  const present = values.map(value => String(value ?? '').trim()).filter(Boolean);
+  if (present.length === 0) return null;
+  const share = (test: (value: string) => boolean) => present.filter(test).length / present.length;
+  if (share(isValidNhsNumber) >= 0.8) return 'nhs_number';
+  if (share(value => new RegExp(`^${EMAIL.source}$`).test(value)) >= 0.8) return 'email';
+  if (share(value => new RegExp(`^${POSTCODE.source}$`, 'i').test(value)) >= 0.8) return 'postcode';
+  return null;
+}
+
+/**
+ * What an identifier column's cell becomes: names and patient numbers get pseudonyms, dates of
+ * birth keep only the year (enough for age), postcodes only the outward code, the rest is masked.
+ */
+export function deidentifyValue(key: DeidentificationKey, kind: IdentifierKind, value: string): string {
+  const text = value.trim();
+  if (!text) return value;
+  switch (kind) {
+    case 'name':
+    case 'nhs_number':
+    case 'mrn':
+      return pseudonymFor(key, kind, text);
+    case 'date_of_birth': {
+      const year = text.match(/\b(18|19|20)\d{2}\b/);
+      return year ? year[0] : '[DOB]';
+    }
+    case 'postcode': {
+      const outward = text.match(/^([A-Z]{1,2}\d[A-Z\d]?) ?\d[A-Z]{2}$/i);
+      return outward ? outward[1].toUpperCase() : '[POSTCODE]';
+    }
+    default:
+      return `[${kind.toUpperCase()}]`;
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A name part as it would be written in a name: capital first letter, any case after it
+const capitalised = (part: string) => escapeRegExp(part[0].toUpperCase()) + part.slice(1).split('')
+  .map(char => char.toLowerCase() !== char.toUpperCase() ? `[${char.toLowerCase()}${char.toUpperCase()}]` : escapeRegExp(char))
+  .join('');
+
+/**
+ * Replaces a known patient name in free text. The full name is matched in any case. Its parts are
+ * only matched where they read as a name, after a title or next to another part ("Mr Heart",
+ * "Heart, Jane"), so a patient called Heart or May does not turn "heart failure" into a pseudonym.
+ */
+function redactName(text: string, name: string, replacement: string): string {
+  let result = text;
+  if (/\s/.test(name)) {
+    const words = name.split(/\s+/).map(escapeRegExp).join('\\s+');
+    result = result.replace(new RegExp(`(^|[^\\w])${words}(?![\\w])`, 'gi'), `$1${replacement}`);
+  }
+  const parts = name.split(/[\s,]+/).filter(part => part.length > 1).map(capitalised);
+  if (parts.length === 0) return result;
+  const part = `(?:${parts.join('|')})`;
+  const pattern = new RegExp(`(^|[^\\w-])((?:${TITLES})\\.?\\s+)?(${part}(?:,?\\s+${part})*)(?![\\w-])`, 'g');
+  return result.replace(pattern, (match, lead: string, title: string | undefined, written: string) =>
+    title || /\s/.test(written) ? `${lead}${title || ''}${replacement}` : match);
+}
+
+export interface KnownIdentifier {
+  kind: IdentifierKind;
+  value: string;
+}
+
+/**
+ * Redacts identifiers inside free text. Values from the same row's identifier columns are replaced
+ * wherever they appear; beyond those, titled names, labelled numbers and dates of birth, NHS numbers
+ * and contact details are recognised by pattern. Untitled names of other people cannot be.
+ */
+export function redactText(text: string, key: DeidentificationKey, known: KnownIdentifier[] = []): string {
+  if (!text) return text;
+  let result = text;
+
+  known.forEach(({ kind, value }) => {
+    const original = value.trim();
+    if (original.length < 2) return;
+    const replacement = deidentifyValue(key, kind, original);
+    // Names are also matched part by part, as notes tend to say "Mr Smith" rather than the full name
+    if (kind === 'name') {
+      result = redactName(result, original, replacement);
+    } else {
+      result = result.replace(new RegExp(`(^|[^\\w])${escapeRegExp(original)}(?![\\w])`, 'gi'), `$1${replacement}`);
+    }
+  });
+
+  return result
+    .replace(EMAIL, '[EMAIL]')
+    .replace(LABELLED_DOB, (_, label, separator) => `${label}${separator}[DOB]`)
+    .replace(LABELLED_MRN, (match, label, separator, value) =>
+      PSEUDONYM.test(match) ? match : `${label}${separator}${pseudonymFor(key, 'mrn', value)}`)
+    .replace(NHS_NUMBER, match => isValidNhsNumber(match) ? pseudonymFor(key, 'nhs_number', match) : match)
+    .replace(PHONE, '[PHONE]')
+    .replace(STREET, '[ADDRESS]')
+    .replace(POSTCODE, (_, outward) => `${outward.toUpperCase()} [POSTCODE]`)
+    .replace(TITLED_NAME, (match, title, separator, name: string) => {
+      const trailing = name.match(/\s*$/)![0];
+      return `${title}${separator}${pseudonymFor(key, 'name', name.trim())}${trailing}`;
+    });
+}
+
+type Table = { detectedHeaderRow: number; columnMappings: ColumnMapping[]; joinKey?: string };
+
+// Join and linkage keys are always pseudonymised, even when their column wasn't flagged
+const identifierColumns = (table: Table, keyColumns: string[]): Map<string, IdentifierKind> => {
+  const kinds = new Map<string, IdentifierKind>();
+  [...keyColumns, table.joinKey].forEach(column => column && kinds.set(column.trim().toLowerCase(), 'mrn'));
+  table.columnMappings
+    .filter(mapping => mapping.identifier)
+    .forEach(mapping => kinds.set(mapping.columnName.trim().toLowerCase(), mapping.identifier!));
+  return kinds;
+};
+
+const knownIdentifiers = (row: Record<string, unknown>, kinds: Map<string, IdentifierKind>): KnownIdentifier[] =>
+  Object.keys(row)
+    .filter(column => kinds.has(column.trim().toLowerCase()) && row[column] != null && String(row[column]).trim())
+    .map(column => ({ kind: kinds.get(column.trim().toLowerCase())!, value: String(row[column]) }));
+
+function deidentifySheet(sheet: XLSX.WorkSheet, table: Table | undefined, key: DeidentificationKey, keyColumns: string[]): void {
+  if (!sheet['!ref']) return;
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const headerRow = range.s.r + (table?.detectedHeaderRow || 0);
+  const kinds = table ? identifierColumns(table, keyColumns) : new Map<string, IdentifierKind>();
+  const cellAt = (row: number, column: number): XLSX.CellObject | undefined => sheet[XLSX.utils.encode_cell({ r: row, c: column })];
+
+  const headerCells = Array.from({ length: range.e.c - range.s.c + 1 }, (_, index) => {
+    const cell = cellAt(headerRow, range.s.c + index);
+    return cell ? String(cell.w ?? cell.v ?? '').trim() : '';
+  });
+  const columnKinds = columnNames(headerCells, headerCells.length).map(name => kinds.get(name.toLowerCase()));
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    // Column names stay as they are; the mappings refer to them
+    if (r === headerRow) continue;
+    const known: KnownIdentifier[] = [];
+    if (r > headerRow) {
+      columnKinds.forEach((kind, index) => {
+        const cell = cellAt(r, range.s.c + index);
+        if (kind && cell && cell.v != null) known.push({ kind, value: String(cell.w ?? cell.v) });
+      });
+    }
+
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = cellAt(r, c);
+      if (!cell || cell.v == null) continue;
+      const kind = r > headerRow ? columnKinds[c - range.s.c] : undefined;
+      const original = String(cell.w ?? cell.v);
+      let value: string;
+      if (kind) {
+        value = deidentifyValue(key, kind, original);
+      } else if (cell.t === 's') {
+        value = redactText(original, key, known);
+      } else {
+        continue;
+      }
+      if (value === original && cell.t === 's') continue;
+      // Replaced cells become plain text; formatting and formulas of the original no longer apply
+      sheet[XLSX.utils.encode_cell({ r, c })] = { t: 's', v: value };
+    }
+  }
+}
+
+const BOOK_TYPES: Record<string, XLSX.BookType> = { csv: 'csv', xls: 'biff8', xlsx: 'xlsx' };
+
+/**
+ * Redacts every sheet of an uploaded workbook, included or not, and returns it in its original
+ * format and under its original name. Rows keep their positions, so header rows and data ranges
+ * configured against the original still apply. `keyColumns` are the file's patient linkage keys.
+ */
+export async function deidentifyFile(file: File, meta: FileMetadata, key: DeidentificationKey, keyColumns: string[] = []): Promise<File> {
+  const extension = (file.name.split('.').pop() || '').toLowerCase();
+  const bookType = BOOK_TYPES[extension] || 'xlsx';
+  // CSV cells are kept exactly as written instead of being parsed into numbers and dates
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', raw: bookType === 'csv', cellNF: true });
+
+  workbook.SheetNames.forEach((name, index) => {
+    const table = meta.sheets ? meta.sheets.find(sheet => sheet.sheetName === name) : index === 0 ? meta : undefined;
+    deidentifySheet(workbook.Sheets[name], table, key, keyColumns);
+  });
+
+  const output = XLSX.write(workbook, { type: 'array', bookType });
+  return new File([output], file.name, { type: file.type });
+}
+
+function deidentifyTable<T extends Table & { sampleData: any[]; columnAnalysis?: FileMetadata['columnAnalysis'] }>(
+  table: T,
+  key: DeidentificationKey,
+  keyColumns: string[]
+): T {
+  const kinds = identifierColumns(table, keyColumns);
+  const redact = (column: string, value: any, known: KnownIdentifier[] = []): any => {
+    if (value == null || value === '') return value;
+    const kind = kinds.get(column.trim().toLowerCase());
+    return kind ? deidentifyValue(key, kind, String(value)) : typeof value === 'string' ? redactText(value, key, known) : value;
+  };
+
+  return {
+    ...table,
+    sampleData: table.sampleData.map(row => {
+      const known = knownIdentifiers(row, kinds);
+      return Object.fromEntries(Object.keys(row).map(column => [column, redact(column, row[column], known)]));
+    }),
+    columnMappings: table.columnMappings.map(mapping => ({
+      ...mapping,
+      sampleData: mapping.sampleData.map(value => String(redact(mapping.columnName, value) ?? ''))
+    })),
+    columnAnalysis: table.columnAnalysis && Object.fromEntries(Object.keys(table.columnAnalysis).map(column => [column, {
+      ...table.columnAnalysis![column],
+      sample_values: table.columnAnalysis![column].sample_values.map(value => redact(column, value))
+    }]))
+  };
+}
+
+/** Redacts the sample values carried in a file's metadata, which is sent alongside the file. */
+export function deidentifyMetadata(meta: FileMetadata, key: DeidentificationKey, keyColumns: string[] = []): FileMetadata {
+  const redacted = deidentifyTable(meta, key, keyColumns);
+  return meta.sheets ? { ...redacted, sheets: meta.sheets.map(sheet => deidentifyTable(sheet, key, keyColumns)) } : redacted;
+}
+
+/**
+ * Redacts the rows of a sheet that has not been through column configuration, such as a gold-standard
+ * reference: identifier columns are detected and free text is redacted. `idColumn` is pseudonymised
+ * like a hospital number only for `linked` jobs, whose patients are identified by pseudonymised keys;
+ * other jobs identify patients by row number, which is left as it is.
+ */
+export function deidentifyReferenceRows(
+  rows: Record<string, any>[],
+  key: DeidentificationKey,
+  idColumn: string | undefined,
+  linked: boolean
+): Record<string, any>[] {
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const columnMappings: ColumnMapping[] = columns.map(column => ({
+    columnName: column,
+    isEnabled: false,
+    selectedComorbidities: [],
+    customPrompt: '',
+    sampleData: [],
+    identifier: column === idColumn
+      ? (linked ? 'mrn' : null)
+      : detectIdentifierKind(column, rows.map(row => String(row[column] ?? '')))
+  }));
+  return deidentifyTable({ detectedHeaderRow: 0, columnMappings, sampleData: rows }, key, []).sampleData;
+}
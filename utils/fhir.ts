@@ -0,0 +1,182 @@
+// utils/fhir.ts
+// FHIR R4 export of a job: Condition per confirmed comorbidity match, Procedure per patient for the
+// ICMP code and outcome, and an Observation for mortality status. Server-side only (uses node crypto).
+import { createHash } from 'crypto';
+import { matchTargetId, patientTargetId, matchesForPatient } from './adjudication';
+
+export type FhirExportFormat = 'bundle' | 'ndjson';
+
+export interface FhirExportOptions {
+  job_id: string;
+  procedure_code: string | null;
+  // Identifier system for patient keys. Linked patient IDs are pseudonymised in the browser before
+  // upload (see utils/deidentify), so this names a pseudonym namespace, never the hospital MRN system
+  pseudonym_system: string;
+  // Unreviewed matches are exported as provisional instead of being left out
+  include_unreviewed: boolean;
+}
+
+type FhirResource = { resourceType: string; id: string; [key: string]: any };
+
+const SYSTEM_BASE = 'urn:mediaudit';
+const CONFIDENCE_EXTENSION = `${SYSTEM_BASE}:fhir:StructureDefinition:match-confidence`;
+const SNOMED = 'http://snomed.info/sct';
+// Security label telling the receiving server that patient identifiers in the resource are pseudonyms
+const PSEUDONYMISED = { system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationValue', code: 'PSEUDED', display: 'pseudonymized' };
+
+// SNOMED CT qualifier values from the FHIR procedure-outcome and vital status value sets
+const PROCEDURE_OUTCOMES: Record<string, { code: string; display: string }> = {
+  success: { code: '385669000', display: 'Successful' },
+  failure: { code: '385671000', display: 'Unsuccessful' }
+};
+const VITAL_STATUS: Record<string, { code: string; display: string }> = {
+  alive: { code: '438949009', display: 'Alive' },
+  deceased: { code: '419099009', display: 'Dead' }
+};
+
+/**
+ * Resource ids are derived from the job and the finding, so exporting the same job twice
+ * updates the same resources instead of creating duplicates. Formatted as a UUID so the
+ * same value serves as the Bundle entry's urn:uuid fullUrl.
+ */
+function stableId(...parts: Array<string | number>): string {
+  const hex = createHash('sha256').update(parts.join('|')).digest('hex');
+  // Version 5 and RFC 4122 variant bits, as for a name-based UUID
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+const coding = (system: string, code: string, display?: string) => ({ coding: [{ system, code, ...(display ? { display } : {}) }] });
+
+// Patients are referenced by identifier: the export doesn't own Patient resources on the target server
+function patientReference(patient: any, options: FhirExportOptions) {
+  return patient.patient_key
+    ? { identifier: { type: { text: 'Pseudonym' }, system: options.pseudonym_system, value: String(patient.patient_key) } }
+    : {
+      identifier: { system: `${SYSTEM_BASE}:job:${options.job_id}:row`, value: patientTargetId(patient) },
+      display: `Row ${patient.patient_id}${patient.file_name ? ` of ${patient.file_name}` : ''}`
+    };
+}
+
+// FHIR dateTime allows a bare date, which is kept as-is rather than given a midnight UTC time
+const validDate = (value: any): string | null => {
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(String(value))) return String(value);
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+function conditionFor(match: any, patient: any, options: FhirExportOptions, verification: 'confirmed' | 'provisional'): FhirResource {
+  const name = match.adjudication?.decision === 'corrected' && match.adjudication.corrected_value
+    ? match.adjudication.corrected_value
+    : match.comorbidity_name;
+  const notes = [
+    match.excerpt || match.matched_text ? { text: `Evidence (${match.column_name}, row ${match.row_number}): ${match.excerpt || match.matched_text}` } : null,
+    match.adjudication?.note ? { text: `Reviewer note: ${match.adjudication.note}` } : null
+  ].filter(Boolean);
+
+  return {
+    resourceType: 'Condition',
+    id: stableId(options.job_id, 'match', matchTargetId(match)),
+    identifier: [{ system: `${SYSTEM_BASE}:job:${options.job_id}:match`, value: matchTargetId(match) }],
+    extension: [{ url: CONFIDENCE_EXTENSION, valueDecimal: Number(match.confidence) || 0 }],
+    clinicalStatus: coding('http://terminology.hl7.org/CodeSystem/condition-clinical', 'active'),
+    verificationStatus: coding('http://terminology.hl7.org/CodeSystem/condition-ver-status', verification),
+    category: [coding('http://terminology.hl7.org/CodeSystem/condition-category', 'encounter-diagnosis', 'Encounter Diagnosis')],
+    code: {
+      ...coding(`${SYSTEM_BASE}:comorbidity`, String(match.comorbidity_id || name), name),
+      text: name
+    },
+    subject: patientReference(patient, options),
+    ...(match.adjudication?.decided_at ? { recordedDate: validDate(match.adjudication.decided_at) } : {}),
+    ...(notes.length > 0 ? { note: notes } : {})
+  };
+}
+
+function procedureFor(patient: any, options: FhirExportOptions): FhirResource {
+  const outcome = PROCEDURE_OUTCOMES[patient.surgery_outcome];
+  const performed = validDate(patient.procedure_date);
+  return {
+    resourceType: 'Procedure',
+    id: stableId(options.job_id, 'procedure', patientTargetId(patient)),
+    identifier: [{ system: `${SYSTEM_BASE}:job:${options.job_id}:procedure`, value: patientTargetId(patient) }],
+    status: 'completed',
+    code: options.procedure_code
+      ? { ...coding(`${SYSTEM_BASE}:icmp`, options.procedure_code), text: options.procedure_code }
+      : { text: 'Audited procedure' },
+    subject: patientReference(patient, options),
+    ...(performed ? { performedDateTime: performed } : {}),
+    ...(outcome ? { outcome: { ...coding(SNOMED, outcome.code, outcome.display), text: patient.surgery_outcome } } : {}),
+    ...((patient.failure_causes || []).length > 0
+      ? { complication: patient.failure_causes.map((cause: any) => ({ text: String(typeof cause === 'string' ? cause : JSON.stringify(cause)) })) }
+      : {})
+  };
+}
+
+function mortalityObservationFor(patient: any, procedure: FhirResource, procedureReference: string, options: FhirExportOptions): FhirResource | null {
+  const status = VITAL_STATUS[patient.mortality_status];
+  if (!status) return null;
+  const timeOfDeath = validDate(patient.time_of_death);
+  const causes = (patient.mortality_causes || []).map((cause: any) => String(typeof cause === 'string' ? cause : JSON.stringify(cause)));
+
+  return {
+    resourceType: 'Observation',
+    id: stableId(options.job_id, 'mortality', patientTargetId(patient)),
+    identifier: [{ system: `${SYSTEM_BASE}:job:${options.job_id}:mortality`, value: patientTargetId(patient) }],
+    status: 'final',
+    category: [coding('http://terminology.hl7.org/CodeSystem/observation-category', 'survey', 'Survey')],
+    code: { ...coding(`${SYSTEM_BASE}:observation`, 'mortality-status', 'Mortality status'), text: 'Mortality status' },
+    subject: procedure.subject,
+    partOf: [{ reference: procedureReference }],
+    ...(timeOfDeath ? { effectiveDateTime: timeOfDeath } : {}),
+    valueCodeableConcept: { ...coding(SNOMED, status.code, status.display), text: patient.mortality_status },
+    ...(causes.length > 0 ? { note: causes.map((cause: string) => ({ text: `Cause of death: ${cause}` })) } : {})
+  };
+}
+
+/**
+ * Builds the resources for one transformed job result. Rejected matches are never exported;
+ * matches without a decision only when include_unreviewed is set.
+ */
+export function buildFhirResources(results: any, options: FhirExportOptions, format: FhirExportFormat): FhirResource[] {
+  const matches = results.matches || [];
+  const resources: FhirResource[] = [];
+  // Bundle entries reference each other by fullUrl, NDJSON lines by type/id
+  const referenceTo = (resource: FhirResource) => format === 'bundle' ? `urn:uuid:${resource.id}` : `${resource.resourceType}/${resource.id}`;
+
+  (results.patient_summaries || []).forEach((patient: any) => {
+    matchesForPatient(patient, matches).forEach((match: any) => {
+      const decision = match.adjudication?.decision;
+      if (decision === 'confirmed' || decision === 'corrected') {
+        resources.push(conditionFor(match, patient, options, 'confirmed'));
+      } else if (!decision && options.include_unreviewed) {
+        resources.push(conditionFor(match, patient, options, 'provisional'));
+      }
+    });
+
+    const procedure = procedureFor(patient, options);
+    resources.push(procedure);
+    const observation = mortalityObservationFor(patient, procedure, referenceTo(procedure), options);
+    if (observation) resources.push(observation);
+  });
+
+  return resources.map(resource => ({ ...resource, meta: { security: [PSEUDONYMISED] } }));
+}
+
+// Transaction Bundle using PUT by id, so re-exporting a job is idempotent on the receiving server
+export function toTransactionBundle(resources: FhirResource[]) {
+  return {
+    resourceType: 'Bundle',
+    type: 'transaction',
+    timestamp: new Date().toISOString(),
+    entry: resources.map(resource => ({
+      fullUrl: `urn:uuid:${resource.id}`,
+      resource,
+      request: { method: 'PUT', url: `${resource.resourceType}/${resource.id}` }
+    }))
+  };
+}
+
+export function toNdjson(resources: FhirResource[]): string {
+  return resources.map(resource => JSON.stringify(resource)).join('\n') + '\n';
+}
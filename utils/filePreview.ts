@@ -0,0 +1,151 @@
+// utils/filePreview.ts
+// In-browser structure preview of CSV/XLSX uploads: header detection, sample values and column
+// types, so the column grid can be shown before the server has analysed the file.
+import * as XLSX from 'xlsx';
+import type { ColumnAnalysis, SheetAnalysis, TableRangeOverride } from '../types';
+import { columnNames } from './sheets';
+
+export interface FilePreview {
+  fileName: string;
+  sheets: SheetAnalysis[];
+  // Leading rows of each sheet exactly as read, for the layout editor
+  rawRows: Record<string, string[][]>;
+}
+
+export interface PreviewOptions {
+  // Rows parsed per sheet; 0 reads whole sheets, as the server does for exact row counts
+  parseRows?: number;
+  // Keyed by sheet name, or '' for the only sheet of a file
+  overrides?: Record<string, TableRangeOverride>;
+}
+
+// Rows parsed per sheet in the browser; enough for header detection and type inference
+const PREVIEW_ROWS = 1000;
+const HEADER_SCAN_ROWS = 20;
+const SAMPLE_ROWS = 5;
+const SAMPLE_VALUES = 5;
+const RAW_ROWS = 30;
+
+const NUMERIC = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?%?$/;
+const DATE_LIKE = /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}([ T]\d{1,2}:\d{2}(:\d{2})?)?$|^\d{4}-\d{2}-\d{2}T/;
+const MEDICAL_TERMS = /\b(diagnos\w*|history|hx|pmh|comorbid\w*|diabet\w*|hypertension|htn|copd|asthma|cardiac|renal|ckd|ihd|stroke|cancer|infection|complication\w*|surgery|procedure|post-?op\w*|pre-?op\w*|mg|medication)\b/i;
+
+const isNumeric = (value: string) => value !== '' && /\d/.test(value) && NUMERIC.test(value.trim());
+const isDateLike = (value: string) => DATE_LIKE.test(value.trim()) && !Number.isNaN(Date.parse(value.trim().replace(/\./g, '/')));
+
+/**
+ * The header is the first of the leading rows that is nearly as wide as the widest row and
+ * mostly text. Title banners above it are narrower; data rows below it carry numbers and dates.
+ */
+function detectHeaderRow(rows: string[][]): number {
+  const scanned = rows.slice(0, HEADER_SCAN_ROWS);
+  const filled = scanned.map(row => row.filter(cell => cell !== ''));
+  const widest = Math.max(0, ...filled.map(cells => cells.length));
+  if (widest === 0) return 0;
+
+  const header = filled.findIndex(cells => {
+    if (cells.length < Math.ceil(widest * 0.5)) return false;
+    const textCells = cells.filter(cell => !isNumeric(cell) && !isDateLike(cell));
+    return textCells.length / cells.length >= 0.8 && new Set(cells).size === cells.length;
+  });
+  return header === -1 ? 0 : header;
+}
+
+function analyseColumn(values: string[]): ColumnAnalysis[string] {
+  const present = values.filter(value => value !== '');
+  const avgLength = present.length > 0 ? present.reduce((sum, value) => sum + value.length, 0) / present.length : 0;
+
+  let dataType: ColumnAnalysis[string]['data_type'] = 'text';
+  if (present.length === 0) dataType = 'empty';
+  else if (present.every(isNumeric)) dataType = 'numeric';
+  else if (present.every(isDateLike)) dataType = 'datetime';
+  else if (avgLength > 50) dataType = 'long_text';
+
+  const medicalCount = dataType === 'text' || dataType === 'long_text'
+    ? present.filter(value => MEDICAL_TERMS.test(value)).length
+    : 0;
+
+  return {
+    sample_values: Array.from(new Set(present)).slice(0, SAMPLE_VALUES),
+    data_type: dataType,
+    contains_medical_text: present.length > 0 && medicalCount / present.length >= 0.2,
+    avg_length: Math.round(avgLength * 10) / 10,
+    unique_count: new Set(present).size,
+    total_values: present.length
+  };
+}
+
+const readRows = (sheet: XLSX.WorkSheet): string[][] =>
+  XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true })
+    .map(row => row.map(cell => String(cell ?? '').trim()));
+
+function previewSheet(
+  sheetName: string,
+  sheet: XLSX.WorkSheet,
+  rows: string[][],
+  parseRows: number,
+  override?: TableRangeOverride
+): SheetAnalysis {
+  const detectedHeaderRow = override ? override.headerRow : detectHeaderRow(rows);
+  const firstDataRow = override ? override.firstDataRow : detectedHeaderRow + 1;
+  const lastDataRow = override?.lastDataRow ?? null;
+
+  const dataRows = rows
+    .slice(firstDataRow, lastDataRow === null ? undefined : lastDataRow + 1)
+    .filter(row => row.some(cell => cell !== ''));
+  const width = Math.max(0, ...rows.slice(detectedHeaderRow).map(row => row.length));
+  const ignored = new Set(override?.ignoredColumns || []);
+  const kept = columnNames(rows[detectedHeaderRow] || [], width)
+    .map((column, index) => ({ column, index }))
+    // Columns with neither a header nor data are formatting residue
+    .filter(({ column, index }) => !column.startsWith('Unnamed: ') || dataRows.some(row => row[index]))
+    .filter(({ column }) => !ignored.has(column));
+  const columns = kept.map(({ column }) => column);
+  const columnIndexes = kept.map(({ index }) => index);
+
+  const columnAnalysis: ColumnAnalysis = {};
+  const sampleDataByColumn: Record<string, string[]> = {};
+  columns.forEach((column, position) => {
+    const analysis = analyseColumn(dataRows.map(row => row[columnIndexes[position]] || ''));
+    columnAnalysis[column] = analysis;
+    sampleDataByColumn[column] = analysis.sample_values;
+  });
+
+  // The parsed range is capped at parseRows; !fullref keeps the sheet's real extent
+  const range = XLSX.utils.decode_range(sheet['!fullref'] || sheet['!ref'] || 'A1');
+  const totalRows = !parseRows || rows.length < parseRows
+    ? dataRows.length
+    : Math.max(dataRows.length, Math.min(lastDataRow ?? range.e.r, range.e.r) - range.s.r - firstDataRow + 1);
+
+  return {
+    sheetName,
+    columns,
+    detectedHeaderRow,
+    totalRows,
+    sampleData: dataRows.slice(0, SAMPLE_ROWS).map(row =>
+      Object.fromEntries(columns.map((column, position) => [column, row[columnIndexes[position]] || '']))),
+    sampleDataByColumn,
+    columnAnalysis,
+    ...(override ? { rangeOverride: override } : {})
+  };
+}
+
+/**
+ * Parses the leading rows of every sheet, detecting each header row unless an override fixes
+ * the layout. CSV files come back as a single sheet.
+ */
+export function previewWorkbook(fileName: string, data: ArrayBuffer | Uint8Array, options: PreviewOptions = {}): FilePreview {
+  const parseRows = options.parseRows ?? PREVIEW_ROWS;
+  const workbook = XLSX.read(data, { type: 'array', sheetRows: parseRows, cellDates: false });
+  const overrideFor = (name: string) =>
+    options.overrides?.[name] || (workbook.SheetNames.length === 1 ? options.overrides?.[''] : undefined);
+
+  const rowsBySheet = workbook.SheetNames.map(name => readRows(workbook.Sheets[name]));
+
+  return {
+    fileName,
+    sheets: workbook.SheetNames.map((name, index) =>
+      previewSheet(name, workbook.Sheets[name], rowsBySheet[index], parseRows, overrideFor(name))),
+    rawRows: Object.fromEntries(workbook.SheetNames.map((name, index) => [name, rowsBySheet[index].slice(0, RAW_ROWS)]))
+  };
+}
@@ -0,0 +1,11 @@
+// utils/filePreview.worker.ts
+// Runs previewWorkbook off the main thread so large workbooks don't freeze the page while parsing.
+import { previewWorkbook, PreviewOptions } from './filePreview';
+
+self.onmessage = (event: MessageEvent<{ fileName: string; data: ArrayBuffer; options?: PreviewOptions }>) => {
+  try {
+    self.postMessage({ preview: previewWorkbook(event.data.fileName, event.data.data, event.data.options) });
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : 'Failed to parse file' });
+  }
+};
@@ -0,0 +1,216 @@
+// utils/hl7.ts
+// Flattens HL7 v2 message batches (MDM document notifications, ORU results) into a table with one
+// row per message, so EPR extracts go through column configuration like any spreadsheet.
+import { csvCell } from './csv';
+
+export interface Hl7Table {
+  columns: string[];
+  // Column name -> segment/field path it was read from, e.g. PID-3.1 or OBX-5 [OBX-3 = 28570-0]
+  sources: Record<string, string>;
+  rows: Array<Record<string, string>>;
+  messages: number;
+  warnings: string[];
+}
+
+interface Delimiters {
+  field: string;
+  component: string;
+  repetition: string;
+  escape: string;
+  subcomponent: string;
+}
+
+type Segment = { id: string; fields: string[] };
+
+// Fixed fields read from the message header, patient, visit and document segments
+const FIELD_COLUMNS: Array<{ column: string; segment: string; field: number; component?: number }> = [
+  { column: 'Message Type', segment: 'MSH', field: 9 },
+  { column: 'Message Control ID', segment: 'MSH', field: 10 },
+  { column: 'Message Date/Time', segment: 'MSH', field: 7 },
+  { column: 'Patient ID', segment: 'PID', field: 3, component: 1 },
+  { column: 'Patient ID Authority', segment: 'PID', field: 3, component: 4 },
+  { column: 'Patient Name', segment: 'PID', field: 5 },
+  { column: 'Date of Birth', segment: 'PID', field: 7 },
+  { column: 'Sex', segment: 'PID', field: 8 },
+  { column: 'Visit Number', segment: 'PV1', field: 19, component: 1 },
+  { column: 'Admit Date/Time', segment: 'PV1', field: 44 },
+  { column: 'Discharge Date/Time', segment: 'PV1', field: 45 },
+  { column: 'Document Type', segment: 'TXA', field: 2 },
+  { column: 'Document Date/Time', segment: 'TXA', field: 4 },
+  { column: 'Document Number', segment: 'TXA', field: 12, component: 1 },
+  { column: 'Document Status', segment: 'TXA', field: 17 },
+  { column: 'Order Service', segment: 'OBR', field: 4 },
+  { column: 'Observation Date/Time', segment: 'OBR', field: 7 }
+];
+
+const DEFAULT_DELIMITERS: Delimiters = { field: '|', component: '^', repetition: '~', escape: '\\', subcomponent: '&' };
+
+/** True when the text looks like HL7 v2: optional MLLP/batch framing followed by an MSH segment. */
+export function isHl7Text(text: string): boolean {
+  return /^[\s\x0b]*((FHS|BHS)\S[^\r\n]*[\r\n]+)*MSH\S/.test(text.slice(0, 2048));
+}
+
+function unescapeText(value: string, delimiters: Delimiters): string {
+  if (!value.includes(delimiters.escape)) return value;
+  const esc = delimiters.escape.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&');
+  return value.replace(new RegExp(`${esc}([^${esc}]*)${esc}`, 'g'), (match, sequence: string) => {
+    switch (sequence) {
+      case 'F': return delimiters.field;
+      case 'S': return delimiters.component;
+      case 'T': return delimiters.subcomponent;
+      case 'R': return delimiters.repetition;
+      case 'E': return delimiters.escape;
+      case '.br': return '\n';
+      default:
+        if (/^X[0-9A-Fa-f]+$/.test(sequence)) {
+          return (sequence.slice(1).match(/../g) || []).map(hex => String.fromCharCode(parseInt(hex, 16))).join('');
+        }
+        // Formatting commands (.sp, .in, highlighting) carry no text
+        return sequence.startsWith('.') || sequence === 'H' || sequence === 'N' ? '' : match;
+    }
+  });
+}
+
+// Human-readable value of a field: first repetition, components joined with spaces (names, coded values)
+function fieldText(raw: string | undefined, delimiters: Delimiters, component?: number): string {
+  if (!raw) return '';
+  const first = raw.split(delimiters.repetition)[0];
+  const components = first.split(delimiters.component).map(part => part.split(delimiters.subcomponent)[0]);
+  const selected = component ? [components[component - 1] || ''] : components;
+  return unescapeText(selected.filter(Boolean).join(' ').trim(), delimiters);
+}
+
+/** MSH-1 is the field separator itself, so MSH-n sits at index n - 1 and other segments' SEG-n at index n. */
+const fieldAt = (segment: Segment, field: number) => segment.fields[segment.id === 'MSH' ? field - 1 : field];
+
+function splitMessages(text: string): { delimiters: Delimiters; segments: Segment[] }[] {
+  const messages: { delimiters: Delimiters; segments: Segment[] }[] = [];
+  let current: { delimiters: Delimiters; segments: Segment[] } | null = null;
+
+  text
+    .replace(/[\x0b\x1c]/g, '')
+    .split(/\r\n|\r|\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .forEach(line => {
+      if (line.startsWith('MSH')) {
+        const delimiters: Delimiters = {
+          field: line[3] || DEFAULT_DELIMITERS.field,
+          component: line[4] || DEFAULT_DELIMITERS.component,
+          repetition: line[5] || DEFAULT_DELIMITERS.repetition,
+          escape: line[6] || DEFAULT_DELIMITERS.escape,
+          subcomponent: line[7] || DEFAULT_DELIMITERS.subcomponent
+        };
+        current = { delimiters, segments: [] };
+        messages.push(current);
+      }
+      // Batch header/trailer segments sit outside messages
+      if (!current || /^(FHS|BHS|BTS|FTS)/.test(line)) return;
+      const fields = line.split(current.delimiters.field);
+      current.segments.push({ id: fields[0], fields });
+    });
+
+  return messages;
+}
+
+/**
+ * Parses a batch of HL7 v2 messages into one row per message. Patient, visit and document
+ * fields become fixed columns; OBX-5 values become one column per OBX-3 observation
+ * identifier, with the lines of multi-segment notes joined in order.
+ */
+export function parseHl7(text: string): Hl7Table {
+  const messages = splitMessages(text);
+  const warnings: string[] = [];
+  const sources: Record<string, string> = {};
+  const observationColumns: string[] = [];
+  // Observation identifier -> column name, so repeated codes land in the same column across messages
+  const columnByObservation = new Map<string, string>();
+
+  const rows = messages.map((message, index) => {
+    const { delimiters, segments } = message;
+    const row: Record<string, string> = {};
+    const firstOf = (id: string) => segments.find(segment => segment.id === id);
+
+    FIELD_COLUMNS.forEach(({ column, segment: segmentId, field, component }) => {
+      const segment = firstOf(segmentId);
+      const value = segment ? fieldText(fieldAt(segment, field), delimiters, component) : '';
+      if (value) row[column] = value;
+    });
+
+    if (!row['Patient ID']) {
+      warnings.push(`Message ${index + 1}${row['Message Control ID'] ? ` (${row['Message Control ID']})` : ''} has no PID-3 patient identifier`);
+    }
+
+    segments.filter(segment => segment.id === 'OBX').forEach(segment => {
+      const identifier = (fieldAt(segment, 3) || '').split(delimiters.component);
+      const code = unescapeText(identifier[0] || '', delimiters).trim();
+      const label = unescapeText(identifier[1] || '', delimiters).trim();
+      const key = code || label || 'OBX';
+
+      let column = columnByObservation.get(key);
+      if (!column) {
+        column = label || code || 'Observation';
+        // Two codes can share a display text; the code keeps their columns apart
+        if (sources[column] || FIELD_COLUMNS.some(fixed => fixed.column === column)) {
+          column = `${column} (${code || observationColumns.length + 1})`;
+        }
+        columnByObservation.set(key, column);
+        sources[column] = code ? `OBX-5 [OBX-3 = ${code}]` : 'OBX-5';
+        observationColumns.push(column);
+      }
+
+      // ED/RP values are encapsulated documents or pointers, not text that can be analysed
+      const valueType = fieldAt(segment, 2);
+      const value = valueType === 'ED' || valueType === 'RP'
+        ? `[${valueType === 'ED' ? 'encapsulated document' : 'reference pointer'}]`
+        : (fieldAt(segment, 5) || '')
+          .split(delimiters.repetition)
+          .map(repetition => unescapeText(repetition.split(delimiters.component).join(' ').trim(), delimiters))
+          .join('\n');
+      row[column] = row[column] !== undefined ? `${row[column]}\n${value}` : value;
+    });
+
+    return row;
+  });
+
+  const fixedColumns = FIELD_COLUMNS.filter(({ column }) => rows.some(row => row[column]));
+  fixedColumns.forEach(({ column, segment, field, component }) => {
+    sources[column] = `${segment}-${field}${component ? `.${component}` : ''}`;
+  });
+
+  if (messages.length > 0 && observationColumns.length === 0) {
+    warnings.push('No OBX segments found; only header, patient and document fields were extracted');
+  }
+
+  return {
+    columns: [...fixedColumns.map(({ column }) => column), ...observationColumns],
+    sources,
+    rows,
+    messages: messages.length,
+    warnings
+  };
+}
+
+export function hl7TableToCsv(table: Hl7Table): string {
+  // The CSV is analysed as patient data, not opened in a spreadsheet, so note text is kept exactly
+  return [table.columns, ...table.rows.map(row => table.columns.map(column => row[column]))]
+    .map(cells => cells.map(cell => csvCell(cell, false)).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Converts an uploaded .hl7 (or .txt) file to a CSV File of the same base name. Returns null for
+ * files that aren't HL7, so spreadsheets pass through untouched.
+ */
+export async function convertHl7File(file: File): Promise<{ file: File; table: Hl7Table } | null> {
+  if (!/\.(hl7|txt|msg)$/i.test(file.name)) return null;
+  const text = await file.text();
+  if (!isHl7Text(text)) return null;
+
+  const table = parseHl7(text);
+  if (table.rows.length === 0) {
+    throw new Error(`No HL7 messages found in ${file.name}`);
+  }
+  const name = file.name.replace(/\.[^.]+$/, '.csv');
+  return { file: new File([hl7TableToCsv(table)], name, { type: 'text/csv' }), table };
+}
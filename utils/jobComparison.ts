@@ -0,0 +1,110 @@
+// utils/jobComparison.ts
+// Builds side-by-side rates for several jobs and tests each job's difference from a baseline.
+import type { ComparisonSection, ComparisonRow } from '../types';
+import { associationTest } from './statistics';
+
+export interface ComparedJob {
+  job_id: string;
+  patient_analytics?: {
+    total_patients: number;
+    most_common_comorbidities?: Record<string, number>;
+    most_effective_columns?: Record<string, number>;
+    surgery_outcomes?: { successful: number; failed: number };
+    mortality_analytics?: { deceased_patients: number };
+    failure_causes?: Record<string, number>;
+  };
+}
+
+// Rows are limited to the most frequent items across all jobs to keep the view readable
+const MAX_ROWS_PER_SECTION = 15;
+
+function buildRow(metric: string, counts: Array<{ job_id: string; events: number; total: number }>, baselineIndex: number): ComparisonRow {
+  const values = counts.map(count => ({
+    ...count,
+    rate: count.total > 0 ? (count.events / count.total) * 100 : 0,
+    exceeds_total: count.events > count.total
+  }));
+  const baseline = values[baselineIndex];
+
+  const deltas = values.map((value, index) => {
+    if (index === baselineIndex) return null;
+    // More events than patients is not a proportion, so there is no 2x2 table to test
+    if (value.exceeds_total || baseline.exceeds_total) {
+      return { job_id: value.job_id, difference: value.rate - baseline.rate, p_value: null, significant: false, small_sample: false };
+    }
+    // Job vs baseline as a 2x2 table: Fisher's test for sparse tables, chi-square otherwise
+    const test = associationTest(value.events, value.total, baseline.events, baseline.total);
+    return {
+      job_id: value.job_id,
+      difference: value.rate - baseline.rate,
+      p_value: test.p_value,
+      significant: test.significant,
+      small_sample: test.small_sample
+    };
+  });
+
+  return { metric, values, deltas };
+}
+
+function topKeys(records: Array<Record<string, number> | undefined>): string[] {
+  const totals: Record<string, number> = {};
+  records.forEach(record => {
+    Object.entries(record || {}).forEach(([key, value]) => {
+      if (key && key.trim()) totals[key] = (totals[key] || 0) + (Number(value) || 0);
+    });
+  });
+  return Object.entries(totals)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_ROWS_PER_SECTION)
+    .map(([key]) => key);
+}
+
+export function compareJobs(jobs: ComparedJob[], baselineIndex: number = 0): ComparisonSection[] {
+  const analytics = jobs.map(job => job.patient_analytics);
+  const patients = (index: number) => analytics[index]?.total_patients || 0;
+
+  const outcomes: ComparisonRow[] = [
+    buildRow('Surgery success rate', jobs.map((job, i) => ({
+      job_id: job.job_id,
+      events: analytics[i]?.surgery_outcomes?.successful || 0,
+      total: patients(i)
+    })), baselineIndex),
+    buildRow('Mortality rate', jobs.map((job, i) => ({
+      job_id: job.job_id,
+      events: analytics[i]?.mortality_analytics?.deceased_patients || 0,
+      total: patients(i)
+    })), baselineIndex)
+  ];
+
+  const comorbidities = topKeys(analytics.map(a => a?.most_common_comorbidities)).map(name =>
+    buildRow(name, jobs.map((job, i) => ({
+      job_id: job.job_id,
+      events: analytics[i]?.most_common_comorbidities?.[name] || 0,
+      total: patients(i)
+    })), baselineIndex)
+  );
+
+  const failureCauses = topKeys(analytics.map(a => a?.failure_causes)).map(cause =>
+    buildRow(cause, jobs.map((job, i) => ({
+      job_id: job.job_id,
+      events: analytics[i]?.failure_causes?.[cause] || 0,
+      total: analytics[i]?.surgery_outcomes?.failed || 0
+    })), baselineIndex)
+  );
+
+  const matchTotals = analytics.map(a => Object.values(a?.most_effective_columns || {}).reduce((sum, value) => sum + (Number(value) || 0), 0));
+  const columns = topKeys(analytics.map(a => a?.most_effective_columns)).map(column =>
+    buildRow(column, jobs.map((job, i) => ({
+      job_id: job.job_id,
+      events: analytics[i]?.most_effective_columns?.[column] || 0,
+      total: matchTotals[i]
+    })), baselineIndex)
+  );
+
+  return [
+    { id: 'outcomes', title: 'Outcomes', denominator: 'patients', rows: outcomes },
+    { id: 'comorbidities', title: 'Comorbidity Prevalence', denominator: 'patients', rows: comorbidities },
+    { id: 'failure_causes', title: 'Failure Causes', denominator: 'failed surgeries', rows: failureCauses },
+    { id: 'columns', title: 'Column Effectiveness (share of matches)', denominator: 'matches', rows: columns }
+  ];
+}
@@ -0,0 +1,45 @@
+// utils/jobOwners.ts
+// The signed-in user who submitted each job. The owner is also sent to the backend, but it is
+// recorded here so jobs stay tagged whether or not the backend stores and returns it.
+// Server-side only.
+import fs from 'fs';
+import path from 'path';
+import type { SessionUser } from '../types';
+
+const OWNERS_PATH = process.env.JOB_OWNERS_PATH || path.join(process.cwd(), 'data', 'job-owners.jsonl');
+
+export interface JobOwner {
+  job_id: string;
+  owner_id: string;
+  owner_name: string;
+  submitted_at: string;
+}
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Tags a job with the user who submitted it. */
+export function recordJobOwner(jobId: string, user: SessionUser): Promise<JobOwner> {
+  const owner: JobOwner = { job_id: jobId, owner_id: user.sub, owner_name: user.name, submitted_at: new Date().toISOString() };
+  const result = queue.then(async () => {
+    await fs.promises.mkdir(path.dirname(OWNERS_PATH), { recursive: true });
+    await fs.promises.appendFile(OWNERS_PATH, `${JSON.stringify(owner)}\n`, { flag: 'a' });
+    return owner;
+  });
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+/** Owners of every recorded job, by job ID. */
+export async function loadJobOwners(): Promise<Map<string, JobOwner>> {
+  const content = await fs.promises.readFile(OWNERS_PATH, 'utf8').catch(() => '');
+  const owners = new Map<string, JobOwner>();
+  content.split('\n').filter(Boolean).forEach(line => {
+    try {
+      const owner: JobOwner = JSON.parse(line);
+      owners.set(String(owner.job_id), owner);
+    } catch {
+      // A partially written line is skipped rather than hiding every other owner
+    }
+  });
+  return owners;
+}
@@ -0,0 +1,344 @@
+// utils/pdfReport.ts
+// Server-side rendering of a completed job into a paginated PDF for governance review.
+import PDFDocument from 'pdfkit';
+
+export interface ReportColumnPrompt {
+  file_name: string | null;
+  column: string;
+  prompt: string;
+  comorbidities: string[];
+}
+
+export interface JobReportInput {
+  job_id: string;
+  procedure_code: string | null;
+  comorbidities: Array<{ name: string; description: string }>;
+  column_prompts: ReportColumnPrompt[];
+  confidence_threshold: number;
+  include_appendix: boolean;
+  results: any;
+}
+
+const PAGE_MARGIN = 50;
+const COLORS = {
+  text: '#111827',
+  muted: '#6B7280',
+  rule: '#E5E7EB',
+  header: '#F3F4F6',
+  success: '#10B981',
+  failure: '#EF4444',
+  unknown: '#9CA3AF',
+  bar: '#3B82F6'
+};
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+const percent = (value: number) => `${value.toFixed(1)}%`;
+const contentWidth = (doc: Doc) => doc.page.width - PAGE_MARGIN * 2;
+
+// Starts a new page when fewer than `height` points remain above the bottom margin
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+}
+
+function heading(doc: Doc, text: string) {
+  ensureSpace(doc, 60);
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fontSize(14).fillColor(COLORS.text).text(text, PAGE_MARGIN);
+  doc.moveDown(0.3);
+  doc.font('Helvetica').fontSize(10);
+}
+
+function note(doc: Doc, text: string) {
+  doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted).text(text, PAGE_MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.fillColor(COLORS.text).fontSize(10);
+}
+
+function drawCards(doc: Doc, cards: Array<{ label: string; value: string; detail?: string }>) {
+  const gap = 10;
+  const width = (contentWidth(doc) - gap * (cards.length - 1)) / cards.length;
+  const height = 58;
+  ensureSpace(doc, height + 10);
+  const top = doc.y;
+
+  cards.forEach((card, index) => {
+    const x = PAGE_MARGIN + index * (width + gap);
+    doc.roundedRect(x, top, width, height, 4).fillAndStroke(COLORS.header, COLORS.rule);
+    doc.fillColor(COLORS.muted).font('Helvetica').fontSize(8).text(card.label, x + 8, top + 8, { width: width - 16 });
+    doc.fillColor(COLORS.text).font('Helvetica-Bold').fontSize(16).text(card.value, x + 8, top + 20, { width: width - 16 });
+    if (card.detail) {
+      doc.fillColor(COLORS.muted).font('Helvetica').fontSize(7).text(card.detail, x + 8, top + 41, { width: width - 16 });
+    }
+  });
+
+  doc.fillColor(COLORS.text).font('Helvetica').fontSize(10);
+  doc.x = PAGE_MARGIN;
+  doc.y = top + height + 10;
+}
+
+// Horizontal bar chart; bars are scaled to the largest value
+function drawBarChart(doc: Doc, items: Array<{ label: string; value: number; display: string; color?: string }>) {
+  if (items.length === 0) {
+    note(doc, 'No data.');
+    return;
+  }
+
+  const labelWidth = 170;
+  const valueWidth = 70;
+  const barArea = contentWidth(doc) - labelWidth - valueWidth;
+  const rowHeight = 16;
+  const max = Math.max(...items.map(item => item.value), 1);
+
+  items.forEach(item => {
+    ensureSpace(doc, rowHeight);
+    const y = doc.y;
+    doc.fillColor(COLORS.text).fontSize(9).text(item.label, PAGE_MARGIN, y + 3, { width: labelWidth - 8, height: rowHeight, ellipsis: true, lineBreak: false });
+    doc.rect(PAGE_MARGIN + labelWidth, y + 2, Math.max((item.value / max) * barArea, 1), rowHeight - 5).fill(item.color || COLORS.bar);
+    doc.fillColor(COLORS.muted).text(item.display, PAGE_MARGIN + labelWidth + barArea + 6, y + 3, { width: valueWidth - 6, lineBreak: false });
+    doc.y = y + rowHeight;
+  });
+
+  doc.fillColor(COLORS.text).fontSize(10);
+  doc.x = PAGE_MARGIN;
+}
+
+// Table with a repeated header row after each page break; `widths` are fractions of the content width
+function drawTable(doc: Doc, headers: string[], rows: string[][], widths: number[]) {
+  if (rows.length === 0) {
+    note(doc, 'None recorded.');
+    return;
+  }
+
+  const columnWidths = widths.map(fraction => fraction * contentWidth(doc));
+  const padding = 4;
+
+  const drawRow = (cells: string[], header: boolean) => {
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(8.5);
+    const height = Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: columnWidths[i] - padding * 2 }))) + padding * 2;
+    if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      if (!header) drawRow(headers, true);
+      doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(8.5);
+    }
+
+    const y = doc.y;
+    if (header) doc.rect(PAGE_MARGIN, y, contentWidth(doc), height).fill(COLORS.header);
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, i) => {
+      doc.fillColor(COLORS.text).text(cell, x + padding, y + padding, { width: columnWidths[i] - padding * 2 });
+      x += columnWidths[i];
+    });
+    doc.moveTo(PAGE_MARGIN, y + height).lineTo(PAGE_MARGIN + contentWidth(doc), y + height).strokeColor(COLORS.rule).stroke();
+    doc.y = y + height;
+  };
+
+  drawRow(headers, true);
+  rows.forEach(row => drawRow(row, false));
+
+  doc.font('Helvetica').fontSize(10);
+  doc.x = PAGE_MARGIN;
+  doc.moveDown(0.5);
+}
+
+const sortedCounts = (record: Record<string, number> | undefined) =>
+  Object.entries(record || {})
+    .filter(([key]) => key && key.trim())
+    .sort((a, b) => Number(b[1]) - Number(a[1]));
+
+// Five-year bands, with everyone 90 and over grouped as Safe Harbor requires
+const ageBand = (age: number | null | undefined) => {
+  if (typeof age !== 'number') return '—';
+  if (age >= 90) return '90+';
+  const lower = Math.floor(age / 5) * 5;
+  return `${lower}-${lower + 4}`;
+};
+
+const yearOf = (date: string | null | undefined) => {
+  if (!date) return '—';
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? '—' : String(parsed.getUTCFullYear());
+};
+
+function renderContent(doc: Doc, input: JobReportInput) {
+  const { results } = input;
+  const analytics = results.patient_analytics || {};
+  const outcomes = analytics.surgery_outcomes || { successful: 0, failed: 0, unknown: 0 };
+  const mortality = analytics.mortality_analytics || { deceased_patients: 0, mortality_causes: {} };
+  const totalPatients = analytics.total_patients || 0;
+  const matches = (results.matches || []).filter((match: any) =>
+    match.adjudication?.decision !== 'rejected' && (Number(match.confidence) || 0) >= input.confidence_threshold
+  );
+
+  // Title block
+  doc.font('Helvetica-Bold').fontSize(20).fillColor(COLORS.text).text('Clinical Audit Report', PAGE_MARGIN, PAGE_MARGIN);
+  doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted)
+    .text(`Job ${input.job_id}`)
+    .text(`Procedure ${input.procedure_code || 'not recorded'} • generated ${new Date().toISOString().replace('T', ' ').substring(0, 16)} UTC`);
+  doc.fillColor(COLORS.text);
+
+  heading(doc, 'Overview');
+  const success = outcomes.success_rate_interval;
+  const deaths = mortality.mortality_rate_interval;
+  drawCards(doc, [
+    { label: 'Patients', value: String(totalPatients), detail: `${results.stats?.rows_processed || 0} rows processed` },
+    {
+      label: 'Surgery success',
+      value: percent(outcomes.success_rate || 0),
+      detail: success ? `95% CI ${percent(success.lower)}–${percent(success.upper)}` : undefined
+    },
+    {
+      label: 'Mortality',
+      value: percent(mortality.mortality_rate || 0),
+      detail: deaths ? `95% CI ${percent(deaths.lower)}–${percent(deaths.upper)}` : undefined
+    },
+    { label: 'Comorbidity matches', value: String(matches.length), detail: `confidence >= ${input.confidence_threshold.toFixed(2)}` }
+  ]);
+
+  heading(doc, 'Surgery Outcomes');
+  drawBarChart(doc, [
+    { label: 'Successful', value: outcomes.successful || 0, color: COLORS.success },
+    { label: 'Failed', value: outcomes.failed || 0, color: COLORS.failure },
+    { label: 'Unknown', value: outcomes.unknown || 0, color: COLORS.unknown }
+  ].map(item => ({ ...item, display: `${item.value} (${percent(totalPatients > 0 ? (item.value / totalPatients) * 100 : 0)})` })));
+
+  heading(doc, 'Most Common Comorbidities');
+  drawBarChart(doc, sortedCounts(analytics.most_common_comorbidities).slice(0, 12).map(([name, count]) => ({
+    label: name,
+    value: Number(count),
+    display: `${count} (${percent(totalPatients > 0 ? (Number(count) / totalPatients) * 100 : 0)})`
+  })));
+
+  heading(doc, 'Surgical Failure Causes');
+  drawTable(
+    doc,
+    ['Cause', 'Patients', '% of failed surgeries'],
+    sortedCounts(analytics.failure_causes).map(([cause, count]) => [
+      cause, String(count), outcomes.failed > 0 ? percent((Number(count) / outcomes.failed) * 100) : '—'
+    ]),
+    [0.6, 0.15, 0.25]
+  );
+
+  heading(doc, 'Mortality Causes');
+  drawTable(
+    doc,
+    ['Cause', 'Deaths', '% of deaths'],
+    sortedCounts(mortality.mortality_causes).map(([cause, count]) => [
+      cause, String(count), mortality.deceased_patients > 0 ? percent((Number(count) / mortality.deceased_patients) * 100) : '—'
+    ]),
+    [0.6, 0.15, 0.25]
+  );
+
+  const byComorbidity: Record<string, number> = {};
+  matches.forEach((match: any) => {
+    byComorbidity[match.comorbidity_name] = (byComorbidity[match.comorbidity_name] || 0) + 1;
+  });
+  heading(doc, 'Matches by Comorbidity');
+  drawTable(doc, ['Comorbidity', 'Matches'], sortedCounts(byComorbidity).map(([name, count]) => [name, String(count)]), [0.75, 0.25]);
+
+  // Methods
+  doc.addPage();
+  doc.font('Helvetica-Bold').fontSize(16).text('Methods', PAGE_MARGIN, PAGE_MARGIN);
+  doc.font('Helvetica').fontSize(10).moveDown(0.5).text(
+    `Free-text columns were screened by a language model for the comorbidities enabled for ICMP code ` +
+    `${input.procedure_code || '(not recorded)'}. Counts above exclude matches rejected on clinician review and ` +
+    `matches below a confidence of ${input.confidence_threshold.toFixed(2)}. Patient-level outcomes include ` +
+    `clinician corrections. Rates are shown with 95% Wilson intervals.`,
+    { width: contentWidth(doc) }
+  );
+
+  heading(doc, 'Enabled Comorbidities');
+  drawTable(doc, ['Comorbidity', 'Definition'], input.comorbidities.map(c => [c.name, c.description || '—']), [0.3, 0.7]);
+
+  heading(doc, 'Columns Analysed');
+  drawTable(
+    doc,
+    ['File', 'Column', 'Comorbidities', 'Prompt'],
+    input.column_prompts.map(column => [
+      column.file_name || '—',
+      column.column,
+      column.comorbidities.length > 0 ? column.comorbidities.join(', ') : 'All enabled',
+      column.prompt || 'Default prompt'
+    ]),
+    [0.18, 0.18, 0.24, 0.4]
+  );
+
+  if (input.include_appendix) {
+    doc.addPage();
+    doc.font('Helvetica-Bold').fontSize(16).text('Appendix: De-identified Patient Listing', PAGE_MARGIN, PAGE_MARGIN);
+    doc.moveDown(0.3);
+    note(doc, 'Patient identifiers, linkage keys and free text are omitted. Ages are given in five-year bands (90 and over grouped) and procedure dates as the year only.');
+    doc.moveDown(0.5);
+    drawTable(
+      doc,
+      ['Ref', 'Age', 'Year', 'Outcome', 'Status', 'CCI', 'Elix.', 'Comorbidities'],
+      (results.patient_summaries || []).map((patient: any, index: number) => [
+        `P${String(index + 1).padStart(4, '0')}`,
+        ageBand(patient.age),
+        yearOf(patient.procedure_date),
+        patient.surgery_outcome || 'unknown',
+        patient.mortality_status || 'alive',
+        patient.charlson_index ? String(patient.charlson_index.score) : '—',
+        patient.elixhauser_index ? String(patient.elixhauser_index.score) : '—',
+        (patient.primary_concerns || [])
+          .map((concern: any) => typeof concern === 'string' ? concern : concern?.comorbidity)
+          .filter(Boolean)
+          .join(', ') || '—'
+      ]),
+      [0.08, 0.08, 0.07, 0.1, 0.1, 0.06, 0.06, 0.45]
+    );
+  }
+
+  // Sign-off
+  ensureSpace(doc, 150);
+  heading(doc, 'Sign-off');
+  note(doc, 'This report reflects the job results at the time of generation.');
+  doc.moveDown(1);
+  ['Reviewed by', 'Role', 'Signature', 'Date'].forEach(label => {
+    const y = doc.y;
+    doc.fontSize(10).fillColor(COLORS.text).text(label, PAGE_MARGIN, y);
+    doc.moveTo(PAGE_MARGIN + 90, y + 11).lineTo(PAGE_MARGIN + 330, y + 11).strokeColor(COLORS.muted).stroke();
+    doc.y = y + 26;
+  });
+}
+
+function addPageFooters(doc: Doc, jobId: string) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise trigger a new page
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted).text(
+      `MediAudit AI • job ${jobId.substring(0, 8)} • page ${i + 1} of ${range.count}`,
+      PAGE_MARGIN,
+      doc.page.height - PAGE_MARGIN + 15,
+      { width: contentWidth(doc), align: 'center', lineBreak: false }
+    );
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+export function renderJobReport(input: JobReportInput): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: `Clinical Audit Report ${input.job_id}`, Author: 'MediAudit AI' }
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      renderContent(doc, input);
+      addPageFooters(doc, input.job_id);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
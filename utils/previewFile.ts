@@ -0,0 +1,28 @@
+// utils/previewFile.ts
+// Client entry point for in-browser file previews: one short-lived Web Worker per file.
+import type { FilePreview, PreviewOptions } from './filePreview';
+
+/** Parses the file in a Web Worker, or on the main thread where workers are unavailable. */
+export async function previewFile(file: File, options?: PreviewOptions): Promise<FilePreview> {
+  const data = await file.arrayBuffer();
+
+  if (typeof Worker === 'undefined') {
+    const { previewWorkbook } = await import('./filePreview');
+    return previewWorkbook(file.name, data, options);
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./filePreview.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<{ preview?: FilePreview; error?: string }>) => {
+      worker.terminate();
+      if (event.data.preview) resolve(event.data.preview);
+      else reject(new Error(event.data.error || `Failed to preview ${file.name}`));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || `Failed to preview ${file.name}`));
+    };
+    // The buffer is transferred rather than copied; it isn't used again here
+    worker.postMessage({ fileName: file.name, data, options }, [data]);
+  });
+}
@@ -0,0 +1,322 @@
+// utils/riskAdjustment.ts
+// Case-mix adjusted mortality: a logistic model fitted across historical jobs gives each
+// patient an expected probability of death, which is summed into observed/expected ratios.
+import type {
+  RiskCovariate, RiskModelCoefficient, ObservedExpected, FunnelLimitPoint, RiskAdjustmentReport
+} from '../types';
+
+export interface RiskJob {
+  job_id: string;
+  procedure_code?: string;
+  processed_at?: string;
+  patient_summaries: any[];
+}
+
+interface DesignRow {
+  job_id: string;
+  procedure_code: string;
+  x: number[];
+  y: number;
+}
+
+// Comorbidities seen in fewer patients than this are left out of the model as indicators
+const MIN_INDICATOR_PATIENTS = 5;
+// Small ridge penalty keeps rare indicators from diverging under separation
+const RIDGE_PENALTY = 0.01;
+const MAX_ITERATIONS = 50;
+const Z_95 = 1.959964;
+const Z_998 = 3.090232;
+
+const concernNames = (patient: any): string[] =>
+  (patient.primary_concerns || [])
+    .map((concern: any) => String(typeof concern === 'string' ? concern : concern?.comorbidity || '').trim())
+    .filter(Boolean);
+
+const patientAge = (patient: any): number | null =>
+  typeof patient.age === 'number' && Number.isFinite(patient.age) ? patient.age : null;
+
+function buildDesign(jobs: RiskJob[], covariates: RiskCovariate[], warnings: string[]) {
+  const patients = jobs.flatMap(job => job.patient_summaries.map(patient => ({ job, patient })));
+  const terms: string[] = [];
+  const extractors: Array<(patient: any) => number> = [];
+
+  if (covariates.includes('comorbidities')) {
+    const prevalence = new Map<string, { name: string; count: number }>();
+    patients.forEach(({ patient }) => {
+      new Set(concernNames(patient).map(name => name.toLowerCase())).forEach(key => {
+        const entry = prevalence.get(key) || { name: concernNames(patient).find(name => name.toLowerCase() === key)!, count: 0 };
+        entry.count++;
+        prevalence.set(key, entry);
+      });
+    });
+
+    const included = Array.from(prevalence.entries())
+      .filter(([, entry]) => entry.count >= MIN_INDICATOR_PATIENTS && entry.count < patients.length)
+      .sort((a, b) => b[1].count - a[1].count);
+    const skipped = prevalence.size - included.length;
+    if (skipped > 0) {
+      warnings.push(`${skipped} comorbidities present in fewer than ${MIN_INDICATOR_PATIENTS} patients (or in every patient) were not used as indicators.`);
+    }
+
+    included.forEach(([key, entry]) => {
+      terms.push(`Comorbidity: ${entry.name}`);
+      extractors.push(patient => (concernNames(patient).some(name => name.toLowerCase() === key) ? 1 : 0));
+    });
+  }
+
+  if (covariates.includes('age')) {
+    const ages = patients.map(({ patient }) => patientAge(patient)).filter((age): age is number => age !== null);
+    if (ages.length === 0) {
+      warnings.push('Age was requested but no patient summaries carry an age, so it was left out of the model.');
+    } else {
+      const meanAge = ages.reduce((sum, age) => sum + age, 0) / ages.length;
+      if (ages.length < patients.length) {
+        warnings.push(`Age was missing for ${patients.length - ages.length} patients and was imputed with the cohort mean (${meanAge.toFixed(1)}).`);
+      }
+      terms.push('Age (per 10 years)');
+      extractors.push(patient => ((patientAge(patient) ?? meanAge) - meanAge) / 10);
+    }
+  }
+
+  (['charlson', 'elixhauser'] as const).forEach(index => {
+    if (!covariates.includes(index)) return;
+    if (!patients.some(({ patient }) => patient[`${index}_index`])) {
+      warnings.push(`No ${index === 'charlson' ? 'Charlson' : 'Elixhauser'} scores are available; map comorbidities to index categories to use this covariate.`);
+      return;
+    }
+    terms.push(index === 'charlson' ? 'Charlson score' : 'Elixhauser score');
+    extractors.push(patient => Number(patient[`${index}_index`]?.score) || 0);
+  });
+
+  if (covariates.includes('comorbidity_count')) {
+    terms.push('Comorbidity count');
+    extractors.push(patient => Number(patient.total_comorbidities) || 0);
+  }
+
+  const rows: DesignRow[] = patients.map(({ job, patient }) => ({
+    job_id: job.job_id,
+    procedure_code: job.procedure_code || 'Unknown',
+    x: extractors.map(extract => extract(patient)),
+    y: patient.mortality_status === 'deceased' ? 1 : 0
+  }));
+
+  return { terms, rows };
+}
+
+// Gauss-Jordan inversion with partial pivoting; null when the matrix is singular
+function invert(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const augmented = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) pivot = row;
+    }
+    if (Math.abs(augmented[pivot][col]) < 1e-12) return null;
+    [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+
+    const divisor = augmented[col][col];
+    for (let k = 0; k < 2 * n; k++) augmented[col][k] /= divisor;
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = augmented[row][col];
+      if (factor === 0) continue;
+      for (let k = 0; k < 2 * n; k++) augmented[row][k] -= factor * augmented[col][k];
+    }
+  }
+
+  return augmented.map(row => row.slice(n));
+}
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+/**
+ * Fits a logistic regression by Newton-Raphson with a light ridge penalty on the slopes.
+ * The first coefficient is the intercept.
+ */
+export function fitLogistic(x: number[][], y: number[]) {
+  const width = (x[0]?.length || 0) + 1;
+  const design = x.map(row => [1, ...row]);
+  let beta = new Array(width).fill(0);
+  let covariance: number[][] | null = null;
+  let converged = false;
+
+  // Start the intercept at the crude log-odds so the first step is already close
+  const events = y.reduce((sum, value) => sum + value, 0);
+  beta[0] = Math.log((events + 0.5) / (y.length - events + 0.5));
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const gradient = new Array(width).fill(0);
+    const hessian = Array.from({ length: width }, () => new Array(width).fill(0));
+
+    design.forEach((row, i) => {
+      const p = sigmoid(row.reduce((sum, value, j) => sum + value * beta[j], 0));
+      const weight = p * (1 - p);
+      for (let j = 0; j < width; j++) {
+        gradient[j] += (y[i] - p) * row[j];
+        for (let k = j; k < width; k++) hessian[j][k] += weight * row[j] * row[k];
+      }
+    });
+
+    for (let j = 0; j < width; j++) {
+      for (let k = 0; k < j; k++) hessian[j][k] = hessian[k][j];
+      if (j > 0) {
+        gradient[j] -= RIDGE_PENALTY * beta[j];
+        hessian[j][j] += RIDGE_PENALTY;
+      }
+    }
+
+    covariance = invert(hessian);
+    if (!covariance) break;
+
+    const step = covariance.map(row => row.reduce((sum, value, k) => sum + value * gradient[k], 0));
+    beta = beta.map((value, j) => value + step[j]);
+
+    if (Math.max(...step.map(Math.abs)) < 1e-8) {
+      converged = true;
+      break;
+    }
+  }
+
+  return { beta, covariance, converged };
+}
+
+// Area under the ROC curve via the rank-sum statistic, with tied ranks averaged
+function concordance(probabilities: number[], outcomes: number[]): number | null {
+  const positives = outcomes.filter(value => value === 1).length;
+  const negatives = outcomes.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  const order = probabilities.map((p, i) => ({ p, y: outcomes[i] })).sort((a, b) => a.p - b.p);
+  let rankSum = 0;
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].p === order[start].p) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) if (order[i].y === 1) rankSum += averageRank;
+    start = end + 1;
+  }
+
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+// Byar's approximation to the exact Poisson interval for an observed count, scaled by the expected count
+export function observedExpectedInterval(observed: number, expected: number, z: number = Z_95) {
+  if (expected <= 0) return { lower: null, upper: null };
+  const lower = observed > 0 ? observed * Math.pow(1 - 1 / (9 * observed) - z / (3 * Math.sqrt(observed)), 3) : 0;
+  const upperCount = observed + 1;
+  const upper = upperCount * Math.pow(1 - 1 / (9 * upperCount) + z / (3 * Math.sqrt(upperCount)), 3);
+  return { lower: Math.max(lower, 0) / expected, upper: upper / expected };
+}
+
+function summariseGroups(
+  rows: DesignRow[],
+  probabilities: number[],
+  keyOf: (row: DesignRow) => string,
+  labelOf: (key: string, row: DesignRow) => string
+): ObservedExpected[] {
+  const groups = new Map<string, ObservedExpected>();
+
+  rows.forEach((row, i) => {
+    const key = keyOf(row);
+    const group = groups.get(key) || {
+      id: key,
+      label: labelOf(key, row),
+      procedure_code: row.procedure_code,
+      patients: 0,
+      observed: 0,
+      expected: 0,
+      ratio: null,
+      ci_lower: null,
+      ci_upper: null
+    };
+    group.patients++;
+    group.observed += row.y;
+    group.expected += probabilities[i];
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).map(group => {
+    const { lower, upper } = observedExpectedInterval(group.observed, group.expected);
+    return {
+      ...group,
+      ratio: group.expected > 0 ? group.observed / group.expected : null,
+      ci_lower: lower,
+      ci_upper: upper
+    };
+  });
+}
+
+// 95% and 99.8% limits around O/E = 1 for a unit with the given expected deaths
+export function funnelLimits(maxExpected: number, points: number = 60): FunnelLimitPoint[] {
+  const limits: FunnelLimitPoint[] = [];
+  const top = Math.max(maxExpected * 1.1, 1);
+  const bottom = Math.min(0.5, top / points);
+
+  for (let i = 0; i < points; i++) {
+    const expected = bottom + ((top - bottom) * i) / (points - 1);
+    limits.push({
+      expected,
+      lower_95: Math.max(1 - Z_95 / Math.sqrt(expected), 0),
+      upper_95: 1 + Z_95 / Math.sqrt(expected),
+      lower_998: Math.max(1 - Z_998 / Math.sqrt(expected), 0),
+      upper_998: 1 + Z_998 / Math.sqrt(expected)
+    });
+  }
+
+  return limits;
+}
+
+export function buildRiskAdjustmentReport(jobs: RiskJob[], covariates: RiskCovariate[]): RiskAdjustmentReport {
+  const warnings: string[] = [];
+  const { terms, rows } = buildDesign(jobs, covariates, warnings);
+  const deaths = rows.reduce((sum, row) => sum + row.y, 0);
+
+  const report: RiskAdjustmentReport = {
+    covariates,
+    jobs_included: jobs.length,
+    patients: rows.length,
+    deaths,
+    converged: false,
+    c_statistic: null,
+    coefficients: [],
+    by_job: [],
+    by_procedure: [],
+    funnel_limits: [],
+    warnings
+  };
+
+  if (rows.length === 0 || deaths === 0 || deaths === rows.length) {
+    warnings.push('The model needs both deceased and surviving patients across the selected jobs.');
+    return report;
+  }
+
+  if (terms.length > 0 && deaths / terms.length < 10) {
+    warnings.push(`Only ${(deaths / terms.length).toFixed(1)} deaths per covariate; estimates may be unstable below 10.`);
+  }
+
+  const { beta, covariance, converged } = fitLogistic(rows.map(row => row.x), rows.map(row => row.y));
+  if (!converged) {
+    warnings.push('The model did not converge; expected counts are approximate.');
+  }
+
+  const probabilities = rows.map(row => sigmoid(beta[0] + row.x.reduce((sum, value, j) => sum + value * beta[j + 1], 0)));
+
+  report.converged = converged;
+  report.c_statistic = concordance(probabilities, rows.map(row => row.y));
+  report.coefficients = ['Intercept', ...terms].map((term, j) => ({
+    term,
+    estimate: beta[j],
+    std_error: covariance && covariance[j][j] >= 0 ? Math.sqrt(covariance[j][j]) : null,
+    odds_ratio: Math.exp(beta[j])
+  }));
+
+  const jobLabels = new Map(jobs.map(job => [job.job_id, job.processed_at ? `${job.procedure_code || 'Unknown'} • ${new Date(job.processed_at).toLocaleDateString()}` : job.job_id]));
+  report.by_job = summariseGroups(rows, probabilities, row => row.job_id, key => jobLabels.get(key) || key);
+  report.by_procedure = summariseGroups(rows, probabilities, row => row.procedure_code, key => key);
+  report.funnel_limits = funnelLimits(Math.max(...report.by_job.map(group => group.expected), ...report.by_procedure.map(group => group.expected)));
+
+  return report;
+}
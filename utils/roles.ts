@@ -0,0 +1,32 @@
+// utils/roles.ts
+// Role hierarchy and the role each API route needs. Shared by the API layer, which enforces it,
+// and the UI, which hides what the signed-in user cannot do.
+import type { SessionUser, UserRole } from '../types';
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, auditor: 1, admin: 2 };
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  auditor: 'Auditor',
+  admin: 'Admin'
+};
+
+/** Roles are cumulative: admins can do everything auditors can, auditors everything viewers can. */
+export const hasRole = (user: SessionUser | null | undefined, role: UserRole): boolean =>
+  !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
+
+/**
+ * Minimum role for an API request, or null for the sign-in routes themselves. Reference data
+ * uploads, comorbidity edits, restores and imports, job deletion and the audit log are admin-only; anything else that
+ * changes state (processing, configurations, adjudications, validation) needs an auditor; reading
+ * needs a viewer. The pseudonym secret is only for those who upload: with it, guessed identifiers
+ * can be checked against pseudonyms.
+ */
+export function requiredRole(path: string, method: string = 'GET'): UserRole | null {
+  if (path.startsWith('auth/')) return null;
+  if (path.startsWith('upload/') || path.startsWith('jobs/') || path.startsWith('audit-log')) return 'admin';
+  if (path === 'pseudonym-key') return 'auditor';
+  if (method === 'GET' || method === 'HEAD') return 'viewer';
+  if (['comorbidities/', 'comorbidity-versions/', 'comorbidity-library/'].some(prefix => path.startsWith(prefix))) return 'admin';
+  return 'auditor';
+}
@@ -0,0 +1,84 @@
+// utils/sheets.ts
+// Helpers for multi-sheet workbooks and table layouts, shared by column configuration, presets and the processing request.
+import type { ColumnMapping, FileMetadata, SheetMetadata, TableRangeOverride } from '../types';
+
+type TableFields = Pick<SheetMetadata,
+  'columns' | 'sampleData' | 'detectedHeaderRow' | 'totalRows' | 'columnMappings' | 'columnAnalysis' | 'rangeOverride'>;
+
+/** The file-level fields describe the first sheet, so single-table consumers keep working. */
+export function mirrorFirstSheet(meta: FileMetadata): FileMetadata {
+  const first = meta.sheets?.[0];
+  if (!first) return meta;
+  return {
+    ...meta,
+    columns: first.columns,
+    sampleData: first.sampleData,
+    detectedHeaderRow: first.detectedHeaderRow,
+    totalRows: first.totalRows,
+    columnMappings: first.columnMappings,
+    columnAnalysis: first.columnAnalysis,
+    rangeOverride: first.rangeOverride
+  };
+}
+
+/** Updates one sheet, or the file itself when it has no sheets. */
+export function updateTable(meta: FileMetadata, sheetIndex: number, updates: Partial<TableFields>): FileMetadata {
+  if (!meta.sheets) return { ...meta, ...updates };
+  return mirrorFirstSheet({
+    ...meta,
+    sheets: meta.sheets.map((sheet, index) => index === sheetIndex ? { ...sheet, ...updates } : sheet)
+  });
+}
+
+/** Applies `update` to one sheet's mappings, or to the file's own mappings when it has no sheets. */
+export function updateTableMappings(
+  meta: FileMetadata,
+  sheetIndex: number,
+  update: (mappings: ColumnMapping[]) => ColumnMapping[]
+): FileMetadata {
+  const table = meta.sheets?.[sheetIndex] || meta;
+  return updateTable(meta, sheetIndex, { columnMappings: update(table.columnMappings) });
+}
+
+/** Range overrides keyed the way presets store them: by sheet name, '' for a file's only table. */
+export function rangeOverridesByTable(meta: FileMetadata): Record<string, TableRangeOverride> {
+  const tables = meta.sheets ? meta.sheets.map(sheet => [sheet.sheetName, sheet.rangeOverride] as const) : [['', meta.rangeOverride] as const];
+  return Object.fromEntries(tables.filter(([, override]) => override)) as Record<string, TableRangeOverride>;
+}
+
+// Blank headers and duplicates are named the way pandas does, so names match the server's analysis
+export function columnNames(headerRow: string[], width: number): string[] {
+  const seen: Record<string, number> = {};
+  return Array.from({ length: width }, (_, index) => {
+    const base = (headerRow[index] || '').trim() || `Unnamed: ${index}`;
+    const count = seen[base] || 0;
+    seen[base] = count + 1;
+    return count === 0 ? base : `${base}.${count}`;
+  });
+}
+
+export const includedSheets = (meta: FileMetadata): SheetMetadata[] =>
+  (meta.sheets || []).filter(sheet => sheet.isEnabled);
+
+/** Mappings of every sheet, included or not; what presets record. */
+export const allColumnMappings = (meta: FileMetadata): ColumnMapping[] =>
+  meta.sheets ? meta.sheets.flatMap(sheet => sheet.columnMappings) : meta.columnMappings;
+
+/** Mappings that will be processed: those of included sheets only. */
+export const activeColumnMappings = (meta: FileMetadata): ColumnMapping[] =>
+  meta.sheets ? includedSheets(meta).flatMap(sheet => sheet.columnMappings) : meta.columnMappings;
+
+/**
+ * Problems that stop a file's sheets from being processed: no sheet included, or several
+ * included without a join key on each. Returns an empty list when the file is ready.
+ */
+export function sheetConfigurationErrors(meta: FileMetadata): string[] {
+  if (!meta.sheets) return [];
+  const included = includedSheets(meta);
+  if (included.length === 0) return [`${meta.fileName}: include at least one sheet`];
+  if (included.length === 1) return [];
+
+  return included
+    .filter(sheet => !sheet.joinKey || !sheet.columns.includes(sheet.joinKey))
+    .map(sheet => `${meta.fileName}: choose a join key for sheet "${sheet.sheetName}"`);
+}
@@ -0,0 +1,141 @@
+// utils/statistics.ts
+// Interval estimates and 2x2 association tests for the rates shown in audit analytics.
+import type { RateInterval, AssociationTest } from '../types';
+
+const Z_95 = 1.959964;
+
+// Below these counts an estimate is still reported but flagged as unreliable
+const MIN_SAMPLE_SIZE = 10;
+const MIN_EVENTS = 5;
+
+/**
+ * Wilson score interval for events/total, returned as percentages so it sits beside the
+ * existing *_rate fields. Wilson keeps sensible bounds at 0 and 100% where the Wald interval fails.
+ */
+export function wilsonInterval(events: number, total: number, z: number = Z_95): RateInterval {
+  if (total <= 0) {
+    return { events, total, rate: 0, lower: 0, upper: 0, small_sample: true };
+  }
+
+  const p = events / total;
+  const denominator = 1 + (z * z) / total;
+  const centre = (p + (z * z) / (2 * total)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / total + (z * z) / (4 * total * total))) / denominator;
+
+  return {
+    events,
+    total,
+    rate: p * 100,
+    lower: Math.max(0, centre - margin) * 100,
+    upper: Math.min(1, centre + margin) * 100,
+    small_sample: total < MIN_SAMPLE_SIZE || events < MIN_EVENTS || total - events < MIN_EVENTS
+  };
+}
+
+const logFactorials: number[] = [0];
+function logFactorial(n: number): number {
+  for (let i = logFactorials.length; i <= n; i++) {
+    logFactorials[i] = logFactorials[i - 1] + Math.log(i);
+  }
+  return logFactorials[n];
+}
+
+// Probability of one 2x2 table with fixed margins under the hypergeometric distribution
+function tableProbability(a: number, b: number, c: number, d: number): number {
+  return Math.exp(
+    logFactorial(a + b) + logFactorial(c + d) + logFactorial(a + c) + logFactorial(b + d)
+    - logFactorial(a + b + c + d) - logFactorial(a) - logFactorial(b) - logFactorial(c) - logFactorial(d)
+  );
+}
+
+/**
+ * Two-sided Fisher exact test for the table [[a, b], [c, d]]: sums every table with the same
+ * margins that is no more likely than the one observed.
+ */
+export function fisherExactTest(a: number, b: number, c: number, d: number): number {
+  const rowOne = a + b;
+  const columnOne = a + c;
+  const total = a + b + c + d;
+  const observed = tableProbability(a, b, c, d);
+
+  let pValue = 0;
+  for (let x = Math.max(0, columnOne - (total - rowOne)); x <= Math.min(rowOne, columnOne); x++) {
+    const probability = tableProbability(x, rowOne - x, columnOne - x, total - rowOne - columnOne + x);
+    if (probability <= observed * (1 + 1e-7)) pValue += probability;
+  }
+
+  return Math.min(pValue, 1);
+}
+
+// Complementary error function (Numerical Recipes erfcc, fractional error below 1.2e-7)
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const result = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418
+    + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587
+    + t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? result : 2 - result;
+}
+
+// Pearson chi-square test (1 degree of freedom) for a 2x2 table
+export function chiSquareTest(a: number, b: number, c: number, d: number): number {
+  const total = a + b + c + d;
+  const denominator = (a + b) * (c + d) * (a + c) * (b + d);
+  if (denominator === 0) return 1;
+  const statistic = (total * Math.pow(a * d - b * c, 2)) / denominator;
+  return erfc(Math.sqrt(statistic / 2));
+}
+
+/**
+ * Odds ratio with a Woolf 95% interval and a significance test for an exposure (e.g. a comorbidity)
+ * against an outcome (death, surgical failure). Fisher's test is used whenever an expected
+ * cell count is below 5, chi-square otherwise; a zero cell gets the Haldane 0.5 correction.
+ */
+export function associationTest(
+  exposedEvents: number,
+  exposedTotal: number,
+  unexposedEvents: number,
+  unexposedTotal: number
+): AssociationTest {
+  const a = exposedEvents;
+  const b = exposedTotal - exposedEvents;
+  const c = unexposedEvents;
+  const d = unexposedTotal - unexposedEvents;
+  const total = a + b + c + d;
+
+  const expectedCells = total > 0
+    ? [
+      ((a + b) * (a + c)) / total,
+      ((a + b) * (b + d)) / total,
+      ((c + d) * (a + c)) / total,
+      ((c + d) * (b + d)) / total
+    ]
+    : [0];
+  const useFisher = expectedCells.some(expected => expected < 5);
+
+  let oddsRatio: number | null = null;
+  let lower: number | null = null;
+  let upper: number | null = null;
+  if (exposedTotal > 0 && unexposedTotal > 0) {
+    const correction = [a, b, c, d].some(cell => cell === 0) ? 0.5 : 0;
+    const [ca, cb, cc, cd] = [a, b, c, d].map(cell => cell + correction);
+    if (cb * cc > 0) {
+      oddsRatio = (ca * cd) / (cb * cc);
+      const standardError = Math.sqrt(1 / ca + 1 / cb + 1 / cc + 1 / cd);
+      lower = Math.exp(Math.log(oddsRatio) - Z_95 * standardError);
+      upper = Math.exp(Math.log(oddsRatio) + Z_95 * standardError);
+    }
+  }
+
+  const pValue = total > 0 ? (useFisher ? fisherExactTest(a, b, c, d) : chiSquareTest(a, b, c, d)) : null;
+
+  return {
+    odds_ratio: oddsRatio,
+    or_lower: lower,
+    or_upper: upper,
+    p_value: pValue,
+    test: useFisher ? 'fisher' : 'chi_square',
+    significant: pValue !== null && pValue < 0.05,
+    small_sample: useFisher || exposedTotal < MIN_SAMPLE_SIZE
+  };
+}
@@ -0,0 +1,177 @@
+// utils/trends.ts
+// Buckets historical jobs and their patients into calendar months or quarters, with Wilson
+// intervals per period and a trailing pooled rate to smooth period-to-period noise.
+import type { TrendGranularity, TrendDateBasis, TrendPeriod, TrendReport, RateInterval } from '../types';
+import { wilsonInterval } from './statistics';
+import { patientDate } from './controlCharts';
+
+export interface TrendJob {
+  job_id: string;
+  processed_at: string;
+  rows_processed: number;
+  matches_found: number;
+  patient_summaries: any[];
+}
+
+export interface TrendOptions {
+  granularity: TrendGranularity;
+  basis: TrendDateBasis;
+  rolling_window: number;
+  from: Date | null;
+  to: Date | null;
+}
+
+// Prevalence is charted for the most common comorbidities only
+const MAX_TREND_COMORBIDITIES = 8;
+
+const concernNames = (patient: any): string[] =>
+  Array.from(new Set<string>((patient.primary_concerns || [])
+    .map((concern: any) => String(typeof concern === 'string' ? concern : concern?.comorbidity || '').trim())
+    .filter(Boolean)));
+
+// Calendar periods are taken in UTC so a date never shifts bucket with the server's time zone
+function periodStart(date: Date, granularity: TrendGranularity): Date {
+  const month = granularity === 'quarter' ? Math.floor(date.getUTCMonth() / 3) * 3 : date.getUTCMonth();
+  return new Date(Date.UTC(date.getUTCFullYear(), month, 1));
+}
+
+function periodLabel(start: Date, granularity: TrendGranularity): string {
+  return granularity === 'quarter'
+    ? `${start.getUTCFullYear()}-Q${Math.floor(start.getUTCMonth() / 3) + 1}`
+    : `${start.getUTCFullYear()}-${String(start.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+function nextPeriod(start: Date, granularity: TrendGranularity): Date {
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + (granularity === 'quarter' ? 3 : 1), 1));
+}
+
+const inRange = (date: Date, options: TrendOptions) =>
+  (!options.from || date >= options.from) && (!options.to || date <= options.to);
+
+interface Bucket {
+  jobs: Set<string>;
+  rows_processed: number;
+  matches_found: number;
+  patients: number;
+  known_outcomes: number;
+  successes: number;
+  deaths: number;
+  comorbidities: Record<string, number>;
+}
+
+const emptyBucket = (): Bucket => ({
+  jobs: new Set(), rows_processed: 0, matches_found: 0, patients: 0, known_outcomes: 0, successes: 0, deaths: 0, comorbidities: {}
+});
+
+/**
+ * Aggregates jobs into consecutive periods, filling gaps with empty periods so the x axis is
+ * real calendar time. Success is over patients with a known surgery outcome, mortality and
+ * prevalence over all patients. With the procedure_date basis, undated patients fall back to
+ * their job's processed_at date and a warning says how many.
+ */
+export function buildTrendReport(jobs: TrendJob[], options: TrendOptions): Omit<TrendReport, 'procedure_code' | 'procedure_codes'> {
+  const warnings: string[] = [];
+  const buckets = new Map<number, Bucket>();
+  const bucketFor = (date: Date) => {
+    const key = periodStart(date, options.granularity).getTime();
+    if (!buckets.has(key)) buckets.set(key, emptyBucket());
+    return buckets.get(key)!;
+  };
+
+  let undated = 0;
+  let patientCount = 0;
+  const includedJobs = new Set<string>();
+
+  jobs.forEach(job => {
+    const processedAt = new Date(job.processed_at);
+    const jobDated = !Number.isNaN(processedAt.getTime());
+
+    // Volume figures come from the job's processing stats and always follow the run date
+    if (jobDated && inRange(processedAt, options)) {
+      const bucket = bucketFor(processedAt);
+      bucket.jobs.add(job.job_id);
+      bucket.rows_processed += job.rows_processed || 0;
+      bucket.matches_found += job.matches_found || 0;
+      includedJobs.add(job.job_id);
+    }
+
+    job.patient_summaries.forEach(patient => {
+      let date = options.basis === 'procedure_date' ? patientDate(patient) : null;
+      if (options.basis === 'procedure_date' && !date) undated++;
+      if (!date && jobDated) date = processedAt;
+      if (!date || !inRange(date, options)) return;
+
+      const bucket = bucketFor(date);
+      bucket.patients++;
+      if (patient.surgery_outcome === 'success' || patient.surgery_outcome === 'failure') {
+        bucket.known_outcomes++;
+        if (patient.surgery_outcome === 'success') bucket.successes++;
+      }
+      if (patient.mortality_status === 'deceased') bucket.deaths++;
+      concernNames(patient).forEach(name => {
+        bucket.comorbidities[name] = (bucket.comorbidities[name] || 0) + 1;
+      });
+      patientCount++;
+      includedJobs.add(job.job_id);
+    });
+  });
+
+  if (undated > 0) {
+    warnings.push(`${undated} patients had no procedure date and were placed by their job's processing date.`);
+  }
+
+  const totals: Record<string, number> = {};
+  buckets.forEach(bucket => Object.entries(bucket.comorbidities).forEach(([name, count]) => {
+    totals[name] = (totals[name] || 0) + count;
+  }));
+  const comorbidities = Object.entries(totals)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_TREND_COMORBIDITIES)
+    .map(([name]) => name);
+
+  const keys = Array.from(buckets.keys()).sort((a, b) => a - b);
+  const periods: TrendPeriod[] = [];
+  const ordered: Bucket[] = [];
+  if (keys.length > 0) {
+    for (let start = new Date(keys[0]); start.getTime() <= keys[keys.length - 1]; start = nextPeriod(start, options.granularity)) {
+      const bucket = buckets.get(start.getTime()) || emptyBucket();
+      ordered.push(bucket);
+
+      const window = ordered.slice(-options.rolling_window);
+      const pooled = (events: (b: Bucket) => number, total: (b: Bucket) => number): RateInterval =>
+        wilsonInterval(window.reduce((sum, b) => sum + events(b), 0), window.reduce((sum, b) => sum + total(b), 0));
+
+      periods.push({
+        period: periodLabel(start, options.granularity),
+        start: start.toISOString().substring(0, 10),
+        jobs: bucket.jobs.size,
+        rows_processed: bucket.rows_processed,
+        matches_found: bucket.matches_found,
+        patients: bucket.patients,
+        success: wilsonInterval(bucket.successes, bucket.known_outcomes),
+        mortality: wilsonInterval(bucket.deaths, bucket.patients),
+        rolling_success: pooled(b => b.successes, b => b.known_outcomes),
+        rolling_mortality: pooled(b => b.deaths, b => b.patients),
+        comorbidity_prevalence: Object.fromEntries(comorbidities.map(name => [name, wilsonInterval(bucket.comorbidities[name] || 0, bucket.patients)]))
+      });
+    }
+  }
+
+  const sparse = periods.filter(period => period.patients > 0 && period.patients < 10).length;
+  if (sparse > 0) {
+    warnings.push(`${sparse} periods have fewer than 10 patients; their single-period rates will swing widely, so read the rolling rate instead.`);
+  }
+
+  return {
+    granularity: options.granularity,
+    basis: options.basis,
+    rolling_window: options.rolling_window,
+    from: options.from ? options.from.toISOString().substring(0, 10) : null,
+    to: options.to ? options.to.toISOString().substring(0, 10) : null,
+    jobs_included: includedJobs.size,
+    patients: patientCount,
+    comorbidities,
+    periods,
+    warnings
+  };
+}
@@ -0,0 +1,256 @@
+// utils/validation.ts
+// Scores a finished job against a manually labelled reference sheet.
+import type { ConfusionMetrics, GoldStandardReport, ThresholdSweepPoint, ValidationDiscrepancy } from '../types';
+import { matchesForPatient } from './adjudication';
+
+const ID_COLUMN_PATTERN = /(mrn|patient.?(id|no|number)|hospital.?(no|number)|record.?(no|number)|^id$)/i;
+const COMORBIDITY_COLUMN_PATTERN = /(comorbidit|condition|diagnos)/i;
+const NOTE_COLUMN_PATTERN = /(note|evidence|comment)/i;
+const POSITIVE_VALUES = ['1', 'y', 'yes', 'true', 'x', 'present', 'positive', '✓'];
+
+const SWEEP_STEP = 0.05;
+
+interface ReferenceLabel {
+  name: string;
+  note?: string;
+}
+
+export interface ReferenceLabels {
+  layout: 'long' | 'wide';
+  idColumn: string;
+  // normalised patient id -> normalised comorbidity name -> label
+  patients: Map<string, Map<string, ReferenceLabel>>;
+  displayIds: Map<string, string>;
+}
+
+interface Prediction {
+  name: string;
+  confidence: number;
+  excerpts: string[];
+}
+
+const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function confusionMetrics(comorbidity: string, tp: number, fp: number, fn: number, tn: number): ConfusionMetrics {
+  return {
+    comorbidity,
+    true_positives: tp,
+    false_positives: fp,
+    false_negatives: fn,
+    true_negatives: tn,
+    sensitivity: ratio(tp, tp + fn),
+    specificity: ratio(tn, tn + fp),
+    ppv: ratio(tp, tp + fp),
+    f1: ratio(2 * tp, 2 * tp + fp + fn)
+  };
+}
+
+/**
+ * Reads reference rows in either layout:
+ * - long: one row per patient/comorbidity pair, with a "Comorbidity" (or Condition/Diagnosis) column
+ * - wide: one row per patient, one column per comorbidity marked 1/yes/x for present
+ * Every patient listed is treated as fully labelled, so anything not marked present is a negative.
+ */
+/** The column that identifies patients: the one named, else the first that looks like an ID. */
+export function referenceIdColumn(columns: string[], idColumn?: string): string | undefined {
+  return idColumn && columns.includes(idColumn)
+    ? idColumn
+    : columns.find(column => ID_COLUMN_PATTERN.test(column)) || columns[0];
+}
+
+export function parseReferenceRows(rows: Record<string, any>[], idColumn?: string): ReferenceLabels {
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const patientIdColumn = referenceIdColumn(columns, idColumn);
+
+  if (!patientIdColumn) {
+    throw new Error('The reference sheet has no columns');
+  }
+
+  const comorbidityColumn = columns.find(column => column !== patientIdColumn && COMORBIDITY_COLUMN_PATTERN.test(column));
+  const noteColumn = columns.find(column => column !== patientIdColumn && NOTE_COLUMN_PATTERN.test(column));
+  const layout: 'long' | 'wide' = comorbidityColumn ? 'long' : 'wide';
+
+  const patients = new Map<string, Map<string, ReferenceLabel>>();
+  const displayIds = new Map<string, string>();
+
+  rows.forEach(row => {
+    const patientId = normalize(row[patientIdColumn]);
+    if (!patientId) return;
+
+    displayIds.set(patientId, String(row[patientIdColumn]).trim());
+    const labels = patients.get(patientId) || new Map<string, ReferenceLabel>();
+    patients.set(patientId, labels);
+
+    if (layout === 'long') {
+      const name = String(row[comorbidityColumn as string] ?? '').trim();
+      if (name) {
+        labels.set(normalize(name), { name, note: noteColumn ? String(row[noteColumn] ?? '').trim() || undefined : undefined });
+      }
+      return;
+    }
+
+    columns
+      .filter(column => column !== patientIdColumn && column !== noteColumn)
+      .forEach(column => {
+        if (POSITIVE_VALUES.includes(normalize(row[column]))) {
+          labels.set(normalize(column), { name: column.trim() });
+        }
+      });
+  });
+
+  return { layout, idColumn: patientIdColumn, patients, displayIds };
+}
+
+// Linked jobs identify patients by their linkage key; otherwise by source row number
+function jobPatientId(patient: any): string {
+  return normalize(patient.patient_key ?? patient.patient_id);
+}
+
+/**
+ * Row numbers are only unique within a file, so a job with several unlinked files cannot be
+ * matched to a reference sheet until its patients are linked.
+ */
+export function needsLinkage(jobData: { patient_summaries?: any[] }): boolean {
+  const unlinkedFiles = new Set((jobData.patient_summaries || [])
+    .filter(patient => patient.patient_key == null)
+    .map(patient => patient.file_name || ''));
+  return unlinkedFiles.size > 1;
+}
+
+function collectPredictions(patient: any, matches: any[]): Map<string, Prediction> {
+  const predictions = new Map<string, Prediction>();
+  const patientMatches = matchesForPatient(patient, matches);
+
+  patientMatches.forEach(match => {
+    const key = normalize(match.comorbidity_name);
+    if (!key) return;
+    const existing = predictions.get(key) || { name: String(match.comorbidity_name).trim(), confidence: 0, excerpts: [] };
+    existing.confidence = Math.max(existing.confidence, Number(match.confidence) || 0);
+    if (match.excerpt && !existing.excerpts.includes(match.excerpt)) {
+      existing.excerpts.push(match.excerpt);
+    }
+    predictions.set(key, existing);
+  });
+
+  // Older jobs may only report concerns on the summary, without per-match confidence
+  if (patientMatches.length === 0) {
+    (patient.primary_concerns || []).forEach((concern: string) => {
+      const key = normalize(concern);
+      if (key && !predictions.has(key)) {
+        predictions.set(key, { name: String(concern).trim(), confidence: patient.highest_confidence || 0, excerpts: [] });
+      }
+    });
+  }
+
+  return predictions;
+}
+
+export function evaluateAgainstReference(
+  jobId: string,
+  jobData: { patient_summaries?: any[]; matches?: any[] },
+  reference: ReferenceLabels,
+  confidenceThreshold: number = 0
+): GoldStandardReport {
+  const jobPatients = new Map<string, Map<string, Prediction>>();
+  (jobData.patient_summaries || []).forEach(patient => {
+    jobPatients.set(jobPatientId(patient), collectPredictions(patient, jobData.matches || []));
+  });
+
+  const evaluatedIds = Array.from(reference.patients.keys()).filter(id => jobPatients.has(id));
+  const unmatchedReferenceIds = Array.from(reference.patients.keys())
+    .filter(id => !jobPatients.has(id))
+    .map(id => reference.displayIds.get(id) || id);
+
+  const comorbidityNames = new Map<string, string>();
+  evaluatedIds.forEach(id => {
+    reference.patients.get(id)!.forEach((label, key) => comorbidityNames.set(key, comorbidityNames.get(key) || label.name));
+    jobPatients.get(id)!.forEach((prediction, key) => comorbidityNames.set(key, comorbidityNames.get(key) || prediction.name));
+  });
+
+  const score = (threshold: number) => {
+    const perComorbidity = Array.from(comorbidityNames.entries()).map(([key, name]) => {
+      let tp = 0, fp = 0, fn = 0, tn = 0;
+      evaluatedIds.forEach(id => {
+        const actual = reference.patients.get(id)!.has(key);
+        const prediction = jobPatients.get(id)!.get(key);
+        const predicted = Boolean(prediction && prediction.confidence >= threshold);
+        if (actual && predicted) tp++;
+        else if (!actual && predicted) fp++;
+        else if (actual && !predicted) fn++;
+        else tn++;
+      });
+      return confusionMetrics(name, tp, fp, fn, tn);
+    });
+
+    const total = perComorbidity.reduce(
+      (sum, m) => ({
+        tp: sum.tp + m.true_positives,
+        fp: sum.fp + m.false_positives,
+        fn: sum.fn + m.false_negatives,
+        tn: sum.tn + m.true_negatives
+      }),
+      { tp: 0, fp: 0, fn: 0, tn: 0 }
+    );
+
+    return { perComorbidity, overall: confusionMetrics('All comorbidities', total.tp, total.fp, total.fn, total.tn) };
+  };
+
+  const { perComorbidity, overall } = score(confidenceThreshold);
+
+  const falsePositives: ValidationDiscrepancy[] = [];
+  const falseNegatives: ValidationDiscrepancy[] = [];
+  evaluatedIds.forEach(id => {
+    const labels = reference.patients.get(id)!;
+    const predictions = jobPatients.get(id)!;
+    const displayId = reference.displayIds.get(id) || id;
+
+    predictions.forEach((prediction, key) => {
+      if (prediction.confidence >= confidenceThreshold && !labels.has(key)) {
+        falsePositives.push({ patient_id: displayId, comorbidity: prediction.name, confidence: prediction.confidence, excerpts: prediction.excerpts });
+      }
+    });
+    labels.forEach((label, key) => {
+      const prediction = predictions.get(key);
+      if (!prediction || prediction.confidence < confidenceThreshold) {
+        falseNegatives.push({
+          patient_id: displayId,
+          comorbidity: label.name,
+          // A below-threshold match is still useful context for a missed finding
+          confidence: prediction ? prediction.confidence : null,
+          excerpts: prediction ? prediction.excerpts : [],
+          reference_note: label.note
+        });
+      }
+    });
+  });
+
+  const thresholdSweep: ThresholdSweepPoint[] = [];
+  for (let step = 0; step * SWEEP_STEP < 1; step++) {
+    const threshold = Math.round(step * SWEEP_STEP * 100) / 100;
+    const { overall: sweepOverall } = score(threshold);
+    thresholdSweep.push({ threshold, sensitivity: sweepOverall.sensitivity, ppv: sweepOverall.ppv, f1: sweepOverall.f1 });
+  }
+
+  const best = thresholdSweep
+    .filter(point => point.f1 !== null)
+    .reduce<ThresholdSweepPoint | null>((top, point) => (!top || (point.f1 as number) > (top.f1 as number) ? point : top), null);
+
+  return {
+    job_id: jobId,
+    confidence_threshold: confidenceThreshold,
+    reference_layout: reference.layout,
+    patient_id_column: reference.idColumn,
+    evaluated_patients: evaluatedIds.length,
+    unmatched_reference_ids: unmatchedReferenceIds,
+    overall,
+    per_comorbidity: perComorbidity.sort((a, b) => a.comorbidity.localeCompare(b.comorbidity)),
+    false_positives: falsePositives,
+    false_negatives: falseNegatives,
+    threshold_sweep: thresholdSweep,
+    best_threshold: best ? best.threshold : null
+  };
+}